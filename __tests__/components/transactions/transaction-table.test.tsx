@@ -1,6 +1,29 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
 import { TransactionTable } from '@/components/transactions/transaction-table';
-import { TransactionWithDetails } from '@/lib/db/types';
+import { loadTransactionPage } from '@/lib/actions/transactions';
+import { TransactionPage, TransactionWithDetails } from '@/lib/db/types';
+
+const router: Pick<ReturnType<typeof useRouter>, 'push' | 'replace'> = {
+  push: vi.fn(),
+  replace: vi.fn(),
+};
+let searchParams = new URLSearchParams();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => router,
+  usePathname: () => '/accounts/1',
+  useSearchParams: () => searchParams,
+}));
+
+vi.mock('@/lib/actions/transactions', () => ({
+  deleteTransaction: vi.fn(),
+  loadTransactionPage: vi.fn(),
+}));
+
+function page(transactions: TransactionWithDetails[], overrides: Partial<TransactionPage> = {}): TransactionPage {
+  return { transactions, total: transactions.length, nextCursor: null, ...overrides };
+}
 
 describe('TransactionTable', () => {
   const mockTransactions: TransactionWithDetails[] = [
@@ -17,6 +40,7 @@ describe('TransactionTable', () => {
       ofx_fitid: null,
       ofx_memo: null,
       ofx_refnum: null,
+      import_batch_id: null,
       account_name: 'Test Account',
       category_name: 'Test Category',
       category_path: 'Test Category',
@@ -25,10 +49,17 @@ describe('TransactionTable', () => {
 
   const mockOnEdit = vi.fn();
 
+  beforeEach(() => {
+    vi.clearAllMocks();
+    searchParams = new URLSearchParams();
+  });
+
   it('renders transaction date as formatted string', () => {
     render(
       <TransactionTable
-        transactions={mockTransactions}
+        page={page(mockTransactions)}
+        pageSize={50}
+        query={{}}
         onEdit={mockOnEdit}
       />
     );
@@ -43,13 +74,15 @@ describe('TransactionTable', () => {
     const transactionsWithDateObject = [
       {
         ...mockTransactions[0],
-        date: testDate as any, // Simulating what PostgreSQL driver returns
+        date: testDate as unknown as string, // Simulating what PostgreSQL driver returns
       },
     ];
 
     render(
       <TransactionTable
-        transactions={transactionsWithDateObject}
+        page={page(transactionsWithDateObject)}
+        pageSize={50}
+        query={{}}
         onEdit={mockOnEdit}
       />
     );
@@ -65,9 +98,172 @@ describe('TransactionTable', () => {
 
   it('renders empty state when no transactions', () => {
     render(
-      <TransactionTable transactions={[]} onEdit={mockOnEdit} />
+      <TransactionTable page={page([])} pageSize={50} query={{}} onEdit={mockOnEdit} />
     );
 
     expect(screen.getByText('No transactions yet')).toBeInTheDocument();
   });
+
+  it('renders a filtered empty state', () => {
+    render(
+      <TransactionTable page={page([])} pageSize={50} query={{ accountId: 1, search: 'refund' }} onEdit={mockOnEdit} />
+    );
+
+    expect(screen.getByText('No matching transactions')).toBeInTheDocument();
+  });
+
+  it('shows how many of the total are loaded', () => {
+    render(
+      <TransactionTable
+        page={page(mockTransactions, { total: 120, nextCursor: 'next' })}
+        pageSize={50}
+        query={{}}
+        onEdit={mockOnEdit}
+      />
+    );
+
+    expect(screen.getByText('1 of 120 transactions')).toBeInTheDocument();
+  });
+
+  it('appends the next page when loading more', async () => {
+    const older = { ...mockTransactions[0], id: 2, date: '2024-01-10', payee: 'Older Payee' };
+    vi.mocked(loadTransactionPage).mockResolvedValue({
+      success: true,
+      page: page([older], { total: 2 }),
+    });
+
+    render(
+      <TransactionTable
+        page={page(mockTransactions, { total: 2, nextCursor: 'next' })}
+        pageSize={25}
+        query={{ accountId: 1, payee: 'Shop' }}
+        onEdit={mockOnEdit}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+    expect(await screen.findByText('Older Payee')).toBeInTheDocument();
+    expect(screen.getByText('Test Payee')).toBeInTheDocument();
+    expect(loadTransactionPage).toHaveBeenCalledWith({
+      accountId: 1,
+      payee: 'Shop',
+      size: 25,
+      after: 'next',
+    });
+    await waitFor(() => {
+      expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+    });
+    expect(router.replace).toHaveBeenCalledWith('/accounts/1?after=next', { scroll: false });
+  });
+
+  it('keeps loaded rows when the server renders the cursor it wrote', async () => {
+    const older = { ...mockTransactions[0], id: 2, date: '2024-01-10', payee: 'Older Payee' };
+    vi.mocked(loadTransactionPage).mockResolvedValue({
+      success: true,
+      page: page([older], { total: 2 }),
+    });
+
+    const { rerender } = render(
+      <TransactionTable
+        page={page(mockTransactions, { total: 2, nextCursor: 'next' })}
+        pageSize={25}
+        query={{}}
+        onEdit={mockOnEdit}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+    await screen.findByText('Older Payee');
+
+    searchParams = new URLSearchParams('after=next');
+    rerender(
+      <TransactionTable page={page([older], { total: 2 })} pageSize={25} query={{}} onEdit={mockOnEdit} />
+    );
+
+    expect(screen.getByText('Test Payee')).toBeInTheDocument();
+    expect(screen.getByText('Older Payee')).toBeInTheDocument();
+  });
+
+  it('steps through pages with next and previous', () => {
+    const older = { ...mockTransactions[0], id: 2, date: '2024-01-10', payee: 'Older Payee' };
+    searchParams = new URLSearchParams('size=25');
+
+    const { rerender } = render(
+      <TransactionTable
+        page={page(mockTransactions, { total: 2, nextCursor: 'next' })}
+        pageSize={25}
+        query={{}}
+        onEdit={mockOnEdit}
+      />
+    );
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(router.push).toHaveBeenCalledWith('/accounts/1?size=25&after=next');
+
+    searchParams = new URLSearchParams('size=25&after=next');
+    rerender(
+      <TransactionTable page={page([older], { total: 2 })} pageSize={25} query={{}} onEdit={mockOnEdit} />
+    );
+    expect(screen.queryByText('Test Payee')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Previous' }));
+
+    expect(router.push).toHaveBeenLastCalledWith('/accounts/1?size=25');
+  });
+
+  it('cannot step back from a shared link', () => {
+    searchParams = new URLSearchParams('after=abc');
+
+    render(
+      <TransactionTable
+        page={page(mockTransactions, { total: 120, nextCursor: 'next' })}
+        pageSize={50}
+        query={{}}
+        onEdit={mockOnEdit}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Back to newest' })).toBeInTheDocument();
+  });
+
+  it('goes back to the newest transactions by dropping the cursor', () => {
+    searchParams = new URLSearchParams('size=100&after=abc');
+
+    render(
+      <TransactionTable page={page([])} pageSize={100} query={{}} onEdit={mockOnEdit} />
+    );
+    expect(screen.getByText('No older transactions')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Back to newest' }));
+
+    expect(router.push).toHaveBeenCalledWith('/accounts/1?size=100', { scroll: false });
+  });
+
+  it('sorts by a column from its header', () => {
+    searchParams = new URLSearchParams('payee=shop&after=abc');
+
+    render(
+      <TransactionTable page={page(mockTransactions)} pageSize={50} query={{ payee: 'shop' }} onEdit={mockOnEdit} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Amount' }));
+
+    expect(router.push).toHaveBeenCalledWith('/accounts/1?payee=shop&sort=amount&order=asc', { scroll: false });
+  });
+
+  it('reverses the current sort', () => {
+    render(
+      <TransactionTable page={page(mockTransactions)} pageSize={50} query={{}} onEdit={mockOnEdit} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Date' }));
+
+    expect(router.push).toHaveBeenCalledWith('/accounts/1?sort=date&order=asc', { scroll: false });
+  });
+
+  it('shows the account column across accounts', () => {
+    render(
+      <TransactionTable page={page(mockTransactions)} pageSize={50} query={{}} showAccount onEdit={mockOnEdit} />
+    );
+
+    expect(screen.getByRole('button', { name: 'Account' })).toBeInTheDocument();
+    expect(screen.getByText('Test Account')).toBeInTheDocument();
+  });
 });
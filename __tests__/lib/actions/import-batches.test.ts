@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rollbackImportBatch } from '@/lib/actions/import-batches';
+
+const client = { query: vi.fn() };
+
+vi.mock('@/lib/db', () => ({
+  withTransaction: vi.fn((callback: (c: typeof client) => Promise<unknown>) => callback(client)),
+}));
+
+vi.mock('@/lib/auth/session', () => ({
+  requireAuth: vi.fn(),
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}));
+
+describe('rollbackImportBatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should claim the batch before deleting its transactions and checkpoint', async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ account_id: 4 }] }).mockResolvedValue({ rows: [] });
+
+    expect(await rollbackImportBatch(7)).toEqual({ success: true });
+
+    const statements = client.query.mock.calls.map(([sql]) => sql as string);
+    expect(statements[0]).toContain('WHERE id = $1 AND rolled_back_at IS NULL');
+    expect(statements[1]).toBe('DELETE FROM transactions WHERE import_batch_id = $1');
+    expect(statements[2]).toBe('DELETE FROM account_balance_checkpoints WHERE import_batch_id = $1');
+    const { revalidatePath } = await import('next/cache');
+    expect(revalidatePath).toHaveBeenCalledWith('/accounts/4');
+  });
+
+  it('should leave a batch another rollback claimed alone', async () => {
+    client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+    expect(await rollbackImportBatch(7)).toEqual({
+      success: false,
+      error: 'Import batch was already rolled back',
+    });
+    expect(client.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a missing batch', async () => {
+    client.query.mockResolvedValue({ rows: [] });
+
+    expect(await rollbackImportBatch(99)).toEqual({ success: false, error: 'Import batch not found' });
+  });
+});
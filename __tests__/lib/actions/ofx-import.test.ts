@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { importCsvUpload, parseCsvUpload } from '@/lib/actions/ofx-import';
+import { importStatements } from '@/lib/import/statements';
+import { CsvMapping } from '@/lib/csv/types';
+
+vi.mock('@/lib/import/statements', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/import/statements')>()),
+  importStatements: vi.fn(),
+}));
+
+vi.mock('@/lib/db/payee-rules', () => ({
+  getAllPayeeRules: vi.fn(),
+}));
+
+vi.mock('@/lib/db/transactions', () => ({
+  getManualTransactionsInRange: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/session', () => ({
+  requireAuth: vi.fn().mockResolvedValue({ userId: 1 }),
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}));
+
+const mapping: CsvMapping = {
+  delimiter: ',',
+  has_header: true,
+  date_column: 0,
+  date_format: 'YYYY-MM-DD',
+  amount_column: 2,
+  debit_column: null,
+  credit_column: null,
+  payee_column: 1,
+  memo_column: null,
+  decimal_separator: '.',
+};
+
+const csv = 'Date,Payee,Amount\n2024-01-15,Bakery,-12.50\n2024-01-16,Salary,3000.00\n';
+
+function upload(fields: Record<string, unknown>) {
+  const formData = new FormData();
+  formData.set('file', new File([csv], 'bank.csv', { type: 'text/csv' }));
+  for (const [key, value] of Object.entries(fields)) {
+    formData.set(key, JSON.stringify(value));
+  }
+  return formData;
+}
+
+describe('CSV upload actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should parse the uploaded file with the mapping', async () => {
+    const result = await parseCsvUpload(upload({ mapping }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.transactions.map((tx) => [tx.date, tx.payee, tx.amount])).toEqual([
+      ['2024-01-15', 'Bakery', -12.5],
+      ['2024-01-16', 'Salary', 3000],
+    ]);
+  });
+
+  it('should reject a mapping without an amount column', async () => {
+    const result = await parseCsvUpload(upload({ mapping: { ...mapping, amount_column: null } }));
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Select an amount column or debit/credit columns',
+    });
+  });
+
+  it('should import only the picked rows of the uploaded file', async () => {
+    const parsed = await parseCsvUpload(upload({ mapping }));
+    if (!parsed.success) throw new Error(parsed.error);
+    vi.mocked(importStatements).mockResolvedValue({
+      imported: 1,
+      merged: 0,
+      skipped: 0,
+      errors: [],
+      batchIds: [9],
+      reconciliations: [],
+    });
+
+    await importCsvUpload(
+      upload({
+        mapping,
+        selection: { accountId: 3, fitids: [parsed.transactions[1].fitid, 'forged'] },
+      })
+    );
+
+    const [statements, options] = vi.mocked(importStatements).mock.calls[0];
+    expect(statements).toHaveLength(1);
+    expect(statements[0].accountId).toBe(3);
+    expect(statements[0].transactions).toEqual([parsed.transactions[1]]);
+    expect(options).toEqual({ fileName: 'bank.csv', userId: 1 });
+  });
+
+  it('should not import without a valid selection', async () => {
+    const result = await importCsvUpload(upload({ mapping, selection: { fitids: [] } }));
+
+    expect(result.errors).toEqual(['Invalid import selection']);
+    expect(importStatements).not.toHaveBeenCalled();
+  });
+});
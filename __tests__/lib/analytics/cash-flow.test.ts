@@ -3,6 +3,7 @@ import {
   getAccountSummary,
   getMonthlyCashFlow,
   getCategoryBreakdown,
+  getCategoryTotals,
 } from '@/lib/analytics/cash-flow';
 import {
   mockAccountSummary,
@@ -337,4 +338,34 @@ describe('Cash Flow Analytics', () => {
       );
     });
   });
+
+  describe('getCategoryTotals', () => {
+    it('should sum signed amounts per category over the range', async () => {
+      const { queryMany } = await import('@/lib/db');
+      const totals = [
+        { category_id: 2, category_path: 'Salary', category_type: 'income', amount: '5000.00' },
+        { category_id: null, category_path: 'Uncategorized', category_type: null, amount: '-12.00' },
+      ];
+      vi.mocked(queryMany).mockResolvedValue(totals);
+
+      const result = await getCategoryTotals('2024-01-01', '2024-01-31');
+
+      expect(result).toEqual(totals);
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain('SUM(t.amount)');
+      expect(sql).not.toContain('ABS');
+      expect(params).toEqual(['2024-01-01', '2024-01-31']);
+    });
+
+    it('should narrow to one account', async () => {
+      const { queryMany } = await import('@/lib/db');
+      vi.mocked(queryMany).mockResolvedValue([]);
+
+      await getCategoryTotals('2024-01-01', '2024-12-31', 3);
+
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain('t.account_id = $3');
+      expect(params).toEqual(['2024-01-01', '2024-12-31', 3]);
+    });
+  });
 });
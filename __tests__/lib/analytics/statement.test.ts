@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getStatement, statementPeriod } from '@/lib/analytics/statement';
+import { getCategoryTotals } from '@/lib/analytics/cash-flow';
+import { getAccountBalancesBefore, getAccountById, getAllAccounts } from '@/lib/db/accounts';
+import { getTransactionsForExport } from '@/lib/db/transactions';
+import { TransactionWithDetails } from '@/lib/db/types';
+import { mockAccount, mockTransactionWithDetails } from '../utils/mocks';
+
+vi.mock('@/lib/db/accounts', () => ({
+  getAccountById: vi.fn(),
+  getAllAccounts: vi.fn(),
+  getAccountBalancesBefore: vi.fn(),
+}));
+vi.mock('@/lib/db/transactions', () => ({
+  getTransactionsForExport: vi.fn(),
+}));
+vi.mock('@/lib/analytics/cash-flow', () => ({
+  getCategoryTotals: vi.fn(),
+}));
+
+const checking = { ...mockAccount, id: 1, name: 'Checking' };
+const savings = { ...mockAccount, id: 2, name: 'Savings' };
+const unused = { ...mockAccount, id: 3, name: 'Closed' };
+
+function tx(amount: string): TransactionWithDetails {
+  return {
+    ...mockTransactionWithDetails,
+    account_id: 1,
+    amount,
+    ofx_fitid: null,
+    ofx_memo: null,
+    ofx_refnum: null,
+    import_batch_id: null,
+  };
+}
+
+describe('statementPeriod', () => {
+  it('should cover a whole month', () => {
+    expect(statementPeriod('2024-02')).toEqual({ start: '2024-02-01', end: '2024-02-29', label: 'February 2024' });
+    expect(statementPeriod('2023-12')).toEqual({ start: '2023-12-01', end: '2023-12-31', label: 'December 2023' });
+  });
+
+  it('should cover a whole year', () => {
+    expect(statementPeriod('2024')).toEqual({ start: '2024-01-01', end: '2024-12-31', label: '2024' });
+  });
+});
+
+describe('getStatement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAllAccounts).mockResolvedValue([checking, savings, unused]);
+    vi.mocked(getAccountById).mockResolvedValue(checking);
+    vi.mocked(getAccountBalancesBefore).mockResolvedValue([
+      { account_id: 1, balance: '100.00' },
+      { account_id: 2, balance: '250.50' },
+    ]);
+    vi.mocked(getTransactionsForExport).mockResolvedValue([tx('-40.10'), tx('20.20')]);
+    vi.mocked(getCategoryTotals).mockResolvedValue([]);
+  });
+
+  it('should carry opening balances to closing balances', async () => {
+    const statement = await getStatement('2024-03');
+
+    expect(getTransactionsForExport).toHaveBeenCalledWith({
+      accountId: undefined,
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+    });
+    expect(getAccountBalancesBefore).toHaveBeenCalledWith('2024-03-01', undefined);
+    expect(getCategoryTotals).toHaveBeenCalledWith('2024-03-01', '2024-03-31', undefined);
+    expect(statement?.consolidated).toBe(true);
+    expect(statement?.accounts.map((a) => [a.account.name, a.opening, a.closing])).toEqual([
+      ['Checking', '100.00', '80.10'],
+      ['Savings', '250.50', '250.50'],
+    ]);
+  });
+
+  it('should report on a single account', async () => {
+    const statement = await getStatement('2024', 1);
+
+    expect(getAccountBalancesBefore).toHaveBeenCalledWith('2024-01-01', 1);
+    expect(statement?.consolidated).toBe(false);
+    expect(statement?.accounts).toHaveLength(1);
+  });
+
+  it('should return null for an unknown account', async () => {
+    vi.mocked(getAccountById).mockResolvedValue(null);
+
+    expect(await getStatement('2024', 9)).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { backupFileName, createBackup, encodeBackup } from '@/lib/backup/export';
+import { decodeBackup } from '@/lib/backup/restore';
+import { queryMany } from '@/lib/db';
+import { readZip } from '@/lib/export/zip';
+
+vi.mock('@/lib/db', () => ({
+  queryMany: vi.fn(),
+  withTransaction: vi.fn(),
+}));
+
+const account = {
+  id: 3,
+  name: 'Checking',
+  ofx_bank_id: '0341',
+  ofx_account_id: '12345-6',
+  ofx_account_type: 'CHECKING',
+  created_at: '2024-01-01 10:00:00',
+};
+const category = {
+  id: 7,
+  name: 'Groceries',
+  parent_id: null,
+  category_type: 'expense' as const,
+  depth: 1,
+  created_at: null,
+};
+const transaction = {
+  account_id: 3,
+  date: '2024-02-10',
+  payee: 'Market',
+  category_id: 7,
+  amount: '-42.10',
+  comment: null,
+  ofx_fitid: 'F1',
+  ofx_memo: 'MARKET 123',
+  ofx_refnum: null,
+  created_at: '2024-02-11 08:00:00',
+  updated_at: '2024-02-11 08:00:00',
+};
+const savedSearch = {
+  name: 'Groceries this year',
+  query: 'accountId=3&categoryId=7&startDate=2024-01-01',
+  pinned: true,
+};
+
+describe('createBackup', () => {
+  beforeEach(() => {
+    vi.mocked(queryMany).mockReset();
+    vi.mocked(queryMany).mockImplementation(async (text: string) => {
+      if (text.includes('FROM accounts')) return [account];
+      if (text.includes('FROM categories')) return [category];
+      if (text.includes('FROM transactions')) return [transaction];
+      if (text.includes('FROM saved_searches')) return [savedSearch];
+      return [];
+    });
+  });
+
+  it('should collect every table into a versioned document', async () => {
+    const backup = await createBackup();
+
+    expect(backup).toMatchObject({
+      format: 'ledger-backup',
+      version: 1,
+      accounts: [account],
+      categories: [category],
+      transactions: [transaction],
+      payee_rules: [],
+      category_rules: [],
+      csv_import_profiles: [],
+      saved_searches: [savedSearch],
+    });
+  });
+
+  it('should read amounts and dates as text and parents before children', async () => {
+    await createBackup();
+
+    const queries = vi.mocked(queryMany).mock.calls.map(([text]) => text);
+    expect(queries.find((q) => q.includes('FROM transactions'))).toContain('amount::text');
+    expect(queries.find((q) => q.includes('FROM transactions'))).toContain('date::text');
+    expect(queries.find((q) => q.includes('FROM categories'))).toContain('ORDER BY depth');
+  });
+});
+
+describe('encodeBackup', () => {
+  it('should decode back to the same backup from JSON and zip', async () => {
+    vi.mocked(queryMany).mockImplementation(async (text: string) => {
+      if (text.includes('FROM accounts')) return [account];
+      if (text.includes('FROM categories')) return [category];
+      if (text.includes('FROM transactions')) return [transaction];
+      if (text.includes('FROM saved_searches')) return [savedSearch];
+      return [];
+    });
+    const backup = await createBackup();
+
+    expect(decodeBackup(encodeBackup(backup, 'json'))).toEqual(backup);
+    expect(decodeBackup(encodeBackup(backup, 'zip'))).toEqual(backup);
+  });
+
+  it('should store the JSON as ledger.json in the zip', () => {
+    const zip = encodeBackup(
+      {
+        format: 'ledger-backup',
+        version: 1,
+        exported_at: '2024-06-30T12:00:00.000Z',
+        accounts: [],
+        categories: [],
+        transactions: [],
+        payee_rules: [],
+        category_rules: [],
+        csv_import_profiles: [],
+        saved_searches: [],
+      },
+      'zip'
+    );
+
+    expect(readZip(zip).map((e) => e.name)).toEqual(['ledger.json']);
+  });
+});
+
+describe('backupFileName', () => {
+  it('should include the date and encoding', () => {
+    const date = new Date('2024-06-30T12:00:00Z');
+    expect(backupFileName('json', date)).toBe('ledger-backup-2024-06-30.json');
+    expect(backupFileName('zip', date)).toBe('ledger-backup-2024-06-30.zip');
+  });
+});
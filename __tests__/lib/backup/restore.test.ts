@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackupError, decodeBackup, restoreBackup } from '@/lib/backup/restore';
+import { createZip } from '@/lib/export/zip';
+import { LedgerBackup } from '@/lib/validations/backup';
+
+const client = { query: vi.fn() };
+
+vi.mock('@/lib/db', () => ({
+  withTransaction: vi.fn((callback: (c: typeof client) => Promise<unknown>) => callback(client)),
+}));
+
+function makeBackup(overrides: Partial<LedgerBackup> = {}): LedgerBackup {
+  return {
+    format: 'ledger-backup',
+    version: 1,
+    exported_at: '2024-06-30T12:00:00.000Z',
+    accounts: [
+      {
+        id: 10,
+        name: 'Checking',
+        ofx_bank_id: '0341',
+        ofx_account_id: '12345-6',
+        ofx_account_type: 'CHECKING',
+        created_at: null,
+      },
+    ],
+    categories: [
+      { id: 20, name: 'Food', parent_id: null, category_type: 'expense', depth: 1, created_at: null },
+      { id: 21, name: 'Groceries', parent_id: 20, category_type: 'expense', depth: 2, created_at: null },
+    ],
+    transactions: [
+      {
+        account_id: 10,
+        date: '2024-02-10',
+        payee: 'Market',
+        category_id: 21,
+        amount: '-42.10',
+        comment: null,
+        ofx_fitid: 'F1',
+        ofx_memo: null,
+        ofx_refnum: null,
+        created_at: null,
+        updated_at: null,
+      },
+      {
+        account_id: 10,
+        date: '2024-02-12',
+        payee: 'Cash',
+        category_id: null,
+        amount: '-20.00',
+        comment: 'Hand-entered',
+        ofx_fitid: null,
+        ofx_memo: null,
+        ofx_refnum: null,
+        created_at: null,
+        updated_at: null,
+      },
+    ],
+    payee_rules: [],
+    category_rules: [
+      {
+        name: 'Market',
+        payee_match_type: 'contains',
+        payee_pattern: 'market',
+        amount_min: null,
+        amount_max: null,
+        account_id: 10,
+        category_id: 21,
+        rename_payee: null,
+        position: 0,
+        enabled: true,
+      },
+    ],
+    csv_import_profiles: [],
+    saved_searches: [],
+    ...overrides,
+  };
+}
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+describe('decodeBackup', () => {
+  it('should read plain and zipped JSON', () => {
+    const backup = makeBackup();
+
+    expect(decodeBackup(encode(backup))).toEqual(backup);
+    expect(decodeBackup(createZip([{ name: 'ledger.json', data: JSON.stringify(backup) }]))).toEqual(backup);
+  });
+
+  it('should default missing rule and profile lists', () => {
+    const backup: Partial<LedgerBackup> = makeBackup();
+    delete backup.payee_rules;
+    delete backup.category_rules;
+    delete backup.csv_import_profiles;
+    delete backup.saved_searches;
+
+    const decoded = decodeBackup(encode(backup));
+
+    expect(decoded.payee_rules).toEqual([]);
+    expect(decoded.category_rules).toEqual([]);
+    expect(decoded.csv_import_profiles).toEqual([]);
+    expect(decoded.saved_searches).toEqual([]);
+  });
+
+  it('should reject files that are not ledger backups', () => {
+    expect(() => decodeBackup(new TextEncoder().encode('not json'))).toThrow(BackupError);
+    expect(() => decodeBackup(encode({ format: 'other' }))).toThrow('Not a ledger backup');
+    expect(() => decodeBackup(createZip([{ name: 'readme.txt', data: 'hi' }]))).toThrow(
+      'does not contain ledger.json'
+    );
+  });
+
+  it('should reject broken references', () => {
+    const backup = makeBackup();
+
+    expect(() =>
+      decodeBackup(encode({ ...backup, categories: [backup.categories[1]] }))
+    ).toThrow('Category "Groceries" has a missing parent');
+    expect(() =>
+      decodeBackup(
+        encode({ ...backup, categories: [backup.categories[0], { ...backup.categories[1], depth: 3 }] })
+      )
+    ).toThrow('inconsistent depth');
+    expect(() =>
+      decodeBackup(encode({ ...backup, transactions: [{ ...backup.transactions[0], account_id: 99 }] }))
+    ).toThrow('belongs to a missing account');
+  });
+});
+
+interface DatabaseState {
+  transactions?: number;
+  accounts?: { id: number; name: string; ofx_bank_id: string | null; ofx_account_id: string | null }[];
+  categories?: { id: number; name: string; parent_id: number | null; category_type: string }[];
+  inserted?: number;
+}
+
+function mockDatabase(state: DatabaseState = {}) {
+  let nextId = 100;
+  client.query.mockImplementation(async (text: string) => {
+    if (text.includes('COUNT(*)')) return { rows: [{ count: String(state.transactions ?? 0) }], rowCount: 1 };
+    if (text.startsWith('SELECT id, name, ofx_bank_id')) return { rows: state.accounts ?? [], rowCount: 0 };
+    if (text.startsWith('SELECT id, name, parent_id')) return { rows: state.categories ?? [], rowCount: 0 };
+    if (text.includes('MAX(position)')) return { rows: [{ next: 0 }], rowCount: 1 };
+    if (text.includes('RETURNING id')) return { rows: [{ id: nextId++ }], rowCount: 1 };
+    if (text.includes('INSERT INTO transactions')) return { rows: [], rowCount: state.inserted ?? 2 };
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+const callsTo = (fragment: string) =>
+  client.query.mock.calls.filter(([text]) => (text as string).includes(fragment));
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    client.query.mockReset();
+  });
+
+  it('should clear the seeded defaults before restoring into an empty ledger', async () => {
+    mockDatabase();
+
+    const report = await restoreBackup(makeBackup(), 'empty');
+
+    expect(callsTo('DELETE FROM accounts')).toHaveLength(1);
+    expect(callsTo('DELETE FROM categories')).toHaveLength(1);
+    expect(report.accounts).toEqual({ created: 1, matched: 0 });
+    expect(report.categories).toEqual({ created: 2, matched: 0 });
+    expect(report.transactions).toEqual({ imported: 2, skipped: 0 });
+    expect(report.categoryRules).toEqual({ created: 1, skipped: 0 });
+  });
+
+  it('should refuse an empty restore when the ledger has transactions', async () => {
+    mockDatabase({ transactions: 5 });
+
+    await expect(restoreBackup(makeBackup(), 'empty')).rejects.toThrow(BackupError);
+    expect(callsTo('DELETE FROM')).toHaveLength(0);
+  });
+
+  it('should remap IDs and keep the category hierarchy', async () => {
+    mockDatabase();
+
+    await restoreBackup(makeBackup(), 'empty');
+
+    // Account 10 becomes 100, Food 20 becomes 101, Groceries 21 becomes 102
+    const [food, groceries] = callsTo('INSERT INTO categories');
+    expect(food[1]).toEqual(['Food', 'expense', null, 1, null]);
+    expect(groceries[1]).toEqual(['Groceries', 'expense', 101, 2, null]);
+
+    const [, params] = callsTo('INSERT INTO transactions')[0];
+    expect(params[0]).toEqual([100, 100]);
+    expect(params[3]).toEqual([102, null]);
+    expect(params[4]).toEqual(['-42.10', '-20.00']);
+    expect(params[11]).toBe(false);
+
+    const [, ruleParams] = callsTo('INSERT INTO category_rules')[0];
+    expect(ruleParams[5]).toBe(100);
+    expect(ruleParams[6]).toBe(102);
+  });
+
+  it('should merge into matching accounts and categories', async () => {
+    mockDatabase({
+      transactions: 5,
+      accounts: [{ id: 4, name: 'Main account', ofx_bank_id: '0341', ofx_account_id: '12345-6' }],
+      categories: [{ id: 8, name: 'food', parent_id: null, category_type: 'expense' }],
+      inserted: 1,
+    });
+
+    const report = await restoreBackup(makeBackup(), 'merge');
+
+    expect(callsTo('DELETE FROM')).toHaveLength(0);
+    expect(callsTo('INSERT INTO accounts')).toHaveLength(0);
+    expect(report.accounts).toEqual({ created: 0, matched: 1 });
+    expect(report.categories).toEqual({ created: 1, matched: 1 });
+    expect(callsTo('INSERT INTO categories')[0][1]).toEqual(['Groceries', 'expense', 8, 2, null]);
+
+    const [, params] = callsTo('INSERT INTO transactions')[0];
+    expect(params[0]).toEqual([4, 4]);
+    expect(params[11]).toBe(true);
+    expect(report.transactions).toEqual({ imported: 1, skipped: 1 });
+  });
+
+  it('should restore saved searches pointing at the restored rows', async () => {
+    mockDatabase();
+
+    const report = await restoreBackup(
+      makeBackup({
+        saved_searches: [
+          { name: 'Groceries', query: 'accountId=10&categoryId=21&sort=amount', pinned: true },
+          { name: 'Gone', query: 'categoryId=99&payee=x', pinned: false },
+          { name: 'Uncategorized', query: 'categoryId=none', pinned: false },
+        ],
+      }),
+      'empty'
+    );
+
+    expect(callsTo('DELETE FROM saved_searches')).toHaveLength(1);
+    expect(callsTo('INSERT INTO saved_searches').map(([, params]) => params)).toEqual([
+      ['Groceries', 'accountId=100&categoryId=102&sort=amount', true],
+      ['Gone', 'payee=x', false],
+      ['Uncategorized', 'categoryId=none', false],
+    ]);
+    expect(report.savedSearches).toEqual({ created: 3, skipped: 0 });
+  });
+
+  it('should match accounts by name when they have no bank identifiers', async () => {
+    mockDatabase({
+      accounts: [{ id: 6, name: 'CHECKING', ofx_bank_id: null, ofx_account_id: null }],
+    });
+
+    const report = await restoreBackup(makeBackup(), 'merge');
+
+    expect(report.accounts).toEqual({ created: 0, matched: 1 });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { isCamtStatement, parseCamtFile } from '@/lib/camt/parser';
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId><CreDtTm>2024-02-01T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-2024-01</Id>
+      <FrToDt><FrDtTm>2024-01-01T00:00:00</FrDtTm><ToDtTm>2024-01-31T23:59:59</ToDtTm></FrToDt>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Ccy>EUR</Ccy>
+        <Svcr><FinInstnId><BIC>COBADEFFXXX</BIC></FinInstnId></Svcr>
+      </Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-01-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">2437.50</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-01-31</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLAV</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">2400.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-01-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">62.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-01-15</Dt></BookgDt>
+        <ValDt><Dt>2024-01-14</Dt></ValDt>
+        <AcctSvcrRef>BANKREF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>Stadtwerke München</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Abschlag Januar</Ustrd><Ustrd>Kundennr 4711</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">1500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2024-01-25T09:30:00+01:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-SALARY</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>ACME GmbH</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Gehalt Januar</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-01-31</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const batch = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt><Stmt>
+    <Acct><Id><Othr><Id>123456789</Id></Othr></Id></Acct>
+    <Ntry>
+      <NtryRef>BATCH-7</NtryRef>
+      <Amt Ccy="EUR">80.00</Amt>
+      <CdtDbtInd>DBIT</CdtDbtInd>
+      <Sts><Cd>BOOK</Cd></Sts>
+      <BookgDt><Dt>2024-03-01</Dt></BookgDt>
+      <NtryDtls>
+        <TxDtls>
+          <AmtDtls><TxAmt><Amt Ccy="EUR">30.00</Amt></TxAmt></AmtDtls>
+          <RltdPties><Cdtr><Pty><Nm>Alice</Nm></Pty></Cdtr></RltdPties>
+        </TxDtls>
+        <TxDtls>
+          <AmtDtls><TxAmt><Amt Ccy="EUR">50.00</Amt></TxAmt></AmtDtls>
+          <RltdPties><Cdtr><Pty><Nm>Bob</Nm></Pty></Cdtr></RltdPties>
+        </TxDtls>
+      </NtryDtls>
+    </Ntry>
+  </Stmt></BkToCstmrStmt>
+</Document>`;
+
+describe('isCamtStatement', () => {
+  it('should recognize camt.053 documents', () => {
+    expect(isCamtStatement(camt)).toBe(true);
+    expect(isCamtStatement('<OFX><BANKMSGSRSV1>')).toBe(false);
+  });
+});
+
+describe('parseCamtFile', () => {
+  it('should read the account and statement period', async () => {
+    const [statement] = await parseCamtFile(camt);
+
+    expect(statement.statementType).toBe('BANK');
+    expect(statement.account).toEqual({
+      bankId: 'COBADEFFXXX',
+      accountId: 'DE89370400440532013000',
+      type: 'CHECKING',
+    });
+    expect(statement.dateRange).toEqual({ start: '2024-01-01', end: '2024-01-31' });
+  });
+
+  it('should map closing booked and available balances', async () => {
+    const [statement] = await parseCamtFile(camt);
+
+    expect(statement.ledgerBalance).toEqual({ amount: 2437.5, asOf: '2024-01-31' });
+    expect(statement.availableBalance).toEqual({ amount: 2400, asOf: '2024-01-31' });
+  });
+
+  it('should parse booked entries with counterparty and remittance info', async () => {
+    const [statement] = await parseCamtFile(camt);
+
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toEqual({
+      fitid: 'BANKREF-1',
+      refnum: 'BANKREF-1',
+      memo: 'Abschlag Januar Kundennr 4711',
+      payee: 'Stadtwerke München',
+      cleanedMemo: 'Abschlag Januar Kundennr 4711',
+      date: '2024-01-15',
+      amount: -62.5,
+      type: 'DEBIT',
+    });
+    expect(statement.transactions[1]).toMatchObject({
+      refnum: 'E2E-SALARY',
+      payee: 'ACME GmbH',
+      date: '2024-01-25',
+      amount: 1500,
+      type: 'CREDIT',
+    });
+  });
+
+  it('should give entries without a bank reference a stable FITID', async () => {
+    const [first] = await parseCamtFile(camt);
+    const [second] = await parseCamtFile(camt);
+
+    expect(first.transactions[1].fitid).toMatch(/^CAMT-[0-9a-f]{8}$/);
+    expect(first.transactions[1].fitid).toBe(second.transactions[1].fitid);
+  });
+
+  it('should split batch entries into their transfers', async () => {
+    const [statement] = await parseCamtFile(batch);
+
+    expect(statement.account.accountId).toBe('123456789');
+    expect(statement.transactions.map((t) => [t.fitid, t.payee, t.amount])).toEqual([
+      ['BATCH-7-1', 'Alice', -30],
+      ['BATCH-7-2', 'Bob', -50],
+    ]);
+  });
+
+  it('should reject documents without statements', async () => {
+    await expect(
+      parseCamtFile('<Document><BkToCstmrStmt></BkToCstmrStmt></Document>')
+    ).rejects.toThrow('No statements found');
+  });
+});
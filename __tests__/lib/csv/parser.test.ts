@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsvFile, parseCsvRows } from '@/lib/csv/parser';
+import { CsvMapping } from '@/lib/csv/types';
+
+const baseMapping: CsvMapping = {
+  delimiter: ',',
+  has_header: true,
+  date_column: 0,
+  date_format: 'YYYY-MM-DD',
+  amount_column: 2,
+  debit_column: null,
+  credit_column: null,
+  payee_column: 1,
+  memo_column: 3,
+  decimal_separator: '.',
+};
+
+describe('parseCsvRows', () => {
+  it('should split rows and fields', () => {
+    const rows = parseCsvRows('a,b,c\n1,2,3\n');
+
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and newlines', () => {
+    const rows = parseCsvRows('"Smith, John","He said ""hi""","line1\nline2"');
+
+    expect(rows).toEqual([['Smith, John', 'He said "hi"', 'line1\nline2']]);
+  });
+
+  it('should support custom delimiters and CRLF line endings', () => {
+    const rows = parseCsvRows('a;b\r\n1;2\r\n', ';');
+
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should skip blank lines and strip a UTF-8 BOM', () => {
+    const rows = parseCsvRows('\uFEFFa,b\n\n1,2\n');
+
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseCsvFile', () => {
+  it('should map columns to transactions', () => {
+    const content = 'Date,Payee,Amount,Memo\n2024-01-15,Coffee Shop,-4.50,Latte\n2024-01-16,Employer,1000.00,Salary\n';
+
+    const result = parseCsvFile(content, baseMapping);
+
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2024-01-15',
+      payee: 'Coffee Shop',
+      amount: -4.5,
+      memo: 'Latte',
+      cleanedMemo: 'Latte',
+      type: 'DEBIT',
+    });
+    expect(result.transactions[1].type).toBe('CREDIT');
+    expect(result.dateRange).toEqual({ start: '2024-01-15', end: '2024-01-16' });
+  });
+
+  it('should parse day-first dates and comma decimal separators', () => {
+    const content = '15/01/2024;Padaria;-1.234,56\n';
+
+    const result = parseCsvFile(content, {
+      ...baseMapping,
+      delimiter: ';',
+      has_header: false,
+      date_format: 'DD/MM/YYYY',
+      memo_column: null,
+      decimal_separator: ',',
+    });
+
+    expect(result.transactions[0].date).toBe('2024-01-15');
+    expect(result.transactions[0].amount).toBe(-1234.56);
+    expect(result.transactions[0].memo).toBe('');
+  });
+
+  it('should combine separate debit and credit columns', () => {
+    const content = 'Date,Payee,Debit,Credit\n01/15/2024,Store,25.00,\n01/16/2024,Refund,,10.00\n';
+
+    const result = parseCsvFile(content, {
+      ...baseMapping,
+      date_format: 'MM/DD/YYYY',
+      amount_column: null,
+      debit_column: 2,
+      credit_column: 3,
+      memo_column: null,
+    });
+
+    expect(result.transactions.map((t) => t.amount)).toEqual([-25, 10]);
+  });
+
+  it('should treat parentheses and trailing minus as negative', () => {
+    const content = 'Date,Payee,Amount\n2024-01-15,A,(12.00)\n2024-01-15,B,7.50-\n';
+
+    const result = parseCsvFile(content, { ...baseMapping, memo_column: null });
+
+    expect(result.transactions.map((t) => t.amount)).toEqual([-12, -7.5]);
+  });
+
+  it('should generate stable, distinct ids for identical rows', () => {
+    const content = 'Date,Payee,Amount\n2024-01-15,Coffee,-3.00\n2024-01-15,Coffee,-3.00\n';
+    const mapping = { ...baseMapping, memo_column: null };
+
+    const first = parseCsvFile(content, mapping);
+    const second = parseCsvFile(content, mapping);
+
+    expect(first.transactions[0].fitid).not.toBe(first.transactions[1].fitid);
+    expect(first.transactions.map((t) => t.fitid)).toEqual(
+      second.transactions.map((t) => t.fitid)
+    );
+    expect(first.transactions[0].fitid).toMatch(/^CSV-[0-9a-f]{8}$/);
+  });
+
+  it('should report the line number of invalid dates', () => {
+    const content = 'Date,Payee,Amount\n2024-01-15,A,1.00\n2024-02-30,B,2.00\n';
+
+    expect(() => parseCsvFile(content, baseMapping)).toThrow(/Line 3: Invalid date/);
+  });
+
+  it('should report invalid amounts', () => {
+    const content = 'Date,Payee,Amount\n2024-01-15,A,abc\n';
+
+    expect(() => parseCsvFile(content, baseMapping)).toThrow(/Line 2: Invalid amount/);
+  });
+
+  it('should require an amount mapping', () => {
+    expect(() =>
+      parseCsvFile('2024-01-15,A,1.00', {
+        ...baseMapping,
+        amount_column: null,
+      })
+    ).toThrow('An amount column or debit/credit columns are required');
+  });
+});
@@ -3,6 +3,7 @@ import {
   getAllAccounts,
   getAccountById,
   getAccountBalance,
+  getAccountBalancesBefore,
   getAllAccountsWithBalances,
 } from '@/lib/db/accounts';
 import { mockAccount } from '../utils/mocks';
@@ -135,6 +136,20 @@ describe('Account Queries', () => {
       expect(result).toBe('0.00');
     });
 
+    it('should only count transactions up to the as-of date when given', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue({ balance: '900.00' });
+
+      const result = await getAccountBalance(1, '2024-01-31');
+
+      expect(result).toBe('900.00');
+      expect(queryOne).toHaveBeenCalledWith(
+        expect.stringContaining('AND date <= $2'),
+        [1, '2024-01-31']
+      );
+    });
+
     it('should handle negative balance (debts)', async () => {
       const { queryOne } = await import('@/lib/db');
 
@@ -240,4 +255,27 @@ describe('Account Queries', () => {
       expect(result[0].balance).toBe('-500.00');
     });
   });
+
+  describe('getAccountBalancesBefore', () => {
+    it('should sum transactions before the date for every account', async () => {
+      const { queryMany } = await import('@/lib/db');
+      vi.mocked(queryMany).mockResolvedValue([{ account_id: 1, balance: '250.00' }]);
+
+      const result = await getAccountBalancesBefore('2024-03-01');
+
+      expect(result).toEqual([{ account_id: 1, balance: '250.00' }]);
+      expect(vi.mocked(queryMany).mock.calls[0][0]).toContain('date < $1');
+      expect(vi.mocked(queryMany).mock.calls[0][1]).toEqual(['2024-03-01']);
+    });
+
+    it('should narrow to one account', async () => {
+      const { queryMany } = await import('@/lib/db');
+      vi.mocked(queryMany).mockResolvedValue([]);
+
+      await getAccountBalancesBefore('2024-03-01', 4);
+
+      expect(vi.mocked(queryMany).mock.calls[0][0]).toContain('account_id = $2');
+      expect(vi.mocked(queryMany).mock.calls[0][1]).toEqual(['2024-03-01', 4]);
+    });
+  });
 });
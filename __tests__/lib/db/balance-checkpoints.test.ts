@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getLatestBalanceCheckpoint } from '@/lib/db/balance-checkpoints';
+
+vi.mock('@/lib/db', () => ({
+  queryOne: vi.fn(),
+}));
+
+describe('Balance Checkpoint Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getLatestBalanceCheckpoint', () => {
+    it('should return the latest checkpoint with the current ledger balance', async () => {
+      const { queryOne } = await import('@/lib/db');
+      const checkpoint = {
+        id: 1,
+        account_id: 2,
+        as_of: '2024-01-31',
+        bank_balance: '100.00',
+        ledger_balance: '90.00',
+        import_batch_id: 4,
+        created_at: new Date('2024-02-01'),
+        current_ledger_balance: '100.00',
+      };
+
+      vi.mocked(queryOne).mockResolvedValue(checkpoint);
+
+      const result = await getLatestBalanceCheckpoint(2);
+
+      expect(result).toEqual(checkpoint);
+      expect(queryOne).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY c.as_of DESC'),
+        [2]
+      );
+    });
+
+    it('should return null when the account has no checkpoint', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue(null);
+
+      expect(await getLatestBalanceCheckpoint(2)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAllCategoryRules, getTransactionsForRules } from '@/lib/db/category-rules';
+
+vi.mock('@/lib/db', () => ({
+  queryMany: vi.fn(),
+}));
+
+describe('Category Rule Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getAllCategoryRules', () => {
+    it('should return rules in the order they are applied', async () => {
+      const { queryMany } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([]);
+
+      await getAllCategoryRules();
+
+      expect(queryMany).toHaveBeenCalledWith(
+        'SELECT * FROM category_rules ORDER BY position ASC, id ASC'
+      );
+    });
+  });
+
+  describe('getTransactionsForRules', () => {
+    it('should only return uncategorized transactions by default', async () => {
+      const { queryMany } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([]);
+
+      await getTransactionsForRules(false);
+
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE category_id IS NULL')
+      );
+    });
+
+    it('should include categorized transactions when asked', async () => {
+      const { queryMany } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([]);
+
+      await getTransactionsForRules(true);
+
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.not.stringContaining('WHERE category_id IS NULL')
+      );
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAllCsvProfiles, getCsvProfileById } from '@/lib/db/csv-profiles';
+
+vi.mock('@/lib/db', () => ({
+  queryOne: vi.fn(),
+  queryMany: vi.fn(),
+}));
+
+const mockProfile = {
+  id: 1,
+  name: 'My Bank',
+  delimiter: ';',
+  has_header: true,
+  date_column: 0,
+  date_format: 'DD/MM/YYYY' as const,
+  amount_column: 2,
+  debit_column: null,
+  credit_column: null,
+  payee_column: 1,
+  memo_column: null,
+  decimal_separator: ',' as const,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+};
+
+describe('CSV Profile Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getAllCsvProfiles', () => {
+    it('should return profiles ordered by name', async () => {
+      const { queryMany } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([mockProfile]);
+
+      const result = await getAllCsvProfiles();
+
+      expect(result).toEqual([mockProfile]);
+      expect(queryMany).toHaveBeenCalledWith(
+        'SELECT * FROM csv_import_profiles ORDER BY name ASC'
+      );
+    });
+  });
+
+  describe('getCsvProfileById', () => {
+    it('should return the profile when found', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue(mockProfile);
+
+      const result = await getCsvProfileById(1);
+
+      expect(result).toEqual(mockProfile);
+      expect(queryOne).toHaveBeenCalledWith(
+        'SELECT * FROM csv_import_profiles WHERE id = $1',
+        [1]
+      );
+    });
+
+    it('should return null when not found', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue(null);
+
+      expect(await getCsvProfileById(999)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getImportBatchById, getImportBatchesByAccount } from '@/lib/db/import-batches';
+
+vi.mock('@/lib/db', () => ({
+  queryOne: vi.fn(),
+  queryMany: vi.fn(),
+}));
+
+const mockBatch = {
+  id: 1,
+  account_id: 2,
+  file_name: 'statement.ofx',
+  date_start: '2024-01-01',
+  date_end: '2024-01-31',
+  imported_count: 10,
+  skipped_count: 2,
+  imported_by: 1,
+  rolled_back_at: null,
+  created_at: new Date('2024-02-01'),
+};
+
+describe('Import Batch Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getImportBatchById', () => {
+    it('should return the batch when found', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue(mockBatch);
+
+      const result = await getImportBatchById(1);
+
+      expect(result).toEqual(mockBatch);
+      expect(queryOne).toHaveBeenCalledWith(
+        'SELECT * FROM import_batches WHERE id = $1',
+        [1]
+      );
+    });
+
+    it('should return null when not found', async () => {
+      const { queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryOne).mockResolvedValue(null);
+
+      expect(await getImportBatchById(999)).toBeNull();
+    });
+  });
+
+  describe('getImportBatchesByAccount', () => {
+    it('should return the account batches with importer and remaining count', async () => {
+      const { queryMany } = await import('@/lib/db');
+      const batch = { ...mockBatch, imported_by_username: 'admin', remaining_count: 10 };
+
+      vi.mocked(queryMany).mockResolvedValue([batch]);
+
+      const result = await getImportBatchesByAccount(2);
+
+      expect(result).toEqual([batch]);
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE b.account_id = $1'),
+        [2]
+      );
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.stringContaining('LEFT JOIN users u ON b.imported_by = u.id'),
+        [2]
+      );
+    });
+  });
+});
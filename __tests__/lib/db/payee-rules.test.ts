@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAllPayeeRules } from '@/lib/db/payee-rules';
+
+vi.mock('@/lib/db', () => ({
+  queryMany: vi.fn(),
+}));
+
+describe('Payee Rule Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getAllPayeeRules', () => {
+    it('should return rules in the order they are applied', async () => {
+      const { queryMany } = await import('@/lib/db');
+      const rules = [
+        {
+          id: 1,
+          name: 'PIX',
+          bank_id: null,
+          match_type: 'regex' as const,
+          pattern: '^PIX ENVIADO (.+)$',
+          payee_group: 1,
+          memo_group: null,
+          position: 1,
+          enabled: true,
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ];
+
+      vi.mocked(queryMany).mockResolvedValue(rules);
+
+      const result = await getAllPayeeRules();
+
+      expect(result).toEqual(rules);
+      expect(queryMany).toHaveBeenCalledWith(
+        'SELECT * FROM payee_rules ORDER BY position ASC, id ASC'
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAllSavedSearches, getPinnedSavedSearches } from '@/lib/db/saved-searches';
+
+vi.mock('@/lib/db', () => ({
+  queryMany: vi.fn(),
+}));
+
+const mockSearch = {
+  id: 1,
+  name: 'Uncategorized',
+  query: 'categoryId=none',
+  pinned: true,
+  created_at: new Date('2024-01-01'),
+};
+
+describe('Saved Search Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return every saved search ordered by name', async () => {
+    const { queryMany } = await import('@/lib/db');
+
+    vi.mocked(queryMany).mockResolvedValue([mockSearch]);
+
+    expect(await getAllSavedSearches()).toEqual([mockSearch]);
+    expect(queryMany).toHaveBeenCalledWith('SELECT * FROM saved_searches ORDER BY name ASC');
+  });
+
+  it('should return only pinned searches for the navigation', async () => {
+    const { queryMany } = await import('@/lib/db');
+
+    vi.mocked(queryMany).mockResolvedValue([mockSearch]);
+
+    expect(await getPinnedSavedSearches()).toEqual([mockSearch]);
+    expect(queryMany).toHaveBeenCalledWith(
+      'SELECT * FROM saved_searches WHERE pinned ORDER BY name ASC'
+    );
+  });
+});
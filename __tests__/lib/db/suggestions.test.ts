@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getCategorizationHistory } from '@/lib/db/suggestions';
+
+vi.mock('@/lib/db', () => ({
+  queryMany: vi.fn(),
+}));
+
+describe('Suggestion Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getCategorizationHistory', () => {
+    it('should return recent categorized transactions', async () => {
+      const { queryMany } = await import('@/lib/db');
+      const history = [{ payee: 'Uber', ofx_memo: null, category_id: 2 }];
+
+      vi.mocked(queryMany).mockResolvedValue(history);
+
+      const result = await getCategorizationHistory(100);
+
+      expect(result).toEqual(history);
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE category_id IS NOT NULL'),
+        [100]
+      );
+    });
+  });
+});
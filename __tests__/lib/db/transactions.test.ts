@@ -1,9 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   getTransactionById,
-  getTransactionsByAccount,
   getRecentTransactions,
+  getManualTransactionsInRange,
+  buildTransactionFilters,
+  getTransactionsForExport,
+  getTransactionPage,
+  encodeTransactionCursor,
+  decodeTransactionCursor,
 } from '@/lib/db/transactions';
+import { transactionPageSchema } from '@/lib/validations/transactions';
 import { mockTransaction, mockTransactionWithDetails } from '../utils/mocks';
 
 // Mock the database module
@@ -62,184 +68,333 @@ describe('Transaction Queries', () => {
     });
   });
 
-  describe('getTransactionsByAccount', () => {
-    it('should return transactions for account with default pagination', async () => {
+  describe('getRecentTransactions', () => {
+    it('should return recent transactions with default limit', async () => {
       const { queryMany } = await import('@/lib/db');
 
       const transactions = [mockTransactionWithDetails];
       vi.mocked(queryMany).mockResolvedValue(transactions);
 
-      const result = await getTransactionsByAccount(1);
+      const result = await getRecentTransactions();
 
       expect(result).toEqual(transactions);
       expect(queryMany).toHaveBeenCalledWith(
         expect.stringContaining('FROM transactions t'),
-        [1, 100, 0]
+        [10]
       );
     });
 
-    it('should return transactions with custom limit', async () => {
+    it('should return recent transactions with custom limit', async () => {
       const { queryMany } = await import('@/lib/db');
 
       const transactions = [mockTransactionWithDetails];
       vi.mocked(queryMany).mockResolvedValue(transactions);
 
-      const result = await getTransactionsByAccount(1, { limit: 50 });
+      const result = await getRecentTransactions(5);
 
       expect(result).toEqual(transactions);
       expect(queryMany).toHaveBeenCalledWith(
         expect.stringContaining('FROM transactions t'),
-        [1, 50, 0]
+        [5]
       );
     });
 
-    it('should return transactions with custom offset', async () => {
+    it('should return empty array when no transactions exist', async () => {
       const { queryMany } = await import('@/lib/db');
 
-      const transactions = [mockTransactionWithDetails];
-      vi.mocked(queryMany).mockResolvedValue(transactions);
+      vi.mocked(queryMany).mockResolvedValue([]);
 
-      const result = await getTransactionsByAccount(1, { offset: 20 });
+      const result = await getRecentTransactions();
 
-      expect(result).toEqual(transactions);
-      expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('FROM transactions t'),
-        [1, 100, 20]
-      );
+      expect(result).toEqual([]);
     });
 
-    it('should return transactions with both limit and offset', async () => {
+    it('should include transaction details', async () => {
       const { queryMany } = await import('@/lib/db');
 
       const transactions = [mockTransactionWithDetails];
       vi.mocked(queryMany).mockResolvedValue(transactions);
 
-      const result = await getTransactionsByAccount(1, { limit: 25, offset: 50 });
+      const result = await getRecentTransactions();
 
-      expect(result).toEqual(transactions);
-      expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('FROM transactions t'),
-        [1, 25, 50]
-      );
+      expect(result[0]).toHaveProperty('account_name');
+      expect(result[0]).toHaveProperty('category_name');
+      expect(result[0]).toHaveProperty('category_path');
     });
 
-    it('should return empty array when no transactions found', async () => {
+    it('should order by date DESC and created_at DESC', async () => {
       const { queryMany } = await import('@/lib/db');
 
       vi.mocked(queryMany).mockResolvedValue([]);
 
-      const result = await getTransactionsByAccount(999);
+      await getRecentTransactions();
 
-      expect(result).toEqual([]);
+      expect(queryMany).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY t.date DESC, t.created_at DESC'),
+        [10]
+      );
     });
 
-    it('should include category path in results', async () => {
+    it('should handle large limit values', async () => {
       const { queryMany } = await import('@/lib/db');
 
-      const transactions = [mockTransactionWithDetails];
-      vi.mocked(queryMany).mockResolvedValue(transactions);
+      vi.mocked(queryMany).mockResolvedValue([]);
 
-      const result = await getTransactionsByAccount(1);
+      await getRecentTransactions(1000);
 
-      expect(result[0]).toHaveProperty('category_path');
       expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('category_path'),
-        [1, 100, 0]
+        expect.stringContaining('LIMIT $1'),
+        [1000]
       );
     });
+  });
 
-    it('should order by date DESC', async () => {
+  describe('getManualTransactionsInRange', () => {
+    it('should return transactions without a FITID in the date range', async () => {
       const { queryMany } = await import('@/lib/db');
 
-      vi.mocked(queryMany).mockResolvedValue([]);
+      const rows = [{ id: 1, date: '2024-01-12', payee: 'Padaria', amount: '-12.50' }];
+      vi.mocked(queryMany).mockResolvedValue(rows);
 
-      await getTransactionsByAccount(1);
+      const result = await getManualTransactionsInRange(1, '2024-01-01', '2024-01-31');
 
+      expect(result).toEqual(rows);
       expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('ORDER BY t.date DESC'),
-        [1, 100, 0]
+        expect.stringContaining('ofx_fitid IS NULL'),
+        [1, '2024-01-01', '2024-01-31']
       );
     });
   });
 
-  describe('getRecentTransactions', () => {
-    it('should return recent transactions with default limit', async () => {
-      const { queryMany } = await import('@/lib/db');
+  describe('buildTransactionFilters', () => {
+    it('should return no clause without filters', () => {
+      const params: unknown[] = [];
+      expect(buildTransactionFilters({}, params)).toBe('');
+      expect(params).toEqual([]);
+    });
 
-      const transactions = [mockTransactionWithDetails];
-      vi.mocked(queryMany).mockResolvedValue(transactions);
+    it('should number parameters after the existing ones', () => {
+      const params: unknown[] = ['first'];
+      const where = buildTransactionFilters(
+        { accountId: 2, startDate: '2024-01-01', endDate: '2024-01-31' },
+        params
+      );
 
-      const result = await getRecentTransactions();
+      expect(where).toBe('WHERE t.account_id = $2 AND t.date >= $3::date AND t.date <= $4::date');
+      expect(params).toEqual(['first', 2, '2024-01-01', '2024-01-31']);
+    });
 
-      expect(result).toEqual(transactions);
-      expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('FROM transactions t'),
-        [10]
+    it('should include subcategories of the filtered category', () => {
+      const params: unknown[] = [];
+      const where = buildTransactionFilters({ categoryId: 5 }, params);
+
+      expect(where).toContain('WITH RECURSIVE subtree');
+      expect(where).toContain('WHERE id = $1');
+      expect(params).toEqual([5]);
+    });
+
+    it('should filter uncategorized transactions for a null category', () => {
+      const params: unknown[] = [];
+      expect(buildTransactionFilters({ categoryId: null }, params)).toBe(
+        'WHERE t.category_id IS NULL'
       );
+      expect(params).toEqual([]);
     });
 
-    it('should return recent transactions with custom limit', async () => {
+    it('should match payees by substring with wildcards escaped', () => {
+      const params: unknown[] = [];
+      expect(buildTransactionFilters({ payee: '50%_off' }, params)).toBe('WHERE t.payee ILIKE $1');
+      expect(params).toEqual(['%50\\%\\_off%']);
+    });
+
+    it('should filter by signed amount range', () => {
+      const params: unknown[] = [];
+      expect(buildTransactionFilters({ minAmount: '-100.00', maxAmount: '0' }, params)).toBe(
+        'WHERE t.amount >= $1::numeric AND t.amount <= $2::numeric'
+      );
+      expect(params).toEqual(['-100.00', '0']);
+    });
+
+    it('should search comments and memos by full text', () => {
+      const params: unknown[] = [];
+      const where = buildTransactionFilters({ search: 'refund amazon' }, params);
+
+      expect(where).toContain("to_tsvector('simple', COALESCE(t.comment, '') || ' ' || COALESCE(t.ofx_memo, ''))");
+      expect(where).toContain("websearch_to_tsquery('simple', $1)");
+      expect(params).toEqual(['refund amazon']);
+    });
+  });
+
+  describe('getTransactionsForExport', () => {
+    it('should query matching transactions oldest first', async () => {
       const { queryMany } = await import('@/lib/db');
 
-      const transactions = [mockTransactionWithDetails];
-      vi.mocked(queryMany).mockResolvedValue(transactions);
+      vi.mocked(queryMany).mockResolvedValue([mockTransactionWithDetails]);
 
-      const result = await getRecentTransactions(5);
+      const result = await getTransactionsForExport({ accountId: 1, categoryId: null });
 
-      expect(result).toEqual(transactions);
+      expect(result).toEqual([mockTransactionWithDetails]);
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain('WHERE t.account_id = $1 AND t.category_id IS NULL');
+      expect(sql).toContain('ORDER BY t.date, t.id');
+      expect(params).toEqual([1]);
+    });
+  });
+
+  describe('getTransactionPage', () => {
+    const row = (id: number) => ({
+      ...mockTransactionWithDetails,
+      id,
+      date: '2024-03-05',
+      cursor_keys: ['2024-03-05', '2024-03-05 10:11:12.123456', String(id)],
+    });
+    const after = ['2024-03-05', '2024-03-05 10:11:12', '7'];
+
+    it('should return the first page newest first with the total', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([row(3), row(2)]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 2 });
+
+      const result = await getTransactionPage({ accountId: 1 }, { limit: 50 });
+
+      expect(result.total).toBe(2);
+      expect(result.nextCursor).toBeNull();
+      expect(result.transactions.map((tx) => tx.id)).toEqual([3, 2]);
+      expect(result.transactions[0]).not.toHaveProperty('cursor_keys');
       expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('FROM transactions t'),
-        [5]
+        expect.stringContaining('ORDER BY t.date DESC, t.created_at DESC, t.id DESC'),
+        [1, 51]
+      );
+      expect(queryOne).toHaveBeenCalledWith(
+        'SELECT COUNT(*)::int as count FROM transactions t WHERE t.account_id = $1',
+        [1]
       );
     });
 
-    it('should return empty array when no transactions exist', async () => {
-      const { queryMany } = await import('@/lib/db');
+    it('should return a cursor to the last row when there are more', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
 
-      vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryMany).mockResolvedValue([row(3), row(2), row(1)]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 3 });
 
-      const result = await getRecentTransactions();
+      const result = await getTransactionPage({ accountId: 1 }, { limit: 2 });
 
-      expect(result).toEqual([]);
+      expect(result.transactions).toHaveLength(2);
+      expect(decodeTransactionCursor(result.nextCursor as string)).toEqual([
+        '2024-03-05',
+        '2024-03-05 10:11:12.123456',
+        '2',
+      ]);
     });
 
-    it('should include transaction details', async () => {
-      const { queryMany } = await import('@/lib/db');
+    it('should continue after the cursor', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
 
-      const transactions = [mockTransactionWithDetails];
-      vi.mocked(queryMany).mockResolvedValue(transactions);
+      vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 0 });
 
-      const result = await getRecentTransactions();
+      await getTransactionPage({}, { limit: 25, after });
 
-      expect(result[0]).toHaveProperty('account_name');
-      expect(result[0]).toHaveProperty('category_name');
-      expect(result[0]).toHaveProperty('category_path');
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain(
+        'WHERE (t.date, t.created_at, t.id) < ($1::date, $2::timestamp, $3::integer)'
+      );
+      expect(sql).toContain('LIMIT $4');
+      expect(params).toEqual([...after, 26]);
     });
 
-    it('should order by date DESC and created_at DESC', async () => {
-      const { queryMany } = await import('@/lib/db');
+    it('should combine the cursor with the filters', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
 
       vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 0 });
 
-      await getRecentTransactions();
+      await getTransactionPage({ accountId: 1 }, { limit: 25, after });
 
-      expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('ORDER BY t.date DESC, t.created_at DESC'),
-        [10]
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain('WHERE t.account_id = $1 AND (t.date, t.created_at, t.id) < ($2::date');
+      expect(params).toEqual([1, ...after, 26]);
+    });
+
+    it('should page ascending sorts forwards on the sort column', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
+
+      vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 0 });
+
+      await getTransactionPage(
+        {},
+        { limit: 25, sort: { column: 'payee', direction: 'asc' }, after: ['Coffee Shop', '12'] }
       );
+
+      const [sql, params] = vi.mocked(queryMany).mock.calls[0];
+      expect(sql).toContain('ARRAY[t.payee::text, t.id::text] as cursor_keys');
+      expect(sql).toContain('WHERE (t.payee, t.id) > ($1::text, $2::integer)');
+      expect(sql).toContain('ORDER BY t.payee ASC, t.id ASC');
+      expect(params).toEqual(['Coffee Shop', '12', 26]);
     });
 
-    it('should handle large limit values', async () => {
-      const { queryMany } = await import('@/lib/db');
+    it('should sort by account name', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
 
       vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 0 });
 
-      await getRecentTransactions(1000);
+      await getTransactionPage({}, { limit: 25, sort: { column: 'account', direction: 'desc' } });
 
       expect(queryMany).toHaveBeenCalledWith(
-        expect.stringContaining('LIMIT $1'),
-        [1000]
+        expect.stringContaining('ORDER BY a.name DESC, t.id DESC'),
+        [26]
       );
     });
   });
+
+  describe('transaction cursors', () => {
+    const byAmount = { column: 'amount', direction: 'asc' } as const;
+
+    it('should round-trip', () => {
+      expect(decodeTransactionCursor(encodeTransactionCursor(byAmount, ['-12.50', '7']), byAmount)).toEqual([
+        '-12.50',
+        '7',
+      ]);
+    });
+
+    it('should reject cursors of another sort', () => {
+      const cursor = encodeTransactionCursor(byAmount, ['-12.50', '7']);
+
+      expect(decodeTransactionCursor(cursor)).toBeNull();
+      expect(decodeTransactionCursor(cursor, { column: 'amount', direction: 'desc' })).toBeNull();
+    });
+
+    it('should page past the longest payee', async () => {
+      const { queryMany, queryOne } = await import('@/lib/db');
+      const byPayee = { column: 'payee', direction: 'asc' } as const;
+      // Control characters are the worst case once JSON-escaped
+      const payee = '\u0001'.repeat(200);
+
+      vi.mocked(queryMany).mockResolvedValue([]);
+      vi.mocked(queryOne).mockResolvedValue({ count: 0 });
+
+      const query = transactionPageSchema.safeParse({
+        sort: 'payee',
+        after: encodeTransactionCursor(byPayee, [payee, '123456789']),
+      });
+      expect(query.success).toBe(true);
+      const after = decodeTransactionCursor(query.data?.after as string, byPayee);
+      expect(after).toEqual([payee, '123456789']);
+
+      await getTransactionPage({}, { limit: 25, sort: byPayee, after });
+
+      expect(vi.mocked(queryMany).mock.calls[0][1]).toEqual([payee, '123456789', 26]);
+    });
+
+    it('should reject values it did not issue', () => {
+      expect(decodeTransactionCursor('not-a-cursor')).toBeNull();
+      expect(
+        decodeTransactionCursor(encodeTransactionCursor(byAmount, ["1; DROP TABLE x", '7']), byAmount)
+      ).toBeNull();
+      expect(decodeTransactionCursor(encodeTransactionCursor(byAmount, ['1']), byAmount)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { createJournal, journalSegment } from '@/lib/export/journal';
+import { Account, CategoryWithPath, TransactionWithDetails } from '@/lib/db/types';
+import { mockAccount, mockTransactionWithDetails } from '../utils/mocks';
+
+const accounts: Account[] = [
+  { ...mockAccount, id: 1, name: 'Checking Account' },
+  { ...mockAccount, id: 2, name: 'Visa', ofx_account_type: 'CREDITLINE' },
+];
+
+const categories: CategoryWithPath[] = [
+  { id: 10, name: 'Food & Dining', parent_id: null, category_type: 'expense', depth: 1, created_at: new Date(), path: 'Food & Dining' },
+  { id: 11, name: 'Restaurants', parent_id: 10, category_type: 'expense', depth: 2, created_at: new Date(), path: 'Food & Dining > Restaurants' },
+  { id: 20, name: 'Salary', parent_id: null, category_type: 'income', depth: 1, created_at: new Date(), path: 'Salary' },
+];
+
+function tx(overrides: Partial<TransactionWithDetails>): TransactionWithDetails {
+  return {
+    ...mockTransactionWithDetails,
+    account_id: 1,
+    category_id: null,
+    comment: null,
+    ofx_fitid: null,
+    ofx_memo: null,
+    ofx_refnum: null,
+    import_batch_id: null,
+    ...overrides,
+  };
+}
+
+const transactions = [
+  tx({ id: 1, date: '2024-01-05', payee: 'Employer', amount: '3000.00', category_id: 20, ofx_fitid: 'F1' }),
+  tx({ id: 2, date: '2024-01-20', payee: 'Bistro', amount: '-45.50', category_id: 11, comment: 'Lunch' }),
+  tx({ id: 3, date: '2024-01-25', payee: 'Bistro', amount: '-20.00', account_id: 2, category_id: 11 }),
+  tx({ id: 4, date: '2024-02-02', payee: 'ATM', amount: '-100.00' }),
+];
+
+describe('journalSegment', () => {
+  it('should keep ledger names readable and drop separators', () => {
+    expect(journalSegment('Food & Dining', 'ledger')).toBe('Food & Dining');
+    expect(journalSegment('Cartão:  Visa (old)', 'hledger')).toBe('Cartão- Visa -old-');
+  });
+
+  it('should build valid beancount components', () => {
+    expect(journalSegment('Food & Dining', 'beancount')).toBe('Food-Dining');
+    expect(journalSegment('cartão de crédito', 'beancount')).toBe('Cartao-de-credito');
+    expect(journalSegment('&&', 'beancount')).toBe('Unnamed');
+  });
+});
+
+describe('createJournal', () => {
+  it('should write balanced ledger transactions with month-end assertions', () => {
+    const journal = createJournal(accounts, categories, transactions, { format: 'ledger', commodity: 'USD' });
+
+    expect(journal).toContain('commodity USD');
+    expect(journal).toContain('account Assets:Checking Account');
+    expect(journal).toContain('account Liabilities:Visa');
+    expect(journal).toContain('account Expenses:Food & Dining:Restaurants');
+    expect(journal).toContain('account Income:Salary');
+    expect(journal).toMatch(/2024-01-05 \* Employer\n    ; fitid: F1\n    Assets:Checking Account +3000\.00 USD\n    Income:Salary +-3000\.00 USD/);
+    // Only the last posting of each account in a month carries the assertion
+    expect(journal).toMatch(/2024-01-20 \* Bistro\n    ; Lunch\n    Assets:Checking Account +-45\.50 USD = 2954\.50 USD\n/);
+    expect(journal).toMatch(/Liabilities:Visa +-20\.00 USD = -20\.00 USD/);
+    expect(journal).toMatch(/Assets:Checking Account +-100\.00 USD = 2854\.50 USD/);
+    expect(journal).toMatch(/Expenses:Uncategorized +100\.00 USD/);
+    expect(journal.match(/ = /g)).toHaveLength(3);
+  });
+
+  it('should declare hledger account types and number format', () => {
+    const journal = createJournal(accounts, categories, transactions, { format: 'hledger', commodity: 'EUR' });
+
+    expect(journal).toContain('commodity 1000.00 EUR');
+    expect(journal).toContain('account Assets:Checking Account  ; type: A');
+    expect(journal).toContain('account Liabilities:Visa  ; type: L');
+    expect(journal).toContain('account Expenses:Uncategorized  ; type: X');
+    expect(journal).toContain('account Income:Salary  ; type: R');
+  });
+
+  it('should write beancount with open directives and balances on the next month', () => {
+    const journal = createJournal(accounts, categories, transactions, { format: 'beancount', commodity: 'USD' });
+
+    expect(journal).toContain('option "operating_currency" "USD"');
+    expect(journal).toContain('2024-01-05 open Assets:Checking-Account USD');
+    expect(journal).toContain('2024-01-05 open Expenses:Food-Dining:Restaurants USD');
+    expect(journal).toMatch(/2024-01-20 \* "Bistro" "Lunch"\n    Assets:Checking-Account +-45\.50 USD\n/);
+    expect(journal).toContain('  fitid: "F1"');
+    expect(journal).toMatch(/2024-02-01 balance Assets:Checking-Account +2954\.50 USD/);
+    expect(journal).toMatch(/2024-02-01 balance Liabilities:Visa +-20\.00 USD/);
+    expect(journal).toMatch(/2024-03-01 balance Assets:Checking-Account +2854\.50 USD/);
+    expect(journal).not.toContain(' = ');
+  });
+
+  it('should escape beancount strings', () => {
+    const journal = createJournal(
+      accounts,
+      categories,
+      [tx({ date: '2024-01-05', payee: 'Joe\'s "Diner"', comment: 'a\\b\nc', amount: '-1.00' })],
+      { format: 'beancount', commodity: 'USD' }
+    );
+
+    expect(journal).toContain('2024-01-05 * "Joe\'s \\"Diner\\"" "a\\\\b c"');
+  });
+
+  it('should keep payees from being read as codes or comments', () => {
+    const journal = createJournal(
+      accounts,
+      categories,
+      [tx({ date: '2024-01-05', payee: '(PIX) Joe; ref | 1', ofx_refnum: '42', amount: '-1.00' })],
+      { format: 'ledger', commodity: 'USD' }
+    );
+
+    expect(journal).toContain('2024-01-05 * (42) [PIX) Joe, ref / 1');
+  });
+
+  it('should open with balances carried from before the range', () => {
+    const journal = createJournal(accounts, categories, transactions.slice(3), {
+      format: 'hledger',
+      commodity: 'USD',
+      openingDate: '2024-02-01',
+      openingBalances: new Map([
+        [1, '2954.50'],
+        [2, '-20.00'],
+      ]),
+    });
+
+    expect(journal).toMatch(
+      /2024-02-01 \* Opening balances\n    Assets:Checking Account +2954\.50 USD\n    Liabilities:Visa +-20\.00 USD\n    Equity:Opening-Balances +-2934\.50 USD/
+    );
+    expect(journal).toMatch(/Assets:Checking Account +-100\.00 USD = 2854\.50 USD/);
+  });
+
+  it('should keep accounts apart when their names clean up the same', () => {
+    const journal = createJournal(
+      [
+        { ...mockAccount, id: 1, name: 'Main: Checking' },
+        { ...mockAccount, id: 2, name: 'Main; Checking' },
+      ],
+      [],
+      [tx({ account_id: 1, date: '2024-01-05', amount: '1.00' }), tx({ account_id: 2, date: '2024-01-05', amount: '2.00' })],
+      { format: 'ledger', commodity: 'USD' }
+    );
+
+    expect(journal).toContain('account Assets:Main- Checking\n');
+    expect(journal).toContain('account Assets:Main- Checking-2\n');
+  });
+});
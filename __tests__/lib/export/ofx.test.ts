@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createOfx } from '@/lib/export/ofx';
+import { parseOfxFile, parseOfxStatements } from '@/lib/ofx/parser';
+import { Account, TransactionWithDetails } from '@/lib/db/types';
+import { mockAccount, mockTransactionWithDetails } from '../utils/mocks';
+
+const checking: Account = {
+  ...mockAccount,
+  id: 1,
+  name: 'Checking',
+  ofx_bank_id: '0341',
+  ofx_account_id: '12345-6',
+  ofx_account_type: 'CHECKING',
+};
+const card: Account = { ...mockAccount, id: 2, name: 'Visa', ofx_account_type: 'CREDITLINE' };
+
+function tx(overrides: Partial<TransactionWithDetails>): TransactionWithDetails {
+  return {
+    ...mockTransactionWithDetails,
+    account_id: 1,
+    comment: null,
+    ofx_fitid: null,
+    ofx_memo: null,
+    ofx_refnum: null,
+    import_batch_id: null,
+    ...overrides,
+  };
+}
+
+const transactions = [
+  tx({ id: 1, date: '2024-01-15', payee: 'Padaria', amount: '-150.00', ofx_fitid: 'ABC123', ofx_refnum: 'REF1', ofx_memo: 'PIX ENVIADO' }),
+  tx({ id: 2, date: '2024-01-20', payee: 'Employer', amount: '2500.00', ofx_fitid: 'QIF-0a1b2c3d' }),
+  tx({ id: 3, date: '2024-01-22', payee: 'Coffee & <Co>', amount: '-4.50', comment: 'Hand-entered' }),
+  tx({ id: 4, date: '2024-01-22', payee: 'Coffee & <Co>', amount: '-4.50' }),
+  tx({ id: 5, date: '2024-01-25', payee: 'Store', amount: '-80.00', account_id: 2 }),
+];
+
+const options = {
+  currency: 'BRL',
+  startDate: '2024-01-01',
+  endDate: '2024-01-31',
+  balances: new Map([
+    [1, '3210.55'],
+    [2, '-80.00'],
+  ]),
+  generatedAt: new Date('2024-02-01T10:00:00Z'),
+};
+
+describe('createOfx', () => {
+  it('should write an OFX 2 document', () => {
+    const ofx = createOfx([checking], transactions.slice(0, 1), options);
+
+    expect(ofx.startsWith('<?xml version="1.0"')).toBe(true);
+    expect(ofx).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+    expect(ofx).toContain('<DTSERVER>20240201100000</DTSERVER>');
+    expect(ofx).toContain('<CURDEF>BRL</CURDEF>');
+  });
+
+  it('should round-trip through parseOfxFile', async () => {
+    const parsed = await parseOfxFile(createOfx([checking], transactions.slice(0, 4), options));
+
+    expect(parsed.statementType).toBe('BANK');
+    expect(parsed.account).toEqual({ bankId: '0341', accountId: '12345-6', type: 'CHECKING' });
+    expect(parsed.dateRange).toEqual({ start: '2024-01-01', end: '2024-01-31' });
+    expect(parsed.ledgerBalance).toEqual({ amount: 3210.55, asOf: '2024-01-31' });
+    expect(parsed.transactions).toHaveLength(4);
+
+    const [padaria, salary, coffee] = parsed.transactions;
+    expect(padaria).toMatchObject({
+      fitid: 'ABC123',
+      refnum: 'REF1',
+      memo: 'PIX ENVIADO',
+      date: '2024-01-15',
+      amount: -150,
+      type: 'DEBIT',
+    });
+    expect(salary).toMatchObject({ amount: 2500, type: 'CREDIT' });
+    expect(coffee.memo).toBe('Hand-entered');
+    expect(coffee.amount).toBe(-4.5);
+  });
+
+  it('should write stored FITIDs unchanged', () => {
+    const ofx = createOfx([checking], transactions.slice(0, 2), options);
+
+    expect(ofx).toContain('<FITID>ABC123</FITID>');
+    expect(ofx).toContain('<FITID>QIF-0a1b2c3d</FITID>');
+  });
+
+  it('should give hand-entered rows stable, distinct IDs', () => {
+    const fitids = (ofx: string) => Array.from(ofx.matchAll(/<FITID>([^<]*)<\/FITID>/g), (m) => m[1]);
+    const ids = fitids(createOfx([checking], transactions.slice(2, 4), options));
+
+    expect(ids[0]).toMatch(/^LEDGER-[0-9a-f]{8}$/);
+    expect(ids[0]).not.toBe(ids[1]);
+    expect(fitids(createOfx([checking], transactions.slice(2, 4), options))).toEqual(ids);
+  });
+
+  it('should put credit cards in their own message set', async () => {
+    const statements = await parseOfxStatements(createOfx([checking, card], transactions, options));
+
+    expect(statements.map((s) => s.statementType)).toEqual(['BANK', 'CREDITCARD']);
+    expect(statements[1].account).toEqual({ bankId: '', accountId: '2', type: 'CREDITLINE' });
+    expect(statements[1].transactions).toMatchObject([{ amount: -80, date: '2024-01-25' }]);
+    expect(statements[1].ledgerBalance?.amount).toBe(-80);
+  });
+
+  it('should escape markup in payees and memos', () => {
+    const ofx = createOfx([checking], transactions.slice(2, 3), options);
+
+    expect(ofx).toContain('<NAME>Coffee &amp; &lt;Co&gt;</NAME>');
+  });
+});
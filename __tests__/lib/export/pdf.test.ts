@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { createPdf, fitText, textWidth } from '@/lib/export/pdf';
+
+// Content streams of the document, inflated, in page order
+function contentStreams(pdf: Uint8Array): string[] {
+  const buffer = Buffer.from(pdf);
+  const streams: string[] = [];
+  let offset = 0;
+  while ((offset = buffer.indexOf('>>\nstream\n', offset)) !== -1) {
+    const start = offset + '>>\nstream\n'.length;
+    const end = buffer.indexOf('\nendstream', start);
+    streams.push(inflateSync(buffer.subarray(start, end)).toString('latin1'));
+    offset = end;
+  }
+  return streams;
+}
+
+describe('textWidth', () => {
+  it('should measure with the Helvetica metrics', () => {
+    expect(textWidth('0', 10)).toBeCloseTo(5.56);
+    expect(textWidth('iW', 10)).toBeCloseTo(2.22 + 9.44);
+    expect(textWidth('a', 10, true)).toBeCloseTo(5.56);
+    expect(textWidth('b', 10, true)).toBeCloseTo(6.11);
+  });
+
+  it('should measure accented letters like their base letter', () => {
+    expect(textWidth('\u00E7', 10)).toBe(textWidth('c', 10));
+  });
+});
+
+describe('fitText', () => {
+  it('should keep text that fits', () => {
+    expect(fitText('Market', 100, 9)).toBe('Market');
+  });
+
+  it('should cut long text with an ellipsis', () => {
+    const fitted = fitText('A very long payee name that cannot fit', 60, 9);
+
+    expect(fitted.endsWith('...')).toBe(true);
+    expect(textWidth(fitted, 9)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('createPdf', () => {
+  const pages = [
+    {
+      texts: [
+        { x: 40, y: 800, text: 'Statement (March)', size: 14, bold: true },
+        { x: 555, y: 780, text: '1,234.56', size: 9, align: 'right' as const },
+      ],
+      rules: [{ x1: 40, y1: 790, x2: 555, y2: 790 }],
+    },
+    { texts: [{ x: 40, y: 800, text: 'Padaria S\u00E3o Jo\u00E3o \\ \u20AC5', size: 9 }], rules: [] },
+  ];
+
+  it('should write a PDF whose cross-reference table points at each object', () => {
+    const pdf = createPdf(pages, { title: 'Report', created: new Date('2024-04-01T00:00:00Z') });
+    const text = Buffer.from(pdf).toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.substring(startxref, startxref + 4)).toBe('xref');
+
+    const entries = [...text.substring(startxref).matchAll(/(\d{10}) 00000 n /g)].map((m) => Number(m[1]));
+    expect(entries).toHaveLength(9);
+    entries.forEach((offset, index) => {
+      expect(text.substring(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/Title (Report)');
+    expect(text).toContain('/CreationDate (D:20240401000000Z)');
+  });
+
+  it('should draw text and rules in each page content', () => {
+    const [first, second] = contentStreams(createPdf(pages));
+
+    expect(first).toContain('/F2 14 Tf 40 800 Td (Statement \\(March\\)) Tj');
+    expect(first).toContain('40 790 m 555 790 l S');
+    // Right-aligned text ends at x
+    const x = Number(first.match(/([\d.]+) 780 Td \(1,234\.56\)/)?.[1]);
+    expect(x + textWidth('1,234.56', 9)).toBeCloseTo(555);
+    // Latin-1 and Windows-1252 characters become octal escapes
+    expect(second).toContain('(Padaria S\\343o Jo\\343o \\\\ \\2005)');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { createStatementPdf, statementTitle } from '@/lib/export/statement';
+import { Statement } from '@/lib/analytics/statement';
+import { TransactionWithDetails } from '@/lib/db/types';
+import { mockAccount, mockTransactionWithDetails } from '../utils/mocks';
+
+// Text drawn on each page, in drawing order
+function pageTexts(pdf: Uint8Array): string[][] {
+  const buffer = Buffer.from(pdf);
+  const pages: string[][] = [];
+  let offset = 0;
+  while ((offset = buffer.indexOf('>>\nstream\n', offset)) !== -1) {
+    const start = offset + '>>\nstream\n'.length;
+    const end = buffer.indexOf('\nendstream', start);
+    const content = inflateSync(buffer.subarray(start, end)).toString('latin1');
+    pages.push([...content.matchAll(/\((.*?)\) Tj/g)].map((m) => m[1]));
+    offset = end;
+  }
+  return pages;
+}
+
+function tx(overrides: Partial<TransactionWithDetails>): TransactionWithDetails {
+  return {
+    ...mockTransactionWithDetails,
+    ofx_fitid: null,
+    ofx_memo: null,
+    ofx_refnum: null,
+    import_batch_id: null,
+    ...overrides,
+  };
+}
+
+const checking = { ...mockAccount, id: 1, name: 'Checking' };
+const savings = { ...mockAccount, id: 2, name: 'Savings' };
+
+const statement: Statement = {
+  period: { start: '2024-03-01', end: '2024-03-31', label: 'March 2024' },
+  consolidated: false,
+  accounts: [
+    {
+      account: checking,
+      opening: '1000.00',
+      closing: '3950.00',
+      transactions: [
+        tx({ date: '2024-03-01', payee: 'Employer', amount: '3000.00', category_path: 'Salary' }),
+        tx({ date: '2024-03-05', payee: 'Market', amount: '-50.00', category_path: 'Food > Groceries' }),
+      ],
+    },
+  ],
+  categories: [
+    { category_id: 1, category_path: 'Salary', category_type: 'income', amount: '3000.00' },
+    { category_id: 2, category_path: 'Food > Groceries', category_type: 'expense', amount: '-50.00' },
+  ],
+};
+
+describe('statementTitle', () => {
+  it('should name the account or the consolidated report', () => {
+    expect(statementTitle(statement)).toBe('Checking Statement');
+    expect(statementTitle({ ...statement, consolidated: true })).toBe('Consolidated Statement');
+  });
+});
+
+describe('createStatementPdf', () => {
+  it('should list balances, transactions and category subtotals', () => {
+    const [page] = pageTexts(createStatementPdf(statement, new Date('2024-04-02T00:00:00Z')));
+
+    expect(page).toEqual(
+      expect.arrayContaining([
+        'Checking Statement',
+        'March 2024 \\(2024-03-01 to 2024-03-31\\)',
+        'Opening balance',
+        '1,000.00',
+        'Employer',
+        '4,000.00',
+        'Food > Groceries',
+        '-50.00',
+        'Closing balance',
+        '3,950.00',
+        'Total income',
+        'Total expenses',
+        'Net',
+        '2,950.00',
+        'Generated 2024-04-02',
+        'Page 1 of 1',
+      ])
+    );
+  });
+
+  it('should total every account in a consolidated report', () => {
+    const [page] = pageTexts(
+      createStatementPdf({
+        ...statement,
+        consolidated: true,
+        accounts: [
+          ...statement.accounts,
+          { account: savings, opening: '500.00', closing: '500.00', transactions: [] },
+        ],
+      })
+    );
+
+    expect(page).toEqual(
+      expect.arrayContaining(['Total', '1,500.00', '4,450.00', 'Transactions: Checking', 'Transactions: Savings'])
+    );
+  });
+
+  it('should continue long statements on new pages with the table header repeated', () => {
+    const transactions = Array.from({ length: 120 }, (_, i) =>
+      tx({ date: '2024-03-10', payee: `Payee ${i}`, amount: '-1.00', category_path: null })
+    );
+    const pages = pageTexts(
+      createStatementPdf({
+        ...statement,
+        accounts: [{ account: checking, opening: '0.00', closing: '-120.00', transactions }],
+        categories: [{ category_id: null, category_path: 'Uncategorized', category_type: null, amount: '-120.00' }],
+      })
+    );
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages[1]).toEqual(expect.arrayContaining(['Checking Statement', 'Date', 'Payee', 'Balance']));
+    expect(pages[pages.length - 1]).toEqual(
+      expect.arrayContaining(['Closing balance', `Page ${pages.length} of ${pages.length}`])
+    );
+    expect(pages.flat().filter((text) => text.startsWith('Payee '))).toHaveLength(120);
+  });
+});
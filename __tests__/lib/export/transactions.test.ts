@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { decimalSeparator, formatTransactionsCsv } from '@/lib/export/transactions';
+import { TransactionWithDetails } from '@/lib/db/types';
+import { mockTransactionWithDetails } from '../utils/mocks';
+
+const base: TransactionWithDetails = {
+  ...mockTransactionWithDetails,
+  ofx_memo: null,
+  ofx_fitid: null,
+  ofx_refnum: null,
+  import_batch_id: null,
+};
+
+const rows: TransactionWithDetails[] = [
+  {
+    ...base,
+    date: '2024-01-15',
+    account_name: 'Checking',
+    payee: 'Padaria; "Central"',
+    category_path: 'Food > Bakery',
+    amount: '-1234.5',
+    comment: null,
+    ofx_memo: 'COMPRA CARTAO',
+    ofx_fitid: 'F1',
+  },
+  {
+    ...base,
+    date: '2024-02-01',
+    account_name: 'Checking',
+    payee: '=HYPERLINK("x")',
+    category_path: null,
+    amount: '2500',
+    comment: 'line one\nline two',
+    ofx_memo: null,
+    ofx_fitid: null,
+  },
+];
+
+describe('decimalSeparator', () => {
+  it('should follow the locale', () => {
+    expect(decimalSeparator('en-US')).toBe('.');
+    expect(decimalSeparator('pt-BR')).toBe(',');
+  });
+});
+
+describe('formatTransactionsCsv', () => {
+  it('should use commas and US formats for en-US', () => {
+    const lines = formatTransactionsCsv(rows, 'en-US').split('\r\n');
+
+    expect(lines[0]).toBe('\uFEFFDate,Account,Payee,Category,Amount,Comment,OFX Memo,FITID');
+    expect(lines[1]).toBe('01/15/2024,Checking,"Padaria; ""Central""",Food > Bakery,-1234.50,,COMPRA CARTAO,F1');
+  });
+
+  it('should use semicolons and a decimal comma for pt-BR', () => {
+    const lines = formatTransactionsCsv(rows, 'pt-BR').split('\r\n');
+
+    expect(lines[0]).toBe('\uFEFFDate;Account;Payee;Category;Amount;Comment;OFX Memo;FITID');
+    expect(lines[1]).toBe('15/01/2024;Checking;"Padaria; ""Central""";Food > Bakery;-1234,50;;COMPRA CARTAO;F1');
+  });
+
+  it('should neutralize formulas and keep multi-line comments quoted', () => {
+    const csv = formatTransactionsCsv(rows, 'en-US');
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")",Uncategorized,2500.00,"line one\nline two",,`);
+  });
+
+  it('should use an ASCII minus sign', () => {
+    expect(formatTransactionsCsv(rows, 'sv-SE')).toContain('2024-01-15;Checking;"Padaria; ""Central""";Food > Bakery;-1234,50');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { columnName, createXlsx, excelDateSerial } from '@/lib/export/xlsx';
+
+function sheetXml(workbook: Uint8Array): string {
+  const buffer = Buffer.from(workbook);
+  const marker = buffer.indexOf('xl/worksheets/sheet1.xml');
+  // Local header: the name starts 30 bytes in, the data right after it
+  const header = marker - 30;
+  const size = buffer.readUInt32LE(header + 18);
+  const start = marker + buffer.readUInt16LE(header + 26);
+  return inflateRawSync(buffer.subarray(start, start + size)).toString('utf-8');
+}
+
+describe('columnName', () => {
+  it('should name columns like Excel', () => {
+    expect(columnName(0)).toBe('A');
+    expect(columnName(25)).toBe('Z');
+    expect(columnName(26)).toBe('AA');
+    expect(columnName(701)).toBe('ZZ');
+  });
+});
+
+describe('excelDateSerial', () => {
+  it('should count days from the Excel epoch', () => {
+    expect(excelDateSerial('1900-03-01')).toBe(61);
+    expect(excelDateSerial('2024-01-15')).toBe(45306);
+  });
+});
+
+describe('createXlsx', () => {
+  const workbook = createXlsx({
+    name: 'Checking',
+    columns: [{ header: 'Date', format: 'date' }, { header: 'Payee' }, { header: 'Amount', format: 'amount' }],
+    rows: [
+      ['2024-01-15', 'Tom & Jerry <Ltd>', -12.5],
+      ['2024-01-16', null, 3],
+    ],
+  });
+
+  it('should start with a zip signature', () => {
+    expect(Buffer.from(workbook).readUInt32LE(0)).toBe(0x04034b50);
+  });
+
+  it('should write dates and amounts as numbers and escape strings', () => {
+    const xml = sheetXml(workbook);
+
+    expect(xml).toContain('<c r="A2" s="1"><v>45306</v></c>');
+    expect(xml).toContain('<t xml:space="preserve">Tom &amp; Jerry &lt;Ltd&gt;</t>');
+    expect(xml).toContain('<c r="C2" s="2"><v>-12.5</v></c>');
+    expect(xml).toContain('<row r="3"><c r="A3" s="1"><v>45307</v></c><c r="C3" s="2"><v>3</v></c></row>');
+    expect(xml).toContain('<autoFilter ref="A1:C3"/>');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { crc32, createZip, readZip } from '@/lib/export/zip';
+
+// Reads entries back through the central directory
+function readEntries(zip: Uint8Array): Record<string, string> {
+  const buffer = Buffer.from(zip);
+  const end = buffer.length - 22;
+  expect(buffer.readUInt32LE(end)).toBe(0x06054b50);
+
+  const entries: Record<string, string> = {};
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    const size = buffer.readUInt32LE(offset + 20);
+    const local = buffer.readUInt32LE(offset + 42);
+    const start = local + 30 + buffer.readUInt16LE(local + 26);
+    const data = inflateRawSync(buffer.subarray(start, start + size));
+
+    expect(crc32(data)).toBe(buffer.readUInt32LE(offset + 16));
+    entries[name] = data.toString('utf-8');
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('should write entries that read back unchanged', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'dir/ção.xml', data: new TextEncoder().encode('<x>ç</x>') },
+    ]);
+
+    expect(readEntries(zip)).toEqual({ 'a.txt': 'hello', 'dir/ção.xml': '<x>ç</x>' });
+  });
+});
+
+describe('readZip', () => {
+  it('should read back what createZip writes', () => {
+    const zip = createZip([
+      { name: 'ledger.json', data: '{"a":1}' },
+      { name: 'notes/ção.txt', data: 'ç' },
+    ]);
+
+    const entries = readZip(zip);
+
+    expect(entries.map((e) => e.name)).toEqual(['ledger.json', 'notes/ção.txt']);
+    expect(new TextDecoder().decode(entries[0].data as Uint8Array)).toBe('{"a":1}');
+    expect(new TextDecoder().decode(entries[1].data as Uint8Array)).toBe('ç');
+  });
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => readZip(new TextEncoder().encode('{"a":1}'))).toThrow('Not a zip archive');
+  });
+
+  it('should reject entries whose checksum does not match', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }]);
+    // The CRC in the central directory record, 16 bytes into it
+    const central = Buffer.from(zip).indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    zip[central + 16] ^= 0xff;
+
+    expect(() => readZip(zip)).toThrow('Corrupt zip entry a.txt');
+  });
+
+  it('should refuse archives that expand past the size limit', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'a'.repeat(600 * 1024) },
+      { name: 'b.txt', data: 'b'.repeat(600 * 1024) },
+    ]);
+
+    expect(() => readZip(zip, 1024 * 1024)).toThrow('Archives are limited to 1 MB uncompressed');
+  });
+
+  it('should not inflate an entry past its recorded size', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'a'.repeat(1024) }]);
+    // Understate the uncompressed size in the central directory record
+    const central = Buffer.from(zip).indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    Buffer.from(zip.buffer, zip.byteOffset).writeUInt32LE(10, central + 24);
+
+    expect(() => readZip(zip)).toThrow('Corrupt zip entry a.txt');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateMatches, payeeSimilarity } from '@/lib/import/duplicates';
+
+function row(fitid: string, overrides: Partial<Parameters<typeof findDuplicateMatches>[0][number]> = {}) {
+  return {
+    fitid,
+    date: '2024-01-15',
+    payee: null,
+    memo: 'COMPRA CARTAO SUPERMERCADO EXTRA',
+    amount: -52.3,
+    ...overrides,
+  };
+}
+
+const manual = { id: 7, date: '2024-01-13', payee: 'Supermercado Extra', amount: '-52.30' };
+
+describe('payeeSimilarity', () => {
+  it('should be 1 for the same words in any case or accents', () => {
+    expect(payeeSimilarity('Padaria São João', 'PADARIA SAO JOAO')).toBe(1);
+  });
+
+  it('should count abbreviated words', () => {
+    expect(payeeSimilarity('Supermerc Extra', 'Supermercado Extra')).toBe(1);
+  });
+
+  it('should be 0 without words in common', () => {
+    expect(payeeSimilarity('Uber', 'Padaria')).toBe(0);
+    expect(payeeSimilarity('', 'Padaria')).toBe(0);
+  });
+});
+
+describe('findDuplicateMatches', () => {
+  it('should match the same amount a few days apart with a similar payee', () => {
+    expect(findDuplicateMatches([row('A')], [manual])).toEqual([
+      {
+        fitid: 'A',
+        transaction_id: 7,
+        date: '2024-01-13',
+        payee: 'Supermercado Extra',
+        similarity: expect.any(Number),
+        day_difference: 2,
+      },
+    ]);
+  });
+
+  it('should compare against the extracted payee as well as the memo', () => {
+    const matches = findDuplicateMatches(
+      [row('A', { payee: 'EXTRA SUPERMERCADO', memo: 'PIX 12345678901234' })],
+      [manual]
+    );
+    expect(matches).toHaveLength(1);
+  });
+
+  it('should not match a different amount', () => {
+    expect(findDuplicateMatches([row('A', { amount: -52.31 })], [manual])).toEqual([]);
+  });
+
+  it('should not match outside the date window', () => {
+    expect(findDuplicateMatches([row('A', { date: '2024-01-17' })], [manual])).toEqual([]);
+  });
+
+  it('should not match an unrelated payee', () => {
+    expect(findDuplicateMatches([row('A', { memo: 'POSTO SHELL' })], [manual])).toEqual([]);
+  });
+
+  it('should give each manual transaction to the closest row only', () => {
+    const matches = findDuplicateMatches(
+      [row('far', { date: '2024-01-16' }), row('near', { date: '2024-01-14' })],
+      [manual]
+    );
+    expect(matches.map((match) => match.fitid)).toEqual(['near']);
+  });
+});
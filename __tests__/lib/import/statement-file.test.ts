@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseStatementFile } from '@/lib/import/statement-file';
+
+vi.mock('@/lib/db', () => ({
+  execute: vi.fn(),
+  withTransaction: vi.fn(),
+}));
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(path.join(__dirname, '../../fixtures/ofx', name)));
+}
+
+function encode(content: string): Uint8Array {
+  return new TextEncoder().encode(content);
+}
+
+describe('parseStatementFile', () => {
+  it('should decode and parse an OFX file', async () => {
+    const result = await parseStatementFile(fixture('windows-1252.ofx'), 'extrato.ofx');
+
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.encodingSource).toBe('header');
+    expect(result.statements).toHaveLength(1);
+    expect(result.statements[0].transactions[0].payee).toBe('PADARIA SÃO JOÃO');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should honor the requested encoding', async () => {
+    const result = await parseStatementFile(fixture('utf-8.ofx'), 'extrato.ofx', {
+      encoding: 'windows-1252',
+    });
+
+    expect(result.encodingSource).toBe('manual');
+    expect(result.statements[0].transactions[1].memo).not.toBe('CAFÉ AÇAÍ');
+  });
+
+  it('should parse QIF files by extension', async () => {
+    const result = await parseStatementFile(
+      encode('!Type:Bank\nD01/15/2024\nT-12.50\nPPadaria\n^\n'),
+      'export.qif'
+    );
+
+    expect(result.statements[0].transactions).toHaveLength(1);
+    expect(result.statements[0].transactions[0].amount).toBe(-12.5);
+  });
+
+  it('should detect camt.053 and MT940 content', async () => {
+    const camt = await parseStatementFile(
+      encode(
+        '<?xml version="1.0"?><Document><BkToCstmrStmt><Stmt>' +
+          '<Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>' +
+          '<Ntry><AcctSvcrRef>R1</AcctSvcrRef><Amt Ccy="EUR">5.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>' +
+          '<BookgDt><Dt>2024-01-15</Dt></BookgDt></Ntry>' +
+          '</Stmt></BkToCstmrStmt></Document>'
+      ),
+      'statement.xml'
+    );
+    const mt940 = await parseStatementFile(
+      encode(':20:X\n:25:37040044/0532013000\n:60F:C240101EUR0,00\n:61:240115D5,00NTRFNONREF\n'),
+      'statement.sta'
+    );
+
+    expect(camt.statements[0].transactions[0]).toMatchObject({ fitid: 'R1', amount: -5 });
+    expect(mt940.statements[0].transactions[0]).toMatchObject({ date: '2024-01-15', amount: -5 });
+  });
+
+  it('should leave out and report rows that fail validation', async () => {
+    const nextYear = new Date().getFullYear() + 1;
+    const result = await parseStatementFile(
+      encode(`!Type:Bank\nD01/15/2024\nT-12.50\nPPadaria\n^\nD01/15/${nextYear}\nT-5.00\nPFuture\n^\n`),
+      'export.qif'
+    );
+
+    expect(result.statements[0].transactions.map((t) => t.payee)).toEqual(['Padaria']);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('date: Date must be within last 10 years');
+  });
+
+  it('should cut overly long payees and memos instead of dropping the row', async () => {
+    const result = await parseStatementFile(
+      encode(`!Type:Bank\nD01/15/2024\nT-12.50\nP${'B'.repeat(250)}\nM${'m'.repeat(600)}\n^\n`),
+      'export.qif'
+    );
+
+    const [tx] = result.statements[0].transactions;
+    expect(tx.payee).toBe('B'.repeat(200));
+    expect(tx.memo).toBe('m'.repeat(500));
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { importStatements, importStatementsWithClient } from '@/lib/import/statements';
+import { TransactionClient } from '@/lib/db';
+import { CategoryRule } from '@/lib/db/types';
+import { OfxTransaction } from '@/lib/ofx/types';
+
+const client = { query: vi.fn() };
+
+vi.mock('@/lib/db', () => ({
+  execute: vi.fn(),
+  withTransaction: vi.fn((callback: (c: typeof client) => Promise<unknown>) => callback(client)),
+}));
+
+vi.mock('@/lib/db/category-rules', () => ({
+  getAllCategoryRules: vi.fn(() => []),
+}));
+
+vi.mock('@/lib/db/accounts', () => ({
+  getAccountBalance: vi.fn(),
+}));
+
+vi.mock('@/lib/db/categories', () => ({
+  getAllCategoriesWithPaths: vi.fn(() => []),
+}));
+
+function tx(fitid: string, overrides: Partial<OfxTransaction> = {}): OfxTransaction {
+  return {
+    fitid,
+    refnum: '',
+    memo: 'memo',
+    payee: 'Payee',
+    cleanedMemo: 'memo',
+    date: '2024-01-15',
+    amount: -10,
+    type: 'DEBIT',
+    ...overrides,
+  };
+}
+
+// Answers the import queries; existing FITIDs are reported as already present
+// and merges succeed for the given hand-entered transaction ids
+function respond(existing: string[] = [], failInsertFor?: number, mergeable: number[] = []) {
+  let batchId = 0;
+  client.query.mockImplementation(async (text: string, params: unknown[] = []) => {
+    if (text.includes('UPDATE transactions t')) {
+      const [, ids, fitids] = params as [number, number[], string[]];
+      return {
+        rows: fitids
+          .filter((_, i) => mergeable.includes(ids[i]))
+          .map((ofx_fitid) => ({ ofx_fitid })),
+      };
+    }
+    if (text.includes('SELECT ofx_fitid')) {
+      return { rows: existing.map((ofx_fitid) => ({ ofx_fitid })) };
+    }
+    if (text.includes('INSERT INTO import_batches')) {
+      return { rows: [{ id: ++batchId }] };
+    }
+    if (text.includes('INSERT INTO transactions')) {
+      if (params[0] === failInsertFor) throw new Error('insert failed');
+      return { rowCount: (params[6] as string[]).length };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+const bakeryRule: CategoryRule = {
+  id: 1,
+  name: 'Bakery',
+  payee_match_type: 'contains',
+  payee_pattern: 'padaria',
+  amount_min: null,
+  amount_max: null,
+  account_id: null,
+  category_id: 42,
+  rename_payee: 'Padaria Central',
+  position: 1,
+  enabled: true,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+};
+
+function queriesMatching(fragment: string) {
+  return client.query.mock.calls.filter(([text]) => (text as string).includes(fragment));
+}
+
+describe('importStatements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should bulk insert new transactions and skip existing ones', async () => {
+    respond(['A']);
+
+    const result = await importStatements(
+      [{ accountId: 1, transactions: [tx('A'), tx('B'), tx('C')] }],
+      { fileName: 'jan.ofx', userId: 7 }
+    );
+
+    expect(result).toEqual({
+      imported: 2,
+      merged: 0,
+      skipped: 1,
+      errors: [],
+      batchIds: [1],
+      reconciliations: [],
+    });
+    const [insert] = queriesMatching('INSERT INTO transactions');
+    expect(insert[0]).toContain('unnest(');
+    expect(insert[0]).toContain('ON CONFLICT (account_id, ofx_fitid) DO NOTHING');
+    expect(insert[1][6]).toEqual(['B', 'C']);
+    expect(queriesMatching('INSERT INTO import_batches')[0][1]).toEqual([
+      1, 'jan.ofx', '2024-01-15', '2024-01-15', 7,
+    ]);
+    expect(queriesMatching('UPDATE import_batches')[0][1]).toEqual([1, 2, 1]);
+  });
+
+  it('should import a FITID repeated within the file only once', async () => {
+    respond();
+
+    const result = await importStatements([
+      { accountId: 1, transactions: [tx('A'), tx('A')] },
+    ]);
+
+    expect(result.imported).toBe(1);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('should leave out invalid transactions and report them', async () => {
+    respond();
+
+    const result = await importStatements([
+      { accountId: 1, transactions: [tx('A'), tx('B', { amount: NaN })] },
+    ]);
+
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual(['Invalid transaction B: amount: Invalid amount']);
+  });
+
+  it('should reject amounts outside the manual entry bounds', async () => {
+    respond();
+
+    const result = await importStatements([
+      { accountId: 1, transactions: [tx('A', { amount: 2000000 })] },
+    ]);
+
+    expect(result.imported).toBe(0);
+    expect(result.errors).toEqual([
+      'Invalid transaction A: amount: Amount must be between -1,000,000.00 and 1,000,000.00',
+    ]);
+  });
+
+  it('should merge flagged rows into hand-entered transactions', async () => {
+    respond([], undefined, [40]);
+
+    const result = await importStatements([
+      {
+        accountId: 1,
+        transactions: [tx('A', { mergeIntoId: 40 }), tx('B'), tx('C', { mergeIntoId: 41 })],
+      },
+    ]);
+
+    expect(result.merged).toBe(1);
+    expect(result.imported).toBe(2);
+    expect(result.skipped).toBe(0);
+
+    const [[, mergeParams]] = queriesMatching('UPDATE transactions t');
+    expect(mergeParams).toEqual([1, [40, 41], ['A', 'C'], ['memo', 'memo'], ['', '']]);
+
+    // The merge target that was already taken is inserted instead
+    const [[, insertParams]] = queriesMatching('INSERT INTO transactions');
+    expect((insertParams as unknown[])[6]).toEqual(['B', 'C']);
+  });
+
+  it('should import nothing with allOrNothing when a transaction is invalid', async () => {
+    respond();
+
+    const result = await importStatements(
+      [{ accountId: 1, transactions: [tx('A'), tx('B', { date: '15/01/2024' })] }],
+      { allOrNothing: true }
+    );
+
+    expect(result.imported).toBe(0);
+    expect(result.errors).toHaveLength(1);
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it('should roll back only the failing statement by default', async () => {
+    respond([], 2);
+
+    const result = await importStatements([
+      { accountId: 1, transactions: [tx('A')] },
+      { accountId: 2, transactions: [tx('B')] },
+    ]);
+
+    expect(result.imported).toBe(1);
+    expect(result.batchIds).toEqual([1]);
+    expect(result.errors[0]).toContain('Failed to import into account 2');
+    expect(queriesMatching('ROLLBACK TO SAVEPOINT')).toHaveLength(1);
+  });
+
+  it('should abort every statement with allOrNothing when one fails', async () => {
+    respond([], 2);
+
+    const result = await importStatements(
+      [
+        { accountId: 1, transactions: [tx('A')] },
+        { accountId: 2, transactions: [tx('B')] },
+      ],
+      { allOrNothing: true }
+    );
+
+    expect(result).toMatchObject({ imported: 0, skipped: 0, batchIds: [] });
+    expect(result.errors[0]).toContain('Failed to import into account 2');
+    expect(queriesMatching('SAVEPOINT')).toHaveLength(0);
+  });
+
+  it('should link bank identifiers to the account', async () => {
+    respond();
+
+    await importStatements([
+      {
+        accountId: 3,
+        transactions: [tx('A')],
+        ofxAccount: { bankId: '111', accountId: '999', type: 'CHECKING' },
+      },
+    ]);
+
+    expect(queriesMatching('UPDATE accounts')[0][1]).toEqual([3, '111', '999', 'CHECKING']);
+  });
+
+  it('should compare the statement balance to the ledger and record a checkpoint', async () => {
+    const { execute } = await import('@/lib/db');
+    const { getAccountBalance } = await import('@/lib/db/accounts');
+    respond();
+    vi.mocked(getAccountBalance).mockResolvedValue('90.00');
+
+    const result = await importStatements([
+      {
+        accountId: 3,
+        transactions: [tx('A')],
+        ledgerBalance: { amount: 100, asOf: '2024-01-31' },
+      },
+    ]);
+
+    expect(getAccountBalance).toHaveBeenCalledWith(3, '2024-01-31');
+    expect(result.reconciliations).toEqual([
+      { accountId: 3, asOf: '2024-01-31', bankBalance: 100, ledgerBalance: 90, difference: 10 },
+    ]);
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO account_balance_checkpoints'),
+      [3, '2024-01-31', '100.00', '90.00', 1]
+    );
+  });
+
+  it('should not reconcile when the import was aborted', async () => {
+    const { getAccountBalance } = await import('@/lib/db/accounts');
+    respond([], 3);
+
+    const result = await importStatements(
+      [{ accountId: 3, transactions: [tx('A')], ledgerBalance: { amount: 1, asOf: '2024-01-31' } }],
+      { allOrNothing: true }
+    );
+
+    expect(result.reconciliations).toEqual([]);
+    expect(getAccountBalance).not.toHaveBeenCalled();
+  });
+
+  it('should count a dry run like a real import and roll it back', async () => {
+    const { getAccountBalance } = await import('@/lib/db/accounts');
+    const { withTransaction } = await import('@/lib/db');
+    respond(['A'], undefined, [9]);
+
+    const result = await importStatements(
+      [
+        {
+          accountId: 1,
+          transactions: [tx('A'), tx('B'), tx('B'), tx('C', { mergeIntoId: 9 }), tx('D', { amount: NaN })],
+          ledgerBalance: { amount: 1, asOf: '2024-01-31' },
+        },
+      ],
+      { dryRun: true }
+    );
+
+    expect(result).toMatchObject({ imported: 1, merged: 1, skipped: 2, batchIds: [], reconciliations: [] });
+    expect(result.errors).toEqual(['Invalid transaction D: amount: Invalid amount']);
+    await expect(vi.mocked(withTransaction).mock.results[0].value).rejects.toThrow();
+    expect(getAccountBalance).not.toHaveBeenCalled();
+  });
+
+  it('should categorize and rename with the category rules', async () => {
+    const { getAllCategoryRules } = await import('@/lib/db/category-rules');
+    respond();
+    vi.mocked(getAllCategoryRules).mockResolvedValue([bakeryRule]);
+
+    await importStatements([
+      {
+        accountId: 1,
+        transactions: [tx('A', { payee: null, memo: 'PIX PADARIA CENTRAL' }), tx('B')],
+      },
+    ]);
+
+    const [insert] = queriesMatching('INSERT INTO transactions');
+    expect(insert[1][3]).toEqual(['Padaria Central', 'Payee']);
+    expect(insert[1][9]).toEqual([42, null]);
+  });
+
+  it('should leave rows marked skipRules to themselves', async () => {
+    const { getAllCategoryRules } = await import('@/lib/db/category-rules');
+    respond();
+    vi.mocked(getAllCategoryRules).mockResolvedValue([bakeryRule]);
+
+    await importStatements([
+      {
+        accountId: 1,
+        transactions: [tx('A', { payee: 'Padaria transfer', skipRules: true })],
+      },
+    ]);
+
+    const [insert] = queriesMatching('INSERT INTO transactions');
+    expect(insert[1][3]).toEqual(['Padaria transfer']);
+    expect(insert[1][9]).toEqual([null]);
+  });
+});
+
+describe('importStatementsWithClient', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should import on the given client without a transaction of its own', async () => {
+    const { withTransaction } = await import('@/lib/db');
+    respond();
+
+    const result = await importStatementsWithClient(client as unknown as TransactionClient, [
+      { accountId: 1, transactions: [tx('A'), tx('B', { amount: NaN })] },
+    ]);
+
+    expect(withTransaction).not.toHaveBeenCalled();
+    expect(queriesMatching('SAVEPOINT')).toHaveLength(0);
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual(['Invalid transaction B: amount: Invalid amount']);
+  });
+
+  it('should throw when a statement fails so the caller rolls back', async () => {
+    respond([], 2);
+
+    await expect(
+      importStatementsWithClient(client as unknown as TransactionClient, [
+        { accountId: 1, transactions: [tx('A')] },
+        { accountId: 2, transactions: [tx('B')] },
+      ])
+    ).rejects.toThrow('insert failed');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { applyMigration } from '@/lib/migration/apply';
+import { importStatementsWithClient } from '@/lib/import/statements';
+import { MigrationPlan } from '@/lib/migration/types';
+
+const client = { query: vi.fn() };
+
+vi.mock('@/lib/db', () => ({
+  withTransaction: vi.fn((callback: (c: typeof client) => Promise<unknown>) => callback(client)),
+}));
+
+vi.mock('@/lib/import/statements', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/import/statements')>()),
+  importStatementsWithClient: vi.fn(),
+}));
+
+const plan: MigrationPlan = {
+  source: 'gnucash',
+  accounts: [
+    { name: 'Checking', existing_id: 4, transactions: 2 },
+    { name: 'Savings', existing_id: null, transactions: 1 },
+  ],
+  categories: [
+    {
+      key: 'expense:auto > gas',
+      name: 'Gas',
+      parent_key: 'expense:auto',
+      path: 'Auto > Gas',
+      category_type: 'expense',
+      depth: 2,
+      existing_id: null,
+    },
+    {
+      key: 'expense:auto',
+      name: 'Auto',
+      parent_key: null,
+      path: 'Auto',
+      category_type: 'expense',
+      depth: 1,
+      existing_id: 9,
+    },
+  ],
+  transactions: [
+    {
+      account: 'Checking',
+      category_key: 'expense:auto > gas',
+      fitid: 'GNUCASH-1',
+      date: '2024-01-15',
+      payee: 'Shell',
+      memo: '',
+      comment: '',
+      amount: -45,
+      refnum: '101',
+      transfer: false,
+    },
+    {
+      account: 'Checking',
+      category_key: null,
+      fitid: 'GNUCASH-2',
+      date: '1990-01-01',
+      payee: 'Old',
+      memo: '',
+      comment: '',
+      amount: -1,
+      refnum: '',
+      transfer: false,
+    },
+    {
+      account: 'Savings',
+      category_key: null,
+      fitid: 'GNUCASH-3',
+      date: '2024-01-17',
+      payee: 'Transfer from Checking',
+      memo: '',
+      comment: 'Transfer from Checking',
+      amount: 300,
+      refnum: '',
+      transfer: true,
+    },
+  ],
+  issues: ['parser issue'],
+};
+
+describe('applyMigration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let id = 100;
+    client.query.mockImplementation(async () => ({ rows: [{ id: ++id }] }));
+    vi.mocked(importStatementsWithClient).mockResolvedValue({
+      imported: 2,
+      merged: 0,
+      skipped: 0,
+      errors: [],
+      batchIds: [1, 2],
+      reconciliations: [],
+    });
+  });
+
+  it('should create missing accounts and categories, parents first', async () => {
+    const report = await applyMigration(plan, { fileName: 'book.gnucash', userId: 3 });
+
+    expect(client.query).toHaveBeenCalledTimes(2);
+    expect(client.query.mock.calls[0][1]).toEqual(['Savings']);
+    expect(client.query.mock.calls[1][1]).toEqual(['Gas', 'expense', 9, 2]);
+    expect(report.accountsCreated).toEqual(['Savings']);
+    expect(report.categoriesCreated).toEqual(['Auto > Gas']);
+  });
+
+  it('should import each account as its own statement with resolved categories', async () => {
+    await applyMigration(plan, { fileName: 'book.gnucash', userId: 3 });
+
+    const [importClient, statements, options] = vi.mocked(importStatementsWithClient).mock.calls[0];
+    expect(importClient).toBe(client);
+    expect(options).toEqual({ fileName: 'book.gnucash', userId: 3 });
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatchObject({ accountId: 4 });
+    expect(statements[0].transactions).toEqual([
+      expect.objectContaining({
+        fitid: 'GNUCASH-1',
+        categoryId: 102,
+        type: 'DEBIT',
+        refnum: '101',
+        skipRules: false,
+      }),
+    ]);
+    expect(statements[1]).toMatchObject({ accountId: 101 });
+    expect(statements[1].transactions[0]).toMatchObject({
+      cleanedMemo: 'Transfer from Checking',
+      type: 'CREDIT',
+      categoryId: null,
+      skipRules: true,
+    });
+  });
+
+  it('should fail the whole migration when the import fails', async () => {
+    const { withTransaction } = await import('@/lib/db');
+    vi.mocked(importStatementsWithClient).mockRejectedValue(new Error('insert failed'));
+
+    await expect(applyMigration(plan)).rejects.toThrow('insert failed');
+    expect(withTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report rows the importer would reject with their source details', async () => {
+    const report = await applyMigration(plan);
+
+    expect(report.imported).toBe(2);
+    expect(report.issues[0]).toBe('parser issue');
+    expect(report.issues[1]).toMatch(/^1990-01-01 "Old" in Checking: date: .*; skipped$/);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'zlib';
+import { MAX_BOOK_BYTES, parseGnucashCsv, parseGnucashXml } from '@/lib/migration/gnucash';
+import { parseMigrationFile } from '@/lib/migration/file';
+
+function account(id: string, name: string, type: string, parent?: string) {
+  return `<gnc:account version="2.0.0">
+  <act:name>${name}</act:name>
+  <act:id type="guid">${id}</act:id>
+  <act:type>${type}</act:type>
+  ${parent ? `<act:parent type="guid">${parent}</act:parent>` : ''}
+</gnc:account>`;
+}
+
+function split(id: string, accountId: string, value: string, memo = '') {
+  return `<trn:split>
+  <split:id type="guid">${id}</split:id>
+  ${memo ? `<split:memo>${memo}</split:memo>` : ''}
+  <split:value>${value}</split:value>
+  <split:quantity>${value}</split:quantity>
+  <split:account type="guid">${accountId}</split:account>
+</trn:split>`;
+}
+
+function transaction(id: string, date: string, description: string, splits: string[], num = '') {
+  return `<gnc:transaction version="2.0.0">
+  <trn:id type="guid">${id}</trn:id>
+  ${num ? `<trn:num>${num}</trn:num>` : ''}
+  <trn:date-posted><ts:date>${date} 10:59:00 +0000</ts:date></trn:date-posted>
+  <trn:description>${description}</trn:description>
+  <trn:splits>${splits.join('')}</trn:splits>
+</gnc:transaction>`;
+}
+
+const book = `<?xml version="1.0" encoding="utf-8" ?>
+<gnc-v2 xmlns:gnc="http://www.gnucash.org/XML/gnc" xmlns:act="http://www.gnucash.org/XML/act"
+  xmlns:trn="http://www.gnucash.org/XML/trn" xmlns:split="http://www.gnucash.org/XML/split"
+  xmlns:ts="http://www.gnucash.org/XML/ts">
+<gnc:book version="2.0.0">
+${account('root', 'Root Account', 'ROOT')}
+${account('assets', 'Assets', 'ASSET', 'root')}
+${account('checking', 'Checking Account', 'BANK', 'assets')}
+${account('savings', 'Savings Account', 'BANK', 'assets')}
+${account('expenses', 'Expenses', 'EXPENSE', 'root')}
+${account('auto', 'Auto', 'EXPENSE', 'expenses')}
+${account('gas', 'Gas', 'EXPENSE', 'auto')}
+${account('groceries', 'Groceries', 'EXPENSE', 'expenses')}
+${account('income', 'Income', 'INCOME', 'root')}
+${account('salary', 'Salary', 'INCOME', 'income')}
+${account('stocks', 'Brokerage', 'STOCK', 'assets')}
+${transaction('t1', '2024-01-15', 'Shell', [split('s1', 'checking', '-4500/100'), split('s2', 'gas', '4500/100')], '101')}
+${transaction('t2', '2024-01-16', 'Acme', [split('s3', 'checking', '250000/100'), split('s4', 'salary', '-250000/100')])}
+${transaction('t3', '2024-01-17', 'Move to savings', [split('s5', 'checking', '-30000/100'), split('s6', 'savings', '30000/100')])}
+${transaction('t4', '2024-01-18', 'Market', [
+  split('s7', 'checking', '-6000/100'),
+  split('s8', 'groceries', '4000/100', 'food'),
+  split('s9', 'gas', '2000/100', 'fuel'),
+])}
+${transaction('t5', '2024-01-19', 'Buy shares', [split('s10', 'checking', '-10000/100'), split('s11', 'stocks', '10000/100')])}
+</gnc:book>
+</gnc-v2>`;
+
+describe('parseGnucashXml', () => {
+  it('should map expense and income accounts to categories without the top level', async () => {
+    const data = await parseGnucashXml(book);
+
+    expect(data.transactions[0]).toMatchObject({
+      account: 'Checking Account',
+      date: '2024-01-15',
+      payee: 'Shell',
+      amount: -45,
+      refnum: '101',
+      category: ['Auto', 'Gas'],
+      category_type: 'expense',
+    });
+    expect(data.transactions[1]).toMatchObject({
+      amount: 2500,
+      category: ['Salary'],
+      category_type: 'income',
+    });
+  });
+
+  it('should import transfers on both sides', async () => {
+    const data = await parseGnucashXml(book);
+    const transfers = data.transactions.filter((tx) => tx.transfer);
+
+    expect(transfers).toHaveLength(2);
+    expect(transfers[0]).toMatchObject({
+      account: 'Checking Account',
+      amount: -300,
+      transfer_account: 'Savings Account',
+    });
+    expect(transfers[1]).toMatchObject({
+      account: 'Savings Account',
+      amount: 300,
+      transfer_account: 'Checking Account',
+    });
+    expect(data.accounts).toEqual(['Checking Account', 'Savings Account']);
+  });
+
+  it('should split a transaction across categories into one row each', async () => {
+    const data = await parseGnucashXml(book);
+    const market = data.transactions.filter((tx) => tx.payee === 'Market');
+
+    expect(market).toHaveLength(2);
+    expect(market[0]).toMatchObject({ amount: -40, category: ['Groceries'], memo: 'food' });
+    expect(market[1]).toMatchObject({ amount: -20, category: ['Auto', 'Gas'], memo: 'fuel' });
+    expect(market[0].key).not.toBe(market[1].key);
+  });
+
+  it('should report money moved to unsupported accounts', async () => {
+    const data = await parseGnucashXml(book);
+    const shares = data.transactions.find((tx) => tx.payee === 'Buy shares');
+
+    expect(shares).toMatchObject({ category: null, transfer: false, amount: -100 });
+    expect(data.issues).toEqual([
+      '2024-01-19 "Buy shares" in Checking Account moves money to Assets:Brokerage (STOCK); imported uncategorized',
+    ]);
+  });
+
+  it('should read gzipped books through parseMigrationFile', async () => {
+    const data = await parseMigrationFile(new Uint8Array(gzipSync(Buffer.from(book))));
+    expect(data.source).toBe('gnucash');
+    expect(data.transactions).toHaveLength(7);
+  });
+
+  it('should refuse books that expand past the size limit', async () => {
+    const bomb = new Uint8Array(gzipSync(Buffer.alloc(MAX_BOOK_BYTES + 1)));
+
+    await expect(parseMigrationFile(bomb)).rejects.toThrow(
+      'GnuCash books are limited to 50 MB uncompressed'
+    );
+  });
+});
+
+describe('parseGnucashCsv', () => {
+  const csv = [
+    '"Date","Transaction ID","Number","Description","Notes","Commodity/Currency","Void Reason","Action","Memo","Full Account Name","Account Name","Amount With Sym","Amount Num.","Value With Sym","Value Num.","Reconcile","Reconcile Date","Rate/Price"',
+    '"01/15/2024","abc","","Shell","","CURRENCY::USD","","","","Assets:Current Assets:Checking","Checking","-$45.00","-45.00","-$45.00","-45.00","n","","1.00"',
+    '"","","","","","","","","","Expenses:Auto:Gas","Gas","$45.00","45.00","$45.00","45.00","n","","1.00"',
+    '"01/17/2024","def","","Card payment","","CURRENCY::USD","","","","Assets:Current Assets:Checking","Checking","-$300.00","-300.00","-$300.00","-300.00","n","","1.00"',
+    '"01/17/2024","def","","Card payment","","CURRENCY::USD","","","","Liabilities:Credit Card","Credit Card","$300.00","300.00","$300.00","300.00","n","","1.00"',
+  ].join('\n');
+
+  it('should group split lines into transactions', () => {
+    const data = parseGnucashCsv(csv);
+
+    expect(data.transactions[0]).toMatchObject({
+      account: 'Checking',
+      date: '2024-01-15',
+      amount: -45,
+      category: ['Auto', 'Gas'],
+      category_type: 'expense',
+    });
+    expect(data.transactions[1]).toMatchObject({
+      account: 'Checking',
+      amount: -300,
+      transfer: true,
+      transfer_account: 'Credit Card',
+    });
+    expect(data.transactions[2]).toMatchObject({ account: 'Credit Card', amount: 300 });
+  });
+
+  it('should be recognized by parseMigrationFile', async () => {
+    const data = await parseMigrationFile(new TextEncoder().encode(csv));
+    expect(data.source).toBe('gnucash');
+  });
+});
+
+describe('parseMigrationFile', () => {
+  it('should reject files from unknown apps', async () => {
+    await expect(parseMigrationFile(new TextEncoder().encode('a,b\n1,2\n'))).rejects.toThrow(
+      'Unrecognized file'
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { isMintExport, parseMintCsv } from '@/lib/migration/mint';
+import { csvHeader } from '@/lib/migration/utils';
+
+const mint = [
+  '"Date","Description","Original Description","Amount","Transaction Type","Category","Account Name","Labels","Notes"',
+  '"1/15/2024","Whole Foods","WHOLEFDS #123","45.20","debit","Groceries","Visa","",""',
+  '"1/16/2024","Acme Corp","ACME PAYROLL","2500.00","credit","Paycheck","Checking","",""',
+  '"1/17/2024","Visa Payment","ONLINE PMT","300.00","debit","Credit Card Payment","Checking","",""',
+  '"1/17/2024","Payment Thank You","PAYMENT","300.00","credit","Credit Card Payment","Visa","",""',
+  '"1/18/2024","Etsy","ETSY SALE","80.00","credit","Side Hustle","Checking","","craft fair"',
+  '"1/19/2024","ATM","ATM WITHDRAWAL","60.00","debit","Cash & ATM","Checking","",""',
+].join('\n');
+
+describe('isMintExport', () => {
+  it('should recognize the Mint header', () => {
+    expect(isMintExport(csvHeader(mint))).toBe(true);
+  });
+});
+
+describe('parseMintCsv', () => {
+  const data = parseMintCsv(mint);
+
+  it('should place built-in categories under their Mint parent', () => {
+    expect(data.transactions[0]).toMatchObject({
+      account: 'Visa',
+      date: '2024-01-15',
+      payee: 'Whole Foods',
+      memo: 'WHOLEFDS #123',
+      amount: -45.2,
+      category: ['Food & Dining', 'Groceries'],
+      category_type: 'expense',
+    });
+    expect(data.transactions[1]).toMatchObject({
+      amount: 2500,
+      category: ['Income', 'Paycheck'],
+      category_type: 'income',
+    });
+  });
+
+  it('should mark credit card payments as transfers', () => {
+    expect(data.transactions[2]).toMatchObject({ transfer: true, category: null, amount: -300 });
+    expect(data.transactions[3]).toMatchObject({ transfer: true, account: 'Visa', amount: 300 });
+  });
+
+  it('should treat custom categories used only for credits as income', () => {
+    expect(data.transactions[4]).toMatchObject({
+      category: ['Side Hustle'],
+      category_type: 'income',
+      memo: 'ETSY SALE - craft fair',
+    });
+  });
+
+  it('should leave Mint placeholder categories uncategorized', () => {
+    expect(data.transactions[5]).toMatchObject({ category: null, transfer: false });
+  });
+
+  it('should collect the accounts', () => {
+    expect(data.accounts).toEqual(['Visa', 'Checking']);
+  });
+});
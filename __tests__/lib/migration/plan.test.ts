@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { planMigration } from '@/lib/migration/plan';
+import { MigrationData, MigrationTransaction } from '@/lib/migration/types';
+
+function row(overrides: Partial<MigrationTransaction>): MigrationTransaction {
+  return {
+    key: 'k',
+    account: 'Checking',
+    date: '2024-01-15',
+    payee: 'Store',
+    memo: '',
+    amount: -10,
+    refnum: '',
+    category: null,
+    category_type: null,
+    transfer: false,
+    transfer_account: null,
+    ...overrides,
+  };
+}
+
+function data(transactions: MigrationTransaction[], accounts = ['Checking']): MigrationData {
+  return { source: 'ynab', accounts, transactions, issues: [] };
+}
+
+describe('planMigration', () => {
+  it('should reuse accounts and categories that already exist', () => {
+    const plan = planMigration(
+      data([row({ account: 'checking', category: ['Food', 'Groceries'], category_type: 'expense' })]),
+      [{ id: 7, name: 'Checking' }],
+      [{ id: 3, path: 'Food', category_type: 'expense' }]
+    );
+
+    expect(plan.accounts).toEqual([{ name: 'checking', existing_id: 7, transactions: 1 }]);
+    expect(plan.categories).toEqual([
+      expect.objectContaining({ path: 'Food', existing_id: 3, depth: 1, parent_key: null }),
+      expect.objectContaining({
+        path: 'Food > Groceries',
+        existing_id: null,
+        depth: 2,
+        parent_key: 'expense:food',
+      }),
+    ]);
+    expect(plan.transactions[0].category_key).toBe('expense:food > groceries');
+  });
+
+  it('should not reuse a category of the other type', () => {
+    const plan = planMigration(
+      data([row({ category: ['Gifts'], category_type: 'income' })]),
+      [],
+      [{ id: 3, path: 'Gifts', category_type: 'expense' }]
+    );
+    expect(plan.categories[0]).toMatchObject({ category_type: 'income', existing_id: null });
+  });
+
+  it('should fold categories deeper than three levels and report them once', () => {
+    const deep = ['Home', 'Utilities', 'Energy', 'Electricity'];
+    const plan = planMigration(
+      data([
+        row({ key: 'a', category: deep, category_type: 'expense' }),
+        row({ key: 'b', category: deep, category_type: 'expense' }),
+      ]),
+      [],
+      []
+    );
+
+    expect(plan.categories.map((c) => c.path)).toEqual([
+      'Home',
+      'Home > Utilities',
+      'Home > Utilities > Energy',
+    ]);
+    expect(plan.transactions[1].category_key).toBe('expense:home > utilities > energy');
+    expect(plan.issues).toEqual([
+      'Category "Home > Utilities > Energy > Electricity" is deeper than 3 levels; mapped to "Home > Utilities > Energy"',
+    ]);
+  });
+
+  it('should describe transfers and report ones whose other side is missing', () => {
+    const plan = planMigration(
+      data([
+        row({ key: 'a', transfer: true, transfer_account: 'Savings', amount: -300 }),
+        row({ key: 'b', transfer: true, transfer_account: 'Brokerage', amount: 50, memo: 'cash out' }),
+      ], ['Checking', 'Savings']),
+      [],
+      []
+    );
+
+    expect(plan.transactions[0]).toMatchObject({
+      comment: 'Transfer to Savings',
+      category_key: null,
+      transfer: true,
+    });
+    expect(plan.transactions[1].comment).toBe('Transfer from Brokerage - cash out');
+    expect(plan.issues).toEqual([
+      'Transfers with "Brokerage" were imported on one side only; that account is not in the export',
+    ]);
+  });
+
+  it('should give identical rows distinct stable FITIDs', () => {
+    const rows = [row({ key: 'same' }), row({ key: 'same' })];
+    const first = planMigration(data(rows), [], []);
+    const second = planMigration(data(rows), [], []);
+
+    expect(first.transactions[0].fitid).toMatch(/^YNAB-/);
+    expect(first.transactions[0].fitid).not.toBe(first.transactions[1].fitid);
+    expect(second.transactions.map((tx) => tx.fitid)).toEqual(first.transactions.map((tx) => tx.fitid));
+  });
+});
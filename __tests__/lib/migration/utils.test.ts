@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  inferDateOrder,
+  parseCsvRecords,
+  parseMigrationDate,
+  parseMoney,
+} from '@/lib/migration/utils';
+
+describe('parseMoney', () => {
+  it('should read US and European formats', () => {
+    expect(parseMoney('$1,234.56')).toBe(1234.56);
+    expect(parseMoney('1.234,56 €')).toBe(1234.56);
+    expect(parseMoney('R$ 10,5')).toBe(10.5);
+    expect(parseMoney('1,234')).toBe(1234);
+  });
+
+  it('should read negative amounts', () => {
+    expect(parseMoney('-$12.00')).toBe(-12);
+    expect(parseMoney('$-12.00')).toBe(-12);
+    expect(parseMoney('(12.00)')).toBe(-12);
+  });
+
+  it('should return NaN without digits', () => {
+    expect(parseMoney('n/a')).toBeNaN();
+  });
+});
+
+describe('dates', () => {
+  it('should infer the order from days above 12', () => {
+    expect(inferDateOrder(['01/02/2024', '25/02/2024'])).toBe('DMY');
+    expect(inferDateOrder(['01/02/2024', '02/25/2024'])).toBe('MDY');
+    expect(inferDateOrder(['2024-02-25'])).toBe('MDY');
+  });
+
+  it('should parse both orders and ISO dates', () => {
+    expect(parseMigrationDate('2/5/2024', 'MDY')).toBe('2024-02-05');
+    expect(parseMigrationDate('2/5/2024', 'DMY')).toBe('2024-05-02');
+    expect(parseMigrationDate('2024-05-02', 'DMY')).toBe('2024-05-02');
+    expect(parseMigrationDate('05.02.24', 'DMY')).toBe('2024-02-05');
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => parseMigrationDate('yesterday', 'MDY')).toThrow('Invalid date');
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('should key rows by header and skip blank lines', () => {
+    const records = parseCsvRecords('\uFEFF"Account","Memo"\r\nChecking,"a, b"\r\n,\r\n');
+    expect(records).toEqual([{ Account: 'Checking', Memo: 'a, b' }]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { isYnabRegister, parseYnabRegister } from '@/lib/migration/ynab';
+import { csvHeader } from '@/lib/migration/utils';
+
+const register = [
+  '"Account","Flag","Date","Payee","Category Group/Category","Category Group","Category","Memo","Outflow","Inflow","Cleared"',
+  '"Checking","","01/15/2024","Grocery Store","Food: Groceries","Food","Groceries","weekly","$45.20","$0.00","Cleared"',
+  '"Checking","","01/16/2024","Employer","Inflow: Ready to Assign","Inflow","Ready to Assign","","$0.00","$2,500.00","Cleared"',
+  '"Checking","","01/17/2024","Transfer : Savings","","","","","$300.00","$0.00","Cleared"',
+  '"Savings","","01/17/2024","Transfer : Checking","","","","","$0.00","$300.00","Cleared"',
+  '"Checking","","13/01/2024","Bad date","","","","","$1.00","$0.00","Cleared"',
+].join('\n');
+
+describe('isYnabRegister', () => {
+  it('should recognize the register header', () => {
+    expect(isYnabRegister(csvHeader(register))).toBe(true);
+    expect(isYnabRegister(['Date', 'Description', 'Amount'])).toBe(false);
+  });
+});
+
+describe('parseYnabRegister', () => {
+  const data = parseYnabRegister(register);
+
+  it('should read accounts, signed amounts and categories', () => {
+    expect(data.source).toBe('ynab');
+    expect(data.accounts).toEqual(['Checking', 'Savings']);
+    expect(data.transactions[0]).toMatchObject({
+      account: 'Checking',
+      date: '2024-01-15',
+      payee: 'Grocery Store',
+      memo: 'weekly',
+      amount: -45.2,
+      category: ['Food', 'Groceries'],
+      category_type: 'expense',
+      transfer: false,
+    });
+  });
+
+  it('should leave Ready to Assign inflows uncategorized and report them', () => {
+    expect(data.transactions[1]).toMatchObject({ amount: 2500, category: null });
+    expect(data.issues).toContain(
+      '1 inflow(s) to "Ready to Assign" have no matching category; imported uncategorized'
+    );
+  });
+
+  it('should map transfers to the other account', () => {
+    expect(data.transactions[2]).toMatchObject({
+      amount: -300,
+      transfer: true,
+      transfer_account: 'Savings',
+      category: null,
+    });
+    expect(data.transactions[3]).toMatchObject({ account: 'Savings', transfer_account: 'Checking' });
+  });
+
+  it('should report rows it cannot read', () => {
+    expect(data.transactions).toHaveLength(4);
+    expect(data.issues).toContain('Row 6: invalid date "13/01/2024"; skipped');
+  });
+
+  it('should split the combined category column of older exports', () => {
+    const old = parseYnabRegister(
+      'Account,Date,Payee,Category Group/Category,Memo,Outflow,Inflow\n' +
+        'Cash,2024-03-01,Cafe,Fun Money: Coffee,,4.50,0\n'
+    );
+    expect(old.transactions[0].category).toEqual(['Fun Money', 'Coffee']);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { isMt940Statement, parseMt940File } from '@/lib/mt940/parser';
+
+const mt940 = [
+  ':20:STARTUMS',
+  ':25:37040044/0532013000',
+  ':28C:00001/001',
+  ':60F:C231229EUR1000,00',
+  ':61:2312291229D62,50NDDTNONREF//BANKREF1',
+  ':86:105?00SEPA-BASISLASTSCHRIFT?20Abschlag Januar?21Kundennr 4711?32Stadt',
+  'werke Muenchen',
+  ':61:2401020102C1500,00NTRFE2E-SALARY',
+  ':86:166?00SEPA-GUTSCHRIFT?20Gehalt Dezember?32ACME GmbH',
+  ':61:2401020102D10,00NTRFNONREF',
+  'Kartenzahlung',
+  ':62F:C240102EUR2427,50',
+  ':64:C240102EUR2400,00',
+  '-',
+].join('\r\n');
+
+describe('isMt940Statement', () => {
+  it('should recognize MT940 messages', () => {
+    expect(isMt940Statement(mt940)).toBe(true);
+    expect(isMt940Statement('OFXHEADER:100')).toBe(false);
+  });
+});
+
+describe('parseMt940File', () => {
+  it('should read the account and balances', () => {
+    const [statement] = parseMt940File(mt940);
+
+    expect(statement.account).toEqual({
+      bankId: '37040044',
+      accountId: '0532013000',
+      type: 'CHECKING',
+    });
+    expect(statement.ledgerBalance).toEqual({ amount: 2427.5, asOf: '2024-01-02' });
+    expect(statement.availableBalance).toEqual({ amount: 2400, asOf: '2024-01-02' });
+    expect(statement.dateRange).toEqual({ start: '2023-12-29', end: '2024-01-02' });
+  });
+
+  it('should parse structured German descriptions', () => {
+    const [statement] = parseMt940File(mt940);
+
+    expect(statement.transactions[0]).toMatchObject({
+      refnum: 'BANKREF1',
+      payee: 'Stadtwerke Muenchen',
+      memo: 'Abschlag JanuarKundennr 4711',
+      date: '2023-12-29',
+      amount: -62.5,
+      type: 'DEBIT',
+    });
+    expect(statement.transactions[1]).toMatchObject({
+      refnum: 'E2E-SALARY',
+      payee: 'ACME GmbH',
+      amount: 1500,
+      type: 'CREDIT',
+    });
+  });
+
+  it('should fall back to the supplementary details without :86:', () => {
+    const [statement] = parseMt940File(mt940);
+
+    expect(statement.transactions[2]).toMatchObject({
+      refnum: '',
+      payee: null,
+      memo: 'Kartenzahlung',
+      amount: -10,
+    });
+  });
+
+  it('should give transactions stable, distinct FITIDs', () => {
+    const first = parseMt940File(mt940)[0].transactions.map((t) => t.fitid);
+    const second = parseMt940File(mt940)[0].transactions.map((t) => t.fitid);
+
+    expect(first).toEqual(second);
+    expect(new Set(first).size).toBe(3);
+    expect(first[0]).toMatch(/^MT940-[0-9a-f]{8}$/);
+  });
+
+  it('should take the year of the entry date across New Year', () => {
+    const [statement] = parseMt940File(
+      [':20:X', ':25:NL91ABNA0417164300', ':60F:C231231EUR0,00', ':61:2312310102RD5,00NTRFNONREF', ':62F:C240102EUR5,00'].join('\n')
+    );
+
+    expect(statement.transactions[0]).toMatchObject({ date: '2024-01-02', amount: 5 });
+  });
+
+  it('should parse Dutch /NAME/ descriptions', () => {
+    const [statement] = parseMt940File(
+      [
+        ':20:ABN',
+        ':25:NL91ABNA0417164300',
+        ':60F:C240101EUR100,00',
+        ':61:240105D25,00N658NONREF',
+        ':86:/TRTP/SEPA OVERBOEKING/IBAN/NL20INGB0001234567/BIC/INGBNL2A/NAME/J',
+        'ANSEN/REMI/Factuur 2024-001/EREF/NOTPROVIDED',
+        ':62F:C240105EUR75,00',
+      ].join('\n')
+    );
+
+    expect(statement.account.bankId).toBe('');
+    expect(statement.transactions[0]).toMatchObject({
+      payee: 'JANSEN',
+      memo: 'Factuur 2024-001',
+      amount: -25,
+    });
+  });
+
+  it('should join pages of the same account inside a SWIFT envelope', () => {
+    const page = (number: number, line: string) =>
+      `{1:F01BANKDEFFAXXX0000000000}{2:O940}{4:\n:20:PAGE${number}\n:25:37040044/0532013000\n:28C:1/${number}\n:60M:C240101EUR0,00\n${line}\n:62M:C240101EUR0,00\n-}`;
+    const statements = parseMt940File(
+      [page(1, ':61:240101C1,00NTRFNONREF'), page(2, ':61:240101C1,00NTRFNONREF')].join('\n')
+    );
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].transactions).toHaveLength(2);
+    expect(statements[0].transactions[0].fitid).not.toBe(statements[0].transactions[1].fitid);
+  });
+
+  it('should reject invalid statement lines', () => {
+    expect(() => parseMt940File(':20:X\n:25:123\n:61:garbage')).toThrow('Invalid MT940');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { decodeStatementFile, detectHeaderEncoding } from '@/lib/ofx/encoding';
+import { parseOfxFile } from '@/lib/ofx/parser';
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(path.join(__dirname, '../../fixtures/ofx', name)));
+}
+
+describe('detectHeaderEncoding', () => {
+  it('should read the OFX 1.x CHARSET', () => {
+    expect(detectHeaderEncoding('ENCODING:USASCII\nCHARSET:1252\n')).toBe('windows-1252');
+    expect(detectHeaderEncoding('ENCODING:USASCII\r\nCHARSET:ISO-8859-1\r\n')).toBe('iso-8859-1');
+  });
+
+  it('should treat UTF-8 and UNICODE encodings as UTF-8', () => {
+    expect(detectHeaderEncoding('ENCODING:UTF-8\nCHARSET:NONE\n')).toBe('utf-8');
+    expect(detectHeaderEncoding('ENCODING:UNICODE\nCHARSET:1252\n')).toBe('utf-8');
+  });
+
+  it('should read the OFX 2.x XML declaration', () => {
+    expect(detectHeaderEncoding('<?xml version="1.0" encoding="ISO-8859-1"?>')).toBe('iso-8859-1');
+  });
+
+  it('should return null when the header leaves the charset open', () => {
+    expect(detectHeaderEncoding('ENCODING:USASCII\nCHARSET:NONE\n')).toBeNull();
+    expect(detectHeaderEncoding('<OFX>')).toBeNull();
+  });
+});
+
+describe('decodeStatementFile', () => {
+  it.each([
+    ['windows-1252.ofx', 'windows-1252', 'header'],
+    ['iso-8859-1.ofx', 'iso-8859-1', 'header'],
+    ['utf-8.ofx', 'utf-8', 'header'],
+    ['utf-8-labeled-1252.ofx', 'utf-8', 'content'],
+    ['utf-16le-bom.ofx', 'utf-16le', 'bom'],
+    ['no-charset.ofx', 'windows-1252', 'content'],
+  ])('should decode %s', async (name, encoding, source) => {
+    const decoded = decodeStatementFile(fixture(name));
+
+    expect(decoded.encoding).toBe(encoding);
+    expect(decoded.source).toBe(source);
+
+    const parsed = await parseOfxFile(decoded.content);
+    expect(parsed.transactions[0].payee).toBe('PADARIA SÃO JOÃO');
+    expect(parsed.transactions[1].memo).toBe('CAFÉ AÇAÍ');
+  });
+
+  it('should honor a manual override over the header', () => {
+    const decoded = decodeStatementFile(fixture('utf-8.ofx'), 'windows-1252');
+
+    expect(decoded.source).toBe('manual');
+    expect(decoded.content).toContain('PADARIA SÃƒO');
+  });
+
+  it('should accept an ArrayBuffer', () => {
+    const buffer = new ArrayBuffer(fixture('windows-1252.ofx').length);
+    new Uint8Array(buffer).set(fixture('windows-1252.ofx'));
+
+    expect(decodeStatementFile(buffer).content).toContain('CAFÉ');
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { parseOfxFile, parseOfxStatements } from '@/lib/ofx/parser';
+
+const header = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+`;
+
+const bankStatement = `${header}
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>BRL
+<BANKACCTFROM>
+<BANKID>0341
+<ACCTID>12345-6
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101000000[-3:BRT]
+<DTEND>20240131000000[-3:BRT]
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[-3:BRT]
+<TRNAMT>-150.00
+<FITID>ABC123-1
+<REFNUM>REF1
+<MEMO>PIX ENVIADO 12345678901234PADARIA CENTRAL
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240120120000[-3:BRT]
+<TRNAMT>2500.00
+<FITID>ABC124
+<MEMO>SALARIO
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>3210.55
+<DTASOF>20240131120000[-3:BRT]
+</LEDGERBAL>
+<AVAILBAL>
+<BALAMT>3000.00
+<DTASOF>20240131120000[-3:BRT]
+</AVAILBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const creditCardStatement = `${header}
+<OFX>
+<CREDITCARDMSGSRSV1>
+<CCSTMTTRNRS>
+<TRNUID>1
+<CCSTMTRS>
+<CURDEF>BRL
+<CCACCTFROM>
+<ACCTID>4111111111111111
+</CCACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240201000000
+<DTEND>20240229000000
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240205
+<TRNAMT>-89.90
+<FITID>CC001
+<MEMO>STREAMING SERVICE
+</STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS>
+</CCSTMTTRNRS>
+</CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+const multiStatement = `${header}
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<BANKACCTFROM>
+<BANKID>001
+<ACCTID>1111
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240110
+<TRNAMT>-10.00
+<FITID>CHK1
+<MEMO>CHECKING TX
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+<STMTTRNRS>
+<TRNUID>2
+<STMTRS>
+<BANKACCTFROM>
+<BANKID>001
+<ACCTID>2222
+<ACCTTYPE>SAVINGS
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240111
+<TRNAMT>5.00
+<FITID>SAV1
+<MEMO>INTEREST
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240112
+<TRNAMT>6.00
+<FITID>SAV2
+<MEMO>INTEREST
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+<CREDITCARDMSGSRSV1>
+<CCSTMTTRNRS>
+<TRNUID>3
+<CCSTMTRS>
+<CCACCTFROM>
+<ACCTID>4111
+</CCACCTFROM>
+<BANKTRANLIST>
+</BANKTRANLIST>
+</CCSTMTRS>
+</CCSTMTTRNRS>
+</CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('parseOfxFile', () => {
+  it('should parse bank statements', async () => {
+    const result = await parseOfxFile(bankStatement);
+
+    expect(result.statementType).toBe('BANK');
+    expect(result.account).toEqual({
+      bankId: '0341',
+      accountId: '12345-6',
+      type: 'CHECKING',
+    });
+    expect(result.dateRange).toEqual({ start: '2024-01-01', end: '2024-01-31' });
+    expect(result.transactions).toHaveLength(2);
+  });
+
+  it('should map transaction fields', async () => {
+    const result = await parseOfxFile(bankStatement);
+
+    expect(result.transactions[0]).toMatchObject({
+      fitid: 'ABC123',
+      refnum: 'REF1',
+      date: '2024-01-15',
+      amount: -150,
+      type: 'DEBIT',
+      payee: 'PADARIA CENTRAL',
+      cleanedMemo: 'PIX ENVIADO',
+    });
+    expect(result.transactions[1]).toMatchObject({
+      fitid: 'ABC124',
+      refnum: 'ABC124',
+      amount: 2500,
+      type: 'CREDIT',
+      payee: null,
+    });
+  });
+
+  it('should parse credit card statements', async () => {
+    const result = await parseOfxFile(creditCardStatement);
+
+    expect(result.statementType).toBe('CREDITCARD');
+    expect(result.account).toEqual({
+      bankId: '',
+      accountId: '4111111111111111',
+      type: 'CREDITLINE',
+    });
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({
+      fitid: 'CC001',
+      date: '2024-02-05',
+      amount: -89.9,
+    });
+  });
+
+  it('should extract payees with the configured rules', async () => {
+    const result = await parseOfxFile(bankStatement, {
+      payeeRules: [
+        { bank_id: '341', match_type: 'regex', pattern: '^(PIX ENVIADO \\d+)(.+)$', payee_group: 2, memo_group: 1 },
+        { bank_id: '999', match_type: 'prefix', pattern: 'SAL', payee_group: 1, memo_group: null },
+      ],
+    });
+
+    expect(result.transactions[0].payee).toBe('PADARIA CENTRAL');
+    expect(result.transactions[0].cleanedMemo).toBe('PIX ENVIADO 12345678901234');
+    // The prefix rule belongs to another bank
+    expect(result.transactions[1].payee).toBeNull();
+  });
+
+  it('should parse ledger and available balances', async () => {
+    const result = await parseOfxFile(bankStatement);
+
+    expect(result.ledgerBalance).toEqual({ amount: 3210.55, asOf: '2024-01-31' });
+    expect(result.availableBalance).toEqual({ amount: 3000, asOf: '2024-01-31' });
+  });
+
+  it('should leave balances empty when the statement has none', async () => {
+    const result = await parseOfxFile(creditCardStatement);
+
+    expect(result.ledgerBalance).toBeNull();
+    expect(result.availableBalance).toBeNull();
+  });
+
+  it('should throw when no statement is present', async () => {
+    const content = `${header}\n<OFX>\n<SIGNONMSGSRSV1>\n<SONRS>\n<LANGUAGE>POR\n</SONRS>\n</SIGNONMSGSRSV1>\n</OFX>\n`;
+
+    await expect(parseOfxFile(content)).rejects.toThrow('No statement found in OFX file');
+  });
+});
+
+describe('parseOfxStatements', () => {
+  it('should return every statement in the file', async () => {
+    const result = await parseOfxStatements(multiStatement);
+
+    expect(result.map((s) => [s.statementType, s.account.accountId, s.transactions.length])).toEqual([
+      ['BANK', '1111', 1],
+      ['BANK', '2222', 2],
+      ['CREDITCARD', '4111', 0],
+    ]);
+    expect(result[1].account.type).toBe('SAVINGS');
+  });
+
+  it('should return a single statement as a one-element list', async () => {
+    const result = await parseOfxStatements(bankStatement);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].account.accountId).toBe('12345-6');
+  });
+
+  it('should make parseOfxFile return the first statement', async () => {
+    const result = await parseOfxFile(multiStatement);
+
+    expect(result.account.accountId).toBe('1111');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applyPayeeRule, applyPayeeRules, validatePayeePattern } from '@/lib/ofx/payee-rules';
+import { PayeeRuleDefinition } from '@/lib/ofx/types';
+
+function rule(overrides: Partial<PayeeRuleDefinition & { enabled: boolean }> = {}) {
+  return {
+    bank_id: null,
+    match_type: 'regex' as const,
+    pattern: '^PIX ENVIADO (.+)$',
+    payee_group: 1,
+    memo_group: null,
+    ...overrides,
+  };
+}
+
+describe('applyPayeeRule', () => {
+  it('should take the payee from the capture group and remove it from the memo', () => {
+    const result = applyPayeeRule('PIX ENVIADO PADARIA CENTRAL', rule());
+
+    expect(result).toEqual({ payee: 'PADARIA CENTRAL', cleanedMemo: 'PIX ENVIADO' });
+  });
+
+  it('should match regexes case-insensitively', () => {
+    expect(applyPayeeRule('pix enviado Padaria', rule())?.payee).toBe('Padaria');
+  });
+
+  it('should use the memo group when configured', () => {
+    const result = applyPayeeRule(
+      'TED 001 0001 FORNECEDOR LTDA',
+      rule({ pattern: '^(TED) [\\d ]+ (.+)$', payee_group: 2, memo_group: 1 })
+    );
+
+    expect(result).toEqual({ payee: 'FORNECEDOR LTDA', cleanedMemo: 'TED' });
+  });
+
+  it('should take everything after a prefix as the payee', () => {
+    const result = applyPayeeRule(
+      'Compra Cartao  MERCADO BOM PRECO',
+      rule({ match_type: 'prefix', pattern: 'COMPRA CARTAO' })
+    );
+
+    expect(result).toEqual({ payee: 'MERCADO BOM PRECO', cleanedMemo: 'Compra Cartao' });
+  });
+
+  it('should not match when the payee would be empty', () => {
+    expect(applyPayeeRule('COMPRA CARTAO ', rule({ match_type: 'prefix', pattern: 'COMPRA CARTAO' }))).toBeNull();
+    expect(applyPayeeRule('PIX ENVIADO', rule({ pattern: '^PIX ENVIADO(.*)$' }))).toBeNull();
+  });
+
+  it('should not match with an invalid regex', () => {
+    expect(applyPayeeRule('PIX ENVIADO X', rule({ pattern: '(' }))).toBeNull();
+  });
+});
+
+describe('applyPayeeRules', () => {
+  it('should use the first matching rule', () => {
+    const first = rule({ pattern: '^PIX (.+)$' });
+    const second = rule();
+
+    const result = applyPayeeRules('PIX ENVIADO PADARIA', [first, second]);
+
+    expect(result.rule).toBe(first);
+    expect(result.payee).toBe('ENVIADO PADARIA');
+  });
+
+  it('should skip disabled rules', () => {
+    const disabled = rule({ pattern: '^PIX (.+)$', enabled: false });
+
+    expect(applyPayeeRules('PIX ENVIADO PADARIA', [disabled, rule()]).payee).toBe('PADARIA');
+  });
+
+  it('should only apply bank-specific rules to that bank', () => {
+    const itau = rule({ bank_id: '341' });
+
+    expect(applyPayeeRules('PIX ENVIADO PADARIA', [itau], '0341').rule).toBe(itau);
+    expect(applyPayeeRules('PIX ENVIADO PADARIA', [itau], '001').rule).toBeNull();
+    expect(applyPayeeRules('PIX ENVIADO PADARIA', [itau]).rule).toBeNull();
+  });
+
+  it('should fall back to the CPF/CNPJ extraction', () => {
+    const result = applyPayeeRules('PAG*12345678901234AMAZON SERVICOS', [rule()]);
+
+    expect(result).toEqual({ payee: 'AMAZON SERVICOS', cleanedMemo: 'PAG*', rule: null });
+  });
+});
+
+describe('validatePayeePattern', () => {
+  it('should accept valid patterns', () => {
+    expect(validatePayeePattern({ match_type: 'regex', pattern: '^PIX (.+)$' })).toBeNull();
+    expect(validatePayeePattern({ match_type: 'prefix', pattern: '(' })).toBeNull();
+  });
+
+  it('should reject empty patterns and invalid regexes', () => {
+    expect(validatePayeePattern({ match_type: 'prefix', pattern: ' ' })).toBe('Pattern is required');
+    expect(validatePayeePattern({ match_type: 'regex', pattern: '(' })).toContain('Invalid regular expression');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractPayeeFromMemo } from '@/lib/ofx/utils';
+import { extractPayeeFromMemo, findMatchingAccount } from '@/lib/ofx/utils';
 
 describe('extractPayeeFromMemo', () => {
   it('should extract payee after CNPJ (14 digits)', () => {
@@ -65,4 +65,63 @@ describe('extractPayeeFromMemo', () => {
     expect(result.payee).toBe('PAYEE NAME');
     expect(result.cleanedMemo).toBe('PAG*');
   });
-});
\ No newline at end of file
+});
+
+describe('findMatchingAccount', () => {
+  const accounts = [
+    { id: 1, ofx_bank_id: '0341', ofx_account_id: '12345-6' },
+    { id: 2, ofx_bank_id: null, ofx_account_id: '4111111111111111' },
+    { id: 3, ofx_bank_id: null, ofx_account_id: null },
+    { id: 4, ofx_bank_id: '001', ofx_account_id: '999' },
+    { id: 5, ofx_bank_id: '237', ofx_account_id: '999' },
+  ];
+
+  it('should match on account and bank identifiers', () => {
+    const result = findMatchingAccount(
+      { bankId: '0341', accountId: '12345-6', type: 'CHECKING' },
+      accounts
+    );
+
+    expect(result?.id).toBe(1);
+  });
+
+  it('should ignore punctuation and leading zeros', () => {
+    const result = findMatchingAccount(
+      { bankId: '341', accountId: '0123456', type: 'CHECKING' },
+      accounts
+    );
+
+    expect(result?.id).toBe(1);
+  });
+
+  it('should match accounts without a recorded bank id', () => {
+    const result = findMatchingAccount(
+      { bankId: '', accountId: '4111111111111111', type: 'CREDITLINE' },
+      accounts
+    );
+
+    expect(result?.id).toBe(2);
+  });
+
+  it('should not match when bank ids differ', () => {
+    const result = findMatchingAccount(
+      { bankId: '0001', accountId: '12345-6', type: 'CHECKING' },
+      accounts
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it('should disambiguate shared account numbers by bank id', () => {
+    const result = findMatchingAccount(
+      { bankId: '237', accountId: '999', type: 'CHECKING' },
+      accounts
+    );
+
+    expect(result?.id).toBe(5);
+  });
+
+  it('should return null without an account id', () => {
+    expect(findMatchingAccount({ bankId: '0341', accountId: '', type: 'CHECKING' }, accounts)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { parseQifFile } from '@/lib/qif/parser';
+
+const bankQif = `!Type:Bank
+D01/15/2024
+T-1,234.56
+PLandlord LLC
+MJanuary rent
+LHousing:Rent
+N1001
+^
+D1/20'24
+T2500.00
+PEmployer Inc
+LSalary
+^
+D01/21/2024
+T-100.00
+PSavings transfer
+L[Savings]
+^
+`;
+
+describe('parseQifFile', () => {
+  it('should parse bank transactions', () => {
+    const result = parseQifFile(bankQif);
+
+    expect(result.transactions).toHaveLength(3);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2024-01-15',
+      amount: -1234.56,
+      payee: 'Landlord LLC',
+      memo: 'January rent',
+      cleanedMemo: 'January rent',
+      refnum: '1001',
+      type: 'DEBIT',
+      categoryHint: 'Housing:Rent',
+    });
+    expect(result.account.type).toBe('CHECKING');
+    expect(result.dateRange).toEqual({ start: '2024-01-15', end: '2024-01-21' });
+  });
+
+  it('should parse Quicken apostrophe years', () => {
+    const result = parseQifFile(bankQif);
+
+    expect(result.transactions[1].date).toBe('2024-01-20');
+    expect(result.transactions[1].type).toBe('CREDIT');
+  });
+
+  it('should not treat transfers as category hints', () => {
+    const result = parseQifFile(bankQif);
+
+    expect(result.transactions[2].categoryHint).toBeNull();
+  });
+
+  it('should strip classes from category names', () => {
+    const result = parseQifFile('!Type:Bank\nD01/15/2024\nT-5.00\nLFood:Dining/Vacation\n^\n');
+
+    expect(result.transactions[0].categoryHint).toBe('Food:Dining');
+  });
+
+  it('should infer day-first dates', () => {
+    const result = parseQifFile('!Type:Bank\nD05/01/2024\nT-5.00\n^\nD25/01/2024\nT-6.00\n^\n');
+
+    expect(result.transactions.map((t) => t.date)).toEqual(['2024-01-05', '2024-01-25']);
+  });
+
+  it('should honor an explicit date order', () => {
+    const result = parseQifFile('!Type:Bank\nD05/01/2024\nT-5.00\n^\n', { dateOrder: 'MDY' });
+
+    expect(result.transactions[0].date).toBe('2024-05-01');
+  });
+
+  it('should parse comma decimal amounts', () => {
+    const result = parseQifFile('!Type:Bank\nD15.01.2024\nT-1.234,56\n^\n');
+
+    expect(result.transactions[0].amount).toBe(-1234.56);
+  });
+
+  it('should read the account block and credit card type', () => {
+    const content = '!Account\nNVisa Card\nTCCard\n^\n!Type:CCard\nD01/15/2024\nT-20.00\nPStore\n^\n';
+
+    const result = parseQifFile(content);
+
+    expect(result.account.accountId).toBe('Visa Card');
+    expect(result.account.type).toBe('CREDITLINE');
+    expect(result.transactions).toHaveLength(1);
+  });
+
+  it('should ignore non-transaction sections', () => {
+    const content = '!Type:Cat\nNFood\nE\n^\n!Type:Bank\nD01/15/2024\nT-20.00\n^\n';
+
+    const result = parseQifFile(content);
+
+    expect(result.transactions).toHaveLength(1);
+  });
+
+  it('should generate distinct ids for identical transactions', () => {
+    const content = '!Type:Bank\nD01/15/2024\nT-3.00\nPCoffee\n^\nD01/15/2024\nT-3.00\nPCoffee\n^\n';
+
+    const result = parseQifFile(content);
+
+    expect(result.transactions[0].fitid).not.toBe(result.transactions[1].fitid);
+    expect(result.transactions[0].fitid).toMatch(/^QIF-/);
+  });
+
+  it('should throw when the file has no transaction section', () => {
+    expect(() => parseQifFile('not a qif file')).toThrow('No transactions found in QIF file');
+  });
+
+  it('should throw on invalid dates', () => {
+    expect(() => parseQifFile('!Type:Bank\nD13/45/2024\nT-1.00\n^\n')).toThrow(
+      'Invalid QIF date format'
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { matchCategoryHint } from '@/lib/qif/utils';
+import { CategoryWithPath } from '@/lib/db/types';
+
+const category = (id: number, name: string, path: string): CategoryWithPath => ({
+  id,
+  name,
+  path,
+  parent_id: null,
+  category_type: 'expense',
+  depth: path.split(' > ').length,
+  created_at: new Date('2024-01-01'),
+});
+
+const categories = [
+  category(1, 'Housing', 'Housing'),
+  category(2, 'Rent', 'Housing > Rent'),
+  category(3, 'Food', 'Expenses > Food'),
+  category(4, 'Groceries', 'Expenses > Food > Groceries'),
+  category(5, 'Fees', 'Bank > Fees'),
+  category(6, 'Fees', 'Card > Fees'),
+];
+
+describe('matchCategoryHint', () => {
+  it('should match a full QIF path', () => {
+    expect(matchCategoryHint('Housing:Rent', categories)?.id).toBe(2);
+  });
+
+  it('should be case and whitespace insensitive', () => {
+    expect(matchCategoryHint(' housing : RENT ', categories)?.id).toBe(2);
+  });
+
+  it('should match a unique path suffix', () => {
+    expect(matchCategoryHint('Food:Groceries', categories)?.id).toBe(4);
+  });
+
+  it('should match a unique leaf name', () => {
+    expect(matchCategoryHint('Groceries', categories)?.id).toBe(4);
+  });
+
+  it('should not guess between ambiguous leaf names', () => {
+    expect(matchCategoryHint('Fees', categories)).toBeNull();
+  });
+
+  it('should return null for empty or unknown hints', () => {
+    expect(matchCategoryHint(null, categories)).toBeNull();
+    expect(matchCategoryHint('', categories)).toBeNull();
+    expect(matchCategoryHint('Travel', categories)).toBeNull();
+  });
+});
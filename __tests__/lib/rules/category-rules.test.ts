@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCategoryRules,
+  computeCategoryRuleChanges,
+  matchesCategoryRule,
+  validatePayeeCondition,
+} from '@/lib/rules/category-rules';
+import { CategoryRuleDefinition } from '@/lib/rules/types';
+
+function rule(overrides: Partial<CategoryRuleDefinition & { enabled: boolean; name: string }> = {}) {
+  return {
+    name: 'Rule',
+    payee_match_type: null,
+    payee_pattern: null,
+    amount_min: null,
+    amount_max: null,
+    account_id: null,
+    category_id: 1,
+    rename_payee: null,
+    ...overrides,
+  };
+}
+
+const target = { account_id: 1, payee: 'Uber *Trip', amount: -25.5 };
+
+describe('matchesCategoryRule', () => {
+  it('should match payee conditions case-insensitively', () => {
+    expect(matchesCategoryRule(rule({ payee_match_type: 'contains', payee_pattern: 'UBER' }), target)).toBe(true);
+    expect(matchesCategoryRule(rule({ payee_match_type: 'equals', payee_pattern: 'uber *trip' }), target)).toBe(true);
+    expect(matchesCategoryRule(rule({ payee_match_type: 'equals', payee_pattern: 'uber' }), target)).toBe(false);
+    expect(matchesCategoryRule(rule({ payee_match_type: 'regex', payee_pattern: '^uber\\s' }), target)).toBe(true);
+  });
+
+  it('should match the memo when there is no payee', () => {
+    const memoOnly = { ...target, payee: '', memo: 'PIX UBER DO BRASIL' };
+
+    expect(matchesCategoryRule(rule({ payee_match_type: 'contains', payee_pattern: 'uber' }), memoOnly)).toBe(true);
+  });
+
+  it('should not match with an invalid regex', () => {
+    expect(matchesCategoryRule(rule({ payee_match_type: 'regex', payee_pattern: '(' }), target)).toBe(false);
+  });
+
+  it('should check the amount range inclusively', () => {
+    expect(matchesCategoryRule(rule({ amount_min: '-30.00', amount_max: '-25.50' }), target)).toBe(true);
+    expect(matchesCategoryRule(rule({ amount_min: '-25.00' }), target)).toBe(false);
+    expect(matchesCategoryRule(rule({ amount_max: '-30.00' }), target)).toBe(false);
+  });
+
+  it('should check the account', () => {
+    expect(matchesCategoryRule(rule({ account_id: 1 }), target)).toBe(true);
+    expect(matchesCategoryRule(rule({ account_id: 2 }), target)).toBe(false);
+  });
+});
+
+describe('applyCategoryRules', () => {
+  it('should return the first enabled matching rule', () => {
+    const disabled = rule({ category_id: 5, enabled: false });
+    const first = rule({ category_id: 6, account_id: 1 });
+    const second = rule({ category_id: 7 });
+
+    const result = applyCategoryRules(target, [disabled, first, second]);
+
+    expect(result).toEqual({ rule: first, category_id: 6, payee: 'Uber *Trip' });
+  });
+
+  it('should rename the payee when the rule says so', () => {
+    expect(applyCategoryRules(target, [rule({ rename_payee: 'Uber' })])?.payee).toBe('Uber');
+  });
+
+  it('should return null when no rule matches', () => {
+    expect(applyCategoryRules(target, [rule({ account_id: 9 })])).toBeNull();
+  });
+});
+
+describe('computeCategoryRuleChanges', () => {
+  const transaction = {
+    id: 10,
+    account_id: 1,
+    date: '2024-01-15',
+    amount: '-25.50',
+    payee: 'Uber *Trip',
+    comment: null,
+    ofx_memo: null,
+    category_id: null,
+  };
+
+  it('should list transactions whose category or payee would change', () => {
+    const changes = computeCategoryRuleChanges(
+      [transaction, { ...transaction, id: 11, category_id: 3 }],
+      [rule({ name: 'Rides', category_id: 3, payee_match_type: 'contains', payee_pattern: 'uber' })]
+    );
+
+    expect(changes).toEqual([
+      {
+        transaction_id: 10,
+        account_id: 1,
+        date: '2024-01-15',
+        amount: '-25.50',
+        payee: 'Uber *Trip',
+        new_payee: 'Uber *Trip',
+        category_id: null,
+        new_category_id: 3,
+        rule_name: 'Rides',
+      },
+    ]);
+  });
+});
+
+describe('validatePayeeCondition', () => {
+  it('should require a pattern for payee conditions', () => {
+    expect(validatePayeeCondition(null, null)).toBeNull();
+    expect(validatePayeeCondition('contains', '')).toBe('Payee pattern is required');
+    expect(validatePayeeCondition('regex', '[')).toContain('Invalid regular expression');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { suggestCategory, tokenize, trainCategoryModel } from '@/lib/suggestions/classifier';
+
+const GROCERIES = 1;
+const TRANSPORT = 2;
+const SALARY = 3;
+
+const model = trainCategoryModel([
+  { text: 'Supermercado Pão de Açúcar', category_id: GROCERIES },
+  { text: 'SUPERMERCADO EXTRA', category_id: GROCERIES },
+  { text: 'Mercado Bom Preço', category_id: GROCERIES },
+  { text: 'Uber *Trip', category_id: TRANSPORT },
+  { text: 'UBER DO BRASIL', category_id: TRANSPORT },
+  { text: 'Posto Shell combustivel', category_id: TRANSPORT },
+  { text: 'SALARIO ACME LTDA', category_id: SALARY },
+]);
+
+describe('tokenize', () => {
+  it('should lowercase, strip accents and split on punctuation', () => {
+    expect(tokenize('Pão de Açúcar*Centro')).toEqual(['pao', 'de', 'acucar', 'centro']);
+  });
+
+  it('should drop document numbers and single characters', () => {
+    expect(tokenize('PIX 12345678901 A PADARIA 24h')).toEqual(['pix', 'padaria', '24h']);
+  });
+});
+
+describe('trainCategoryModel', () => {
+  it('should count documents and tokens per category', () => {
+    expect(model.documents).toBe(7);
+    const groceries = model.classes.find((entry) => entry.category_id === GROCERIES);
+    expect(groceries?.documents).toBe(3);
+    expect(groceries?.counts.supermercado).toBe(2);
+  });
+
+  it('should skip examples without usable words', () => {
+    expect(trainCategoryModel([{ text: '12345678901', category_id: 1 }]).documents).toBe(0);
+  });
+});
+
+describe('suggestCategory', () => {
+  it('should suggest the category of similar payees', () => {
+    const result = suggestCategory(model, 'SUPERMERCADO DIA');
+
+    expect(result?.category_id).toBe(GROCERIES);
+    expect(result?.confidence).toBeGreaterThan(0.5);
+    expect(result?.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('should be more confident with more matching words', () => {
+    const one = suggestCategory(model, 'uber', 0);
+    const two = suggestCategory(model, 'uber trip', 0);
+
+    expect(one?.category_id).toBe(TRANSPORT);
+    expect(two!.confidence).toBeGreaterThan(one!.confidence);
+  });
+
+  it('should return null for unknown words', () => {
+    expect(suggestCategory(model, 'FARMACIA')).toBeNull();
+  });
+
+  it('should return null below the confidence threshold', () => {
+    expect(suggestCategory(model, 'mercado uber', 0.99)).toBeNull();
+  });
+
+  it('should return null for an empty model', () => {
+    expect(suggestCategory(trainCategoryModel([]), 'uber')).toBeNull();
+  });
+});
@@ -57,6 +57,9 @@ export const mockAccount = {
   id: 1,
   name: 'Test Account',
   created_at: new Date('2024-01-01'),
+  ofx_bank_id: null,
+  ofx_account_id: null,
+  ofx_account_type: null,
 };
 
 // Mock category data
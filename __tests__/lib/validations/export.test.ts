@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { statementExportSchema, transactionExportSchema } from '@/lib/validations/export';
+
+describe('transactionExportSchema', () => {
+  it('should default to CSV in en-US without filters', () => {
+    expect(transactionExportSchema.parse({})).toEqual({ format: 'csv', locale: 'en-US' });
+  });
+
+  it('should coerce query string values', () => {
+    expect(
+      transactionExportSchema.parse({
+        format: 'xlsx',
+        accountId: '3',
+        categoryId: '12',
+        startDate: '2024-01-01',
+        endDate: '2024-03-31',
+        locale: 'pt-BR',
+      })
+    ).toEqual({
+      format: 'xlsx',
+      accountId: 3,
+      categoryId: 12,
+      startDate: '2024-01-01',
+      endDate: '2024-03-31',
+      locale: 'pt-BR',
+    });
+  });
+
+  it('should accept "none" for uncategorized', () => {
+    expect(transactionExportSchema.parse({ categoryId: 'none' }).categoryId).toBe('none');
+  });
+
+  it('should reject bad formats, dates and locales', () => {
+    expect(transactionExportSchema.safeParse({ format: 'pdf' }).success).toBe(false);
+    expect(transactionExportSchema.safeParse({ startDate: '01/02/2024' }).success).toBe(false);
+    expect(transactionExportSchema.safeParse({ locale: 'not a locale!' }).success).toBe(false);
+  });
+
+  it('should reject a start date after the end date', () => {
+    const result = transactionExportSchema.safeParse({ startDate: '2024-02-01', endDate: '2024-01-01' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.endDate).toEqual(['Start date must be before end date']);
+    }
+  });
+
+  it('should accept journal and OFX formats with a currency', () => {
+    expect(transactionExportSchema.parse({ format: 'beancount', commodity: 'BRL' })).toEqual({
+      format: 'beancount',
+      locale: 'en-US',
+      commodity: 'BRL',
+    });
+    expect(transactionExportSchema.safeParse({ format: 'ledger', commodity: 'usd' }).success).toBe(false);
+    expect(transactionExportSchema.parse({ format: 'ofx', commodity: 'EUR', categoryId: '3' })).toMatchObject({
+      format: 'ofx',
+      commodity: 'EUR',
+      categoryId: 3,
+    });
+  });
+
+  it('should accept the filters of a transaction list', () => {
+    expect(
+      transactionExportSchema.parse({
+        accountId: '3',
+        payee: ' bakery ',
+        minAmount: '-50',
+        maxAmount: '-10.5',
+        search: 'refund',
+      })
+    ).toEqual({
+      format: 'csv',
+      locale: 'en-US',
+      accountId: 3,
+      payee: 'bakery',
+      minAmount: '-50',
+      maxAmount: '-10.5',
+      search: 'refund',
+    });
+    expect(transactionExportSchema.safeParse({ minAmount: '5', maxAmount: '1' }).success).toBe(false);
+  });
+
+  it('should reject list filters on journals', () => {
+    const result = transactionExportSchema.safeParse({ format: 'ledger', payee: 'bakery' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.format).toEqual([
+        'Journals include every transaction in the date range',
+      ]);
+    }
+  });
+
+  it('should reject a category filter on journals', () => {
+    const result = transactionExportSchema.safeParse({ format: 'hledger', categoryId: '12' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.categoryId).toEqual(['Journals include every category']);
+    }
+  });
+});
+
+describe('statementExportSchema', () => {
+  it('should accept months and years', () => {
+    expect(statementExportSchema.parse({ period: '2024-03', accountId: '2' })).toEqual({
+      period: '2024-03',
+      accountId: 2,
+    });
+    expect(statementExportSchema.parse({ period: '2024' })).toEqual({ period: '2024' });
+  });
+
+  it('should reject other periods', () => {
+    expect(statementExportSchema.safeParse({ period: '2024-13' }).success).toBe(false);
+    expect(statementExportSchema.safeParse({ period: '03/2024' }).success).toBe(false);
+    expect(statementExportSchema.safeParse({}).success).toBe(false);
+  });
+});
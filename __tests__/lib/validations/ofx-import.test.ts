@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ofxTransactionSchema, statementSelectionSchema } from '@/lib/validations/ofx-import';
+
+const validTransaction = {
+  fitid: 'ABC-1',
+  refnum: '',
+  memo: 'PADARIA',
+  payee: null,
+  cleanedMemo: 'PADARIA',
+  date: '2024-01-15',
+  amount: -12.5,
+  type: 'DEBIT',
+};
+
+describe('OFX Import Validation', () => {
+  describe('ofxTransactionSchema', () => {
+    it('accepts a parsed statement row', () => {
+      expect(ofxTransactionSchema.safeParse(validTransaction).success).toBe(true);
+    });
+
+    it('rejects dates in the future', () => {
+      const nextYear = new Date().getFullYear() + 1;
+      const result = ofxTransactionSchema.safeParse({
+        ...validTransaction,
+        date: `${nextYear}-01-01`,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects amounts outside the manual entry bounds', () => {
+      expect(ofxTransactionSchema.safeParse({ ...validTransaction, amount: 1000000.01 }).success)
+        .toBe(false);
+      expect(ofxTransactionSchema.safeParse({ ...validTransaction, amount: NaN }).success)
+        .toBe(false);
+    });
+
+    it('rejects an empty FITID', () => {
+      expect(ofxTransactionSchema.safeParse({ ...validTransaction, fitid: '' }).success)
+        .toBe(false);
+    });
+  });
+
+  describe('statementSelectionSchema', () => {
+    it('defaults the picked categories', () => {
+      const result = statementSelectionSchema.parse([
+        { statementIndex: 0, accountId: 3, fitids: ['ABC-1'] },
+      ]);
+      expect(result[0].categoryIds).toEqual({});
+    });
+
+    it('rejects a missing account', () => {
+      const result = statementSelectionSchema.safeParse([
+        { statementIndex: 0, accountId: null, fitids: [] },
+      ]);
+      expect(result.success).toBe(false);
+    });
+  });
+});
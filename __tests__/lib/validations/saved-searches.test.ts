@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSavedSearchQuery, savedSearchSchema } from '@/lib/validations/saved-searches';
+
+describe('normalizeSavedSearchQuery', () => {
+  it('should drop the page cursor and empty fields', () => {
+    expect(normalizeSavedSearchQuery('?payee=coffee&after=abc&search=&sort=amount&order=desc')).toBe(
+      'payee=coffee&sort=amount&order=desc'
+    );
+  });
+
+  it('should keep an empty query for the unfiltered list', () => {
+    expect(normalizeSavedSearchQuery('')).toBe('');
+  });
+
+  it('should reject queries the list would ignore', () => {
+    expect(normalizeSavedSearchQuery('sort=category')).toBeNull();
+    expect(normalizeSavedSearchQuery('minAmount=ten')).toBeNull();
+  });
+});
+
+describe('savedSearchSchema', () => {
+  it('should normalize the query', () => {
+    expect(
+      savedSearchSchema.parse({ name: ' Groceries ', query: 'categoryId=4&after=abc', pinned: true })
+    ).toEqual({ name: 'Groceries', query: 'categoryId=4', pinned: true });
+  });
+
+  it('should require a name and a valid query', () => {
+    const result = savedSearchSchema.safeParse({ name: '', query: 'size=7', pinned: false });
+
+    expect(result.success).toBe(false);
+    expect(Object.keys(result.error?.flatten().fieldErrors ?? {}).sort()).toEqual(['name', 'query']);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  transactionFiltersFromQuery,
+  transactionPageSchema,
+  transactionSortFromQuery,
+} from '@/lib/validations/transactions';
+
+describe('transactionPageSchema', () => {
+  it('should default the page size', () => {
+    expect(transactionPageSchema.parse({})).toEqual({ size: 50 });
+  });
+
+  it('should parse filters from the query string', () => {
+    const query = transactionPageSchema.parse({
+      accountId: '3',
+      categoryId: 'none',
+      payee: '  coffee ',
+      minAmount: '-20.5',
+      maxAmount: '10',
+      size: '100',
+    });
+
+    expect(query).toEqual({
+      accountId: 3,
+      categoryId: 'none',
+      payee: 'coffee',
+      minAmount: '-20.5',
+      maxAmount: '10',
+      size: 100,
+    });
+  });
+
+  it('should reject unknown page sizes', () => {
+    expect(transactionPageSchema.safeParse({ size: '30' }).success).toBe(false);
+  });
+
+  it('should reject inverted ranges', () => {
+    const dates = transactionPageSchema.safeParse({ startDate: '2024-02-01', endDate: '2024-01-01' });
+    const amounts = transactionPageSchema.safeParse({ minAmount: '10', maxAmount: '-10' });
+
+    expect(dates.success).toBe(false);
+    expect(amounts.success).toBe(false);
+    expect(amounts.error?.flatten().fieldErrors.maxAmount).toEqual([
+      'Minimum amount must not exceed the maximum',
+    ]);
+  });
+});
+
+describe('transactionFiltersFromQuery', () => {
+  it('should map "none" to uncategorized and drop blank text', () => {
+    expect(transactionFiltersFromQuery({ categoryId: 'none', payee: '', search: 'refund' })).toEqual({
+      accountId: undefined,
+      categoryId: null,
+      startDate: undefined,
+      endDate: undefined,
+      payee: undefined,
+      minAmount: undefined,
+      maxAmount: undefined,
+      search: 'refund',
+    });
+  });
+});
+
+describe('transactionSortFromQuery', () => {
+  it('should sort dates newest first and other columns A-Z by default', () => {
+    expect(transactionSortFromQuery({})).toEqual({ column: 'date', direction: 'desc' });
+    expect(transactionSortFromQuery({ sort: 'payee' })).toEqual({ column: 'payee', direction: 'asc' });
+  });
+
+  it('should follow the requested order', () => {
+    expect(transactionSortFromQuery({ sort: 'amount', order: 'desc' })).toEqual({
+      column: 'amount',
+      direction: 'desc',
+    });
+  });
+});
@@ -4,30 +4,84 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { TransactionTable } from '@/components/transactions/transaction-table';
+import { TransactionFilterBar } from '@/components/transactions/transaction-filters';
 import { TransactionForm } from '@/components/transactions/transaction-form';
 import { OfxImportDialog } from '@/components/ofx-import-dialog';
-import { Account, CategoryWithPath, TransactionWithDetails } from '@/lib/db/types';
+import { CsvImportDialog } from '@/components/csv-import-dialog';
+import { ExportDialog } from '@/components/transactions/export-dialog';
+import { StatementDialog } from '@/components/transactions/statement-dialog';
+import { ImportHistory } from '@/components/import-history';
+import {
+  Account,
+  BalanceCheckpointWithCurrent,
+  CategoryWithPath,
+  CsvImportProfile,
+  ImportBatchWithDetails,
+  TransactionPage,
+  TransactionWithDetails,
+} from '@/lib/db/types';
 import { ImportResult } from '@/lib/actions/ofx-import';
+import { TransactionListQuery } from '@/lib/validations/transactions';
 
 interface AccountDetailClientProps {
   account: Account;
   balance: string;
-  transactions: TransactionWithDetails[];
+  transactionPage: TransactionPage;
+  pageSize: number;
+  listQuery: TransactionListQuery;
+  filterErrors: Record<string, string[] | undefined> | null;
   accounts: Account[];
   categories: CategoryWithPath[];
+  csvProfiles: CsvImportProfile[];
+  importBatches: ImportBatchWithDetails[];
+  balanceCheckpoint: BalanceCheckpointWithCurrent | null;
+}
+
+function BalanceCheckpointNote({
+  checkpoint,
+}: {
+  checkpoint: BalanceCheckpointWithCurrent;
+}) {
+  const bank = parseFloat(checkpoint.bank_balance);
+  const difference = bank - parseFloat(checkpoint.current_ledger_balance);
+  const asOf = new Date(
+    typeof checkpoint.as_of === 'string' ? checkpoint.as_of + 'T00:00:00' : checkpoint.as_of
+  ).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <div className="mt-2 text-sm text-muted-foreground">
+      Bank balance on {asOf}: ${bank.toFixed(2)}
+      {Math.abs(difference) >= 0.005 ? (
+        <span className="ml-2 text-amber-700">
+          Ledger differs by ${difference.toFixed(2)}
+        </span>
+      ) : (
+        <span className="ml-2 text-green-600">Reconciled</span>
+      )}
+    </div>
+  );
 }
 
 export function AccountDetailClient({
   account,
   balance,
-  transactions,
+  transactionPage,
+  pageSize,
+  listQuery,
+  filterErrors,
   accounts,
   categories,
+  csvProfiles,
+  importBatches,
+  balanceCheckpoint,
 }: AccountDetailClientProps) {
   const [formOpen, setFormOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] =
     useState<TransactionWithDetails | null>(null);
   const [importOpen, setImportOpen] = useState(false);
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [statementOpen, setStatementOpen] = useState(false);
 
   const handleImportComplete = (result: ImportResult) => {
     console.log(`Imported ${result.imported}, skipped ${result.skipped}`);
@@ -47,7 +101,25 @@ export function AccountDetailClient({
             variant="outline"
             onClick={() => setImportOpen(true)}
           >
-            Import OFX
+            Import OFX/QIF
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setCsvImportOpen(true)}
+          >
+            Import CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setExportOpen(true)}
+          >
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setStatementOpen(true)}
+          >
+            Statement
           </Button>
           <Button
             onClick={() => {
@@ -72,6 +144,9 @@ export function AccountDetailClient({
           >
             ${parseFloat(balance).toFixed(2)}
           </div>
+          {balanceCheckpoint && (
+            <BalanceCheckpointNote checkpoint={balanceCheckpoint} />
+          )}
         </CardContent>
       </Card>
 
@@ -79,9 +154,12 @@ export function AccountDetailClient({
         <CardHeader>
           <CardTitle>Transactions</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <TransactionFilterBar categories={categories} errors={filterErrors} />
           <TransactionTable
-            transactions={transactions}
+            page={transactionPage}
+            pageSize={pageSize}
+            query={listQuery}
             onEdit={(transaction) => {
               setEditingTransaction(transaction);
               setFormOpen(true);
@@ -90,6 +168,17 @@ export function AccountDetailClient({
         </CardContent>
       </Card>
 
+      {importBatches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImportHistory batches={importBatches} />
+          </CardContent>
+        </Card>
+      )}
+
       <TransactionForm
         open={formOpen}
         onClose={() => {
@@ -106,8 +195,35 @@ export function AccountDetailClient({
         open={importOpen}
         onOpenChange={setImportOpen}
         accountId={account.id}
+        accounts={accounts}
+        categories={categories}
+        onImportComplete={handleImportComplete}
+      />
+
+      <CsvImportDialog
+        open={csvImportOpen}
+        onOpenChange={setCsvImportOpen}
+        accountId={account.id}
+        profiles={csvProfiles}
         onImportComplete={handleImportComplete}
       />
+
+      <ExportDialog
+        // Opens with the filters in effect when they change
+        key={JSON.stringify(listQuery)}
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        accounts={accounts}
+        categories={categories}
+        query={listQuery}
+      />
+
+      <StatementDialog
+        open={statementOpen}
+        onOpenChange={setStatementOpen}
+        accounts={accounts}
+        accountId={account.id}
+      />
     </div>
   );
 }
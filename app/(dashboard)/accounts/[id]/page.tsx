@@ -1,25 +1,60 @@
 import { notFound } from 'next/navigation';
 import { getAccountById, getAccountBalance } from '@/lib/db/accounts';
-import { getTransactionsByAccount } from '@/lib/db/transactions';
+import { decodeTransactionCursor, getTransactionPage } from '@/lib/db/transactions';
 import { getAllAccounts } from '@/lib/db/accounts';
 import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { getAllCsvProfiles } from '@/lib/db/csv-profiles';
+import { getImportBatchesByAccount } from '@/lib/db/import-batches';
+import { getLatestBalanceCheckpoint } from '@/lib/db/balance-checkpoints';
+import {
+  DEFAULT_TRANSACTION_PAGE_SIZE,
+  transactionFiltersFromQuery,
+  transactionPageSchema,
+  transactionSortFromQuery,
+} from '@/lib/validations/transactions';
 import { AccountDetailClient } from './client';
 
 export default async function AccountDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
   const resolvedParams = await params;
   const accountId = parseInt(resolvedParams.id);
 
-  const [account, balance, transactions, accounts, categories] =
-    await Promise.all([
+  // Filters and page state come from the URL so views can be bookmarked.
+  // Empty fields mean "no filter"; anything invalid shows the unfiltered
+  // first page, and a stale cursor the first page.
+  const query = transactionPageSchema.safeParse({
+    ...Object.fromEntries(Object.entries(await searchParams).filter(([, value]) => value !== '')),
+    accountId,
+  });
+  const { size: pageSize, after: cursor, ...listQuery } = query.success
+    ? query.data
+    : { accountId, size: DEFAULT_TRANSACTION_PAGE_SIZE, after: undefined };
+  const sort = transactionSortFromQuery(listQuery);
+  const after = cursor ? decodeTransactionCursor(cursor, sort) : null;
+
+  const [
+    account,
+    balance,
+    transactionPage,
+    accounts,
+    categories,
+    csvProfiles,
+    importBatches,
+    balanceCheckpoint,
+  ] = await Promise.all([
       getAccountById(accountId),
       getAccountBalance(accountId),
-      getTransactionsByAccount(accountId),
+      getTransactionPage(transactionFiltersFromQuery(listQuery), { limit: pageSize, sort, after }),
       getAllAccounts(),
       getAllCategoriesWithPaths(),
+      getAllCsvProfiles(),
+      getImportBatchesByAccount(accountId),
+      getLatestBalanceCheckpoint(accountId),
     ]);
 
   if (!account) {
@@ -30,9 +65,15 @@ export default async function AccountDetailPage({
     <AccountDetailClient
       account={account}
       balance={balance}
-      transactions={transactions}
+      transactionPage={transactionPage}
+      pageSize={pageSize}
+      listQuery={listQuery}
+      filterErrors={query.success ? null : query.error.flatten().fieldErrors}
       accounts={accounts}
       categories={categories}
+      csvProfiles={csvProfiles}
+      importBatches={importBatches}
+      balanceCheckpoint={balanceCheckpoint}
     />
   );
 }
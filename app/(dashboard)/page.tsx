@@ -3,21 +3,41 @@ import { SummaryCards } from '@/components/dashboard/summary-cards';
 import { CashFlowChart } from '@/components/dashboard/cash-flow-chart';
 import { CategoryChart } from '@/components/dashboard/category-chart';
 import { RecentTransactions } from '@/components/dashboard/recent-transactions';
+import { ExportButton } from '@/components/dashboard/export-button';
+import { StatementButton } from '@/components/dashboard/statement-button';
+import { getAllAccounts } from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
 import {
   getMonthlyCashFlow,
   getCategoryBreakdown,
 } from '@/lib/analytics/cash-flow';
 
 export default async function DashboardPage() {
-  const [monthlyData, expenseBreakdown, incomeBreakdown] = await Promise.all([
+  const [monthlyData, expenseBreakdown, incomeBreakdown, accounts, categories] = await Promise.all([
     getMonthlyCashFlow(6),
     getCategoryBreakdown('expense', 5),
     getCategoryBreakdown('income', 5),
+    getAllAccounts(),
+    getAllCategoriesWithPaths(),
   ]);
 
+  // Exports start with the period the cash flow chart covers
+  const chartStart = new Date();
+  chartStart.setMonth(chartStart.getMonth() - 6);
+
   return (
     <div className="space-y-6">
-      <h2 className="text-3xl font-bold">Dashboard</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold">Dashboard</h2>
+        <div className="flex gap-2">
+          <StatementButton accounts={accounts} />
+          <ExportButton
+            accounts={accounts}
+            categories={categories}
+            startDate={chartStart.toISOString().split('T')[0]}
+          />
+        </div>
+      </div>
 
       <Suspense fallback={<div>Loading summary...</div>}>
         <SummaryCards />
@@ -1,15 +1,26 @@
 'use client';
 
-import { Account, CategoryWithPath } from '@/lib/db/types';
+import { Account, CategoryRule, CategoryWithPath, PayeeRule } from '@/lib/db/types';
 import { AccountManager } from '@/components/settings/account-manager';
 import { CategoryManager } from '@/components/settings/category-manager';
+import { PayeeRuleManager } from '@/components/settings/payee-rule-manager';
+import { CategoryRuleManager } from '@/components/settings/category-rule-manager';
+import { MigrationImport } from '@/components/settings/migration-import';
+import { BackupManager } from '@/components/settings/backup-manager';
 
 interface SettingsClientProps {
   accounts: Account[];
   categories: CategoryWithPath[];
+  payeeRules: PayeeRule[];
+  categoryRules: CategoryRule[];
 }
 
-export function SettingsClient({ accounts, categories }: SettingsClientProps) {
+export function SettingsClient({
+  accounts,
+  categories,
+  payeeRules,
+  categoryRules,
+}: SettingsClientProps) {
   return (
     <div className="space-y-6">
       <h2 className="text-3xl font-bold">Settings</h2>
@@ -17,6 +28,18 @@ export function SettingsClient({ accounts, categories }: SettingsClientProps) {
       <AccountManager accounts={accounts} />
 
       <CategoryManager categories={categories} />
+
+      <PayeeRuleManager rules={payeeRules} />
+
+      <CategoryRuleManager
+        rules={categoryRules}
+        accounts={accounts}
+        categories={categories}
+      />
+
+      <MigrationImport />
+
+      <BackupManager />
     </div>
   );
 }
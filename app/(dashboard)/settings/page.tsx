@@ -1,12 +1,23 @@
 import { getAllAccounts } from '@/lib/db/accounts';
 import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { getAllPayeeRules } from '@/lib/db/payee-rules';
+import { getAllCategoryRules } from '@/lib/db/category-rules';
 import { SettingsClient } from './client';
 
 export default async function SettingsPage() {
-  const [accounts, categories] = await Promise.all([
+  const [accounts, categories, payeeRules, categoryRules] = await Promise.all([
     getAllAccounts(),
     getAllCategoriesWithPaths(),
+    getAllPayeeRules(),
+    getAllCategoryRules(),
   ]);
 
-  return <SettingsClient accounts={accounts} categories={categories} />;
+  return (
+    <SettingsClient
+      accounts={accounts}
+      categories={categories}
+      payeeRules={payeeRules}
+      categoryRules={categoryRules}
+    />
+  );
 }
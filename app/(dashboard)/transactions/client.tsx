@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { TransactionTable } from '@/components/transactions/transaction-table';
+import { TransactionFilterBar } from '@/components/transactions/transaction-filters';
+import { TransactionForm } from '@/components/transactions/transaction-form';
+import { SavedSearches } from '@/components/transactions/saved-searches';
+import {
+  Account,
+  CategoryWithPath,
+  SavedSearch,
+  TransactionPage,
+  TransactionWithDetails,
+} from '@/lib/db/types';
+import { TransactionListQuery } from '@/lib/validations/transactions';
+
+interface TransactionsClientProps {
+  transactionPage: TransactionPage;
+  pageSize: number;
+  listQuery: TransactionListQuery;
+  filterErrors: Record<string, string[] | undefined> | null;
+  accounts: Account[];
+  categories: CategoryWithPath[];
+  savedSearches: SavedSearch[];
+}
+
+export function TransactionsClient({
+  transactionPage,
+  pageSize,
+  listQuery,
+  filterErrors,
+  accounts,
+  categories,
+  savedSearches,
+}: TransactionsClientProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] =
+    useState<TransactionWithDetails | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Transactions</h2>
+          <p className="text-muted-foreground">
+            Search and filter transactions across all accounts
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingTransaction(null);
+            setFormOpen(true);
+          }}
+        >
+          Add Transaction
+        </Button>
+      </div>
+
+      <SavedSearches searches={savedSearches} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Transactions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TransactionFilterBar
+            categories={categories}
+            accounts={accounts}
+            errors={filterErrors}
+          />
+          <TransactionTable
+            page={transactionPage}
+            pageSize={pageSize}
+            query={listQuery}
+            showAccount
+            onEdit={(transaction) => {
+              setEditingTransaction(transaction);
+              setFormOpen(true);
+            }}
+          />
+        </CardContent>
+      </Card>
+
+      <TransactionForm
+        open={formOpen}
+        onClose={() => {
+          setFormOpen(false);
+          setEditingTransaction(null);
+        }}
+        accounts={accounts}
+        categories={categories}
+        transaction={editingTransaction}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { getAllAccounts } from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { getAllSavedSearches } from '@/lib/db/saved-searches';
+import { decodeTransactionCursor, getTransactionPage } from '@/lib/db/transactions';
+import {
+  DEFAULT_TRANSACTION_PAGE_SIZE,
+  transactionFiltersFromQuery,
+  transactionPageSchema,
+  transactionSortFromQuery,
+} from '@/lib/validations/transactions';
+import { TransactionsClient } from './client';
+
+export default async function TransactionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  // Same URL format as the account pages, plus the account filter
+  const query = transactionPageSchema.safeParse(
+    Object.fromEntries(Object.entries(await searchParams).filter(([, value]) => value !== ''))
+  );
+  const { size: pageSize, after: cursor, ...listQuery } = query.success
+    ? query.data
+    : { size: DEFAULT_TRANSACTION_PAGE_SIZE, after: undefined };
+  const sort = transactionSortFromQuery(listQuery);
+  const after = cursor ? decodeTransactionCursor(cursor, sort) : null;
+
+  const [transactionPage, accounts, categories, savedSearches] = await Promise.all([
+    getTransactionPage(transactionFiltersFromQuery(listQuery), { limit: pageSize, sort, after }),
+    getAllAccounts(),
+    getAllCategoriesWithPaths(),
+    getAllSavedSearches(),
+  ]);
+
+  return (
+    <TransactionsClient
+      transactionPage={transactionPage}
+      pageSize={pageSize}
+      listQuery={listQuery}
+      filterErrors={query.success ? null : query.error.flatten().fieldErrors}
+      accounts={accounts}
+      categories={categories}
+      savedSearches={savedSearches}
+    />
+  );
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { backupFileName, createBackup, encodeBackup } from '@/lib/backup/export';
+
+export async function GET(request: Request) {
+  await requireAuth();
+
+  const encoding = new URL(request.url).searchParams.get('encoding') ?? 'json';
+  if (encoding !== 'json' && encoding !== 'zip') {
+    return NextResponse.json({ error: 'Encoding must be json or zip' }, { status: 400 });
+  }
+
+  try {
+    const backup = encodeBackup(await createBackup(), encoding);
+    return new Response(Buffer.from(backup), {
+      headers: {
+        'Content-Type': encoding === 'zip' ? 'application/zip' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${backupFileName(encoding)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to create backup:', error);
+    return NextResponse.json({ error: 'Failed to create backup' }, { status: 500 });
+  }
+}
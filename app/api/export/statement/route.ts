@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { getStatement } from '@/lib/analytics/statement';
+import { createStatementPdf } from '@/lib/export/statement';
+import { statementExportSchema } from '@/lib/validations/export';
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export async function GET(request: Request) {
+  await requireAuth();
+
+  const query = Object.fromEntries(
+    [...new URL(request.url).searchParams.entries()].filter(([, value]) => value !== '')
+  );
+  const result = statementExportSchema.safeParse(query);
+  if (!result.success) {
+    return NextResponse.json({ errors: result.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  const { period, accountId } = result.data;
+
+  try {
+    const statement = await getStatement(period, accountId);
+    if (!statement) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const name = [
+      'statement',
+      accountId ? slug(statement.accounts[0].account.name) : 'consolidated',
+      period,
+    ].join('-');
+    return new Response(Buffer.from(createStatementPdf(statement)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${name}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to create statement:', error);
+    return NextResponse.json({ error: 'Failed to create statement' }, { status: 500 });
+  }
+}
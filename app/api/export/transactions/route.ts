@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  getAccountBalance,
+  getAccountBalancesBefore,
+  getAccountById,
+  getAllAccounts,
+} from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { getTransactionsForExport } from '@/lib/db/transactions';
+import { createJournal, JOURNAL_EXTENSIONS } from '@/lib/export/journal';
+import { createOfx } from '@/lib/export/ofx';
+import { createTransactionsXlsx, formatTransactionsCsv } from '@/lib/export/transactions';
+import { transactionExportSchema } from '@/lib/validations/export';
+import { transactionFiltersFromQuery } from '@/lib/validations/transactions';
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export async function GET(request: Request) {
+  await requireAuth();
+
+  // Empty fields in the query string mean "no filter"
+  const query = Object.fromEntries(
+    [...new URL(request.url).searchParams.entries()].filter(([, value]) => value !== '')
+  );
+  const result = transactionExportSchema.safeParse(query);
+  if (!result.success) {
+    return NextResponse.json({ errors: result.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  const { format, accountId, startDate, endDate, locale, commodity } = result.data;
+
+  try {
+    const account = accountId ? await getAccountById(accountId) : null;
+    if (accountId && !account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const transactions = await getTransactionsForExport(transactionFiltersFromQuery(result.data));
+
+    const name = ['transactions', account ? slug(account.name) : '', startDate, endDate]
+      .filter(Boolean)
+      .join('-');
+
+    if (format === 'ledger' || format === 'hledger' || format === 'beancount') {
+      // Balances from before the range open the journal, so its balance
+      // assertions match the account pages
+      const [accounts, categories, opening] = await Promise.all([
+        getAllAccounts(),
+        getAllCategoriesWithPaths(),
+        startDate ? getAccountBalancesBefore(startDate, accountId) : Promise.resolve([]),
+      ]);
+      const journal = createJournal(accounts, categories, transactions, {
+        format,
+        commodity: commodity ?? 'USD',
+        openingDate: startDate,
+        openingBalances: new Map(opening.map((row) => [row.account_id, row.balance])),
+      });
+      return new Response(journal, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${name}.${JOURNAL_EXTENSIONS[format]}"`,
+        },
+      });
+    }
+
+    if (format === 'ofx') {
+      // One statement per account with transactions, or the chosen one even
+      // when empty, closing with its balance at the end of the range
+      const statementAccounts = account
+        ? [account]
+        : (await getAllAccounts()).filter((a) => transactions.some((tx) => tx.account_id === a.id));
+      const balances = await Promise.all(
+        statementAccounts.map((a) => getAccountBalance(a.id, endDate))
+      );
+      const ofx = createOfx(statementAccounts, transactions, {
+        currency: commodity ?? 'USD',
+        startDate,
+        endDate,
+        balances: new Map(statementAccounts.map((a, i) => [a.id, balances[i]])),
+      });
+      return new Response(ofx, {
+        headers: {
+          'Content-Type': 'application/x-ofx; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${name}.ofx"`,
+        },
+      });
+    }
+
+    if (format === 'xlsx') {
+      const workbook = createTransactionsXlsx(transactions, account?.name ?? 'Transactions');
+      return new Response(Buffer.from(workbook), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${name}.xlsx"`,
+        },
+      });
+    }
+
+    return new Response(formatTransactionsCsv(transactions, locale), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${name}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export transactions:', error);
+    return NextResponse.json({ error: 'Failed to export transactions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,509 @@
+'use client';
+
+import { useState, useRef, useTransition } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImportPreviewTable } from '@/components/import-preview-table';
+import { importCsvUpload, ImportResult, parseCsvUpload } from '@/lib/actions/ofx-import';
+import { saveCsvProfile } from '@/lib/actions/csv-profiles';
+import { parseCsvRows } from '@/lib/csv/parser';
+import { CsvDateFormat, CsvMapping } from '@/lib/csv/types';
+import { CsvImportProfile } from '@/lib/db/types';
+import { OfxTransaction } from '@/lib/ofx/types';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  profiles: CsvImportProfile[];
+  onImportComplete: (result: ImportResult) => void;
+}
+
+const DATE_FORMATS: CsvDateFormat[] = [
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD.MM.YYYY',
+  'DD-MM-YYYY',
+  'YYYYMMDD',
+];
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const DEFAULT_MAPPING: CsvMapping = {
+  delimiter: ',',
+  has_header: true,
+  date_column: 0,
+  date_format: 'YYYY-MM-DD',
+  amount_column: 1,
+  debit_column: null,
+  credit_column: null,
+  payee_column: null,
+  memo_column: null,
+  decimal_separator: '.',
+};
+
+function toMapping(profile: CsvImportProfile): CsvMapping {
+  return {
+    delimiter: profile.delimiter,
+    has_header: profile.has_header,
+    date_column: profile.date_column,
+    date_format: profile.date_format,
+    amount_column: profile.amount_column,
+    debit_column: profile.debit_column,
+    credit_column: profile.credit_column,
+    payee_column: profile.payee_column,
+    memo_column: profile.memo_column,
+    decimal_separator: profile.decimal_separator,
+  };
+}
+
+interface ColumnSelectProps {
+  label: string;
+  value: number | null;
+  columns: string[];
+  optional?: boolean;
+  onChange: (value: number | null) => void;
+}
+
+function ColumnSelect({ label, value, columns, optional, onChange }: ColumnSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select
+        value={value === null ? 'none' : value.toString()}
+        onValueChange={(v) => onChange(v === 'none' ? null : parseInt(v, 10))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value="none">Not mapped</SelectItem>}
+          {columns.map((column, index) => (
+            <SelectItem key={index} value={index.toString()}>
+              {column}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function CsvImportDialog({
+  open,
+  onOpenChange,
+  accountId,
+  profiles,
+  onImportComplete,
+}: CsvImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  // Only read to label the columns; the rows are parsed on the server
+  const [content, setContent] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>(DEFAULT_MAPPING);
+  const [savedProfiles, setSavedProfiles] = useState<CsvImportProfile[]>(profiles);
+  const [profileName, setProfileName] = useState('');
+  const [parsed, setParsed] = useState<OfxTransaction[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const resetState = () => {
+    setFile(null);
+    setContent(null);
+    setParsed(null);
+    setSelected(new Set());
+    setError(null);
+    setSuccess(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const firstRow = content ? parseCsvRows(content, mapping.delimiter)[0] ?? [] : [];
+  const columns = firstRow.map((cell, index) =>
+    mapping.has_header && cell.trim() ? cell.trim() : `Column ${index + 1}`
+  );
+  const useDebitCredit = mapping.amount_column === null;
+
+  const updateMapping = (changes: Partial<CsvMapping>) => {
+    setMapping((current) => ({ ...current, ...changes }));
+    setParsed(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFile(file);
+    setContent(await file.text());
+    setParsed(null);
+    setError(null);
+  };
+
+  const handleProfileChange = (value: string) => {
+    const profile = savedProfiles.find((p) => p.id.toString() === value);
+    if (profile) {
+      setMapping(toMapping(profile));
+      setProfileName(profile.name);
+      setParsed(null);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    const formData = new FormData();
+    formData.set('name', profileName);
+    for (const [key, value] of Object.entries(mapping)) {
+      formData.set(key, value === null ? 'none' : String(value));
+    }
+
+    const result = await saveCsvProfile(formData);
+    if (result.success && result.profile) {
+      const profile = result.profile;
+      setSavedProfiles((current) =>
+        [...current.filter((p) => p.id !== profile.id), profile].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setError(null);
+    } else {
+      const fieldErrors = result.errors ? Object.values(result.errors).flat() : [];
+      setError(fieldErrors[0] || result.error || 'Failed to save profile');
+    }
+  };
+
+  const uploadData = () => {
+    const formData = new FormData();
+    if (file) formData.set('file', file);
+    formData.set('mapping', JSON.stringify(mapping));
+    return formData;
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+
+    setPreviewing(true);
+    const result = await parseCsvUpload(uploadData());
+    setPreviewing(false);
+
+    if (result.success) {
+      setParsed(result.transactions);
+      setSelected(new Set(result.transactions.map((t) => t.fitid)));
+      setError(null);
+    } else {
+      setError(result.error);
+      setParsed(null);
+    }
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+
+    startTransition(async () => {
+      setImporting(true);
+      setError(null);
+      setSuccess(null);
+
+      try {
+        const formData = uploadData();
+        formData.set(
+          'selection',
+          JSON.stringify({
+            accountId,
+            fitids: parsed.filter((t) => selected.has(t.fitid)).map((t) => t.fitid),
+          })
+        );
+
+        const result = await importCsvUpload(formData);
+
+        if (result.batchIds.length > 0) {
+          setSuccess(`Imported ${result.imported} transactions, skipped ${result.skipped} duplicates`);
+          onImportComplete(result);
+        }
+
+        if (result.errors.length > 0) {
+          setError(result.errors.join('\n'));
+          return;
+        }
+
+        setTimeout(() => {
+          onOpenChange(false);
+          resetState();
+        }, 1500);
+      } catch (err) {
+        setError(`Import failed: ${err}`);
+      } finally {
+        setImporting(false);
+      }
+    });
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetState();
+    }
+    onOpenChange(newOpen);
+  };
+
+  const someSelected = selected.size > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import CSV File</DialogTitle>
+          <DialogDescription>
+            Upload a CSV statement and map its columns to transaction fields
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <input
+              type="file"
+              accept=".csv,.txt"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-500
+                file:mr-4 file:py-2 file:px-4
+                file:rounded-md file:border-0
+                file:text-sm file:font-semibold
+                file:bg-primary file:text-primary-foreground
+                hover:file:bg-opacity-90 cursor-pointer"
+            />
+          </div>
+
+          {content && (
+            <div className="space-y-4 border rounded p-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-1">
+                  <Label>Saved profile</Label>
+                  <Select onValueChange={handleProfileChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a bank profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedProfiles.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id.toString()}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Delimiter</Label>
+                  <Select
+                    value={mapping.delimiter}
+                    onValueChange={(v) => updateMapping({ delimiter: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map((d) => (
+                        <SelectItem key={d.label} value={d.value}>
+                          {d.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Decimal separator</Label>
+                  <Select
+                    value={mapping.decimal_separator}
+                    onValueChange={(v) =>
+                      updateMapping({ decimal_separator: v as CsvMapping['decimal_separator'] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">Dot (1,234.56)</SelectItem>
+                      <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <ColumnSelect
+                  label="Date column"
+                  value={mapping.date_column}
+                  columns={columns}
+                  onChange={(v) => updateMapping({ date_column: v ?? 0 })}
+                />
+
+                <div className="space-y-1">
+                  <Label>Date format</Label>
+                  <Select
+                    value={mapping.date_format}
+                    onValueChange={(v) => updateMapping({ date_format: v as CsvDateFormat })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map((format) => (
+                        <SelectItem key={format} value={format}>
+                          {format}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <label className="flex items-center gap-2 cursor-pointer self-end pb-2">
+                  <input
+                    type="checkbox"
+                    checked={mapping.has_header}
+                    onChange={(e) => updateMapping({ has_header: e.target.checked })}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  <span className="text-sm">First row is a header</span>
+                </label>
+
+                <label className="flex items-center gap-2 cursor-pointer md:col-span-3">
+                  <input
+                    type="checkbox"
+                    checked={useDebitCredit}
+                    onChange={(e) =>
+                      updateMapping(
+                        e.target.checked
+                          ? { amount_column: null }
+                          : { amount_column: 0, debit_column: null, credit_column: null }
+                      )
+                    }
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  <span className="text-sm">Separate debit and credit columns</span>
+                </label>
+
+                {useDebitCredit ? (
+                  <>
+                    <ColumnSelect
+                      label="Debit column"
+                      value={mapping.debit_column}
+                      columns={columns}
+                      optional
+                      onChange={(v) => updateMapping({ debit_column: v })}
+                    />
+                    <ColumnSelect
+                      label="Credit column"
+                      value={mapping.credit_column}
+                      columns={columns}
+                      optional
+                      onChange={(v) => updateMapping({ credit_column: v })}
+                    />
+                  </>
+                ) : (
+                  <ColumnSelect
+                    label="Amount column"
+                    value={mapping.amount_column}
+                    columns={columns}
+                    onChange={(v) => updateMapping({ amount_column: v })}
+                  />
+                )}
+
+                <ColumnSelect
+                  label="Payee column"
+                  value={mapping.payee_column}
+                  columns={columns}
+                  optional
+                  onChange={(v) => updateMapping({ payee_column: v })}
+                />
+                <ColumnSelect
+                  label="Memo column"
+                  value={mapping.memo_column}
+                  columns={columns}
+                  optional
+                  onChange={(v) => updateMapping({ memo_column: v })}
+                />
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="csv-profile-name">Save mapping as profile</Label>
+                  <Input
+                    id="csv-profile-name"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder="e.g. My Bank CSV"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleSaveProfile}
+                  disabled={!profileName.trim()}
+                >
+                  Save Profile
+                </Button>
+                <Button onClick={handlePreview} disabled={previewing}>
+                  {previewing ? 'Parsing...' : 'Preview'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-red-500 text-sm p-2 bg-red-50 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="text-green-600 text-sm p-2 bg-green-50 rounded">
+              {success}
+            </div>
+          )}
+
+          {parsed && (
+            <ImportPreviewTable
+              transactions={parsed}
+              selected={selected}
+              onSelectedChange={setSelected}
+            />
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!parsed || !someSelected || importing || isPending}
+            >
+              {importing || isPending ? 'Importing...' : 'Import Selected'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ExportDialog } from '@/components/transactions/export-dialog';
+import { Account, CategoryWithPath } from '@/lib/db/types';
+
+interface ExportButtonProps {
+  accounts: Account[];
+  categories: CategoryWithPath[];
+  startDate?: string;
+}
+
+export function ExportButton({ accounts, categories, startDate }: ExportButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        Export
+      </Button>
+
+      <ExportDialog
+        open={open}
+        onOpenChange={setOpen}
+        accounts={accounts}
+        categories={categories}
+        query={{ startDate }}
+      />
+    </>
+  );
+}
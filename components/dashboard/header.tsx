@@ -1,15 +1,23 @@
 import { logout } from '@/lib/actions/auth';
 import { Button } from '@/components/ui/button';
 import { requireAuth } from '@/lib/auth/session';
+import { getAllAccounts } from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { ImportStatementButton } from './import-statement-button';
 
 export async function DashboardHeader() {
   const user = await requireAuth();
+  const [accounts, categories] = await Promise.all([
+    getAllAccounts(),
+    getAllCategoriesWithPaths(),
+  ]);
 
   return (
     <header className="border-b">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
         <h1 className="text-2xl font-bold">Financial Ledger</h1>
         <div className="flex items-center gap-4">
+          <ImportStatementButton accounts={accounts} categories={categories} />
           <span className="text-sm text-muted-foreground">
             {user.username}
           </span>
@@ -0,0 +1,36 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { OfxImportDialog } from '@/components/ofx-import-dialog';
+import { Account, CategoryWithPath } from '@/lib/db/types';
+
+interface ImportStatementButtonProps {
+  accounts: Account[];
+  categories: CategoryWithPath[];
+}
+
+export function ImportStatementButton({
+  accounts,
+  categories,
+}: ImportStatementButtonProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        Import statement
+      </Button>
+
+      <OfxImportDialog
+        open={open}
+        onOpenChange={setOpen}
+        accounts={accounts}
+        categories={categories}
+        onImportComplete={() => router.refresh()}
+      />
+    </>
+  );
+}
@@ -1,20 +1,34 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { getPinnedSavedSearches } from '@/lib/db/saved-searches';
+
+export async function DashboardNav() {
+  const pinned = await getPinnedSavedSearches();
 
-export function DashboardNav() {
   return (
     <nav className="border-b bg-muted/40">
       <div className="container mx-auto px-4 py-2">
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           <Button variant="ghost" size="sm" asChild>
             <Link href="/">Dashboard</Link>
           </Button>
           <Button variant="ghost" size="sm" asChild>
             <Link href="/accounts">Accounts</Link>
           </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/transactions">Transactions</Link>
+          </Button>
           <Button variant="ghost" size="sm" asChild>
             <Link href="/settings">Settings</Link>
           </Button>
+          {pinned.length > 0 && <div className="mx-1 w-px self-stretch bg-border" />}
+          {pinned.map((search) => (
+            <Button key={search.id} variant="ghost" size="sm" asChild>
+              <Link href={search.query ? `/transactions?${search.query}` : '/transactions'}>
+                {search.name}
+              </Link>
+            </Button>
+          ))}
         </div>
       </div>
     </nav>
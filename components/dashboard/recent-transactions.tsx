@@ -15,8 +15,11 @@ export async function RecentTransactions() {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle>Recent Transactions</CardTitle>
+        <Link href="/transactions" className="text-sm text-muted-foreground hover:underline">
+          View all
+        </Link>
       </CardHeader>
       <CardContent>
         <Table>
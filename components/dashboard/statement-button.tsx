@@ -0,0 +1,20 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { StatementDialog } from '@/components/transactions/statement-dialog';
+import { Account } from '@/lib/db/types';
+
+export function StatementButton({ accounts }: { accounts: Account[] }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        Statement
+      </Button>
+
+      <StatementDialog open={open} onOpenChange={setOpen} accounts={accounts} />
+    </>
+  );
+}
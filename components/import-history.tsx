@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { rollbackImportBatch } from '@/lib/actions/import-batches';
+import { ImportBatchWithDetails } from '@/lib/db/types';
+
+interface ImportHistoryProps {
+  batches: ImportBatchWithDetails[];
+}
+
+function formatDate(value: string | Date | null): string {
+  if (!value) return '';
+  return new Date(
+    typeof value === 'string' ? value + 'T00:00:00' : value
+  ).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function ImportHistory({ batches }: ImportHistoryProps) {
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRollback = async (batch: ImportBatchWithDetails) => {
+    if (
+      !confirm(
+        `Delete the ${batch.remaining_count} transactions imported from ${
+          batch.file_name || 'this import'
+        }?`
+      )
+    ) {
+      return;
+    }
+
+    setRollingBack(batch.id);
+    const result = await rollbackImportBatch(batch.id);
+    setError(result.success ? null : result.error || 'Failed to roll back import');
+    setRollingBack(null);
+  };
+
+  return (
+    <>
+      {error && (
+        <div className="text-red-500 text-sm p-2 mb-2 bg-red-50 rounded">
+          {error}
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Imported</TableHead>
+            <TableHead>File</TableHead>
+            <TableHead>Statement period</TableHead>
+            <TableHead className="text-right">Imported</TableHead>
+            <TableHead className="text-right">Skipped</TableHead>
+            <TableHead>By</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batches.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                No imports yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            batches.map((batch) => (
+              <TableRow key={batch.id}>
+                <TableCell>{new Date(batch.created_at).toLocaleString('en-US')}</TableCell>
+                <TableCell className="max-w-xs truncate" title={batch.file_name ?? ''}>
+                  {batch.file_name || '—'}
+                </TableCell>
+                <TableCell>
+                  {batch.date_start
+                    ? `${formatDate(batch.date_start)} – ${formatDate(batch.date_end)}`
+                    : '—'}
+                </TableCell>
+                <TableCell className="text-right">{batch.imported_count}</TableCell>
+                <TableCell className="text-right">{batch.skipped_count}</TableCell>
+                <TableCell>{batch.imported_by_username ?? '—'}</TableCell>
+                <TableCell className="text-right">
+                  {batch.rolled_back_at ? (
+                    <span className="text-sm text-muted-foreground">
+                      Rolled back {formatDate(batch.rolled_back_at)}
+                    </span>
+                  ) : (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleRollback(batch)}
+                      disabled={rollingBack === batch.id || batch.remaining_count === 0}
+                    >
+                      {rollingBack === batch.id ? 'Undoing...' : 'Undo import'}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
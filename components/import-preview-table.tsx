@@ -0,0 +1,202 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { CategoryWithPath } from '@/lib/db/types';
+import { DuplicateMatch } from '@/lib/import/duplicates';
+import { OfxTransaction } from '@/lib/ofx/types';
+import { matchCategoryHint } from '@/lib/qif/utils';
+import { CategorySuggestion } from '@/lib/suggestions/classifier';
+
+interface ImportPreviewTableProps {
+  transactions: OfxTransaction[];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  categories?: CategoryWithPath[];
+  suggestions?: Map<string, CategorySuggestion>;
+  onAcceptSuggestion?: (fitid: string) => void;
+  duplicates?: Map<string, DuplicateMatch>;
+  merging?: Set<string>;
+  onMergingChange?: (merging: Set<string>) => void;
+}
+
+export function ImportPreviewTable({
+  transactions,
+  selected,
+  onSelectedChange,
+  categories = [],
+  suggestions,
+  onAcceptSuggestion,
+  duplicates,
+  merging,
+  onMergingChange,
+}: ImportPreviewTableProps) {
+  const categoryPath = (id: number) => categories.find((c) => c.id === id)?.path ?? `#${id}`;
+
+  const renderCategory = (tx: OfxTransaction) => {
+    if (tx.categoryId) return categoryPath(tx.categoryId);
+
+    const suggestion = suggestions?.get(tx.fitid);
+    if (!tx.categoryHint && suggestion) {
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          {categoryPath(suggestion.category_id)} ({Math.round(suggestion.confidence * 100)}%)
+          {onAcceptSuggestion && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => onAcceptSuggestion(tx.fitid)}
+            >
+              Accept
+            </Button>
+          )}
+        </span>
+      );
+    }
+
+    if (!tx.categoryHint) return null;
+    const category = matchCategoryHint(tx.categoryHint, categories);
+    return category ? (
+      category.path
+    ) : (
+      <span className="text-muted-foreground">{tx.categoryHint} (unmatched)</span>
+    );
+  };
+
+  const toggleMerge = (fitid: string, checked: boolean) => {
+    if (!onMergingChange) return;
+    const newMerging = new Set(merging);
+    if (checked) {
+      newMerging.add(fitid);
+    } else {
+      newMerging.delete(fitid);
+    }
+    onMergingChange(newMerging);
+  };
+
+  const renderDuplicate = (tx: OfxTransaction) => {
+    const duplicate = duplicates?.get(tx.fitid);
+    if (!duplicate) return null;
+
+    return (
+      <label
+        className="flex items-center gap-2 text-amber-800 cursor-pointer"
+        title={`Entered by hand as "${duplicate.payee}" on ${duplicate.date}`}
+      >
+        <input
+          type="checkbox"
+          checked={merging?.has(tx.fitid) ?? false}
+          onChange={(e) => toggleMerge(tx.fitid, e.target.checked)}
+          disabled={!onMergingChange}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        Merge into {duplicate.payee} ({duplicate.date})
+      </label>
+    );
+  };
+
+  const toggleAll = (checked: boolean) => {
+    if (checked) {
+      onSelectedChange(new Set(transactions.map((t) => t.fitid)));
+    } else {
+      onSelectedChange(new Set());
+    }
+  };
+
+  const toggleOne = (fitid: string, checked: boolean) => {
+    const newSelected = new Set(selected);
+    if (checked) {
+      newSelected.add(fitid);
+    } else {
+      newSelected.delete(fitid);
+    }
+    onSelectedChange(newSelected);
+  };
+
+  const allSelected = transactions.length > 0 && selected.size === transactions.length;
+  const showDuplicates = transactions.some((tx) => duplicates?.has(tx.fitid));
+  const showCategories = transactions.some(
+    (tx) => tx.categoryHint || tx.categoryId || suggestions?.has(tx.fitid)
+  );
+
+  return (
+    <>
+      <div className="flex items-center gap-4 mb-2">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={(e) => toggleAll(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300"
+          />
+          <span className="text-sm">
+            {allSelected ? 'Deselect All' : 'Select All'} ({transactions.length} transactions)
+          </span>
+        </label>
+        <span className="text-sm text-muted-foreground">
+          {selected.size} selected
+        </span>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border rounded">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10"></TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Payee (REFNUM)</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Memo</TableHead>
+              {showCategories && <TableHead>Category</TableHead>}
+              {showDuplicates && <TableHead>Possible duplicate</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((tx) => (
+              <TableRow key={tx.fitid}>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(tx.fitid)}
+                    onChange={(e) => toggleOne(tx.fitid, e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                </TableCell>
+                <TableCell>{tx.date}</TableCell>
+                <TableCell className="max-w-xs truncate" title={tx.refnum || tx.payee || ''}>
+                  {tx.refnum || tx.payee}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-medium ${
+                    tx.amount >= 0 ? 'text-green-600' : 'text-red-600'
+                  }`}
+                >
+                  ${tx.amount.toFixed(2)}
+                </TableCell>
+                <TableCell className="max-w-xs truncate" title={tx.memo}>
+                  {tx.memo}
+                </TableCell>
+                {showCategories && (
+                  <TableCell className="max-w-xs truncate" title={tx.categoryHint ?? ''}>
+                    {renderCategory(tx)}
+                  </TableCell>
+                )}
+                {showDuplicates && (
+                  <TableCell className="max-w-xs truncate">{renderDuplicate(tx)}</TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+}
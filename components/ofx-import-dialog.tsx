@@ -2,6 +2,7 @@
 
 import { useState, useRef, useTransition } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -10,44 +11,98 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
-import { importOfxTransactions, ImportResult } from '@/lib/actions/ofx-import';
-import { OfxTransaction } from '@/lib/ofx/types';
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImportPreviewTable } from '@/components/import-preview-table';
+import { createAccount } from '@/lib/actions/accounts';
+import {
+  DuplicateMatch,
+  findImportDuplicates,
+  importStatementUpload,
+  ImportResult,
+  parseStatementUpload,
+  StatementReconciliation,
+} from '@/lib/actions/ofx-import';
+import { Account, CategoryWithPath } from '@/lib/db/types';
+import { EncodingSource, STATEMENT_ENCODINGS, StatementEncoding } from '@/lib/ofx/encoding';
+import { OfxStatementType, ParsedOfxImport } from '@/lib/ofx/types';
+import { findMatchingAccount } from '@/lib/ofx/utils';
+import { suggestCategories } from '@/lib/actions/suggestions';
+import { CategorySuggestion } from '@/lib/suggestions/classifier';
 
 interface OfxImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  accountId: number;
+  accountId?: number;
+  accounts: Account[];
+  categories: CategoryWithPath[];
   onImportComplete: (result: ImportResult) => void;
 }
 
-interface ParsedPreview {
-  transactions: OfxTransaction[];
+interface StatementPreview {
+  statement: ParsedOfxImport;
+  selected: Set<string>;
+  suggestions: Map<string, CategorySuggestion>;
+  duplicates: Map<string, DuplicateMatch>;
+  merging: Set<string>; // flagged rows to merge instead of insert
+  accountId: number | null;
+  newAccountName: string;
 }
 
+const ENCODING_SOURCE_LABELS: Record<EncodingSource, string> = {
+  bom: 'byte order mark',
+  header: 'file header',
+  content: 'detected from content',
+  manual: 'chosen manually',
+};
+
+const STATEMENT_TYPE_LABELS: Record<OfxStatementType, string> = {
+  BANK: 'Bank statement',
+  CREDITCARD: 'Credit card statement',
+};
+
 export function OfxImportDialog({
   open,
   onOpenChange,
   accountId,
+  accounts,
+  categories,
   onImportComplete,
 }: OfxImportDialogProps) {
-  const [parsed, setParsed] = useState<ParsedPreview | null>(null);
-  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [parsed, setParsed] = useState<StatementPreview[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [encodingOverride, setEncodingOverride] = useState<StatementEncoding | 'auto'>('auto');
+  const [decoded, setDecoded] = useState<{
+    encoding: StatementEncoding;
+    source: EncodingSource;
+  } | null>(null);
+  const [allOrNothing, setAllOrNothing] = useState(false);
+  const [discrepancies, setDiscrepancies] = useState<StatementReconciliation[]>([]);
+  const [createdAccounts, setCreatedAccounts] = useState<Account[]>([]);
   const [importing, setImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Counts parses of the file; answers for an older parse (the file was
+  // re-read with another encoding, or the dialog closed) are dropped
+  const parseToken = useRef(0);
   const [isPending, startTransition] = useTransition();
 
+  const accountOptions = [...accounts, ...createdAccounts.filter(
+    (created) => !accounts.some((account) => account.id === created.id)
+  )];
+
   const resetState = () => {
+    parseToken.current++;
     setParsed(null);
-    setSelected(new Set());
+    setFile(null);
+    setEncodingOverride('auto');
+    setDecoded(null);
+    setDiscrepancies([]);
     setError(null);
     setSuccess(null);
     if (fileInputRef.current) {
@@ -55,26 +110,76 @@ export function OfxImportDialog({
     }
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const uploadFormData = (file: File, override: StatementEncoding | 'auto') => {
+    const formData = new FormData();
+    formData.set('file', file);
+    if (override !== 'auto') formData.set('encoding', override);
+    return formData;
+  };
 
+  const loadFile = async (file: File, override: StatementEncoding | 'auto') => {
+    const token = ++parseToken.current;
     try {
-      const content = await file.text();
-      const { parseOfxFile } = await import('@/lib/ofx/parser');
-      const result = await parseOfxFile(content);
-      
-      setParsed({ transactions: result.transactions });
-      setSelected(new Set(result.transactions.map((t) => t.fitid)));
-      setError(null);
+      const result = await parseStatementUpload(uploadFormData(file, override));
+      if (token !== parseToken.current) return;
+      if (!result.success) {
+        setError(result.error);
+        setParsed(null);
+        setDecoded(null);
+        return;
+      }
+
+      const { statements } = result;
+      setParsed(
+        statements.map((statement) => ({
+          statement,
+          selected: new Set(statement.transactions.map((t) => t.fitid)),
+          suggestions: new Map(),
+          duplicates: new Map(),
+          merging: new Set(),
+          // Statements linked to an account by bank identifiers go there,
+          // even when the dialog was opened from another account's page
+          accountId:
+            findMatchingAccount(statement.account, accountOptions)?.id ?? accountId ?? null,
+          newAccountName: statement.account.accountId
+            ? `${STATEMENT_TYPE_LABELS[statement.statementType]} ${statement.account.accountId}`
+            : '',
+        }))
+      );
+      setDecoded({ encoding: result.encoding, source: result.encodingSource });
+      // Rows that failed validation are left out of the preview
+      setError(result.errors.length > 0 ? result.errors.join('\n') : null);
+      loadSuggestions(token, statements);
+      statements.forEach((statement, index) => {
+        const target =
+          findMatchingAccount(statement.account, accountOptions)?.id ?? accountId ?? null;
+        loadDuplicates(token, index, statement, target);
+      });
     } catch (err) {
-      setError(`Failed to parse OFX file: ${err}`);
+      if (token !== parseToken.current) return;
+      setError(`Failed to parse statement file: ${err}`);
       setParsed(null);
+      setDecoded(null);
     }
   };
 
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setFile(selected);
+    await loadFile(selected, encodingOverride);
+  };
+
+  // Re-reads the file so payees pick up the new character set
+  const handleEncodingChange = async (value: string) => {
+    const override = value as StatementEncoding | 'auto';
+    setEncodingOverride(override);
+    if (file) await loadFile(file, override);
+  };
+
   const handleImport = () => {
-    if (!parsed) return;
+    if (!parsed || !file) return;
 
     startTransition(async () => {
       setImporting(true);
@@ -82,15 +187,51 @@ export function OfxImportDialog({
       setSuccess(null);
       
       try {
-        const selectedTxs = parsed.transactions.filter((t) =>
-          selected.has(t.fitid)
+        const formData = uploadFormData(file, encodingOverride);
+        formData.set('allOrNothing', String(allOrNothing));
+        formData.set(
+          'selections',
+          JSON.stringify(
+            parsed
+              .map((preview, statementIndex) => ({ preview, statementIndex }))
+              .filter(({ preview }) => preview.accountId !== null && preview.selected.size > 0)
+              .map(({ preview, statementIndex }) => ({
+                statementIndex,
+                accountId: preview.accountId,
+                fitids: [...preview.selected],
+                mergeInto: Object.fromEntries(
+                  [...preview.merging]
+                    .filter((fitid) => preview.selected.has(fitid) && preview.duplicates.has(fitid))
+                    .map((fitid) => [fitid, preview.duplicates.get(fitid)?.transaction_id])
+                ),
+                categoryIds: Object.fromEntries(
+                  preview.statement.transactions
+                    .filter((t) => preview.selected.has(t.fitid) && t.categoryId)
+                    .map((t) => [t.fitid, t.categoryId])
+                ),
+              }))
+          )
         );
+        const result = await importStatementUpload(formData);
+
+        if (result.batchIds.length > 0) {
+          setSuccess(
+            `Imported ${result.imported} transactions, merged ${result.merged} into existing ones, ` +
+              `skipped ${result.skipped} duplicates`
+          );
+          onImportComplete(result);
+        }
+
+        const drifted = result.reconciliations.filter((r) => r.difference !== 0);
+        setDiscrepancies(drifted);
+
+        // Keep the dialog open so partial failures and discrepancies can be read
+        if (result.errors.length > 0) {
+          setError(result.errors.join('\n'));
+          return;
+        }
+        if (drifted.length > 0) return;
 
-        const result = await importOfxTransactions(accountId, selectedTxs);
-        
-        setSuccess(`Imported ${result.imported} transactions, skipped ${result.skipped} duplicates`);
-        onImportComplete(result);
-        
         setTimeout(() => {
           onOpenChange(false);
           resetState();
@@ -103,42 +244,158 @@ export function OfxImportDialog({
     });
   };
 
-  const toggleAll = (checked: boolean) => {
-    if (!parsed) return;
-    if (checked) {
-      setSelected(new Set(parsed.transactions.map((t) => t.fitid)));
-    } else {
-      setSelected(new Set());
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetState();
     }
+    onOpenChange(newOpen);
   };
 
-  const toggleOne = (fitid: string, checked: boolean) => {
-    const newSelected = new Set(selected);
-    if (checked) {
-      newSelected.add(fitid);
-    } else {
-      newSelected.delete(fitid);
+  const updatePreview = (index: number, changes: Partial<StatementPreview>) => {
+    setParsed((current) =>
+      current && current.map((preview, i) => (i === index ? { ...preview, ...changes } : preview))
+    );
+  };
+
+  // Suggestions come from past categorizations; rows whose file already
+  // carries a category are left alone. Without them the preview still works,
+  // so a failed lookup is only logged.
+  const loadSuggestions = async (token: number, statements: ParsedOfxImport[]) => {
+    const pending = statements.map((statement) =>
+      statement.transactions.filter((t) => !t.categoryHint)
+    );
+    let results: (CategorySuggestion | null)[];
+    try {
+      results = await suggestCategories(
+        pending.flat().map((t) => ({ payee: t.payee, memo: t.memo }))
+      );
+    } catch (err) {
+      console.error('Failed to load category suggestions:', err);
+      return;
     }
-    setSelected(newSelected);
+    if (token !== parseToken.current) return;
+
+    let offset = 0;
+    const byStatement = pending.map((transactions) => {
+      const suggestions = new Map<string, CategorySuggestion>();
+      transactions.forEach((t, i) => {
+        const suggestion = results[offset + i];
+        if (suggestion) suggestions.set(t.fitid, suggestion);
+      });
+      offset += transactions.length;
+      return suggestions;
+    });
+
+    setParsed((current) =>
+      current &&
+      current.map((preview, i) => ({ ...preview, suggestions: byStatement[i] ?? new Map() }))
+    );
   };
 
-  const handleOpenChange = (newOpen: boolean) => {
-    if (!newOpen) {
-      resetState();
+  // Duplicates depend on the target account, so they are looked up again
+  // whenever a statement is pointed at another one. Answers for an account
+  // the statement has since moved away from, or for an older parse, are
+  // dropped; a failed lookup just flags nothing.
+  const loadDuplicates = async (
+    token: number,
+    index: number,
+    statement: ParsedOfxImport,
+    target: number | null
+  ) => {
+    let matches: DuplicateMatch[];
+    try {
+      [matches] = target === null ? [[]] : await findImportDuplicates([
+        {
+          accountId: target,
+          transactions: statement.transactions.map((t) => ({
+            fitid: t.fitid,
+            date: t.date,
+            payee: t.payee,
+            memo: t.memo,
+            amount: t.amount,
+          })),
+        },
+      ]);
+    } catch (err) {
+      console.error('Failed to find duplicate transactions:', err);
+      return;
     }
-    onOpenChange(newOpen);
+    if (token !== parseToken.current) return;
+    const duplicates = new Map(matches.map((match) => [match.fitid, match]));
+
+    setParsed((current) =>
+      current &&
+      current.map((preview, i) =>
+        i === index && preview.accountId === target
+          ? { ...preview, duplicates, merging: new Set(duplicates.keys()) }
+          : preview
+      )
+    );
+  };
+
+  const changeAccount = (index: number, target: number) => {
+    if (!parsed) return;
+    updatePreview(index, { accountId: target, duplicates: new Map(), merging: new Set() });
+    loadDuplicates(parseToken.current, index, parsed[index].statement, target);
+  };
+
+  const acceptSuggestions = (index: number, fitids: string[]) => {
+    if (!parsed) return;
+    const preview = parsed[index];
+    const accepted = new Set(fitids);
+
+    updatePreview(index, {
+      statement: {
+        ...preview.statement,
+        transactions: preview.statement.transactions.map((t) => {
+          const suggestion = preview.suggestions.get(t.fitid);
+          return accepted.has(t.fitid) && suggestion
+            ? { ...t, categoryId: suggestion.category_id }
+            : t;
+        }),
+      },
+    });
   };
 
-  const allSelected = parsed ? selected.size === parsed.transactions.length : false;
-  const someSelected = selected.size > 0;
+  const handleCreateAccount = async (index: number) => {
+    if (!parsed) return;
+    const preview = parsed[index];
+
+    const formData = new FormData();
+    formData.set('name', preview.newAccountName);
+    formData.set('ofx_bank_id', preview.statement.account.bankId);
+    formData.set('ofx_account_id', preview.statement.account.accountId);
+    formData.set('ofx_account_type', preview.statement.account.type);
+
+    const result = await createAccount(formData);
+    if (result.success && result.account) {
+      const account = result.account;
+      setCreatedAccounts((current) => [...current, account]);
+      // A new account has nothing to duplicate
+      updatePreview(index, { accountId: account.id, duplicates: new Map(), merging: new Set() });
+      setError(null);
+    } else {
+      setError(result.error || result.errors?.name?.[0] || 'Failed to create account');
+    }
+  };
+
+  const pendingSuggestions = (preview: StatementPreview) =>
+    preview.statement.transactions
+      .filter((t) => !t.categoryId && preview.suggestions.has(t.fitid))
+      .map((t) => t.fitid);
+
+  const someSelected = parsed ? parsed.some((preview) => preview.selected.size > 0) : false;
+  const unassigned = parsed
+    ? parsed.some((preview) => preview.selected.size > 0 && preview.accountId === null)
+    : false;
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Import OFX File</DialogTitle>
+          <DialogTitle>Import Statement File</DialogTitle>
           <DialogDescription>
-            Upload an OFX file to import transactions
+            Upload an OFX, QIF, camt.053 or MT940 file to import transactions
           </DialogDescription>
         </DialogHeader>
 
@@ -146,7 +403,7 @@ export function OfxImportDialog({
           <div>
             <input
               type="file"
-              accept=".ofx"
+              accept=".ofx,.qfx,.qif,.xml,.sta,.mt940,.940"
               ref={fileInputRef}
               onChange={handleFileChange}
               className="block w-full text-sm text-gray-500
@@ -158,8 +415,32 @@ export function OfxImportDialog({
             />
           </div>
 
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Character set</span>
+            <Select value={encodingOverride} onValueChange={handleEncodingChange}>
+              <SelectTrigger className="w-56" aria-label="Character set">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic</SelectItem>
+                {STATEMENT_ENCODINGS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {decoded && (
+              <span className="text-muted-foreground">
+                Read as{' '}
+                {STATEMENT_ENCODINGS.find((option) => option.value === decoded.encoding)?.label}{' '}
+                ({ENCODING_SOURCE_LABELS[decoded.source]})
+              </span>
+            )}
+          </div>
+
           {error && (
-            <div className="text-red-500 text-sm p-2 bg-red-50 rounded">
+            <div className="text-red-500 text-sm p-2 bg-red-50 rounded whitespace-pre-line">
               {error}
             </div>
           )}
@@ -170,76 +451,119 @@ export function OfxImportDialog({
             </div>
           )}
 
-          {parsed && (
-            <>
-              <div className="flex items-center gap-4 mb-2">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={allSelected}
-                    onChange={(e) => toggleAll(e.target.checked)}
-                    className="w-4 h-4 rounded border-gray-300"
-                  />
-                  <span className="text-sm">
-                    {allSelected ? 'Deselect All' : 'Select All'} ({parsed.transactions.length} transactions)
+          {discrepancies.map((reconciliation) => (
+            <div
+              key={reconciliation.accountId}
+              className="text-amber-800 text-sm p-2 bg-amber-50 rounded"
+            >
+              Balance mismatch for{' '}
+              {accountOptions.find((a) => a.id === reconciliation.accountId)?.name ??
+                `account ${reconciliation.accountId}`}{' '}
+              on {reconciliation.asOf}: bank reports ${reconciliation.bankBalance.toFixed(2)},
+              ledger shows ${reconciliation.ledgerBalance.toFixed(2)} (difference $
+              {reconciliation.difference.toFixed(2)})
+            </div>
+          ))}
+
+          {parsed?.map((preview, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm text-muted-foreground">
+                  Detected: <span className="font-medium text-foreground">
+                    {STATEMENT_TYPE_LABELS[preview.statement.statementType]}
                   </span>
-                </label>
-                <span className="text-sm text-muted-foreground">
-                  {selected.size} selected
-                </span>
+                  {preview.statement.account.accountId &&
+                    ` for account ${preview.statement.account.accountId}`}
+                  {preview.statement.ledgerBalance && (
+                    <div>
+                      Statement balance: ${preview.statement.ledgerBalance.amount.toFixed(2)} as
+                      of {preview.statement.ledgerBalance.asOf}
+                    </div>
+                  )}
+                </div>
+                <div className="w-64">
+                  <Select
+                    value={preview.accountId?.toString() ?? ''}
+                    onValueChange={(value) => changeAccount(index, parseInt(value, 10))}
+                  >
+                    <SelectTrigger aria-label="Import into account">
+                      <SelectValue placeholder="Import into account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accountOptions.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
-              <div className="max-h-96 overflow-y-auto border rounded">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-10"></TableHead>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Payee (REFNUM)</TableHead>
-                      <TableHead className="text-right">Amount</TableHead>
-                      <TableHead>Memo</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {parsed.transactions.map((tx) => (
-                      <TableRow key={tx.fitid}>
-                        <TableCell>
-                          <input
-                            type="checkbox"
-                            checked={selected.has(tx.fitid)}
-                            onChange={(e) => toggleOne(tx.fitid, e.target.checked)}
-                            className="w-4 h-4 rounded border-gray-300"
-                          />
-                        </TableCell>
-                        <TableCell>{tx.date}</TableCell>
-                        <TableCell className="max-w-xs truncate" title={tx.refnum}>
-                          {tx.refnum}
-                        </TableCell>
-                        <TableCell
-                          className={`text-right font-medium ${
-                            tx.amount >= 0 ? 'text-green-600' : 'text-red-600'
-                          }`}
-                        >
-                          ${tx.amount.toFixed(2)}
-                        </TableCell>
-                        <TableCell className="max-w-xs truncate" title={tx.memo}>
-                          {tx.memo}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            </>
-          )}
+              {preview.accountId === null && (
+                <div className="flex items-center gap-2 p-2 bg-amber-50 rounded">
+                  <span className="text-sm text-amber-800 whitespace-nowrap">
+                    No matching account.
+                  </span>
+                  <Input
+                    value={preview.newAccountName}
+                    onChange={(e) => updatePreview(index, { newAccountName: e.target.value })}
+                    placeholder="New account name"
+                    aria-label="New account name"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCreateAccount(index)}
+                    disabled={!preview.newAccountName.trim()}
+                  >
+                    Create account
+                  </Button>
+                </div>
+              )}
+
+              {pendingSuggestions(preview).length > 0 && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => acceptSuggestions(index, pendingSuggestions(preview))}
+                  >
+                    Accept all suggestions ({pendingSuggestions(preview).length})
+                  </Button>
+                </div>
+              )}
+
+              <ImportPreviewTable
+                transactions={preview.statement.transactions}
+                selected={preview.selected}
+                onSelectedChange={(selected) => updatePreview(index, { selected })}
+                categories={categories}
+                suggestions={preview.suggestions}
+                duplicates={preview.duplicates}
+                merging={preview.merging}
+                onMergingChange={(merging) => updatePreview(index, { merging })}
+                onAcceptSuggestion={(fitid) => acceptSuggestions(index, [fitid])}
+              />
+            </div>
+          ))}
 
-          <div className="flex justify-end gap-2">
+          <div className="flex items-center justify-end gap-2">
+            <label className="flex items-center gap-2 mr-auto text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allOrNothing}
+                onChange={(e) => setAllOrNothing(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              All or nothing (abort the whole import on any error)
+            </label>
             <Button variant="outline" onClick={() => handleOpenChange(false)}>
               Cancel
             </Button>
             <Button
               onClick={handleImport}
-              disabled={!parsed || !someSelected || importing || isPending}
+              disabled={!parsed || !someSelected || unassigned || importing || isPending}
             >
               {importing || isPending ? 'Importing...' : 'Import Selected'}
             </Button>
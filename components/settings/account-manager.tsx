@@ -73,6 +73,7 @@ export function AccountManager({ accounts }: AccountManagerProps) {
           <TableHeader>
             <TableRow>
               <TableHead>Name</TableHead>
+              <TableHead>Bank Account</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -80,6 +81,11 @@ export function AccountManager({ accounts }: AccountManagerProps) {
             {accounts.map((account) => (
               <TableRow key={account.id}>
                 <TableCell>{account.name}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {account.ofx_account_id
+                    ? [account.ofx_bank_id, account.ofx_account_id].filter(Boolean).join(' / ')
+                    : 'Not linked'}
+                </TableCell>
                 <TableCell className="text-right space-x-2">
                   <Button
                     variant="outline"
@@ -112,7 +118,7 @@ export function AccountManager({ accounts }: AccountManagerProps) {
               </DialogTitle>
               <DialogDescription>
                 {editingAccount
-                  ? 'Update account name'
+                  ? 'Update account details'
                   : 'Create a new account'}
               </DialogDescription>
             </DialogHeader>
@@ -128,6 +134,32 @@ export function AccountManager({ accounts }: AccountManagerProps) {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ofx_bank_id">Bank ID</Label>
+                  <Input
+                    id="ofx_bank_id"
+                    name="ofx_bank_id"
+                    defaultValue={editingAccount?.ofx_bank_id ?? ''}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ofx_account_id">Bank Account Number</Label>
+                  <Input
+                    id="ofx_account_id"
+                    name="ofx_account_id"
+                    defaultValue={editingAccount?.ofx_account_id ?? ''}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <input
+                type="hidden"
+                name="ofx_account_type"
+                value={editingAccount?.ofx_account_type ?? ''}
+              />
+
               <div className="flex gap-2">
                 <Button type="submit" className="flex-1">
                   {editingAccount ? 'Update' : 'Create'}
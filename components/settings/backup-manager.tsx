@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RestoreReport, restoreLedgerBackup } from '@/lib/actions/backup';
+import { RestoreMode } from '@/lib/validations/backup';
+
+export function BackupManager() {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const handleRestore = async () => {
+    if (!file) return;
+    const action = mode === 'merge' ? 'Merge' : 'Restore';
+    if (!confirm(`${action} the ledger from ${file.name}?`)) return;
+
+    const data = new FormData();
+    data.set('file', file);
+    data.set('mode', mode);
+
+    setError(null);
+    setReport(null);
+    setRestoring(true);
+    const result = await restoreLedgerBackup(data);
+    setRestoring(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setReport(result.report);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup and Restore</CardTitle>
+        <CardDescription>
+          Save accounts, categories, transactions, rules and CSV profiles as a portable file, or
+          restore one into this ledger.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href="/api/backup?encoding=json" download>
+              Download JSON
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/api/backup?encoding=zip" download>
+              Download ZIP
+            </a>
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Backup file</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept=".json,.zip"
+                disabled={restoring}
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setReport(null);
+                  setError(null);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Restore into</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">This ledger, skipping what is already here</SelectItem>
+                  <SelectItem value="empty">An empty ledger (replaces default accounts and categories)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button onClick={handleRestore} disabled={!file || restoring}>
+            {restoring ? 'Restoring...' : 'Restore'}
+          </Button>
+
+          {report && (
+            <ul className="text-sm space-y-1">
+              <li>
+                Accounts: {report.accounts.created} created, {report.accounts.matched} matched
+              </li>
+              <li>
+                Categories: {report.categories.created} created, {report.categories.matched} matched
+              </li>
+              <li>
+                Transactions: {report.transactions.imported} imported,{' '}
+                {report.transactions.skipped} already present
+              </li>
+              <li>
+                Rules: {report.payeeRules.created + report.categoryRules.created} created,{' '}
+                {report.payeeRules.skipped + report.categoryRules.skipped} already present
+              </li>
+              <li>
+                CSV profiles: {report.csvProfiles.created} created, {report.csvProfiles.skipped}{' '}
+                already present
+              </li>
+              <li>
+                Saved searches: {report.savedSearches.created} created,{' '}
+                {report.savedSearches.skipped} already present
+              </li>
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,499 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Account, CategoryRule, CategoryWithPath } from '@/lib/db/types';
+import { CategoryRuleChange } from '@/lib/rules/category-rules';
+import {
+  createCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  moveCategoryRule,
+  previewCategoryRules,
+  runCategoryRules,
+} from '@/lib/actions/category-rules';
+
+interface CategoryRuleManagerProps {
+  rules: CategoryRule[];
+  accounts: Account[];
+  categories: CategoryWithPath[];
+}
+
+const MATCH_LABELS = {
+  contains: 'contains',
+  equals: 'equals',
+  regex: 'matches',
+};
+
+function describeConditions(rule: CategoryRule, accounts: Account[]): string {
+  const parts: string[] = [];
+  if (rule.payee_match_type && rule.payee_pattern) {
+    parts.push(`payee ${MATCH_LABELS[rule.payee_match_type]} "${rule.payee_pattern}"`);
+  }
+  if (rule.amount_min !== null && rule.amount_max !== null) {
+    parts.push(`amount ${rule.amount_min} to ${rule.amount_max}`);
+  } else if (rule.amount_min !== null) {
+    parts.push(`amount ≥ ${rule.amount_min}`);
+  } else if (rule.amount_max !== null) {
+    parts.push(`amount ≤ ${rule.amount_max}`);
+  }
+  if (rule.account_id !== null) {
+    const account = accounts.find((a) => a.id === rule.account_id);
+    parts.push(`account ${account?.name ?? rule.account_id}`);
+  }
+  return parts.join(', ');
+}
+
+export function CategoryRuleManager({ rules, accounts, categories }: CategoryRuleManagerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [runOpen, setRunOpen] = useState(false);
+  const [includeCategorized, setIncludeCategorized] = useState(false);
+  const [changes, setChanges] = useState<CategoryRuleChange[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [running, setRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+
+  const categoryPath = (id: number | null) =>
+    id === null ? 'Uncategorized' : categories.find((c) => c.id === id)?.path ?? `#${id}`;
+  const accountName = (id: number) => accounts.find((a) => a.id === id)?.name ?? `#${id}`;
+
+  const openDialog = (rule: CategoryRule | null) => {
+    setEditingRule(rule);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (formData: FormData) => {
+    const result = editingRule
+      ? await updateCategoryRule(editingRule.id, formData)
+      : await createCategoryRule(formData);
+
+    if (!result.success) {
+      const fieldErrors = Object.values(result.errors ?? {}).flat();
+      setFormError(fieldErrors[0] || result.error || 'Failed to save rule');
+      return;
+    }
+    setDialogOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this rule?')) {
+      return;
+    }
+    const result = await deleteCategoryRule(id);
+    if (!result.success) {
+      alert(result.error);
+    }
+  };
+
+  const handleMove = async (id: number, direction: 'up' | 'down') => {
+    const result = await moveCategoryRule(id, direction);
+    if (!result.success) {
+      alert(result.error);
+    }
+  };
+
+  const loadPreview = async (include: boolean) => {
+    setChanges(null);
+    setRunMessage(null);
+    const result = await previewCategoryRules(include);
+    if (result.success && result.changes) {
+      setChanges(result.changes);
+      setSelected(new Set(result.changes.map((change) => change.transaction_id)));
+    } else {
+      setRunMessage(result.error || 'Failed to preview rules');
+    }
+  };
+
+  const openRunDialog = () => {
+    setRunOpen(true);
+    loadPreview(includeCategorized);
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    const result = await runCategoryRules([...selected], includeCategorized);
+    setRunning(false);
+    if (result.success) {
+      setRunMessage(`Updated ${result.updated} transactions`);
+      setChanges([]);
+      setSelected(new Set());
+    } else {
+      setRunMessage(result.error || 'Failed to run rules');
+    }
+  };
+
+  const toggleChange = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Categorization Rules</CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openRunDialog} disabled={rules.length === 0}>
+            Run rules on existing transactions
+          </Button>
+          <Button onClick={() => openDialog(null)}>Add Rule</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Rename payee</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No rules yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule, index) => (
+                <TableRow key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {describeConditions(rule, accounts)}
+                  </TableCell>
+                  <TableCell>{categoryPath(rule.category_id)}</TableCell>
+                  <TableCell>{rule.rename_payee}</TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(rule.id, 'up')}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(rule.id, 'down')}
+                      disabled={index === rules.length - 1}
+                      title="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openDialog(rule)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingRule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+              <DialogDescription>
+                Applied to imported and new uncategorized transactions. The first
+                matching rule wins.
+              </DialogDescription>
+            </DialogHeader>
+
+            <form action={handleSubmit} className="space-y-4">
+              {formError && (
+                <div className="text-red-500 text-sm p-2 bg-red-50 rounded">{formError}</div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="rule_name">Rule Name</Label>
+                <Input id="rule_name" name="name" defaultValue={editingRule?.name} required />
+              </div>
+
+              <div className="grid grid-cols-[9rem_1fr] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="payee_match_type">Payee</Label>
+                  <Select
+                    name="payee_match_type"
+                    defaultValue={editingRule?.payee_match_type ?? 'none'}
+                  >
+                    <SelectTrigger id="payee_match_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Any payee</SelectItem>
+                      <SelectItem value="contains">Contains</SelectItem>
+                      <SelectItem value="equals">Equals</SelectItem>
+                      <SelectItem value="regex">Regex</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payee_pattern">Pattern</Label>
+                  <Input
+                    id="payee_pattern"
+                    name="payee_pattern"
+                    defaultValue={editingRule?.payee_pattern ?? ''}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="amount_min">Amount from</Label>
+                  <Input
+                    id="amount_min"
+                    name="amount_min"
+                    defaultValue={editingRule?.amount_min ?? ''}
+                    placeholder="-100.00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="amount_max">Amount to</Label>
+                  <Input
+                    id="amount_max"
+                    name="amount_max"
+                    defaultValue={editingRule?.amount_max ?? ''}
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Amounts are signed: expenses are negative.
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule_account_id">Account</Label>
+                <Select
+                  name="account_id"
+                  defaultValue={editingRule?.account_id?.toString() ?? 'none'}
+                >
+                  <SelectTrigger id="rule_account_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule_category_id">Set category</Label>
+                <Select
+                  name="category_id"
+                  defaultValue={editingRule?.category_id.toString()}
+                  required
+                >
+                  <SelectTrigger id="rule_category_id">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rename_payee">Rename payee to</Label>
+                <Input
+                  id="rename_payee"
+                  name="rename_payee"
+                  defaultValue={editingRule?.rename_payee ?? ''}
+                  placeholder="Keep payee"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule_enabled">Status</Label>
+                <Select
+                  name="enabled"
+                  defaultValue={editingRule?.enabled === false ? 'false' : 'true'}
+                >
+                  <SelectTrigger id="rule_enabled">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">Enabled</SelectItem>
+                    <SelectItem value="false">Disabled</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">
+                  {editingRule ? 'Update' : 'Create'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={runOpen} onOpenChange={setRunOpen}>
+          <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Run rules on existing transactions</DialogTitle>
+              <DialogDescription>
+                Review what the rules would change before applying them.
+              </DialogDescription>
+            </DialogHeader>
+
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeCategorized}
+                onChange={(e) => {
+                  setIncludeCategorized(e.target.checked);
+                  loadPreview(e.target.checked);
+                }}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              Also re-categorize transactions that already have a category
+            </label>
+
+            {runMessage && <div className="text-sm p-2 bg-muted rounded">{runMessage}</div>}
+
+            {changes === null ? (
+              <p className="text-sm text-muted-foreground">Loading preview...</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions would change.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Payee</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Rule</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map((change) => (
+                      <TableRow key={change.transaction_id}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={selected.has(change.transaction_id)}
+                            onChange={(e) => toggleChange(change.transaction_id, e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-300"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {new Date(
+                            typeof change.date === 'string' ? change.date + 'T00:00:00' : change.date
+                          ).toLocaleDateString('en-US', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                          })}
+                        </TableCell>
+                        <TableCell>{accountName(change.account_id)}</TableCell>
+                        <TableCell>
+                          {change.new_payee !== change.payee ? (
+                            <>
+                              <span className="line-through text-muted-foreground">
+                                {change.payee}
+                              </span>{' '}
+                              {change.new_payee}
+                            </>
+                          ) : (
+                            change.payee
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          ${parseFloat(change.amount).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          {change.new_category_id !== change.category_id ? (
+                            <>
+                              <span className="text-muted-foreground">
+                                {categoryPath(change.category_id)} →
+                              </span>{' '}
+                              {categoryPath(change.new_category_id)}
+                            </>
+                          ) : (
+                            categoryPath(change.category_id)
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{change.rule_name}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRunOpen(false)}>
+                Close
+              </Button>
+              <Button onClick={handleRun} disabled={running || selected.size === 0}>
+                {running ? 'Applying...' : `Apply to ${selected.size} transactions`}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
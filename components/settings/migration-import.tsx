@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  MigrationPreview,
+  MigrationReport,
+  previewMigration,
+  runMigration,
+} from '@/lib/actions/migration';
+import { MIGRATION_SOURCE_LABELS } from '@/lib/migration/types';
+
+function IssueList({ issues }: { issues: string[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">Could not be mapped ({issues.length})</p>
+      <ul className="max-h-48 overflow-y-auto rounded border p-2 text-xs text-muted-foreground space-y-1">
+        {issues.map((issue, index) => (
+          <li key={index}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function MigrationImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<MigrationPreview | null>(null);
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const formData = () => {
+    const data = new FormData();
+    if (file) data.set('file', file);
+    return data;
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setReport(null);
+    setError(null);
+    if (!selected) return;
+
+    setBusy(true);
+    const data = new FormData();
+    data.set('file', selected);
+    const result = await previewMigration(data);
+    setBusy(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setPreview(result.preview);
+  };
+
+  const handleRun = async () => {
+    if (!preview) return;
+    if (!confirm(`Import ${preview.transactions} transactions from ${MIGRATION_SOURCE_LABELS[preview.source]}?`)) {
+      return;
+    }
+
+    setBusy(true);
+    const result = await runMigration(formData());
+    setBusy(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setPreview(null);
+    setReport(result.report);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import from Another App</CardTitle>
+        <CardDescription>
+          Bring over history from YNAB (register CSV), Mint (transactions CSV) or GnuCash (book
+          file or transaction CSV export). Missing accounts and categories are created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="migration-file">Export file</Label>
+          <Input
+            id="migration-file"
+            type="file"
+            accept=".csv,.gnucash,.xml,.gz"
+            disabled={busy}
+            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+          />
+        </div>
+
+        {busy && <p className="text-sm text-muted-foreground">Working...</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {preview && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {MIGRATION_SOURCE_LABELS[preview.source]}: {preview.transactions} transactions
+              {preview.dateRange && ` from ${preview.dateRange.start} to ${preview.dateRange.end}`}
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Transactions</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.accounts.map((account) => (
+                  <TableRow key={account.name}>
+                    <TableCell>{account.name}</TableCell>
+                    <TableCell>{account.transactions}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {account.existing_id === null ? 'New account' : 'Existing account'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {preview.newCategories.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">
+                  New categories ({preview.newCategories.length})
+                </p>
+                <ul className="max-h-48 overflow-y-auto rounded border p-2 text-xs space-y-1">
+                  {preview.newCategories.map((path) => (
+                    <li key={path}>{path}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <IssueList issues={preview.issues} />
+
+            <Button onClick={handleRun} disabled={busy || preview.transactions === 0}>
+              Import
+            </Button>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Imported {report.imported} transactions, skipped {report.skipped} already imported.
+            </p>
+            {report.accountsCreated.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Created accounts: {report.accountsCreated.join(', ')}
+              </p>
+            )}
+            {report.categoriesCreated.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Created {report.categoriesCreated.length} categories
+              </p>
+            )}
+            <IssueList issues={report.issues} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
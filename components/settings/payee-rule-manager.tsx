@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PayeeRule } from '@/lib/db/types';
+import { PayeeRuleDefinition, PayeeRuleMatchType } from '@/lib/ofx/types';
+import { applyPayeeRule, applyPayeeRules, validatePayeePattern } from '@/lib/ofx/payee-rules';
+import {
+  createPayeeRule,
+  updatePayeeRule,
+  deletePayeeRule,
+  movePayeeRule,
+} from '@/lib/actions/payee-rules';
+
+interface PayeeRuleManagerProps {
+  rules: PayeeRule[];
+}
+
+interface RuleDraft extends PayeeRuleDefinition {
+  name: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  bank_id: null,
+  match_type: 'regex',
+  pattern: '',
+  payee_group: 1,
+  memo_group: null,
+  enabled: true,
+};
+
+const SAMPLE_MEMOS = [
+  'PIX ENVIADO 12345678901 PADARIA CENTRAL',
+  'TED 001 0001 12345678000199 FORNECEDOR LTDA',
+  'COMPRA CARTAO MERCADO BOM PRECO',
+].join('\n');
+
+function groupValue(value: string): number | null {
+  return value.trim() === '' ? null : parseInt(value, 10);
+}
+
+export function PayeeRuleManager({ rules }: PayeeRuleManagerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PayeeRule | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [draftSample, setDraftSample] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [samples, setSamples] = useState(SAMPLE_MEMOS);
+  const [sampleBankId, setSampleBankId] = useState('');
+
+  const openDialog = (rule: PayeeRule | null) => {
+    setEditingRule(rule);
+    setDraft(rule ? { ...rule } : EMPTY_DRAFT);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = async (formData: FormData) => {
+    const result = editingRule
+      ? await updatePayeeRule(editingRule.id, formData)
+      : await createPayeeRule(formData);
+
+    if (!result.success) {
+      const fieldErrors = Object.values(result.errors ?? {}).flat();
+      setFormError(fieldErrors[0] || result.error || 'Failed to save rule');
+      return;
+    }
+    setDialogOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this rule?')) {
+      return;
+    }
+    const result = await deletePayeeRule(id);
+    if (!result.success) {
+      alert(result.error);
+    }
+  };
+
+  const handleMove = async (id: number, direction: 'up' | 'down') => {
+    const result = await movePayeeRule(id, direction);
+    if (!result.success) {
+      alert(result.error);
+    }
+  };
+
+  const patternError = draft.pattern ? validatePayeePattern(draft) : null;
+  const draftResult = draftSample && !patternError ? applyPayeeRule(draftSample, draft) : null;
+  const benchResults = samples
+    .split('\n')
+    .filter((memo) => memo.trim())
+    .map((memo) => ({ memo, ...applyPayeeRules(memo, rules, sampleBankId) }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Payee Rules</CardTitle>
+        <Button onClick={() => openDialog(null)}>Add Rule</Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Rules are tried from top to bottom when an OFX file is read. When none
+          matches, the payee is the text after the last CPF/CNPJ in the memo.
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Bank</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead>Pattern</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No rules yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule, index) => (
+                <TableRow key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {rule.bank_id || 'All banks'}
+                  </TableCell>
+                  <TableCell>{rule.match_type === 'regex' ? 'Regex' : 'Prefix'}</TableCell>
+                  <TableCell className="max-w-xs truncate font-mono text-xs" title={rule.pattern}>
+                    {rule.pattern}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(rule.id, 'up')}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(rule.id, 'down')}
+                      disabled={index === rules.length - 1}
+                      title="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openDialog(rule)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <h3 className="font-medium">Test bench</h3>
+          <div className="grid grid-cols-[1fr_12rem] gap-4">
+            <Textarea
+              value={samples}
+              onChange={(e) => setSamples(e.target.value)}
+              rows={4}
+              aria-label="Sample memos, one per line"
+              className="font-mono text-xs"
+            />
+            <Input
+              value={sampleBankId}
+              onChange={(e) => setSampleBankId(e.target.value)}
+              placeholder="Bank ID (optional)"
+              aria-label="Bank ID"
+            />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Memo</TableHead>
+                <TableHead>Payee</TableHead>
+                <TableHead>Cleaned memo</TableHead>
+                <TableHead>Rule</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {benchResults.map((result, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-mono text-xs">{result.memo}</TableCell>
+                  <TableCell>{result.payee ?? '—'}</TableCell>
+                  <TableCell>{result.cleanedMemo}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {result.rule?.name ?? 'Built-in'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingRule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+              <DialogDescription>
+                Regex rules take the payee from a capture group; prefix rules take
+                everything after the prefix.
+              </DialogDescription>
+            </DialogHeader>
+
+            <form action={handleSubmit} className="space-y-4">
+              {formError && (
+                <div className="text-red-500 text-sm p-2 bg-red-50 rounded">{formError}</div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule_name">Rule Name</Label>
+                  <Input
+                    id="rule_name"
+                    name="name"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank_id">Bank ID</Label>
+                  <Input
+                    id="bank_id"
+                    name="bank_id"
+                    value={draft.bank_id ?? ''}
+                    onChange={(e) => updateDraft({ bank_id: e.target.value || null })}
+                    placeholder="All banks"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-[8rem_1fr] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="match_type">Match</Label>
+                  <Select
+                    name="match_type"
+                    value={draft.match_type}
+                    onValueChange={(value) =>
+                      updateDraft({ match_type: value as PayeeRuleMatchType })
+                    }
+                  >
+                    <SelectTrigger id="match_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="regex">Regex</SelectItem>
+                      <SelectItem value="prefix">Prefix</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pattern">Pattern</Label>
+                  <Input
+                    id="pattern"
+                    name="pattern"
+                    value={draft.pattern}
+                    onChange={(e) => updateDraft({ pattern: e.target.value })}
+                    placeholder={
+                      draft.match_type === 'regex' ? '^PIX ENVIADO \\d+ (.+)$' : 'COMPRA CARTAO '
+                    }
+                    className="font-mono"
+                    required
+                  />
+                </div>
+              </div>
+              {patternError && <p className="text-sm text-red-500">{patternError}</p>}
+
+              {draft.match_type === 'regex' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="payee_group">Payee group</Label>
+                    <Input
+                      id="payee_group"
+                      name="payee_group"
+                      type="number"
+                      min={0}
+                      value={draft.payee_group}
+                      onChange={(e) => updateDraft({ payee_group: groupValue(e.target.value) ?? 1 })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="memo_group">Memo group</Label>
+                    <Input
+                      id="memo_group"
+                      name="memo_group"
+                      type="number"
+                      min={0}
+                      value={draft.memo_group ?? ''}
+                      onChange={(e) => updateDraft({ memo_group: groupValue(e.target.value) })}
+                      placeholder="Memo without payee"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.enabled}
+                  onChange={(e) => updateDraft({ enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                Enabled
+              </label>
+              <input type="hidden" name="enabled" value={draft.enabled ? 'true' : 'false'} />
+
+              <div className="space-y-2 p-3 bg-muted rounded">
+                <Label htmlFor="draft_sample">Try this rule</Label>
+                <Input
+                  id="draft_sample"
+                  value={draftSample}
+                  onChange={(e) => setDraftSample(e.target.value)}
+                  placeholder="Paste a memo from a statement"
+                  className="font-mono text-xs"
+                />
+                {draftSample && (
+                  <p className="text-sm">
+                    {draftResult
+                      ? `Payee: ${draftResult.payee} · Memo: ${draftResult.cleanedMemo || '—'}`
+                      : 'No match'}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">
+                  {editingRule ? 'Update' : 'Create'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
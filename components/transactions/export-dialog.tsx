@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Account, CategoryWithPath } from '@/lib/db/types';
+import {
+  EXPORT_FORMATS,
+  EXPORT_LOCALES,
+  JOURNAL_FORMATS,
+  TransactionExportInput,
+} from '@/lib/validations/export';
+import { TransactionListQuery } from '@/lib/validations/transactions';
+
+type Format = TransactionExportInput['format'];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  categories: CategoryWithPath[];
+  // Filters of the list being viewed; the dialog opens with them
+  query?: TransactionListQuery;
+}
+
+// Filters the dialog has no fields for; they are exported as they are
+const LIST_ONLY_FILTERS = [
+  { key: 'search', label: 'search' },
+  { key: 'payee', label: 'payee' },
+  { key: 'minAmount', label: 'minimum amount' },
+  { key: 'maxAmount', label: 'maximum amount' },
+] as const;
+
+function browserLocale(): string {
+  const language = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+  return EXPORT_LOCALES.some((locale) => locale.value === language) ? language : 'en-US';
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  accounts,
+  categories,
+  query = {},
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<Format>('csv');
+  const [account, setAccount] = useState(query.accountId?.toString() ?? 'all');
+  const [category, setCategory] = useState(query.categoryId?.toString() ?? 'all');
+  const [start, setStart] = useState(query.startDate ?? '');
+  const [end, setEnd] = useState(query.endDate ?? '');
+  const [locale, setLocale] = useState(browserLocale);
+  const [commodity, setCommodity] = useState('USD');
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const journal = JOURNAL_FORMATS.includes(format);
+  const withCurrency = journal || format === 'ofx';
+  const listFilters = LIST_ONLY_FILTERS.filter(({ key }) => query[key]);
+
+  const handleExport = async () => {
+    const params = new URLSearchParams({ format });
+    if (account !== 'all') params.set('accountId', account);
+    if (withCurrency) params.set('commodity', commodity);
+    else params.set('locale', locale);
+    if (category !== 'all' && !journal) params.set('categoryId', category);
+    if (start) params.set('startDate', start);
+    if (end) params.set('endDate', end);
+    if (!journal) {
+      for (const { key } of listFilters) params.set(key, query[key] as string);
+    }
+
+    setError(null);
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/export/transactions?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const fieldErrors = Object.values(body?.errors ?? {}).flat() as string[];
+        setError(fieldErrors[0] || body?.error || 'Failed to export transactions');
+        return;
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? `transactions.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to export transactions:', err);
+      setError('Failed to export transactions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+          <DialogDescription>
+            Download the matching transactions as a spreadsheet, an accounting journal or OFX.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Account</Label>
+            <Select value={account} onValueChange={setAccount}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All accounts</SelectItem>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={a.id.toString()}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={journal ? 'all' : category} onValueChange={setCategory} disabled={journal}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                <SelectItem value="none">Uncategorized</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c.id} value={c.id.toString()}>
+                    {c.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-start">From</Label>
+              <Input
+                id="export-start"
+                type="date"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-end">To</Label>
+              <Input
+                id="export-end"
+                type="date"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {listFilters.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {journal
+                ? 'Journals include every transaction in the date range.'
+                : `Also filtered by the list's ${listFilters.map(({ label }) => label).join(', ')}.`}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as Format)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {withCurrency ? (
+              <div className="space-y-2">
+                <Label htmlFor="export-commodity">Currency</Label>
+                <Input
+                  id="export-commodity"
+                  value={commodity}
+                  maxLength={3}
+                  onChange={(e) => setCommodity(e.target.value.toUpperCase())}
+                />
+                {journal && (
+                  <p className="text-xs text-muted-foreground">
+                    Journals always include every category so balance assertions hold.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Number and date format</Label>
+                <Select value={locale} onValueChange={setLocale} disabled={format === 'xlsx'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPORT_LOCALES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {format === 'xlsx' && (
+                  <p className="text-xs text-muted-foreground">
+                    Excel shows dates and amounts in your system&apos;s format.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button onClick={handleExport} disabled={exporting} className="flex-1">
+              {exporting ? 'Exporting...' : 'Export'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
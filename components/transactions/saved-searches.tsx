@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Pin, PinOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SavedSearch } from '@/lib/db/types';
+import { deleteSavedSearch, saveSearch, setSavedSearchPinned } from '@/lib/actions/saved-searches';
+
+interface SavedSearchesProps {
+  searches: SavedSearch[];
+}
+
+export function SavedSearches({ searches }: SavedSearchesProps) {
+  const searchParams = useSearchParams();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string[] | undefined>>({});
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<number | null>(null);
+
+  const current = searchParams.toString();
+
+  const handleSave = async () => {
+    const data = new FormData();
+    data.set('name', name);
+    data.set('query', current);
+    data.set('pinned', String(pinned));
+
+    setSaving(true);
+    setErrors({});
+    const result = await saveSearch(data);
+    setSaving(false);
+
+    if (!result.success) {
+      setErrors(result.errors ?? { form: [result.error ?? 'Failed to save search'] });
+      return;
+    }
+    setDialogOpen(false);
+    setName('');
+  };
+
+  const handlePin = async (search: SavedSearch) => {
+    setBusy(search.id);
+    await setSavedSearchPinned(search.id, !search.pinned);
+    setBusy(null);
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return;
+    setBusy(search.id);
+    await deleteSavedSearch(search.id);
+    setBusy(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {searches.map((search) => (
+        <div
+          key={search.id}
+          className={`flex items-center rounded-md border bg-background ${
+            search.query === current ? 'border-primary' : ''
+          }`}
+        >
+          <Button variant="ghost" size="sm" asChild>
+            <Link href={search.query ? `/transactions?${search.query}` : '/transactions'}>
+              {search.name}
+            </Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handlePin(search)}
+            disabled={busy === search.id}
+            title={search.pinned ? 'Unpin from navigation' : 'Pin to navigation'}
+          >
+            {search.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDelete(search)}
+            disabled={busy === search.id}
+            title="Delete saved search"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+        Save search
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>
+              Keeps the current filters and sort. Saving under an existing name replaces it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Uncategorized this year"
+              />
+              {errors.name && <p className="text-sm text-red-600">{errors.name[0]}</p>}
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer text-sm">
+              <input
+                type="checkbox"
+                checked={pinned}
+                onChange={(e) => setPinned(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              Pin to navigation
+            </label>
+            {(errors.query || errors.form) && (
+              <p className="text-sm text-red-600">{(errors.query ?? errors.form)?.[0]}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Account } from '@/lib/db/types';
+
+interface StatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  accountId?: number;
+}
+
+// Last month is what a bookkeeper usually asks for
+function previousMonth(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function StatementDialog({ open, onOpenChange, accounts, accountId }: StatementDialogProps) {
+  const [account, setAccount] = useState(accountId?.toString() ?? 'all');
+  const [kind, setKind] = useState<'month' | 'year'>('month');
+  const [month, setMonth] = useState(previousMonth);
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    const params = new URLSearchParams({ period: kind === 'month' ? month : year });
+    if (account !== 'all') params.set('accountId', account);
+
+    setError(null);
+    setDownloading(true);
+    try {
+      const response = await fetch(`/api/export/statement?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const fieldErrors = Object.values(body?.errors ?? {}).flat() as string[];
+        setError(fieldErrors[0] || body?.error || 'Failed to create statement');
+        return;
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? 'statement.pdf';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to create statement:', err);
+      setError('Failed to create statement');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Download Statement</DialogTitle>
+          <DialogDescription>
+            A printable PDF with opening and closing balances, every transaction and totals by
+            category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Account</Label>
+            <Select value={account} onValueChange={setAccount}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All accounts (consolidated)</SelectItem>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={a.id.toString()}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as 'month' | 'year')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">Monthly</SelectItem>
+                  <SelectItem value="year">Annual</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {kind === 'month' ? (
+              <div className="space-y-2">
+                <Label htmlFor="statement-month">Month</Label>
+                <Input
+                  id="statement-month"
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="statement-year">Year</Label>
+                <Input
+                  id="statement-year"
+                  type="number"
+                  min={1900}
+                  max={9999}
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button onClick={handleDownload} disabled={downloading} className="flex-1">
+              {downloading ? 'Creating...' : 'Download PDF'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
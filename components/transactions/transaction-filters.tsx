@@ -0,0 +1,185 @@
+'use client';
+
+import { FormEvent } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Account, CategoryWithPath } from '@/lib/db/types';
+
+// URL parameters the filters own; everything else (sort, page size) is kept
+const FILTER_FIELDS = [
+  'accountId',
+  'search',
+  'payee',
+  'categoryId',
+  'startDate',
+  'endDate',
+  'minAmount',
+  'maxAmount',
+];
+
+interface TransactionFilterBarProps {
+  categories: CategoryWithPath[];
+  // Lists across accounts also filter by account
+  accounts?: Account[];
+  // Field errors of the filters in the URL, which the list ignored
+  errors: Record<string, string[] | undefined> | null;
+}
+
+export function TransactionFilterBar({ categories, accounts, errors }: TransactionFilterBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Filters live in the URL so filtered views can be bookmarked; a new
+  // filter starts again from the newest transaction
+  const navigate = (values: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('after');
+    for (const field of FILTER_FIELDS) {
+      const value = values[field]?.trim();
+      if (value && value !== 'all') params.set(field, value);
+      else params.delete(field);
+    }
+    const search = params.toString();
+    router.push(search ? `${pathname}?${search}` : pathname, { scroll: false });
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    navigate(
+      Object.fromEntries(FILTER_FIELDS.map((field) => [field, String(formData.get(field) ?? '')]))
+    );
+  };
+
+  const active = FILTER_FIELDS.some((field) => searchParams.has(field));
+  const errorMessages = errors
+    ? Object.values(errors).flatMap((messages) => messages ?? [])
+    : [];
+
+  return (
+    // Remounts when the URL changes (back and forward) so the fields
+    // always show the filters in effect
+    <form key={searchParams.toString()} onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-4">
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="filter-search">Search comments and memos</Label>
+          <Input
+            id="filter-search"
+            name="search"
+            defaultValue={searchParams.get('search') ?? ''}
+            placeholder='e.g. refund or "card 1234"'
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-payee">Payee</Label>
+          <Input
+            id="filter-payee"
+            name="payee"
+            defaultValue={searchParams.get('payee') ?? ''}
+            placeholder="Contains"
+          />
+        </div>
+        {accounts && (
+          <div className="space-y-1">
+            <Label>Account</Label>
+            <Select name="accountId" defaultValue={searchParams.get('accountId') ?? 'all'}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All accounts</SelectItem>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={a.id.toString()}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label>Category</Label>
+          <Select name="categoryId" defaultValue={searchParams.get('categoryId') ?? 'all'}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              <SelectItem value="none">Uncategorized only</SelectItem>
+              {categories.map((c) => (
+                <SelectItem key={c.id} value={c.id.toString()}>
+                  {c.path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-start">From</Label>
+          <Input
+            id="filter-start"
+            name="startDate"
+            type="date"
+            defaultValue={searchParams.get('startDate') ?? ''}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-end">To</Label>
+          <Input
+            id="filter-end"
+            name="endDate"
+            type="date"
+            defaultValue={searchParams.get('endDate') ?? ''}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-min">Min amount</Label>
+          <Input
+            id="filter-min"
+            name="minAmount"
+            inputMode="decimal"
+            defaultValue={searchParams.get('minAmount') ?? ''}
+            placeholder="-100.00"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-max">Max amount</Label>
+          <Input
+            id="filter-max"
+            name="maxAmount"
+            inputMode="decimal"
+            defaultValue={searchParams.get('maxAmount') ?? ''}
+            placeholder="0.00"
+          />
+        </div>
+      </div>
+
+      {errorMessages.length > 0 && (
+        <p className="text-sm text-red-600">
+          Filters ignored: {errorMessages.join('. ')}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" size="sm">
+          Apply filters
+        </Button>
+        {active && (
+          <Button type="button" variant="outline" size="sm" onClick={() => navigate({})}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
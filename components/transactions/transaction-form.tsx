@@ -21,6 +21,8 @@ import {
 } from '@/components/ui/sheet';
 import { Account, CategoryWithPath, TransactionWithDetails } from '@/lib/db/types';
 import { createTransaction, updateTransaction } from '@/lib/actions/transactions';
+import { suggestCategories } from '@/lib/actions/suggestions';
+import { CategorySuggestion } from '@/lib/suggestions/classifier';
 
 interface TransactionFormProps {
   open: boolean;
@@ -43,14 +45,31 @@ export function TransactionForm({
   const [errors, setErrors] = useState<Record<string, string[]>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [categoryId, setCategoryId] = useState('none');
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
 
   useEffect(() => {
     if (!open) {
       formRef.current?.reset();
       setErrors({});
       setSuccessMessage(null);
+      setSuggestion(null);
     }
-  }, [open]);
+    setCategoryId(transaction?.category_id?.toString() || 'none');
+  }, [open, transaction]);
+
+  const handlePayeeBlur = async (payee: string) => {
+    if (categoryId !== 'none' || !payee.trim()) {
+      setSuggestion(null);
+      return;
+    }
+    const [result] = await suggestCategories([{ payee }]);
+    setSuggestion(result);
+  };
+
+  const suggestedCategory = suggestion
+    ? categories.find((category) => category.id === suggestion.category_id)
+    : undefined;
 
   const handleSubmit = async (formData: FormData) => {
     setIsSubmitting(true);
@@ -159,6 +178,7 @@ export function TransactionForm({
               name="payee"
               type="text"
               defaultValue={transaction?.payee}
+              onBlur={(e) => handlePayeeBlur(e.target.value)}
               required
             />
             {errors.payee && (
@@ -170,7 +190,11 @@ export function TransactionForm({
             <Label htmlFor="category_id">Category</Label>
             <Select
               name="category_id"
-              defaultValue={transaction?.category_id?.toString() || 'none'}
+              value={categoryId}
+              onValueChange={(value) => {
+                setCategoryId(value);
+                setSuggestion(null);
+              }}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select category (optional)" />
@@ -184,6 +208,21 @@ export function TransactionForm({
                 ))}
               </SelectContent>
             </Select>
+            {suggestion && suggestedCategory && categoryId === 'none' && (
+              <p className="text-sm text-muted-foreground">
+                Suggested: {suggestedCategory.path} ({Math.round(suggestion.confidence * 100)}%){' '}
+                <button
+                  type="button"
+                  className="underline"
+                  onClick={() => {
+                    setCategoryId(suggestedCategory.id.toString());
+                    setSuggestion(null);
+                  }}
+                >
+                  Use
+                </button>
+              </p>
+            )}
             {errors.category_id && (
               <p className="text-sm text-red-600">{errors.category_id[0]}</p>
             )}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
   Table,
   TableBody,
@@ -16,22 +17,193 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { TransactionWithDetails } from '@/lib/db/types';
-import { deleteTransaction } from '@/lib/actions/transactions';
-import { Info } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TransactionPage,
+  TransactionSortColumn,
+  TransactionWithDetails,
+} from '@/lib/db/types';
+import { deleteTransaction, loadTransactionPage } from '@/lib/actions/transactions';
+import {
+  TRANSACTION_PAGE_SIZES,
+  TransactionListQuery,
+  transactionSortFromQuery,
+} from '@/lib/validations/transactions';
+import { ArrowDown, ArrowUp, Info } from 'lucide-react';
 
 interface TransactionTableProps {
-  transactions: TransactionWithDetails[];
+  page: TransactionPage;
+  pageSize: number;
+  // Filters the page was loaded with, for the pages that follow
+  query: TransactionListQuery;
+  showAccount?: boolean;
   onEdit: (transaction: TransactionWithDetails) => void;
 }
 
 export function TransactionTable({
-  transactions,
+  page,
+  pageSize,
+  query,
+  showAccount = false,
   onEdit,
 }: TransactionTableProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [deleting, setDeleting] = useState<number | null>(null);
   const [infoTransaction, setInfoTransaction] =
     useState<TransactionWithDetails | null>(null);
+  // `written` is the cursor last put in the URL by scrolling, until the
+  // server has rendered the page it points at
+  const [loaded, setLoaded] = useState({
+    source: page,
+    transactions: page.transactions,
+    nextCursor: page.nextCursor,
+    written: null as string | null,
+  });
+  // Cursors of the pages Next moved on from ('' for the newest), so
+  // Previous can step back; a reloaded or shared link starts without them
+  const [trail, setTrail] = useState<string[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const loadingRef = useRef(false);
+  const shownPage = useRef(page);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const after = searchParams.get('after');
+
+  // The server renders a fresh page after every change (and when the URL
+  // moves), so rows loaded by scrolling start over from it. The page a
+  // scroll wrote to the URL is already on screen and keeps the rows above.
+  if (loaded.source !== page) {
+    if (loaded.written !== null && loaded.written === after) {
+      setLoaded({ ...loaded, source: page, written: null });
+    } else {
+      setLoaded({ source: page, transactions: page.transactions, nextCursor: page.nextCursor, written: null });
+    }
+    if (after === null && trail.length > 0) setTrail([]);
+  }
+  useEffect(() => {
+    shownPage.current = page;
+  }, [page]);
+  const transactions = loaded.transactions;
+  const filtered = Object.entries(query).some(
+    ([key, value]) => !['accountId', 'sort', 'order'].includes(key) && value !== undefined
+  );
+  const sort = transactionSortFromQuery(query);
+
+  // Page size and starting point live in the URL, so reloads and shared
+  // links show the same list
+  const urlWith = useCallback(
+    (changes: Record<string, string | null>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) params.delete(key);
+        else params.set(key, value);
+      }
+      const search = params.toString();
+      return search ? `${pathname}?${search}` : pathname;
+    },
+    [pathname, searchParams]
+  );
+
+  const loadMore = useCallback(async () => {
+    const cursor = loaded.nextCursor;
+    // Waits for the server to catch up with the last cursor written
+    if (!cursor || loadingRef.current || loaded.written !== null) return;
+
+    loadingRef.current = true;
+    setLoadingMore(true);
+    setLoadError(null);
+    const result = await loadTransactionPage({ ...query, size: pageSize, after: cursor });
+    loadingRef.current = false;
+    setLoadingMore(false);
+
+    if (!result.success) {
+      setLoadError(result.error);
+      return;
+    }
+    // Dropped when the list changed meanwhile, e.g. a new sort
+    if (shownPage.current !== page) return;
+    setLoaded((current) => ({
+      source: page,
+      transactions: [...current.transactions, ...result.page.transactions],
+      nextCursor: result.page.nextCursor,
+      written: cursor,
+    }));
+    router.replace(urlWith({ after: cursor }), { scroll: false });
+  }, [loaded.nextCursor, loaded.written, page, pageSize, query, router, urlWith]);
+
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !loaded.nextCursor || loadError || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, loaded.nextCursor, loadError]);
+
+  const navigate = (changes: Record<string, string | null>) => {
+    router.push(urlWith(changes), { scroll: false });
+  };
+
+  // Starts the list over from the top, e.g. for a new sort
+  const restart = (changes: Record<string, string | null>) => {
+    setTrail([]);
+    navigate({ ...changes, after: null });
+  };
+
+  const nextPage = () => {
+    if (!loaded.nextCursor) return;
+    setTrail([...trail, after ?? '']);
+    router.push(urlWith({ after: loaded.nextCursor }));
+  };
+
+  const previousPage = () => {
+    const previous = trail[trail.length - 1];
+    setTrail(trail.slice(0, -1));
+    router.push(urlWith({ after: previous || null }));
+  };
+
+  const sortBy = (column: TransactionSortColumn) => {
+    const direction =
+      sort.column === column
+        ? sort.direction === 'asc' ? 'desc' : 'asc'
+        : transactionSortFromQuery({ sort: column }).direction;
+    restart({ sort: column, order: direction });
+  };
+
+  const sortHead = (column: TransactionSortColumn, label: string, className?: string) => (
+    <TableHead
+      className={className}
+      aria-sort={
+        sort.column === column ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined
+      }
+    >
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => sortBy(column)}
+      >
+        {label}
+        {sort.column === column &&
+          (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </TableHead>
+  );
 
   const handleDelete = async (id: number, accountId: number) => {
     if (!confirm('Are you sure you want to delete this transaction?')) {
@@ -48,10 +220,11 @@ export function TransactionTable({
     <Table>
       <TableHeader>
         <TableRow>
-          <TableHead>Date</TableHead>
-          <TableHead>Payee</TableHead>
+          {sortHead('date', 'Date')}
+          {showAccount && sortHead('account', 'Account')}
+          {sortHead('payee', 'Payee')}
           <TableHead>Category</TableHead>
-          <TableHead className="text-right">Amount</TableHead>
+          {sortHead('amount', 'Amount', 'text-right')}
           <TableHead>Comment</TableHead>
           <TableHead className="text-right">Actions</TableHead>
         </TableRow>
@@ -60,10 +233,14 @@ export function TransactionTable({
         {transactions.length === 0 ? (
           <TableRow>
             <TableCell
-              colSpan={6}
+              colSpan={showAccount ? 7 : 6}
               className="text-center text-muted-foreground"
             >
-              No transactions yet
+              {after !== null
+                ? 'No older transactions'
+                : filtered
+                  ? 'No matching transactions'
+                  : 'No transactions yet'}
             </TableCell>
           </TableRow>
         ) : (
@@ -80,6 +257,7 @@ export function TransactionTable({
                   day: 'numeric'
                 })}
               </TableCell>
+              {showAccount && <TableCell>{transaction.account_name}</TableCell>}
               <TableCell>{transaction.payee}</TableCell>
               <TableCell>
                 {transaction.category_path || 'Uncategorized'}
@@ -131,6 +309,54 @@ export function TransactionTable({
       </TableBody>
     </Table>
 
+    <div ref={sentinelRef} />
+    <div className="flex flex-wrap items-center justify-between gap-4 pt-4 text-sm text-muted-foreground">
+      <div className="flex items-center gap-3">
+        <span>
+          {transactions.length} of {page.total} transaction{page.total === 1 ? '' : 's'}
+        </span>
+        {after !== null && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => restart({})}>
+            Back to newest
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        {loadError && <span className="text-red-600">{loadError}</span>}
+        {loaded.nextCursor && (
+          <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+        {(after !== null || loaded.nextCursor) && (
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={previousPage} disabled={trail.length === 0}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={nextPage} disabled={!loaded.nextCursor}>
+              Next
+            </Button>
+          </div>
+        )}
+        <span>Rows per page</span>
+        <Select
+          value={pageSize.toString()}
+          onValueChange={(value) => restart({ size: value })}
+        >
+          <SelectTrigger className="w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSACTION_PAGE_SIZES.map((size) => (
+              <SelectItem key={size} value={size.toString()}>
+                {size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+
     {infoTransaction && (
       <Dialog
         open={!!infoTransaction}
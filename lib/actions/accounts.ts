@@ -6,12 +6,24 @@ import { execute, executeReturning, queryOne } from '@/lib/db';
 import { Account } from '@/lib/db/types';
 import { accountSchema } from '@/lib/validations/accounts';
 
-export async function createAccount(formData: FormData) {
-  await requireAuth();
+function optionalField(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
 
-  const result = accountSchema.safeParse({
+function parseAccountForm(formData: FormData) {
+  return accountSchema.safeParse({
     name: formData.get('name'),
+    ofx_bank_id: optionalField(formData, 'ofx_bank_id'),
+    ofx_account_id: optionalField(formData, 'ofx_account_id'),
+    ofx_account_type: optionalField(formData, 'ofx_account_type'),
   });
+}
+
+export async function createAccount(formData: FormData) {
+  await requireAuth();
+
+  const result = parseAccountForm(formData);
 
   if (!result.success) {
     return {
@@ -20,18 +32,20 @@ export async function createAccount(formData: FormData) {
     };
   }
 
-  const { name } = result.data;
+  const { name, ofx_bank_id, ofx_account_id, ofx_account_type } = result.data;
 
   try {
-    await executeReturning<Account>(
-      'INSERT INTO accounts (name) VALUES ($1) RETURNING *',
-      [name]
+    const account = await executeReturning<Account>(
+      `INSERT INTO accounts (name, ofx_bank_id, ofx_account_id, ofx_account_type)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [name, ofx_bank_id ?? null, ofx_account_id ?? null, ofx_account_type ?? null]
     );
 
     revalidatePath('/');
     revalidatePath('/settings');
 
-    return { success: true };
+    return { success: true, account };
   } catch (error) {
     console.error('Failed to create account:', error);
     return {
@@ -44,9 +58,7 @@ export async function createAccount(formData: FormData) {
 export async function updateAccount(id: number, formData: FormData) {
   await requireAuth();
 
-  const result = accountSchema.safeParse({
-    name: formData.get('name'),
-  });
+  const result = parseAccountForm(formData);
 
   if (!result.success) {
     return {
@@ -55,12 +67,14 @@ export async function updateAccount(id: number, formData: FormData) {
     };
   }
 
-  const { name } = result.data;
+  const { name, ofx_bank_id, ofx_account_id, ofx_account_type } = result.data;
 
   try {
     await execute(
-      'UPDATE accounts SET name = $1 WHERE id = $2',
-      [name, id]
+      `UPDATE accounts
+       SET name = $1, ofx_bank_id = $2, ofx_account_id = $3, ofx_account_type = $4
+       WHERE id = $5`,
+      [name, ofx_bank_id ?? null, ofx_account_id ?? null, ofx_account_type ?? null, id]
     );
 
     revalidatePath('/');
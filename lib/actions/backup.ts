@@ -0,0 +1,43 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { BackupError, decodeBackup, restoreBackup, RestoreReport } from '@/lib/backup/restore';
+import { MAX_BACKUP_FILE_BYTES, restoreModeSchema } from '@/lib/validations/backup';
+
+export type { RestoreReport };
+
+export async function restoreLedgerBackup(
+  formData: FormData
+): Promise<{ success: true; report: RestoreReport } | { success: false; error: string }> {
+  await requireAuth();
+
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: 'Choose a backup file to restore' };
+  }
+  if (file.size > MAX_BACKUP_FILE_BYTES) {
+    return {
+      success: false,
+      error: `Backup files are limited to ${MAX_BACKUP_FILE_BYTES / 1024 / 1024} MB`,
+    };
+  }
+
+  const mode = restoreModeSchema.safeParse(formData.get('mode'));
+  if (!mode.success) {
+    return { success: false, error: 'Choose how to restore the backup' };
+  }
+
+  try {
+    const backup = decodeBackup(new Uint8Array(await file.arrayBuffer()));
+    const report = await restoreBackup(backup, mode.data);
+    revalidatePath('/', 'layout');
+    return { success: true, report };
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Failed to restore backup:', error);
+    return { success: false, error: 'Failed to restore backup' };
+  }
+}
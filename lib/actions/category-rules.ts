@@ -0,0 +1,242 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { execute, executeReturning, queryMany } from '@/lib/db';
+import { getAllCategoryRules, getTransactionsForRules } from '@/lib/db/category-rules';
+import { CategoryRule } from '@/lib/db/types';
+import { computeCategoryRuleChanges } from '@/lib/rules/category-rules';
+import { categoryRuleSchema } from '@/lib/validations/category-rules';
+
+function optionalField(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === 'string' && value.trim() && value !== 'none' ? value.trim() : null;
+}
+
+function parseCategoryRuleForm(formData: FormData) {
+  const payeeMatchType = optionalField(formData, 'payee_match_type');
+  return categoryRuleSchema.safeParse({
+    name: formData.get('name'),
+    payee_match_type: payeeMatchType,
+    payee_pattern: payeeMatchType ? optionalField(formData, 'payee_pattern') : null,
+    amount_min: optionalField(formData, 'amount_min'),
+    amount_max: optionalField(formData, 'amount_max'),
+    account_id: optionalField(formData, 'account_id'),
+    category_id: optionalField(formData, 'category_id'),
+    rename_payee: optionalField(formData, 'rename_payee'),
+    enabled: formData.get('enabled') !== 'false',
+  });
+}
+
+function revalidateRules() {
+  revalidatePath('/settings');
+}
+
+export async function createCategoryRule(formData: FormData) {
+  await requireAuth();
+
+  const result = parseCategoryRuleForm(formData);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const data = result.data;
+
+  try {
+    const rule = await executeReturning<CategoryRule>(
+      `INSERT INTO category_rules
+       (name, payee_match_type, payee_pattern, amount_min, amount_max,
+        account_id, category_id, rename_payee, enabled, position)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9,
+               (SELECT COALESCE(MAX(position), 0) + 1 FROM category_rules))
+       RETURNING *`,
+      [
+        data.name,
+        data.payee_match_type,
+        data.payee_pattern,
+        data.amount_min,
+        data.amount_max,
+        data.account_id,
+        data.category_id,
+        data.rename_payee,
+        data.enabled,
+      ]
+    );
+
+    revalidateRules();
+
+    return { success: true, rule };
+  } catch (error) {
+    console.error('Failed to create category rule:', error);
+    return {
+      success: false,
+      error: 'Failed to create category rule',
+    };
+  }
+}
+
+export async function updateCategoryRule(id: number, formData: FormData) {
+  await requireAuth();
+
+  const result = parseCategoryRuleForm(formData);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const data = result.data;
+
+  try {
+    await execute(
+      `UPDATE category_rules
+       SET name = $1, payee_match_type = $2, payee_pattern = $3, amount_min = $4,
+           amount_max = $5, account_id = $6, category_id = $7, rename_payee = $8,
+           enabled = $9, updated_at = NOW()
+       WHERE id = $10`,
+      [
+        data.name,
+        data.payee_match_type,
+        data.payee_pattern,
+        data.amount_min,
+        data.amount_max,
+        data.account_id,
+        data.category_id,
+        data.rename_payee,
+        data.enabled,
+        id,
+      ]
+    );
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update category rule:', error);
+    return {
+      success: false,
+      error: 'Failed to update category rule',
+    };
+  }
+}
+
+export async function deleteCategoryRule(id: number) {
+  await requireAuth();
+
+  try {
+    await execute('DELETE FROM category_rules WHERE id = $1', [id]);
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete category rule:', error);
+    return {
+      success: false,
+      error: 'Failed to delete category rule',
+    };
+  }
+}
+
+export async function moveCategoryRule(id: number, direction: 'up' | 'down') {
+  await requireAuth();
+
+  try {
+    const rules = await queryMany<{ id: number }>(
+      'SELECT id FROM category_rules ORDER BY position ASC, id ASC'
+    );
+    const ids = rules.map((rule) => rule.id);
+    const index = ids.indexOf(id);
+    const target = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || target < 0 || target >= ids.length) {
+      return { success: true };
+    }
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await execute(
+      `UPDATE category_rules SET position = ordered.position
+       FROM unnest($1::int[]) WITH ORDINALITY AS ordered(id, position)
+       WHERE category_rules.id = ordered.id`,
+      [ids]
+    );
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to move category rule:', error);
+    return {
+      success: false,
+      error: 'Failed to move category rule',
+    };
+  }
+}
+
+// Dry run of the rules over existing transactions
+export async function previewCategoryRules(includeCategorized: boolean) {
+  await requireAuth();
+
+  try {
+    const [rules, transactions] = await Promise.all([
+      getAllCategoryRules(),
+      getTransactionsForRules(includeCategorized),
+    ]);
+
+    return { success: true, changes: computeCategoryRuleChanges(transactions, rules) };
+  } catch (error) {
+    console.error('Failed to preview category rules:', error);
+    return {
+      success: false,
+      error: 'Failed to preview category rules',
+    };
+  }
+}
+
+// Applies the rules to the transactions picked from the preview. Changes are
+// recomputed here so the client cannot write arbitrary categories.
+export async function runCategoryRules(transactionIds: number[], includeCategorized: boolean) {
+  await requireAuth();
+
+  try {
+    const [rules, transactions] = await Promise.all([
+      getAllCategoryRules(),
+      getTransactionsForRules(includeCategorized),
+    ]);
+    const wanted = new Set(transactionIds);
+    const changes = computeCategoryRuleChanges(
+      transactions.filter((tx) => wanted.has(tx.id)),
+      rules
+    );
+
+    if (changes.length > 0) {
+      await execute(
+        `UPDATE transactions
+         SET category_id = c.category_id, payee = c.payee, updated_at = NOW()
+         FROM unnest($1::int[], $2::int[], $3::text[]) AS c(id, category_id, payee)
+         WHERE transactions.id = c.id`,
+        [
+          changes.map((change) => change.transaction_id),
+          changes.map((change) => change.new_category_id),
+          changes.map((change) => change.new_payee),
+        ]
+      );
+    }
+
+    revalidatePath('/', 'layout');
+
+    return { success: true, updated: changes.length };
+  } catch (error) {
+    console.error('Failed to run category rules:', error);
+    return {
+      success: false,
+      error: 'Failed to run category rules',
+    };
+  }
+}
@@ -0,0 +1,103 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { execute, executeReturning } from '@/lib/db';
+import { CsvImportProfile } from '@/lib/db/types';
+import { csvProfileSchema } from '@/lib/validations/csv-profiles';
+
+function columnValue(formData: FormData, key: string) {
+  const raw = formData.get(key);
+  return raw === 'none' || raw === null || raw === '' ? null : raw;
+}
+
+export async function saveCsvProfile(formData: FormData) {
+  await requireAuth();
+
+  const result = csvProfileSchema.safeParse({
+    name: formData.get('name'),
+    delimiter: formData.get('delimiter'),
+    has_header: formData.get('has_header') === 'true',
+    date_column: formData.get('date_column'),
+    date_format: formData.get('date_format'),
+    amount_column: columnValue(formData, 'amount_column'),
+    debit_column: columnValue(formData, 'debit_column'),
+    credit_column: columnValue(formData, 'credit_column'),
+    payee_column: columnValue(formData, 'payee_column'),
+    memo_column: columnValue(formData, 'memo_column'),
+    decimal_separator: formData.get('decimal_separator'),
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const data = result.data;
+
+  try {
+    // Saving under an existing name overwrites that bank's mapping
+    const profile = await executeReturning<CsvImportProfile>(
+      `INSERT INTO csv_import_profiles
+       (name, delimiter, has_header, date_column, date_format, amount_column,
+        debit_column, credit_column, payee_column, memo_column, decimal_separator)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (name) DO UPDATE SET
+         delimiter = EXCLUDED.delimiter,
+         has_header = EXCLUDED.has_header,
+         date_column = EXCLUDED.date_column,
+         date_format = EXCLUDED.date_format,
+         amount_column = EXCLUDED.amount_column,
+         debit_column = EXCLUDED.debit_column,
+         credit_column = EXCLUDED.credit_column,
+         payee_column = EXCLUDED.payee_column,
+         memo_column = EXCLUDED.memo_column,
+         decimal_separator = EXCLUDED.decimal_separator,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        data.name,
+        data.delimiter,
+        data.has_header,
+        data.date_column,
+        data.date_format,
+        data.amount_column,
+        data.debit_column,
+        data.credit_column,
+        data.payee_column,
+        data.memo_column,
+        data.decimal_separator,
+      ]
+    );
+
+    revalidatePath('/accounts', 'layout');
+
+    return { success: true, profile };
+  } catch (error) {
+    console.error('Failed to save CSV profile:', error);
+    return {
+      success: false,
+      error: 'Failed to save CSV profile',
+    };
+  }
+}
+
+export async function deleteCsvProfile(id: number) {
+  await requireAuth();
+
+  try {
+    await execute('DELETE FROM csv_import_profiles WHERE id = $1', [id]);
+
+    revalidatePath('/accounts', 'layout');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete CSV profile:', error);
+    return {
+      success: false,
+      error: 'Failed to delete CSV profile',
+    };
+  }
+}
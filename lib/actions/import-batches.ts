@@ -0,0 +1,50 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { withTransaction } from '@/lib/db';
+
+// Deletes every transaction still linked to the batch. Transactions edited
+// since the import are removed too; the batch row stays as history.
+export async function rollbackImportBatch(batchId: number) {
+  await requireAuth();
+
+  try {
+    const outcome = await withTransaction(async (client) => {
+      // Claiming the batch first makes a concurrent rollback of the same
+      // batch find nothing to do
+      const claimed = await client.query<{ account_id: number }>(
+        `UPDATE import_batches SET rolled_back_at = NOW()
+         WHERE id = $1 AND rolled_back_at IS NULL
+         RETURNING account_id`,
+        [batchId]
+      );
+      if (claimed.rows.length === 0) {
+        const existing = await client.query('SELECT id FROM import_batches WHERE id = $1', [batchId]);
+        return existing.rows.length === 0
+          ? { error: 'Import batch not found' }
+          : { error: 'Import batch was already rolled back' };
+      }
+
+      await client.query('DELETE FROM transactions WHERE import_batch_id = $1', [batchId]);
+      // The statement balance it recorded no longer matches the ledger
+      await client.query('DELETE FROM account_balance_checkpoints WHERE import_batch_id = $1', [batchId]);
+      return { accountId: claimed.rows[0].account_id };
+    });
+
+    if ('error' in outcome) {
+      return { success: false, error: outcome.error };
+    }
+
+    revalidatePath(`/accounts/${outcome.accountId}`);
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to roll back import batch:', error);
+    return {
+      success: false,
+      error: 'Failed to roll back import batch',
+    };
+  }
+}
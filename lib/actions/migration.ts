@@ -0,0 +1,101 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { getAllAccounts } from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { applyMigration } from '@/lib/migration/apply';
+import { parseMigrationFile } from '@/lib/migration/file';
+import { planMigration } from '@/lib/migration/plan';
+import { MigrationPlan, MigrationReport, MigrationSource, PlannedAccount } from '@/lib/migration/types';
+import { MAX_STATEMENT_FILE_BYTES } from '@/lib/validations/ofx-import';
+
+export type { MigrationReport };
+
+export interface MigrationPreview {
+  source: MigrationSource;
+  accounts: PlannedAccount[];
+  newCategories: string[];
+  transactions: number;
+  dateRange: { start: string; end: string } | null;
+  issues: string[];
+}
+
+type MigrationResult<T> = ({ success: true } & T) | { success: false; error: string };
+
+// Parses the export and plans it against the current accounts and
+// categories. Both actions do this, so the run never trusts the preview.
+async function readMigrationUpload(
+  formData: FormData
+): Promise<MigrationResult<{ plan: MigrationPlan; fileName: string }>> {
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: 'Choose an export file to upload' };
+  }
+  if (file.size > MAX_STATEMENT_FILE_BYTES) {
+    return {
+      success: false,
+      error: `Export files are limited to ${MAX_STATEMENT_FILE_BYTES / 1024 / 1024} MB`,
+    };
+  }
+
+  try {
+    const [data, accounts, categories] = await Promise.all([
+      parseMigrationFile(await file.arrayBuffer()),
+      getAllAccounts(),
+      getAllCategoriesWithPaths(),
+    ]);
+    return { success: true, plan: planMigration(data, accounts, categories), fileName: file.name };
+  } catch (error) {
+    console.error('Failed to parse export file:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to read export file: ${message}` };
+  }
+}
+
+export async function previewMigration(
+  formData: FormData
+): Promise<MigrationResult<{ preview: MigrationPreview }>> {
+  await requireAuth();
+
+  const upload = await readMigrationUpload(formData);
+  if (!upload.success) return upload;
+
+  const { plan } = upload;
+  const dates = plan.transactions.map((tx) => tx.date).sort();
+  return {
+    success: true,
+    preview: {
+      source: plan.source,
+      accounts: plan.accounts,
+      newCategories: plan.categories.filter((c) => c.existing_id === null).map((c) => c.path),
+      transactions: plan.transactions.length,
+      dateRange: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+      issues: plan.issues,
+    },
+  };
+}
+
+export async function runMigration(
+  formData: FormData
+): Promise<MigrationResult<{ report: MigrationReport }>> {
+  const session = await requireAuth();
+
+  const upload = await readMigrationUpload(formData);
+  if (!upload.success) return upload;
+
+  try {
+    const report = await applyMigration(upload.plan, {
+      fileName: upload.fileName,
+      userId: session.userId,
+    });
+
+    revalidatePath('/');
+    revalidatePath('/settings');
+
+    return { success: true, report };
+  } catch (error) {
+    console.error('Failed to run migration:', error);
+    return { success: false, error: 'Failed to run migration' };
+  }
+}
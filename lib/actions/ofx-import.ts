@@ -1,85 +1,261 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { queryOne, execute } from '@/lib/db';
 import { requireAuth } from '@/lib/auth/session';
-import { OfxTransaction } from '@/lib/ofx/types';
+import {
+  importStatements,
+  ImportResult,
+  StatementImport,
+  StatementReconciliation,
+  truncateTransactionText,
+} from '@/lib/import/statements';
+import { parseStatementFile } from '@/lib/import/statement-file';
+import { parseCsvFile } from '@/lib/csv/parser';
+import { getAllPayeeRules } from '@/lib/db/payee-rules';
+import { getManualTransactionsInRange } from '@/lib/db/transactions';
+import {
+  DUPLICATE_DATE_WINDOW_DAYS,
+  DuplicateMatch,
+  findDuplicateMatches,
+  ImportedRow,
+} from '@/lib/import/duplicates';
+import { EncodingSource, STATEMENT_ENCODINGS, StatementEncoding } from '@/lib/ofx/encoding';
+import { OfxTransaction, ParsedOfxImport } from '@/lib/ofx/types';
+import {
+  csvSelectionSchema,
+  MAX_STATEMENT_FILE_BYTES,
+  statementSelectionSchema,
+} from '@/lib/validations/ofx-import';
+import { csvMappingSchema } from '@/lib/validations/csv-profiles';
 
-export interface ImportResult {
-  imported: number;
-  skipped: number;
-  errors: string[];
-}
+export type { DuplicateMatch, ImportResult, StatementImport, StatementReconciliation };
 
-async function transactionExists(
-  accountId: number,
-  date: string,
-  fitid: string,
-  amount: number
-): Promise<boolean> {
-  const existing = await queryOne<{ id: number }>(
-    `SELECT id FROM transactions 
-     WHERE account_id = $1 AND date = $2 AND ofx_fitid = $3 AND amount = $4`,
-    [accountId, date, fitid, amount.toFixed(2)]
-  );
-  return existing !== null;
-}
+export type StatementUploadResult =
+  | {
+      success: true;
+      statements: ParsedOfxImport[];
+      encoding: StatementEncoding;
+      encodingSource: EncodingSource;
+      errors: string[];
+    }
+  | { success: false; error: string };
 
-async function insertTransaction(
-  accountId: number,
-  tx: OfxTransaction
-): Promise<void> {
-  await execute(
-    `INSERT INTO transactions 
-     (account_id, date, payee, amount, comment, ofx_fitid, ofx_memo, ofx_refnum) 
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-    [
-      accountId,
-      tx.date,
-      tx.payee ?? '',
-      tx.amount.toFixed(2),
-      tx.payee ? tx.cleanedMemo : tx.memo,
-      tx.fitid,
-      tx.memo,
-      tx.refnum,
-    ]
-  );
-}
+// Reads the raw statement file from the upload and parses it server-side,
+// so the rows that get imported never come from the browser
+async function readStatementUpload(formData: FormData): Promise<StatementUploadResult> {
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: 'Choose a statement file to upload' };
+  }
+  if (file.size > MAX_STATEMENT_FILE_BYTES) {
+    return {
+      success: false,
+      error: `Statement files are limited to ${MAX_STATEMENT_FILE_BYTES / 1024 / 1024} MB`,
+    };
+  }
 
-export async function importOfxTransactions(
-  accountId: number,
-  transactions: OfxTransaction[]
-): Promise<ImportResult> {
-  await requireAuth();
+  const encodingField = formData.get('encoding');
+  const encoding = STATEMENT_ENCODINGS.find((option) => option.value === encodingField)?.value;
+
+  try {
+    const payeeRules = await getAllPayeeRules();
+    const parsed = await parseStatementFile(await file.arrayBuffer(), file.name, {
+      encoding,
+      payeeRules,
+    });
+    return { success: true, ...parsed };
+  } catch (error) {
+    console.error('Failed to parse statement file:', error);
+    return { success: false, error: `Failed to parse statement file: ${error}` };
+  }
+}
 
-  const result: ImportResult = {
+function failedImport(error: string): ImportResult {
+  return {
     imported: 0,
+    merged: 0,
     skipped: 0,
-    errors: [],
+    errors: [error],
+    batchIds: [],
+    reconciliations: [],
   };
+}
+
+export async function parseStatementUpload(formData: FormData): Promise<StatementUploadResult> {
+  await requireAuth();
+  return readStatementUpload(formData);
+}
 
-  for (const tx of transactions) {
-    try {
-      const exists = await transactionExists(
-        accountId,
-        tx.date,
-        tx.fitid,
-        tx.amount
-      );
-
-      if (exists) {
-        result.skipped++;
-        continue;
-      }
-
-      await insertTransaction(accountId, tx);
-      result.imported++;
-    } catch (error) {
-      result.errors.push(`Failed to import transaction ${tx.fitid}: ${error}`);
+// Imports the rows picked in the preview. The file is parsed again here and
+// the selection only says which of its rows go where.
+export async function importStatementUpload(formData: FormData): Promise<ImportResult> {
+  const session = await requireAuth();
+
+  let selections: unknown;
+  try {
+    selections = JSON.parse(String(formData.get('selections') ?? '[]'));
+  } catch {
+    return failedImport('Invalid import selection');
+  }
+  const validated = statementSelectionSchema.safeParse(selections);
+  if (!validated.success) {
+    return failedImport('Invalid import selection');
+  }
+
+  const upload = await readStatementUpload(formData);
+  if (!upload.success) {
+    return failedImport(upload.error);
+  }
+
+  const statements: StatementImport[] = [];
+  for (const selection of validated.data) {
+    const statement = upload.statements[selection.statementIndex];
+    if (!statement) {
+      return failedImport('Invalid import selection');
     }
+
+    const fitids = new Set(selection.fitids);
+    statements.push({
+      accountId: selection.accountId,
+      transactions: statement.transactions
+        .filter((tx) => fitids.has(tx.fitid))
+        .map((tx) => ({
+          ...tx,
+          categoryId: selection.categoryIds[tx.fitid] ?? null,
+          mergeIntoId: selection.mergeInto[tx.fitid] ?? null,
+        })),
+      ofxAccount: statement.account,
+      ledgerBalance: statement.ledgerBalance,
+    });
   }
 
+  const file = formData.get('file') as File;
+  const result = await importStatements(statements, {
+    fileName: file.name,
+    userId: session.userId,
+    allOrNothing: formData.get('allOrNothing') === 'true',
+  });
+
+  for (const statement of statements) {
+    revalidatePath(`/accounts/${statement.accountId}`);
+  }
+
+  return result;
+}
+
+export type CsvUploadResult =
+  | { success: true; transactions: OfxTransaction[] }
+  | { success: false; error: string };
+
+// Parses an uploaded CSV file with the column mapping picked in the dialog.
+// Like statements, CSV rows are only ever read from the file on the server.
+async function readCsvUpload(formData: FormData): Promise<CsvUploadResult> {
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: 'Choose a CSV file to upload' };
+  }
+  if (file.size > MAX_STATEMENT_FILE_BYTES) {
+    return {
+      success: false,
+      error: `CSV files are limited to ${MAX_STATEMENT_FILE_BYTES / 1024 / 1024} MB`,
+    };
+  }
+
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(String(formData.get('mapping') ?? ''));
+  } catch {
+    return { success: false, error: 'Invalid column mapping' };
+  }
+  const validated = csvMappingSchema.safeParse(mapping);
+  if (!validated.success) {
+    const fieldErrors = Object.values(validated.error.flatten().fieldErrors).flat();
+    return { success: false, error: fieldErrors[0] ?? 'Invalid column mapping' };
+  }
+
+  try {
+    const parsed = parseCsvFile(await file.text(), validated.data);
+    return { success: true, transactions: parsed.transactions.map(truncateTransactionText) };
+  } catch (error) {
+    console.error('Failed to parse CSV file:', error);
+    return {
+      success: false,
+      error: `Failed to parse CSV file: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
+
+export async function parseCsvUpload(formData: FormData): Promise<CsvUploadResult> {
+  await requireAuth();
+  return readCsvUpload(formData);
+}
+
+// Imports the CSV rows picked in the preview into one account
+export async function importCsvUpload(formData: FormData): Promise<ImportResult> {
+  const session = await requireAuth();
+
+  let selection: unknown;
+  try {
+    selection = JSON.parse(String(formData.get('selection') ?? '{}'));
+  } catch {
+    return failedImport('Invalid import selection');
+  }
+  const validated = csvSelectionSchema.safeParse(selection);
+  if (!validated.success) {
+    return failedImport('Invalid import selection');
+  }
+
+  const upload = await readCsvUpload(formData);
+  if (!upload.success) {
+    return failedImport(upload.error);
+  }
+
+  const { accountId } = validated.data;
+  const fitids = new Set(validated.data.fitids);
+  const file = formData.get('file') as File;
+  const result = await importStatements(
+    [{ accountId, transactions: upload.transactions.filter((tx) => fitids.has(tx.fitid)) }],
+    { fileName: file.name, userId: session.userId }
+  );
+
   revalidatePath(`/accounts/${accountId}`);
 
   return result;
-}
\ No newline at end of file
+}
+
+export interface DuplicateRequest {
+  accountId: number;
+  transactions: ImportedRow[];
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+// Flags preview rows that look like transactions already typed in by hand
+export async function findImportDuplicates(
+  requests: DuplicateRequest[]
+): Promise<DuplicateMatch[][]> {
+  await requireAuth();
+
+  try {
+    return await Promise.all(
+      requests.map(async ({ accountId, transactions }) => {
+        if (transactions.length === 0) return [];
+
+        const dates = transactions.map((tx) => tx.date).sort();
+        const candidates = await getManualTransactionsInRange(
+          accountId,
+          shiftDate(dates[0], -DUPLICATE_DATE_WINDOW_DAYS),
+          shiftDate(dates[dates.length - 1], DUPLICATE_DATE_WINDOW_DAYS)
+        );
+        return findDuplicateMatches(transactions, candidates);
+      })
+    );
+  } catch (error) {
+    console.error('Failed to find duplicate transactions:', error);
+    return requests.map(() => []);
+  }
+}
@@ -0,0 +1,174 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { execute, executeReturning, queryMany } from '@/lib/db';
+import { PayeeRule } from '@/lib/db/types';
+import { payeeRuleSchema } from '@/lib/validations/payee-rules';
+
+function optionalField(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parsePayeeRuleForm(formData: FormData) {
+  return payeeRuleSchema.safeParse({
+    name: formData.get('name'),
+    bank_id: optionalField(formData, 'bank_id'),
+    match_type: formData.get('match_type'),
+    // Prefixes may end in a space ("COMPRA CARTAO "), so patterns are not trimmed
+    pattern: formData.get('pattern'),
+    payee_group: optionalField(formData, 'payee_group') ?? 1,
+    memo_group: optionalField(formData, 'memo_group'),
+    enabled: formData.get('enabled') !== 'false',
+  });
+}
+
+// Rules feed every import dialog, so the whole dashboard layout is refreshed
+function revalidateRules() {
+  revalidatePath('/settings');
+  revalidatePath('/', 'layout');
+}
+
+export async function createPayeeRule(formData: FormData) {
+  await requireAuth();
+
+  const result = parsePayeeRuleForm(formData);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const data = result.data;
+
+  try {
+    const rule = await executeReturning<PayeeRule>(
+      `INSERT INTO payee_rules
+       (name, bank_id, match_type, pattern, payee_group, memo_group, enabled, position)
+       VALUES ($1, $2, $3, $4, $5, $6, $7,
+               (SELECT COALESCE(MAX(position), 0) + 1 FROM payee_rules))
+       RETURNING *`,
+      [
+        data.name,
+        data.bank_id,
+        data.match_type,
+        data.pattern,
+        data.payee_group,
+        data.memo_group,
+        data.enabled,
+      ]
+    );
+
+    revalidateRules();
+
+    return { success: true, rule };
+  } catch (error) {
+    console.error('Failed to create payee rule:', error);
+    return {
+      success: false,
+      error: 'Failed to create payee rule',
+    };
+  }
+}
+
+export async function updatePayeeRule(id: number, formData: FormData) {
+  await requireAuth();
+
+  const result = parsePayeeRuleForm(formData);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const data = result.data;
+
+  try {
+    await execute(
+      `UPDATE payee_rules
+       SET name = $1, bank_id = $2, match_type = $3, pattern = $4,
+           payee_group = $5, memo_group = $6, enabled = $7, updated_at = NOW()
+       WHERE id = $8`,
+      [
+        data.name,
+        data.bank_id,
+        data.match_type,
+        data.pattern,
+        data.payee_group,
+        data.memo_group,
+        data.enabled,
+        id,
+      ]
+    );
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update payee rule:', error);
+    return {
+      success: false,
+      error: 'Failed to update payee rule',
+    };
+  }
+}
+
+export async function deletePayeeRule(id: number) {
+  await requireAuth();
+
+  try {
+    await execute('DELETE FROM payee_rules WHERE id = $1', [id]);
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete payee rule:', error);
+    return {
+      success: false,
+      error: 'Failed to delete payee rule',
+    };
+  }
+}
+
+// Swaps the rule with its neighbour; positions are renumbered so ties from
+// older rows cannot make the move a no-op
+export async function movePayeeRule(id: number, direction: 'up' | 'down') {
+  await requireAuth();
+
+  try {
+    const rules = await queryMany<{ id: number }>(
+      'SELECT id FROM payee_rules ORDER BY position ASC, id ASC'
+    );
+    const ids = rules.map((rule) => rule.id);
+    const index = ids.indexOf(id);
+    const target = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || target < 0 || target >= ids.length) {
+      return { success: true };
+    }
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await execute(
+      `UPDATE payee_rules SET position = ordered.position
+       FROM unnest($1::int[]) WITH ORDINALITY AS ordered(id, position)
+       WHERE payee_rules.id = ordered.id`,
+      [ids]
+    );
+
+    revalidateRules();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to move payee rule:', error);
+    return {
+      success: false,
+      error: 'Failed to move payee rule',
+    };
+  }
+}
@@ -0,0 +1,86 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/session';
+import { execute, executeReturning } from '@/lib/db';
+import { SavedSearch } from '@/lib/db/types';
+import { savedSearchSchema } from '@/lib/validations/saved-searches';
+
+export async function saveSearch(formData: FormData) {
+  await requireAuth();
+
+  const result = savedSearchSchema.safeParse({
+    name: formData.get('name'),
+    query: formData.get('query') ?? '',
+    pinned: formData.get('pinned') === 'true',
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.flatten().fieldErrors,
+    };
+  }
+
+  const { name, query, pinned } = result.data;
+
+  try {
+    // Saving under an existing name replaces that search
+    const search = await executeReturning<SavedSearch>(
+      `INSERT INTO saved_searches (name, query, pinned)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE SET
+         query = EXCLUDED.query,
+         pinned = EXCLUDED.pinned
+       RETURNING *`,
+      [name, query, pinned]
+    );
+
+    // Pinned searches show in the navigation of every page
+    revalidatePath('/', 'layout');
+
+    return { success: true, search };
+  } catch (error) {
+    console.error('Failed to save search:', error);
+    return {
+      success: false,
+      error: 'Failed to save search',
+    };
+  }
+}
+
+export async function setSavedSearchPinned(id: number, pinned: boolean) {
+  await requireAuth();
+
+  try {
+    await execute('UPDATE saved_searches SET pinned = $1 WHERE id = $2', [pinned, id]);
+
+    revalidatePath('/', 'layout');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to pin saved search:', error);
+    return {
+      success: false,
+      error: 'Failed to pin saved search',
+    };
+  }
+}
+
+export async function deleteSavedSearch(id: number) {
+  await requireAuth();
+
+  try {
+    await execute('DELETE FROM saved_searches WHERE id = $1', [id]);
+
+    revalidatePath('/', 'layout');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete saved search:', error);
+    return {
+      success: false,
+      error: 'Failed to delete saved search',
+    };
+  }
+}
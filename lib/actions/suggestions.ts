@@ -0,0 +1,38 @@
+'use server';
+
+import { requireAuth } from '@/lib/auth/session';
+import { getCategorizationHistory } from '@/lib/db/suggestions';
+import {
+  CategorySuggestion,
+  suggestCategory,
+  trainCategoryModel,
+} from '@/lib/suggestions/classifier';
+
+export interface SuggestionRequest {
+  payee: string | null;
+  memo?: string | null;
+}
+
+// Returns one suggestion (or null) per request, in order
+export async function suggestCategories(
+  requests: SuggestionRequest[]
+): Promise<(CategorySuggestion | null)[]> {
+  await requireAuth();
+
+  try {
+    const history = await getCategorizationHistory();
+    const model = trainCategoryModel(
+      history.map((tx) => ({
+        text: `${tx.payee} ${tx.ofx_memo ?? ''}`,
+        category_id: tx.category_id,
+      }))
+    );
+
+    return requests.map((request) =>
+      suggestCategory(model, `${request.payee ?? ''} ${request.memo ?? ''}`)
+    );
+  } catch (error) {
+    console.error('Failed to suggest categories:', error);
+    return requests.map(() => null);
+  }
+}
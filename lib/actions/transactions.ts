@@ -3,8 +3,17 @@
 import { revalidatePath } from 'next/cache';
 import { requireAuth } from '@/lib/auth/session';
 import { execute, executeReturning } from '@/lib/db';
-import { Transaction } from '@/lib/db/types';
-import { transactionSchema } from '@/lib/validations/transactions';
+import { getAllCategoryRules } from '@/lib/db/category-rules';
+import { decodeTransactionCursor, getTransactionPage } from '@/lib/db/transactions';
+import { Transaction, TransactionPage } from '@/lib/db/types';
+import { applyCategoryRules } from '@/lib/rules/category-rules';
+import {
+  transactionFiltersFromQuery,
+  TransactionPageQuery,
+  transactionPageSchema,
+  transactionSchema,
+  transactionSortFromQuery,
+} from '@/lib/validations/transactions';
 
 export async function createTransaction(formData: FormData) {
   await requireAuth();
@@ -30,9 +39,22 @@ export async function createTransaction(formData: FormData) {
     };
   }
 
-  const { account_id, date, payee, category_id, amount, comment } = result.data;
+  const { account_id, date, amount, comment } = result.data;
+  let { payee, category_id } = result.data;
 
   try {
+    // Rules only fill in what the user left uncategorized
+    if (!category_id) {
+      const match = applyCategoryRules(
+        { account_id, payee, memo: comment, amount: parseFloat(amount) },
+        await getAllCategoryRules()
+      );
+      if (match) {
+        payee = match.payee;
+        category_id = match.category_id;
+      }
+    }
+
     await executeReturning<Transaction>(
       `INSERT INTO transactions (account_id, date, payee, category_id, amount, comment)
        VALUES ($1, $2, $3, $4, $5, $6)
@@ -41,6 +63,7 @@ export async function createTransaction(formData: FormData) {
     );
 
     revalidatePath('/');
+    revalidatePath('/transactions');
     revalidatePath(`/accounts/${account_id}`);
 
     return { success: true };
@@ -88,6 +111,7 @@ export async function updateTransaction(id: number, formData: FormData) {
     );
 
     revalidatePath('/');
+    revalidatePath('/transactions');
     revalidatePath(`/accounts/${account_id}`);
 
     return { success: true };
@@ -107,6 +131,7 @@ export async function deleteTransaction(id: number, accountId: number) {
     await execute('DELETE FROM transactions WHERE id = $1', [id]);
 
     revalidatePath('/');
+    revalidatePath('/transactions');
     revalidatePath(`/accounts/${accountId}`);
 
     return { success: true };
@@ -118,3 +143,35 @@ export async function deleteTransaction(id: number, accountId: number) {
     };
   }
 }
+
+// Next page of a (filtered) transaction list, for infinite scroll
+export async function loadTransactionPage(
+  query: TransactionPageQuery
+): Promise<{ success: true; page: TransactionPage } | { success: false; error: string }> {
+  await requireAuth();
+
+  const result = transactionPageSchema.safeParse(query);
+  if (!result.success) {
+    return { success: false, error: 'Invalid page' };
+  }
+  const sort = transactionSortFromQuery(result.data);
+  const after = result.data.after ? decodeTransactionCursor(result.data.after, sort) : null;
+  if (result.data.after && !after) {
+    return { success: false, error: 'Invalid page' };
+  }
+
+  try {
+    const page = await getTransactionPage(transactionFiltersFromQuery(result.data), {
+      limit: result.data.size,
+      sort,
+      after,
+    });
+    return { success: true, page };
+  } catch (error) {
+    console.error('Failed to load transactions:', error);
+    return {
+      success: false,
+      error: 'Failed to load transactions',
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { queryMany, queryOne } from '@/lib/db';
-import { MonthlyData, CategoryBreakdown, AccountSummary } from './types';
+import { MonthlyData, CategoryBreakdown, AccountSummary, CategoryTotal } from './types';
 
 export async function getAccountSummary(): Promise<AccountSummary> {
   const result = await queryOne<AccountSummary>(
@@ -97,3 +97,38 @@ export async function getCategoryBreakdown(
     percentage: total > 0 ? (parseFloat(row.amount) / total) * 100 : 0,
   }));
 }
+
+// Totals per category over a date range, optionally for one account, for
+// statements. Unlike the breakdown above, amounts keep their sign.
+export async function getCategoryTotals(
+  startDate: string,
+  endDate: string,
+  accountId?: number
+): Promise<CategoryTotal[]> {
+  return queryMany<CategoryTotal>(
+    `WITH RECURSIVE category_hierarchy AS (
+       SELECT id, name, parent_id, name::varchar as full_path
+       FROM categories
+       WHERE parent_id IS NULL
+
+       UNION ALL
+
+       SELECT c.id, c.name, c.parent_id,
+              ch.full_path || ' > ' || c.name
+       FROM categories c
+       INNER JOIN category_hierarchy ch ON c.parent_id = ch.id
+     )
+     SELECT
+       t.category_id,
+       COALESCE(ch.full_path, 'Uncategorized') as category_path,
+       c.category_type,
+       SUM(t.amount)::decimal(15,2) as amount
+     FROM transactions t
+     LEFT JOIN categories c ON t.category_id = c.id
+     LEFT JOIN category_hierarchy ch ON t.category_id = ch.id
+     WHERE t.date >= $1 AND t.date <= $2${accountId ? ' AND t.account_id = $3' : ''}
+     GROUP BY t.category_id, ch.full_path, c.category_type
+     ORDER BY c.category_type NULLS LAST, category_path`,
+    accountId ? [startDate, endDate, accountId] : [startDate, endDate]
+  );
+}
@@ -0,0 +1,73 @@
+import { getAccountBalancesBefore, getAccountById, getAllAccounts } from '@/lib/db/accounts';
+import { getTransactionsForExport } from '@/lib/db/transactions';
+import { Account, TransactionWithDetails } from '@/lib/db/types';
+import { getCategoryTotals } from './cash-flow';
+import { CategoryTotal } from './types';
+
+export interface StatementPeriod {
+  start: string;
+  end: string;
+  label: string; // "March 2024" or "2024"
+}
+
+export interface AccountStatement {
+  account: Account;
+  opening: string;
+  closing: string;
+  transactions: TransactionWithDetails[];
+}
+
+export interface Statement {
+  period: StatementPeriod;
+  // Consolidated reports cover every account with a balance or activity
+  consolidated: boolean;
+  accounts: AccountStatement[];
+  categories: CategoryTotal[];
+}
+
+// "2024-03" is a month, "2024" a year
+export function statementPeriod(value: string): StatementPeriod {
+  const [year, month] = value.split('-').map(Number);
+  if (!month) {
+    return { start: `${year}-01-01`, end: `${year}-12-31`, label: String(year) };
+  }
+
+  const last = new Date(Date.UTC(year, month, 0));
+  return {
+    start: `${value}-01`,
+    end: last.toISOString().split('T')[0],
+    label: last.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+  };
+}
+
+function addAmounts(a: string, b: string): string {
+  return ((Math.round(parseFloat(a) * 100) + Math.round(parseFloat(b) * 100)) / 100).toFixed(2);
+}
+
+// Returns null when the account does not exist
+export async function getStatement(period: string, accountId?: number): Promise<Statement | null> {
+  const range = statementPeriod(period);
+  const [accounts, transactions, opening, categories] = await Promise.all([
+    accountId ? getAccountById(accountId).then((a) => (a ? [a] : [])) : getAllAccounts(),
+    getTransactionsForExport({ accountId, startDate: range.start, endDate: range.end }),
+    getAccountBalancesBefore(range.start, accountId),
+    getCategoryTotals(range.start, range.end, accountId),
+  ]);
+  if (accountId && accounts.length === 0) return null;
+
+  const openingBalances = new Map(opening.map((row) => [row.account_id, row.balance]));
+  const statements = accounts
+    .map((account) => {
+      const rows = transactions.filter((tx) => tx.account_id === account.id);
+      const start = openingBalances.get(account.id) ?? '0.00';
+      return {
+        account,
+        opening: parseFloat(start).toFixed(2),
+        closing: rows.reduce((balance, tx) => addAmounts(balance, tx.amount), parseFloat(start).toFixed(2)),
+        transactions: rows,
+      };
+    })
+    .filter((s) => accountId || s.transactions.length > 0 || parseFloat(s.opening) !== 0);
+
+  return { period: range, consolidated: !accountId, accounts: statements, categories };
+}
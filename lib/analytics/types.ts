@@ -13,6 +13,14 @@ export interface CategoryBreakdown {
   percentage: number;
 }
 
+// Signed sum of a category's transactions; null type for uncategorized
+export interface CategoryTotal {
+  category_id: number | null;
+  category_path: string;
+  category_type: 'income' | 'expense' | null;
+  amount: string;
+}
+
 export interface AccountSummary {
   total_balance: string;
   monthly_income: string;
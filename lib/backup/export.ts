@@ -0,0 +1,69 @@
+import { queryMany } from '@/lib/db';
+import { createZip } from '@/lib/export/zip';
+import { BACKUP_FORMAT, BACKUP_VERSION, LedgerBackup } from '@/lib/validations/backup';
+
+export type BackupEncoding = 'json' | 'zip';
+
+export const BACKUP_ENTRY_NAME = 'ledger.json';
+
+// Everything but users and import history. Dates, amounts and timestamps
+// are read as text so they survive the trip between servers unchanged.
+export async function createBackup(): Promise<LedgerBackup> {
+  const [accounts, categories, transactions, payeeRules, categoryRules, csvProfiles, savedSearches] =
+    await Promise.all([
+      queryMany<LedgerBackup['accounts'][number]>(
+        `SELECT id, name, ofx_bank_id, ofx_account_id, ofx_account_type, created_at::text
+         FROM accounts ORDER BY id`
+      ),
+      queryMany<LedgerBackup['categories'][number]>(
+        `SELECT id, name, parent_id, category_type, depth, created_at::text
+         FROM categories ORDER BY depth, id`
+      ),
+      queryMany<LedgerBackup['transactions'][number]>(
+        `SELECT account_id, date::text, payee, category_id, amount::text, comment,
+                ofx_fitid, ofx_memo, ofx_refnum, created_at::text, updated_at::text
+         FROM transactions ORDER BY id`
+      ),
+      queryMany<LedgerBackup['payee_rules'][number]>(
+        `SELECT name, bank_id, match_type, pattern, payee_group, memo_group, position, enabled
+         FROM payee_rules ORDER BY position, id`
+      ),
+      queryMany<LedgerBackup['category_rules'][number]>(
+        `SELECT name, payee_match_type, payee_pattern, amount_min::text, amount_max::text,
+                account_id, category_id, rename_payee, position, enabled
+         FROM category_rules ORDER BY position, id`
+      ),
+      queryMany<LedgerBackup['csv_import_profiles'][number]>(
+        `SELECT name, delimiter, has_header, date_column, date_format, amount_column,
+                debit_column, credit_column, payee_column, memo_column, decimal_separator
+         FROM csv_import_profiles ORDER BY id`
+      ),
+      queryMany<LedgerBackup['saved_searches'][number]>(
+        'SELECT name, query, pinned FROM saved_searches ORDER BY id'
+      ),
+    ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    accounts,
+    categories,
+    transactions,
+    payee_rules: payeeRules,
+    category_rules: categoryRules,
+    csv_import_profiles: csvProfiles,
+    saved_searches: savedSearches,
+  };
+}
+
+export function encodeBackup(backup: LedgerBackup, encoding: BackupEncoding): Uint8Array {
+  const json = JSON.stringify(backup, null, 2);
+  return encoding === 'zip'
+    ? createZip([{ name: BACKUP_ENTRY_NAME, data: json }])
+    : new TextEncoder().encode(json);
+}
+
+export function backupFileName(encoding: BackupEncoding, date: Date = new Date()): string {
+  return `ledger-backup-${date.toISOString().split('T')[0]}.${encoding}`;
+}
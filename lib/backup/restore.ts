@@ -0,0 +1,396 @@
+import { TransactionClient, withTransaction } from '@/lib/db';
+import { readZip } from '@/lib/export/zip';
+import { LedgerBackup, ledgerBackupSchema, RestoreMode } from '@/lib/validations/backup';
+import { BACKUP_ENTRY_NAME } from './export';
+
+// Problems with the backup file or the target database, worded for the user
+export class BackupError extends Error {}
+
+export interface RestoreReport {
+  accounts: { created: number; matched: number };
+  categories: { created: number; matched: number };
+  transactions: { imported: number; skipped: number };
+  payeeRules: { created: number; skipped: number };
+  categoryRules: { created: number; skipped: number };
+  csvProfiles: { created: number; skipped: number };
+  savedSearches: { created: number; skipped: number };
+}
+
+const TRANSACTION_CHUNK_SIZE = 500;
+
+function isZip(data: Uint8Array): boolean {
+  return data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+// Rows pointing at accounts or categories the backup does not contain would
+// fail halfway through the restore, so they are caught up front
+function checkReferences(backup: LedgerBackup): string | null {
+  const accounts = new Set(backup.accounts.map((a) => a.id));
+  const categories = new Map(backup.categories.map((c) => [c.id, c]));
+
+  for (const category of backup.categories) {
+    const parent = category.parent_id === null ? null : categories.get(category.parent_id);
+    if (category.parent_id !== null && !parent) {
+      return `Category "${category.name}" has a missing parent`;
+    }
+    if ((parent?.depth ?? 0) + 1 !== category.depth) {
+      return `Category "${category.name}" has an inconsistent depth`;
+    }
+  }
+  for (const tx of backup.transactions) {
+    if (!accounts.has(tx.account_id)) {
+      return `Transaction "${tx.payee}" on ${tx.date} belongs to a missing account`;
+    }
+    if (tx.category_id !== null && !categories.has(tx.category_id)) {
+      return `Transaction "${tx.payee}" on ${tx.date} has a missing category`;
+    }
+  }
+  for (const rule of backup.category_rules) {
+    if (!categories.has(rule.category_id) || (rule.account_id !== null && !accounts.has(rule.account_id))) {
+      return `Category rule "${rule.name}" refers to a missing account or category`;
+    }
+  }
+  return null;
+}
+
+// Accepts the JSON file or a zip holding it
+export function decodeBackup(data: Uint8Array): LedgerBackup {
+  let json: string;
+  try {
+    if (isZip(data)) {
+      const entry = readZip(data).find((e) => e.name.endsWith('.json'));
+      if (!entry) throw new BackupError(`The archive does not contain ${BACKUP_ENTRY_NAME}`);
+      json = typeof entry.data === 'string' ? entry.data : new TextDecoder().decode(entry.data);
+    } else {
+      json = new TextDecoder().decode(data);
+    }
+  } catch (error) {
+    if (error instanceof BackupError) throw error;
+    throw new BackupError(`Could not read the archive: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new BackupError('The backup is not valid JSON');
+  }
+
+  const result = ledgerBackupSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BackupError(`Not a ledger backup: ${issue.path.join('.') || 'file'}: ${issue.message}`);
+  }
+
+  const problem = checkReferences(result.data);
+  if (problem) throw new BackupError(problem);
+  return result.data;
+}
+
+// An "empty" ledger may still hold the accounts and categories seeded by
+// init-db; they are replaced so the result mirrors the backup
+async function clearSeedData(client: TransactionClient): Promise<void> {
+  const { rows } = await client.query<{ count: string }>('SELECT COUNT(*) AS count FROM transactions');
+  if (parseInt(rows[0].count, 10) > 0) {
+    throw new BackupError('The ledger already has transactions; restore with merge instead');
+  }
+  await client.query('DELETE FROM category_rules');
+  await client.query('DELETE FROM payee_rules');
+  await client.query('DELETE FROM csv_import_profiles');
+  await client.query('DELETE FROM saved_searches');
+  await client.query('DELETE FROM import_batches');
+  await client.query('DELETE FROM accounts');
+  await client.query('DELETE FROM categories');
+}
+
+async function restoreAccounts(
+  client: TransactionClient,
+  backup: LedgerBackup,
+  report: RestoreReport
+): Promise<Map<number, number>> {
+  const ids = new Map<number, number>();
+  const { rows: existing } = await client.query<{
+    id: number;
+    name: string;
+    ofx_bank_id: string | null;
+    ofx_account_id: string | null;
+  }>('SELECT id, name, ofx_bank_id, ofx_account_id FROM accounts');
+
+  for (const account of backup.accounts) {
+    // Bank identifiers are the stronger match; names are the fallback
+    const match =
+      (account.ofx_account_id &&
+        existing.find(
+          (e) => e.ofx_account_id === account.ofx_account_id && e.ofx_bank_id === account.ofx_bank_id
+        )) ||
+      existing.find((e) => e.name.toLowerCase() === account.name.toLowerCase());
+    if (match) {
+      ids.set(account.id, match.id);
+      report.accounts.matched++;
+      continue;
+    }
+
+    const { rows } = await client.query<{ id: number }>(
+      `INSERT INTO accounts (name, ofx_bank_id, ofx_account_id, ofx_account_type, created_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5::timestamp, NOW()))
+       RETURNING id`,
+      [account.name, account.ofx_bank_id, account.ofx_account_id, account.ofx_account_type, account.created_at]
+    );
+    ids.set(account.id, rows[0].id);
+    report.accounts.created++;
+  }
+  return ids;
+}
+
+// Parents first; a category matches an existing one with the same name and
+// type under the same (already mapped) parent
+async function restoreCategories(
+  client: TransactionClient,
+  backup: LedgerBackup,
+  report: RestoreReport
+): Promise<Map<number, number>> {
+  const ids = new Map<number, number>();
+  const { rows: existing } = await client.query<{
+    id: number;
+    name: string;
+    parent_id: number | null;
+    category_type: string;
+  }>('SELECT id, name, parent_id, category_type FROM categories');
+  const key = (name: string, parentId: number | null, type: string) =>
+    `${parentId ?? ''}|${type}|${name.toLowerCase()}`;
+  const byKey = new Map(existing.map((c) => [key(c.name, c.parent_id, c.category_type), c.id]));
+
+  for (const category of [...backup.categories].sort((a, b) => a.depth - b.depth)) {
+    const parentId = category.parent_id === null ? null : ids.get(category.parent_id) ?? null;
+    const match = byKey.get(key(category.name, parentId, category.category_type));
+    if (match !== undefined) {
+      ids.set(category.id, match);
+      report.categories.matched++;
+      continue;
+    }
+
+    const { rows } = await client.query<{ id: number }>(
+      `INSERT INTO categories (name, category_type, parent_id, depth, created_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5::timestamp, NOW()))
+       RETURNING id`,
+      [category.name, category.category_type, parentId, category.depth, category.created_at]
+    );
+    ids.set(category.id, rows[0].id);
+    byKey.set(key(category.name, parentId, category.category_type), rows[0].id);
+    report.categories.created++;
+  }
+  return ids;
+}
+
+// Imported rows are deduplicated by FITID like statement imports; when
+// merging, hand-entered rows are skipped if the account already has one
+// with the same date, payee and amount
+async function restoreTransactions(
+  client: TransactionClient,
+  backup: LedgerBackup,
+  accountIds: Map<number, number>,
+  categoryIds: Map<number, number>,
+  mode: RestoreMode,
+  report: RestoreReport
+): Promise<void> {
+  for (let i = 0; i < backup.transactions.length; i += TRANSACTION_CHUNK_SIZE) {
+    const chunk = backup.transactions.slice(i, i + TRANSACTION_CHUNK_SIZE);
+    const inserted = await client.query(
+      `INSERT INTO transactions
+       (account_id, date, payee, category_id, amount, comment, ofx_fitid, ofx_memo, ofx_refnum, created_at, updated_at)
+       SELECT d.account_id, d.date, d.payee, d.category_id, d.amount, d.comment, d.fitid, d.memo, d.refnum,
+              COALESCE(d.created_at, NOW()), COALESCE(d.updated_at, NOW())
+       FROM unnest($1::int[], $2::date[], $3::text[], $4::int[], $5::numeric[], $6::text[],
+                   $7::text[], $8::text[], $9::text[], $10::timestamp[], $11::timestamp[])
+         AS d(account_id, date, payee, category_id, amount, comment, fitid, memo, refnum, created_at, updated_at)
+       WHERE d.fitid IS NOT NULL OR NOT $12::boolean OR NOT EXISTS (
+         SELECT 1 FROM transactions t
+         WHERE t.account_id = d.account_id AND t.ofx_fitid IS NULL
+           AND t.date = d.date AND t.payee = d.payee AND t.amount = d.amount
+       )
+       ON CONFLICT (account_id, ofx_fitid) DO NOTHING`,
+      [
+        chunk.map((tx) => accountIds.get(tx.account_id)),
+        chunk.map((tx) => tx.date),
+        chunk.map((tx) => tx.payee),
+        chunk.map((tx) => (tx.category_id === null ? null : categoryIds.get(tx.category_id))),
+        chunk.map((tx) => tx.amount),
+        chunk.map((tx) => tx.comment),
+        chunk.map((tx) => tx.ofx_fitid),
+        chunk.map((tx) => tx.ofx_memo),
+        chunk.map((tx) => tx.ofx_refnum),
+        chunk.map((tx) => tx.created_at),
+        chunk.map((tx) => tx.updated_at),
+        mode === 'merge',
+      ]
+    );
+    const imported = inserted.rowCount ?? 0;
+    report.transactions.imported += imported;
+    report.transactions.skipped += chunk.length - imported;
+  }
+}
+
+async function restoreRules(
+  client: TransactionClient,
+  backup: LedgerBackup,
+  accountIds: Map<number, number>,
+  categoryIds: Map<number, number>,
+  report: RestoreReport
+): Promise<void> {
+  // Restored rules go after the ones already configured, in their old order
+  const { rows: payeeRules } = await client.query<{
+    match_type: string;
+    pattern: string;
+    bank_id: string | null;
+  }>('SELECT match_type, pattern, bank_id FROM payee_rules');
+  const { rows: payeePositions } = await client.query<{ next: number }>(
+    'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM payee_rules'
+  );
+  let position = payeePositions[0]?.next ?? 0;
+
+  for (const rule of backup.payee_rules) {
+    const duplicate = payeeRules.some(
+      (e) => e.match_type === rule.match_type && e.pattern === rule.pattern && e.bank_id === rule.bank_id
+    );
+    if (duplicate) {
+      report.payeeRules.skipped++;
+      continue;
+    }
+    await client.query(
+      `INSERT INTO payee_rules (name, bank_id, match_type, pattern, payee_group, memo_group, position, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [rule.name, rule.bank_id, rule.match_type, rule.pattern, rule.payee_group, rule.memo_group, position++, rule.enabled]
+    );
+    report.payeeRules.created++;
+  }
+
+  const { rows: categoryRules } = await client.query<{ name: string; category_id: number }>(
+    'SELECT name, category_id FROM category_rules'
+  );
+  const { rows: categoryPositions } = await client.query<{ next: number }>(
+    'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM category_rules'
+  );
+  position = categoryPositions[0]?.next ?? 0;
+
+  for (const rule of backup.category_rules) {
+    const categoryId = categoryIds.get(rule.category_id) as number;
+    const duplicate = categoryRules.some(
+      (e) => e.name === rule.name && e.category_id === categoryId
+    );
+    if (duplicate) {
+      report.categoryRules.skipped++;
+      continue;
+    }
+    await client.query(
+      `INSERT INTO category_rules
+       (name, payee_match_type, payee_pattern, amount_min, amount_max, account_id, category_id,
+        rename_payee, position, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        rule.name,
+        rule.payee_match_type,
+        rule.payee_pattern,
+        rule.amount_min,
+        rule.amount_max,
+        rule.account_id === null ? null : accountIds.get(rule.account_id),
+        categoryId,
+        rule.rename_payee,
+        position++,
+        rule.enabled,
+      ]
+    );
+    report.categoryRules.created++;
+  }
+
+  for (const profile of backup.csv_import_profiles) {
+    const inserted = await client.query(
+      `INSERT INTO csv_import_profiles
+       (name, delimiter, has_header, date_column, date_format, amount_column, debit_column,
+        credit_column, payee_column, memo_column, decimal_separator)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (name) DO NOTHING`,
+      [
+        profile.name,
+        profile.delimiter,
+        profile.has_header,
+        profile.date_column,
+        profile.date_format,
+        profile.amount_column,
+        profile.debit_column,
+        profile.credit_column,
+        profile.payee_column,
+        profile.memo_column,
+        profile.decimal_separator,
+      ]
+    );
+    if (inserted.rowCount) report.csvProfiles.created++;
+    else report.csvProfiles.skipped++;
+  }
+}
+
+// Points the account and category filters of a saved query at the restored
+// rows; a filter on something the backup does not have is dropped
+function remapSavedSearchQuery(
+  query: string,
+  accountIds: Map<number, number>,
+  categoryIds: Map<number, number>
+): string {
+  const params = new URLSearchParams(query);
+  const remap = (key: string, ids: Map<number, number>) => {
+    const value = params.get(key);
+    if (value === null || value === 'none') return;
+    const id = ids.get(Number(value));
+    if (id === undefined) params.delete(key);
+    else params.set(key, String(id));
+  };
+  remap('accountId', accountIds);
+  remap('categoryId', categoryIds);
+  return params.toString();
+}
+
+// Saved searches keep the name they have here when one already exists
+async function restoreSavedSearches(
+  client: TransactionClient,
+  backup: LedgerBackup,
+  accountIds: Map<number, number>,
+  categoryIds: Map<number, number>,
+  report: RestoreReport
+): Promise<void> {
+  for (const search of backup.saved_searches) {
+    const inserted = await client.query(
+      `INSERT INTO saved_searches (name, query, pinned)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO NOTHING`,
+      [search.name, remapSavedSearchQuery(search.query, accountIds, categoryIds), search.pinned]
+    );
+    if (inserted.rowCount) report.savedSearches.created++;
+    else report.savedSearches.skipped++;
+  }
+}
+
+// Restores in one database transaction, so a failure leaves the ledger as it
+// was. Accounts, categories and rules get new IDs; references are remapped.
+export async function restoreBackup(backup: LedgerBackup, mode: RestoreMode): Promise<RestoreReport> {
+  const report: RestoreReport = {
+    accounts: { created: 0, matched: 0 },
+    categories: { created: 0, matched: 0 },
+    transactions: { imported: 0, skipped: 0 },
+    payeeRules: { created: 0, skipped: 0 },
+    categoryRules: { created: 0, skipped: 0 },
+    csvProfiles: { created: 0, skipped: 0 },
+    savedSearches: { created: 0, skipped: 0 },
+  };
+
+  await withTransaction(async (client) => {
+    if (mode === 'empty') {
+      await clearSeedData(client);
+    }
+    const accountIds = await restoreAccounts(client, backup, report);
+    const categoryIds = await restoreCategories(client, backup, report);
+    await restoreTransactions(client, backup, accountIds, categoryIds, mode, report);
+    await restoreRules(client, backup, accountIds, categoryIds, report);
+    await restoreSavedSearches(client, backup, accountIds, categoryIds, report);
+  });
+
+  return report;
+}
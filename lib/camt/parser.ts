@@ -0,0 +1,178 @@
+import { parseStringPromise, processors } from 'xml2js';
+import { OfxBalance, OfxTransaction, ParsedOfxImport } from '@/lib/ofx/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+
+// ISO 20022 camt.053 (bank to customer statement). Namespaces differ per
+// version (camt.053.001.02 to .001.10), so prefixes are stripped and only
+// element names are relied on.
+
+type XmlNode = { [key: string]: unknown };
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+function child(node: unknown, path: string): unknown {
+  let current = node;
+  for (const part of path.split('.')) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = Array.isArray(current) ? current[0] : current;
+    current = (current as XmlNode)[part];
+  }
+  return current;
+}
+
+// Elements with attributes (<Amt Ccy="EUR">) keep their text under "_"
+function text(node: unknown, path?: string): string {
+  const value = path ? child(node, path) : node;
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === 'string') return first.trim();
+  if (first && typeof first === 'object' && typeof (first as XmlNode)._ === 'string') {
+    return ((first as XmlNode)._ as string).trim();
+  }
+  return '';
+}
+
+function parseCamtDate(node: unknown): string {
+  // <Dt>2024-01-15</Dt> or <DtTm>2024-01-15T10:00:00+01:00</DtTm>
+  const value = text(node, 'Dt') || text(node, 'DtTm');
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : '';
+}
+
+function signedAmount(node: unknown): number {
+  const amount = parseFloat(text(node, 'Amt'));
+  if (isNaN(amount)) {
+    throw new Error(`Invalid camt.053 amount: ${text(node, 'Amt')}`);
+  }
+  return text(node, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+function parseBalances(statement: unknown): Record<string, OfxBalance> {
+  const balances: Record<string, OfxBalance> = {};
+  for (const balance of toArray(child(statement, 'Bal'))) {
+    const code = text(balance, 'Tp.CdOrPrtry.Cd') || text(balance, 'Tp.CdOrPrtry.Prtry');
+    const asOf = parseCamtDate(child(balance, 'Dt'));
+    if (code && asOf) {
+      balances[code] = { amount: signedAmount(balance), asOf };
+    }
+  }
+  return balances;
+}
+
+// Party names moved under <Pty> in camt.053.001.08
+function partyName(details: unknown, role: 'Dbtr' | 'Cdtr'): string {
+  return (
+    text(details, `RltdPties.${role}.Nm`) ||
+    text(details, `RltdPties.${role}.Pty.Nm`) ||
+    text(details, `RltdPties.Ultmt${role}.Nm`)
+  );
+}
+
+function reference(value: string): string {
+  return value && value !== 'NOTPROVIDED' ? value : '';
+}
+
+function parseEntry(
+  entry: unknown,
+  account: string,
+  occurrences: Map<string, number>
+): OfxTransaction[] {
+  // Pending and informational entries are not booked yet
+  const status = text(entry, 'Sts') || text(entry, 'Sts.Cd');
+  if (status && status !== 'BOOK') return [];
+
+  const date = parseCamtDate(child(entry, 'BookgDt')) || parseCamtDate(child(entry, 'ValDt'));
+  const entryRef = reference(text(entry, 'AcctSvcrRef')) || reference(text(entry, 'NtryRef'));
+  const details = toArray(child(entry, 'NtryDtls')).flatMap((d) => toArray(child(d, 'TxDtls')));
+
+  // A batch entry lists each transfer with its own amount; otherwise the
+  // entry is one transaction and its details only describe it
+  const split =
+    details.length > 1 && details.every((d) => text(d, 'AmtDtls.TxAmt.Amt') || text(d, 'Amt'));
+  const parts = split ? details : [details[0]];
+  const entryAmount = signedAmount(entry);
+
+  return parts.map((detail, index) => {
+    let amount = entryAmount;
+    if (split) {
+      const value = parseFloat(text(detail, 'AmtDtls.TxAmt.Amt') || text(detail, 'Amt'));
+      amount = entryAmount < 0 ? -value : value;
+    }
+
+    const payee = amount < 0 ? partyName(detail, 'Cdtr') : partyName(detail, 'Dbtr');
+    const memo =
+      toArray(child(detail, 'RmtInf.Ustrd')).map((line) => text(line)).filter(Boolean).join(' ') ||
+      text(detail, 'AddtlTxInf') ||
+      text(entry, 'AddtlNtryInf');
+    const refnum =
+      reference(text(detail, 'Refs.AcctSvcrRef')) ||
+      entryRef ||
+      reference(text(detail, 'Refs.EndToEndId'));
+
+    let fitid: string;
+    if (entryRef) {
+      fitid = split ? `${entryRef}-${index + 1}` : entryRef;
+    } else {
+      const key = [account, date, amount.toFixed(2), refnum, payee, memo].join('|');
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      fitid = createStableFitid('CAMT', key, occurrence);
+    }
+
+    return {
+      fitid,
+      refnum,
+      memo,
+      payee: payee || null,
+      cleanedMemo: memo,
+      date,
+      amount,
+      type: amount >= 0 ? 'CREDIT' : 'DEBIT',
+    };
+  });
+}
+
+function parseStatement(statement: unknown): ParsedOfxImport {
+  const accountId = text(statement, 'Acct.Id.IBAN') || text(statement, 'Acct.Id.Othr.Id');
+  const bankId =
+    text(statement, 'Acct.Svcr.FinInstnId.BICFI') || text(statement, 'Acct.Svcr.FinInstnId.BIC');
+
+  const occurrences = new Map<string, number>();
+  const transactions = toArray(child(statement, 'Ntry')).flatMap((entry) =>
+    parseEntry(entry, accountId, occurrences)
+  );
+
+  const balances = parseBalances(statement);
+  const dates = transactions.map((t) => t.date).sort();
+  const from = text(statement, 'FrToDt.FrDtTm').substring(0, 10);
+  const to = text(statement, 'FrToDt.ToDtTm').substring(0, 10);
+
+  return {
+    statementType: 'BANK',
+    account: { bankId, accountId, type: 'CHECKING' },
+    dateRange: {
+      start: from || dates[0] || '',
+      end: to || dates[dates.length - 1] || '',
+    },
+    transactions,
+    ledgerBalance: balances.CLBD ?? null,
+    availableBalance: balances.CLAV ?? null,
+  };
+}
+
+export function isCamtStatement(content: string): boolean {
+  return /<(\w+:)?BkToCstmrStmt[\s>]/.test(content);
+}
+
+export async function parseCamtFile(content: string): Promise<ParsedOfxImport[]> {
+  const document = await parseStringPromise(content.replace(/^\uFEFF/, ''), {
+    tagNameProcessors: [processors.stripPrefix],
+  });
+
+  const statements = toArray(child(document, 'Document.BkToCstmrStmt.Stmt'));
+  if (statements.length === 0) {
+    throw new Error('No statements found in camt.053 file');
+  }
+  return statements.map(parseStatement);
+}
@@ -0,0 +1,181 @@
+import { ParsedOfxImport, OfxTransaction } from '@/lib/ofx/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+import { CsvDateFormat, CsvDecimalSeparator, CsvMapping } from './types';
+
+export function parseCsvRows(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+function parseCsvDate(value: string, format: CsvDateFormat): string {
+  const trimmed = value.trim();
+  // Each pattern captures [year, month, day] in the order listed
+  const patterns: Record<CsvDateFormat, { regex: RegExp; order: [number, number, number] }> = {
+    'YYYY-MM-DD': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+    'DD/MM/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+    'MM/DD/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+    'DD.MM.YYYY': { regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [3, 2, 1] },
+    'DD-MM-YYYY': { regex: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 2, 1] },
+    'YYYYMMDD': { regex: /^(\d{4})(\d{2})(\d{2})/, order: [1, 2, 3] },
+  };
+
+  const { regex, order } = patterns[format];
+  const match = trimmed.match(regex);
+  if (!match) {
+    throw new Error(`Invalid date "${value}" for format ${format}`);
+  }
+
+  const [year, month, day] = order.map((group) => Number(match[group]));
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid date "${value}" for format ${format}`);
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseCsvAmount(value: string, decimalSeparator: CsvDecimalSeparator): number {
+  let text = value.trim();
+  if (!text) return 0;
+
+  // Accounting notation: (12.34) and trailing minus 12.34-
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  text = text
+    .replace(/[^\d.,+-]/g, '')
+    .split(thousandsSeparator)
+    .join('');
+  if (decimalSeparator === ',') {
+    text = text.replace(',', '.');
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) {
+    throw new Error(`Invalid amount "${value}"`);
+  }
+
+  return negative ? -Math.abs(amount) : amount;
+}
+
+function getCell(row: string[], column: number | null): string {
+  if (column === null || column < 0) return '';
+  return (row[column] ?? '').trim();
+}
+
+export function parseCsvFile(content: string, mapping: CsvMapping): ParsedOfxImport {
+  const rows = parseCsvRows(content, mapping.delimiter);
+  const dataRows = mapping.has_header ? rows.slice(1) : rows;
+  const occurrences = new Map<string, number>();
+
+  if (mapping.amount_column === null && mapping.debit_column === null && mapping.credit_column === null) {
+    throw new Error('An amount column or debit/credit columns are required');
+  }
+
+  const transactions: OfxTransaction[] = dataRows.map((row, index) => {
+    const lineNumber = index + (mapping.has_header ? 2 : 1);
+
+    let date: string;
+    let amount: number;
+    try {
+      date = parseCsvDate(getCell(row, mapping.date_column), mapping.date_format);
+      if (mapping.amount_column !== null) {
+        amount = parseCsvAmount(getCell(row, mapping.amount_column), mapping.decimal_separator);
+      } else {
+        const debit = parseCsvAmount(getCell(row, mapping.debit_column), mapping.decimal_separator);
+        const credit = parseCsvAmount(getCell(row, mapping.credit_column), mapping.decimal_separator);
+        amount = Math.abs(credit) - Math.abs(debit);
+      }
+    } catch (error) {
+      throw new Error(`Line ${lineNumber}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    amount = Math.round(amount * 100) / 100;
+    const payee = getCell(row, mapping.payee_column);
+    const memo = getCell(row, mapping.memo_column);
+
+    const key = [date, amount.toFixed(2), payee, memo].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return {
+      fitid: createStableFitid('CSV', key, occurrence),
+      refnum: '',
+      memo,
+      payee: payee || null,
+      cleanedMemo: memo,
+      date,
+      amount,
+      type: amount >= 0 ? 'CREDIT' : 'DEBIT',
+    };
+  });
+
+  const dates = transactions.map((t) => t.date).sort();
+
+  return {
+    statementType: 'BANK',
+    account: {
+      bankId: '',
+      accountId: '',
+      type: 'CHECKING',
+    },
+    dateRange: {
+      start: dates[0] ?? '',
+      end: dates[dates.length - 1] ?? '',
+    },
+    transactions,
+  };
+}
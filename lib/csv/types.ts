@@ -0,0 +1,24 @@
+export type CsvDateFormat =
+  | 'YYYY-MM-DD'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'DD.MM.YYYY'
+  | 'DD-MM-YYYY'
+  | 'YYYYMMDD';
+
+export type CsvDecimalSeparator = '.' | ',';
+
+// Column indexes are zero-based. Either amount_column or at least one of
+// debit_column/credit_column must be set.
+export interface CsvMapping {
+  delimiter: string;
+  has_header: boolean;
+  date_column: number;
+  date_format: CsvDateFormat;
+  amount_column: number | null;
+  debit_column: number | null;
+  credit_column: number | null;
+  payee_column: number | null;
+  memo_column: number | null;
+  decimal_separator: CsvDecimalSeparator;
+}
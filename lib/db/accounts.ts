@@ -14,16 +14,35 @@ export async function getAccountById(id: number): Promise<Account | null> {
   );
 }
 
-export async function getAccountBalance(accountId: number): Promise<string> {
+// Balance of the account, optionally only counting transactions up to asOf
+export async function getAccountBalance(
+  accountId: number,
+  asOf?: string
+): Promise<string> {
   const result = await queryOne<{ balance: string }>(
     `SELECT COALESCE(SUM(amount), 0)::decimal(15,2) as balance
      FROM transactions
-     WHERE account_id = $1`,
-    [accountId]
+     WHERE account_id = $1${asOf ? ' AND date <= $2' : ''}`,
+    asOf ? [accountId, asOf] : [accountId]
   );
   return result?.balance || '0.00';
 }
 
+// Balance of every account (or just one) from transactions before date
+export async function getAccountBalancesBefore(
+  date: string,
+  accountId?: number
+): Promise<{ account_id: number; balance: string }[]> {
+  return queryMany<{ account_id: number; balance: string }>(
+    `SELECT account_id, SUM(amount)::decimal(15,2) as balance
+     FROM transactions
+     WHERE date < $1${accountId ? ' AND account_id = $2' : ''}
+     GROUP BY account_id
+     ORDER BY account_id`,
+    accountId ? [date, accountId] : [date]
+  );
+}
+
 export interface AccountWithBalance extends Account {
   balance: string;
 }
@@ -34,10 +53,13 @@ export async function getAllAccountsWithBalances(): Promise<AccountWithBalance[]
        a.id,
        a.name,
        a.created_at,
+       a.ofx_bank_id,
+       a.ofx_account_id,
+       a.ofx_account_type,
        COALESCE(SUM(t.amount), 0)::decimal(15,2) as balance
      FROM accounts a
      LEFT JOIN transactions t ON a.id = t.account_id
-     GROUP BY a.id, a.name, a.created_at
+     GROUP BY a.id, a.name, a.created_at, a.ofx_bank_id, a.ofx_account_id, a.ofx_account_type
      ORDER BY a.name ASC`
   );
 }
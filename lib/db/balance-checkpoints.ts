@@ -0,0 +1,20 @@
+import { queryOne } from './index';
+import { BalanceCheckpointWithCurrent } from './types';
+
+// Latest bank-reported balance, alongside what our ledger says for that date now
+export async function getLatestBalanceCheckpoint(
+  accountId: number
+): Promise<BalanceCheckpointWithCurrent | null> {
+  return queryOne<BalanceCheckpointWithCurrent>(
+    `SELECT
+       c.*,
+       (SELECT COALESCE(SUM(t.amount), 0)
+        FROM transactions t
+        WHERE t.account_id = c.account_id AND t.date <= c.as_of)::decimal(15,2) as current_ledger_balance
+     FROM account_balance_checkpoints c
+     WHERE c.account_id = $1
+     ORDER BY c.as_of DESC, c.id DESC
+     LIMIT 1`,
+    [accountId]
+  );
+}
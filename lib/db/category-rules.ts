@@ -0,0 +1,19 @@
+import { queryMany } from './index';
+import { CategoryRule, Transaction } from './types';
+
+export async function getAllCategoryRules(): Promise<CategoryRule[]> {
+  return queryMany<CategoryRule>(
+    'SELECT * FROM category_rules ORDER BY position ASC, id ASC'
+  );
+}
+
+// Transactions the rules may be re-run on; categorized ones are included on request
+export async function getTransactionsForRules(
+  includeCategorized: boolean
+): Promise<Transaction[]> {
+  return queryMany<Transaction>(
+    `SELECT * FROM transactions
+     ${includeCategorized ? '' : 'WHERE category_id IS NULL'}
+     ORDER BY date DESC, id DESC`
+  );
+}
@@ -0,0 +1,15 @@
+import { queryMany, queryOne } from './index';
+import { CsvImportProfile } from './types';
+
+export async function getAllCsvProfiles(): Promise<CsvImportProfile[]> {
+  return queryMany<CsvImportProfile>(
+    'SELECT * FROM csv_import_profiles ORDER BY name ASC'
+  );
+}
+
+export async function getCsvProfileById(id: number): Promise<CsvImportProfile | null> {
+  return queryOne<CsvImportProfile>(
+    'SELECT * FROM csv_import_profiles WHERE id = $1',
+    [id]
+  );
+}
@@ -0,0 +1,27 @@
+import { queryMany, queryOne } from './index';
+import { ImportBatch, ImportBatchWithDetails } from './types';
+
+export async function getImportBatchById(id: number): Promise<ImportBatch | null> {
+  return queryOne<ImportBatch>(
+    'SELECT * FROM import_batches WHERE id = $1',
+    [id]
+  );
+}
+
+export async function getImportBatchesByAccount(
+  accountId: number
+): Promise<ImportBatchWithDetails[]> {
+  return queryMany<ImportBatchWithDetails>(
+    `SELECT
+       b.*,
+       u.username as imported_by_username,
+       COUNT(t.id)::int as remaining_count
+     FROM import_batches b
+     LEFT JOIN users u ON b.imported_by = u.id
+     LEFT JOIN transactions t ON t.import_batch_id = b.id
+     WHERE b.account_id = $1
+     GROUP BY b.id, u.username
+     ORDER BY b.created_at DESC, b.id DESC`,
+    [accountId]
+  );
+}
@@ -1,4 +1,4 @@
-import { sql } from '@vercel/postgres';
+import { sql, type VercelPoolClient } from '@vercel/postgres';
 
 export { sql };
 
@@ -36,3 +36,24 @@ export async function executeReturning<T>(
   const result = await sql.query(query, params);
   return result.rows[0];
 }
+
+export type TransactionClient = Pick<VercelPoolClient, 'query'>;
+
+// Runs the callback on a dedicated connection inside BEGIN/COMMIT,
+// rolling back if it throws
+export async function withTransaction<T>(
+  callback: (client: TransactionClient) => Promise<T>
+): Promise<T> {
+  const client = await sql.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
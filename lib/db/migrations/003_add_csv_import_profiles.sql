@@ -0,0 +1,19 @@
+-- Migration: Add saved CSV column-mapping profiles
+-- Purpose: Remember per-bank CSV layouts so statements can be imported without re-mapping columns
+
+CREATE TABLE IF NOT EXISTS csv_import_profiles (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) UNIQUE NOT NULL,
+  delimiter VARCHAR(1) NOT NULL DEFAULT ',',
+  has_header BOOLEAN NOT NULL DEFAULT TRUE,
+  date_column INTEGER NOT NULL,
+  date_format VARCHAR(20) NOT NULL,
+  amount_column INTEGER,
+  debit_column INTEGER,
+  credit_column INTEGER,
+  payee_column INTEGER,
+  memo_column INTEGER,
+  decimal_separator VARCHAR(1) NOT NULL DEFAULT '.',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
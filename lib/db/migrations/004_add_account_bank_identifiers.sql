@@ -0,0 +1,9 @@
+-- Migration: Link accounts to bank identifiers
+-- Purpose: Match imported OFX statements (BANKACCTFROM/CCACCTFROM) to accounts automatically
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS ofx_bank_id VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS ofx_account_id VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS ofx_account_type VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_ofx_account_id ON accounts(ofx_account_id) WHERE ofx_account_id IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Migration: Record statement imports as batches
+-- Purpose: Keep an import history per account and allow rolling back a whole import
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id SERIAL PRIMARY KEY,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  file_name VARCHAR(255),
+  date_start DATE,
+  date_end DATE,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  imported_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_account ON import_batches(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch ON transactions(import_batch_id) WHERE import_batch_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Migration: Enforce unique FITIDs per account
+-- Purpose: Stop concurrent imports from inserting the same bank transaction twice
+
+-- Older imports only deduplicated on FITID + date + amount; keep the first
+-- row of each clash and clear the FITID on the rest
+UPDATE transactions t
+SET ofx_fitid = NULL
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY account_id, ofx_fitid ORDER BY id) AS rn
+  FROM transactions
+  WHERE ofx_fitid IS NOT NULL
+) duplicates
+WHERE t.id = duplicates.id AND duplicates.rn > 1;
+
+DROP INDEX IF EXISTS idx_transactions_ofx_fitid;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_account_fitid ON transactions(account_id, ofx_fitid);
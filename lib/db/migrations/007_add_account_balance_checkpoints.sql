@@ -0,0 +1,13 @@
+-- Migration: Record bank statement balances as account checkpoints
+-- Purpose: Detect when our ledger drifts from the balance the bank reports
+
+CREATE TABLE IF NOT EXISTS account_balance_checkpoints (
+  id SERIAL PRIMARY KEY,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  as_of DATE NOT NULL,
+  bank_balance DECIMAL(15, 2) NOT NULL,
+  ledger_balance DECIMAL(15, 2) NOT NULL,
+  import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (account_id, as_of)
+);
@@ -0,0 +1,18 @@
+-- Migration: Configurable payee extraction rules
+-- Purpose: Let each bank's memo format (PIX, TED, boleto, card purchases) define how the payee is extracted
+
+CREATE TABLE IF NOT EXISTS payee_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  bank_id VARCHAR(50),
+  match_type VARCHAR(10) NOT NULL CHECK (match_type IN ('regex', 'prefix')),
+  pattern TEXT NOT NULL,
+  payee_group INTEGER NOT NULL DEFAULT 1,
+  memo_group INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payee_rules_position ON payee_rules(position, id);
@@ -0,0 +1,20 @@
+-- Migration: Automatic categorization rules
+-- Purpose: Assign categories (and optionally clean up payees) on import, on manual entry and retroactively
+
+CREATE TABLE IF NOT EXISTS category_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  payee_match_type VARCHAR(10) CHECK (payee_match_type IN ('contains', 'equals', 'regex')),
+  payee_pattern TEXT,
+  amount_min DECIMAL(15, 2),
+  amount_max DECIMAL(15, 2),
+  account_id INTEGER REFERENCES accounts(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  rename_payee VARCHAR(200),
+  position INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_position ON category_rules(position, id);
@@ -0,0 +1,8 @@
+-- Migration: Page through transactions by (date, created_at, id)
+-- Purpose: Keyset pagination needs a total order with no NULLs in it
+
+UPDATE transactions SET created_at = date::timestamp WHERE created_at IS NULL;
+ALTER TABLE transactions ALTER COLUMN created_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_page
+  ON transactions(account_id, date DESC, created_at DESC, id DESC);
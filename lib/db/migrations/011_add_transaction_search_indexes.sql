@@ -0,0 +1,12 @@
+-- Migration: Index transaction search
+-- Purpose: Payee substring filters and comment/memo text search without
+-- scanning every transaction
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_payee_trgm
+  ON transactions USING gin (payee gin_trgm_ops);
+
+-- Queries must repeat this expression exactly for the index to apply
+CREATE INDEX IF NOT EXISTS idx_transactions_search ON transactions
+  USING gin (to_tsvector('simple', COALESCE(comment, '') || ' ' || COALESCE(ofx_memo, '')));
@@ -0,0 +1,10 @@
+-- Migration: Save transaction searches
+-- Purpose: Name filtered views of /transactions and pin them to the navigation
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  query TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,8 @@
+import { queryMany } from './index';
+import { PayeeRule } from './types';
+
+export async function getAllPayeeRules(): Promise<PayeeRule[]> {
+  return queryMany<PayeeRule>(
+    'SELECT * FROM payee_rules ORDER BY position ASC, id ASC'
+  );
+}
@@ -0,0 +1,12 @@
+import { queryMany } from './index';
+import { SavedSearch } from './types';
+
+export async function getAllSavedSearches(): Promise<SavedSearch[]> {
+  return queryMany<SavedSearch>('SELECT * FROM saved_searches ORDER BY name ASC');
+}
+
+export async function getPinnedSavedSearches(): Promise<SavedSearch[]> {
+  return queryMany<SavedSearch>(
+    'SELECT * FROM saved_searches WHERE pinned ORDER BY name ASC'
+  );
+}
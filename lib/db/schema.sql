@@ -1,5 +1,6 @@
 -- Enable extension if needed
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
 -- Create category_type enum
 CREATE TYPE category_type AS ENUM ('income', 'expense');
@@ -16,7 +17,10 @@ CREATE TABLE users (
 CREATE TABLE accounts (
   id SERIAL PRIMARY KEY,
   name VARCHAR(100) NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW()
+  created_at TIMESTAMP DEFAULT NOW(),
+  ofx_bank_id VARCHAR(50),
+  ofx_account_id VARCHAR(100),
+  ofx_account_type VARCHAR(20)
 );
 
 -- Categories table
@@ -29,6 +33,47 @@ CREATE TABLE categories (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Import batches (one per imported statement)
+CREATE TABLE import_batches (
+  id SERIAL PRIMARY KEY,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  file_name VARCHAR(255),
+  date_start DATE,
+  date_end DATE,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  imported_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Bank-reported balances recorded on import
+CREATE TABLE account_balance_checkpoints (
+  id SERIAL PRIMARY KEY,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  as_of DATE NOT NULL,
+  bank_balance DECIMAL(15, 2) NOT NULL,
+  ledger_balance DECIMAL(15, 2) NOT NULL,
+  import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (account_id, as_of)
+);
+
+-- Payee extraction rules for OFX memos, tried in position order
+CREATE TABLE payee_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  bank_id VARCHAR(50),
+  match_type VARCHAR(10) NOT NULL CHECK (match_type IN ('regex', 'prefix')),
+  pattern TEXT NOT NULL,
+  payee_group INTEGER NOT NULL DEFAULT 1,
+  memo_group INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Transactions table
 CREATE TABLE transactions (
   id SERIAL PRIMARY KEY,
@@ -38,16 +83,70 @@ CREATE TABLE transactions (
   category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
   amount DECIMAL(15,2) NOT NULL,
   comment TEXT,
-  created_at TIMESTAMP DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW(),
   ofx_fitid VARCHAR(255),
   ofx_memo VARCHAR(500),
-  ofx_refnum VARCHAR(255)
+  ofx_refnum VARCHAR(255),
+  import_batch_id INTEGER REFERENCES import_batches(id) ON DELETE SET NULL
+);
+
+-- Categorization rules, tried in position order
+CREATE TABLE category_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  payee_match_type VARCHAR(10) CHECK (payee_match_type IN ('contains', 'equals', 'regex')),
+  payee_pattern TEXT,
+  amount_min DECIMAL(15, 2),
+  amount_max DECIMAL(15, 2),
+  account_id INTEGER REFERENCES accounts(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  rename_payee VARCHAR(200),
+  position INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Saved CSV column-mapping profiles
+CREATE TABLE csv_import_profiles (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) UNIQUE NOT NULL,
+  delimiter VARCHAR(1) NOT NULL DEFAULT ',',
+  has_header BOOLEAN NOT NULL DEFAULT TRUE,
+  date_column INTEGER NOT NULL,
+  date_format VARCHAR(20) NOT NULL,
+  amount_column INTEGER,
+  debit_column INTEGER,
+  credit_column INTEGER,
+  payee_column INTEGER,
+  memo_column INTEGER,
+  decimal_separator VARCHAR(1) NOT NULL DEFAULT '.',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Transaction list filters saved by name; pinned ones show in the navigation
+CREATE TABLE saved_searches (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  query TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW()
 );
 
 -- Indexes for performance
 CREATE INDEX idx_transactions_account_date ON transactions(account_id, date DESC);
+CREATE INDEX idx_transactions_account_page ON transactions(account_id, date DESC, created_at DESC, id DESC);
 CREATE INDEX idx_transactions_category ON transactions(category_id);
 CREATE INDEX idx_transactions_date ON transactions(date DESC);
-CREATE INDEX idx_transactions_ofx_fitid ON transactions(ofx_fitid);
+CREATE INDEX idx_transactions_payee_trgm ON transactions USING gin (payee gin_trgm_ops);
+CREATE INDEX idx_transactions_search ON transactions
+  USING gin (to_tsvector('simple', COALESCE(comment, '') || ' ' || COALESCE(ofx_memo, '')));
+CREATE UNIQUE INDEX idx_transactions_account_fitid ON transactions(account_id, ofx_fitid);
+CREATE INDEX idx_transactions_import_batch ON transactions(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX idx_import_batches_account ON import_batches(account_id, created_at DESC);
 CREATE INDEX idx_categories_parent ON categories(parent_id);
+CREATE INDEX idx_payee_rules_position ON payee_rules(position, id);
+CREATE INDEX idx_category_rules_position ON category_rules(position, id);
+CREATE INDEX idx_accounts_ofx_account_id ON accounts(ofx_account_id) WHERE ofx_account_id IS NOT NULL;
@@ -0,0 +1,21 @@
+import { queryMany } from './index';
+
+export interface CategorizedTransaction {
+  payee: string;
+  ofx_memo: string | null;
+  category_id: number;
+}
+
+// Recent categorized transactions, the training set for category suggestions
+export async function getCategorizationHistory(
+  limit: number = 5000
+): Promise<CategorizedTransaction[]> {
+  return queryMany<CategorizedTransaction>(
+    `SELECT payee, ofx_memo, category_id
+     FROM transactions
+     WHERE category_id IS NOT NULL
+     ORDER BY date DESC, id DESC
+     LIMIT $1`,
+    [limit]
+  );
+}
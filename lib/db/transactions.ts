@@ -1,5 +1,12 @@
 import { queryMany, queryOne } from './index';
-import { Transaction, TransactionWithDetails } from './types';
+import {
+  Transaction,
+  TransactionFilters,
+  TransactionPage,
+  TransactionSort,
+  TransactionSortColumn,
+  TransactionWithDetails,
+} from './types';
 
 export async function getTransactionById(
   id: number
@@ -10,13 +17,9 @@ export async function getTransactionById(
   );
 }
 
-export async function getTransactionsByAccount(
-  accountId: number,
-  options?: { limit?: number; offset?: number }
+export async function getRecentTransactions(
+  limit: number = 10
 ): Promise<TransactionWithDetails[]> {
-  const limit = options?.limit || 100;
-  const offset = options?.offset || 0;
-
   return queryMany<TransactionWithDetails>(
     `WITH RECURSIVE category_hierarchy AS (
        SELECT id, name, parent_id, name::varchar as full_path
@@ -39,16 +42,91 @@ export async function getTransactionsByAccount(
      INNER JOIN accounts a ON t.account_id = a.id
      LEFT JOIN categories c ON t.category_id = c.id
      LEFT JOIN category_hierarchy ch ON t.category_id = ch.id
-     WHERE t.account_id = $1
      ORDER BY t.date DESC, t.created_at DESC
-     LIMIT $2 OFFSET $3`,
-    [accountId, limit, offset]
+     LIMIT $1`,
+    [limit]
   );
 }
 
-export async function getRecentTransactions(
-  limit: number = 10
+// Hand-entered transactions (no FITID) an imported statement may duplicate
+export async function getManualTransactionsInRange(
+  accountId: number,
+  startDate: string,
+  endDate: string
+): Promise<Pick<Transaction, 'id' | 'date' | 'payee' | 'amount'>[]> {
+  return queryMany<Pick<Transaction, 'id' | 'date' | 'payee' | 'amount'>>(
+    `SELECT id, date::text as date, payee, amount
+     FROM transactions
+     WHERE account_id = $1
+       AND ofx_fitid IS NULL
+       AND date BETWEEN $2::date AND $3::date
+     ORDER BY date, id`,
+    [accountId, startDate, endDate]
+  );
+}
+
+// Builds the WHERE clause for the filters, appending its values to params
+export function buildTransactionFilters(
+  filters: TransactionFilters,
+  params: unknown[]
+): string {
+  const conditions: string[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.accountId !== undefined) {
+    conditions.push(`t.account_id = ${param(filters.accountId)}`);
+  }
+  if (filters.categoryId === null) {
+    conditions.push('t.category_id IS NULL');
+  } else if (filters.categoryId !== undefined) {
+    conditions.push(
+      `t.category_id IN (
+         WITH RECURSIVE subtree AS (
+           SELECT id FROM categories WHERE id = ${param(filters.categoryId)}
+           UNION ALL
+           SELECT c.id FROM categories c INNER JOIN subtree s ON c.parent_id = s.id
+         )
+         SELECT id FROM subtree
+       )`
+    );
+  }
+  if (filters.startDate) {
+    conditions.push(`t.date >= ${param(filters.startDate)}::date`);
+  }
+  if (filters.endDate) {
+    conditions.push(`t.date <= ${param(filters.endDate)}::date`);
+  }
+  if (filters.payee) {
+    // Wildcards in the text match themselves
+    conditions.push(`t.payee ILIKE ${param(`%${filters.payee.replace(/[\\%_]/g, '\\$&')}%`)}`);
+  }
+  if (filters.minAmount !== undefined) {
+    conditions.push(`t.amount >= ${param(filters.minAmount)}::numeric`);
+  }
+  if (filters.maxAmount !== undefined) {
+    conditions.push(`t.amount <= ${param(filters.maxAmount)}::numeric`);
+  }
+  if (filters.search) {
+    // Same expression as idx_transactions_search so the index is used
+    conditions.push(
+      `to_tsvector('simple', COALESCE(t.comment, '') || ' ' || COALESCE(t.ofx_memo, ''))
+         @@ websearch_to_tsquery('simple', ${param(filters.search)})`
+    );
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+// Every matching transaction, oldest first, for exports
+export async function getTransactionsForExport(
+  filters: TransactionFilters
 ): Promise<TransactionWithDetails[]> {
+  const params: unknown[] = [];
+  const where = buildTransactionFilters(filters, params);
+
   return queryMany<TransactionWithDetails>(
     `WITH RECURSIVE category_hierarchy AS (
        SELECT id, name, parent_id, name::varchar as full_path
@@ -64,6 +142,7 @@ export async function getRecentTransactions(
      )
      SELECT
        t.*,
+       t.date::text as date,
        a.name as account_name,
        c.name as category_name,
        COALESCE(ch.full_path, 'Uncategorized') as category_path
@@ -71,8 +150,137 @@ export async function getRecentTransactions(
      INNER JOIN accounts a ON t.account_id = a.id
      LEFT JOIN categories c ON t.category_id = c.id
      LEFT JOIN category_hierarchy ch ON t.category_id = ch.id
-     ORDER BY t.date DESC, t.created_at DESC
-     LIMIT $1`,
-    [limit]
+     ${where}
+     ORDER BY t.date, t.id`,
+    params
   );
 }
+
+export const DEFAULT_TRANSACTION_SORT: TransactionSort = { column: 'date', direction: 'desc' };
+
+interface SortKey {
+  column: string;
+  type: string;
+  pattern: RegExp; // What a value of it in a cursor looks like
+}
+
+const ID_KEY: SortKey = { column: 't.id', type: 'integer', pattern: /^\d+$/ };
+const TEXT_PATTERN = /^[\s\S]*$/;
+
+// Columns each sort pages on. Each list ends in unique columns so every
+// row has its own position.
+const SORT_KEYS: Record<TransactionSortColumn, SortKey[]> = {
+  date: [
+    { column: 't.date', type: 'date', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+    { column: 't.created_at', type: 'timestamp', pattern: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/ },
+    ID_KEY,
+  ],
+  payee: [{ column: 't.payee', type: 'text', pattern: TEXT_PATTERN }, ID_KEY],
+  account: [{ column: 'a.name', type: 'text', pattern: TEXT_PATTERN }, ID_KEY],
+  amount: [{ column: 't.amount', type: 'numeric', pattern: /^-?\d+(\.\d+)?$/ }, ID_KEY],
+};
+
+function sortName(sort: TransactionSort): string {
+  return `${sort.column}:${sort.direction}`;
+}
+
+// Cursors are opaque to the client: the sort and the sort key values of
+// the last row shown
+export function encodeTransactionCursor(sort: TransactionSort, keys: string[]): string {
+  return Buffer.from(JSON.stringify([sortName(sort), ...keys])).toString('base64url');
+}
+
+// Returns the sort key values, or null for anything that is not a cursor
+// we issued for this sort
+export function decodeTransactionCursor(
+  value: string,
+  sort: TransactionSort = DEFAULT_TRANSACTION_SORT
+): string[] | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString());
+  } catch {
+    return null;
+  }
+
+  const keys = SORT_KEYS[sort.column];
+  if (!Array.isArray(decoded) || decoded.length !== keys.length + 1 || decoded[0] !== sortName(sort)) {
+    return null;
+  }
+  const values = decoded.slice(1);
+  return values.every((v, i) => typeof v === 'string' && keys[i].pattern.test(v)) ? values : null;
+}
+
+// Keyset-paginated, newest first unless sorted otherwise, so pages stay
+// stable while transactions are added and deep pages cost the same as the
+// first one
+export async function getTransactionPage(
+  filters: TransactionFilters,
+  options: { limit: number; sort?: TransactionSort; after?: string[] | null }
+): Promise<TransactionPage> {
+  const sort = options.sort ?? DEFAULT_TRANSACTION_SORT;
+  const keys = SORT_KEYS[sort.column];
+  const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+  const countParams: unknown[] = [];
+  const countWhere = buildTransactionFilters(filters, countParams);
+
+  const params: unknown[] = [];
+  const conditions = [buildTransactionFilters(filters, params)].filter(Boolean);
+  if (options.after) {
+    const values = options.after.map((value, i) => {
+      params.push(value);
+      return `$${params.length}::${keys[i].type}`;
+    });
+    const keyset = `(${keys.map((key) => key.column).join(', ')}) ${
+      direction === 'ASC' ? '>' : '<'
+    } (${values.join(', ')})`;
+    conditions.push(conditions.length > 0 ? `AND ${keyset}` : `WHERE ${keyset}`);
+  }
+  // One row past the page tells us whether there is a next one
+  params.push(options.limit + 1);
+
+  const [rows, count] = await Promise.all([
+    queryMany<TransactionWithDetails & { cursor_keys: string[] }>(
+      `WITH RECURSIVE category_hierarchy AS (
+         SELECT id, name, parent_id, name::varchar as full_path
+         FROM categories
+         WHERE parent_id IS NULL
+
+         UNION ALL
+
+         SELECT c.id, c.name, c.parent_id,
+                ch.full_path || ' > ' || c.name
+         FROM categories c
+         INNER JOIN category_hierarchy ch ON c.parent_id = ch.id
+       )
+       SELECT
+         t.*,
+         t.date::text as date,
+         ARRAY[${keys.map((key) => `${key.column}::text`).join(', ')}] as cursor_keys,
+         a.name as account_name,
+         c.name as category_name,
+         COALESCE(ch.full_path, 'Uncategorized') as category_path
+       FROM transactions t
+       INNER JOIN accounts a ON t.account_id = a.id
+       LEFT JOIN categories c ON t.category_id = c.id
+       LEFT JOIN category_hierarchy ch ON t.category_id = ch.id
+       ${conditions.join(' ')}
+       ORDER BY ${keys.map((key) => `${key.column} ${direction}`).join(', ')}
+       LIMIT $${params.length}`,
+      params
+    ),
+    queryOne<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM transactions t ${countWhere}`,
+      countParams
+    ),
+  ]);
+
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+  return {
+    transactions: page.map(({ cursor_keys: _keys, ...tx }) => tx),
+    total: count?.count ?? 0,
+    nextCursor: rows.length > options.limit ? encodeTransactionCursor(sort, last.cursor_keys) : null,
+  };
+}
@@ -1,3 +1,7 @@
+import { CsvMapping } from '@/lib/csv/types';
+import { PayeeRuleDefinition } from '@/lib/ofx/types';
+import { CategoryRuleDefinition } from '@/lib/rules/types';
+
 export type CategoryType = 'income' | 'expense';
 
 export interface User {
@@ -12,6 +16,9 @@ export interface Account {
   id: number;
   name: string;
   created_at: Date;
+  ofx_bank_id: string | null;
+  ofx_account_id: string | null;
+  ofx_account_type: string | null;
 }
 
 export interface Category {
@@ -36,6 +43,7 @@ export interface Transaction {
   ofx_fitid: string | null;
   ofx_memo: string | null;
   ofx_refnum: string | null;
+  import_batch_id: number | null;
 }
 
 export interface TransactionWithDetails extends Transaction {
@@ -47,3 +55,96 @@ export interface TransactionWithDetails extends Transaction {
 export interface CategoryWithPath extends Category {
   path: string;
 }
+
+// Narrows transaction lists and exports. A category also matches its
+// subcategories; a null categoryId means uncategorized.
+export interface TransactionFilters {
+  accountId?: number;
+  categoryId?: number | null;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+  payee?: string; // Case-insensitive substring
+  minAmount?: string; // Signed, inclusive
+  maxAmount?: string;
+  search?: string; // Words to find in the comment or OFX memo
+}
+
+export type TransactionSortColumn = 'date' | 'payee' | 'account' | 'amount';
+
+export interface TransactionSort {
+  column: TransactionSortColumn;
+  direction: 'asc' | 'desc';
+}
+
+// One page of a sorted transaction list. nextCursor marks where
+// the following page starts and is null on the last one.
+export interface TransactionPage {
+  transactions: TransactionWithDetails[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface ImportBatch {
+  id: number;
+  account_id: number;
+  file_name: string | null;
+  date_start: string | null;
+  date_end: string | null;
+  imported_count: number;
+  skipped_count: number;
+  imported_by: number | null;
+  rolled_back_at: Date | null;
+  created_at: Date;
+}
+
+export interface ImportBatchWithDetails extends ImportBatch {
+  imported_by_username: string | null;
+  remaining_count: number;
+}
+
+export interface BalanceCheckpoint {
+  id: number;
+  account_id: number;
+  as_of: string;
+  bank_balance: string;
+  ledger_balance: string; // our balance at as_of when the checkpoint was recorded
+  import_batch_id: number | null;
+  created_at: Date;
+}
+
+export interface BalanceCheckpointWithCurrent extends BalanceCheckpoint {
+  current_ledger_balance: string; // our balance at as_of today
+}
+
+export interface CsvImportProfile extends CsvMapping {
+  id: number;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PayeeRule extends PayeeRuleDefinition {
+  id: number;
+  name: string;
+  position: number;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CategoryRule extends CategoryRuleDefinition {
+  id: number;
+  name: string;
+  position: number;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string; // URL query string of the /transactions page
+  pinned: boolean;
+  created_at: Date;
+}
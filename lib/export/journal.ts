@@ -0,0 +1,237 @@
+import { Account, CategoryWithPath, TransactionWithDetails } from '@/lib/db/types';
+
+// Plain-text accounting journals. Every transaction posts to its account
+// (Assets, or Liabilities for credit cards) and to its category under
+// Income or Expenses, and each account's balance is asserted at month end.
+
+export type JournalFormat = 'ledger' | 'hledger' | 'beancount';
+
+export const JOURNAL_EXTENSIONS: Record<JournalFormat, string> = {
+  ledger: 'ledger',
+  hledger: 'journal',
+  beancount: 'beancount',
+};
+
+export interface JournalOptions {
+  format: JournalFormat;
+  commodity: string;
+  // Balances carried into the export when it starts after the first
+  // transaction, keyed by account ID
+  openingDate?: string;
+  openingBalances?: Map<number, string>;
+}
+
+const OPENING_BALANCES = 'Equity:Opening-Balances';
+const LIABILITY_TYPES = ['CREDITLINE', 'CREDITCARD'];
+// hledger account types of the top-level names used here
+const HLEDGER_TYPES: Record<string, string> = {
+  Assets: 'A',
+  Liabilities: 'L',
+  Equity: 'E',
+  Income: 'R',
+  Expenses: 'X',
+};
+
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+function formatCents(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, '0')}`;
+}
+
+// Beancount only takes capitalised ASCII words joined by dashes; ledger and
+// hledger take almost anything but the separators they parse postings with
+export function journalSegment(name: string, format: JournalFormat): string {
+  if (format === 'beancount') {
+    const ascii = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^A-Za-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return ascii ? ascii.charAt(0).toUpperCase() + ascii.slice(1) : 'Unnamed';
+  }
+  const cleaned = name
+    .replace(/[:;|()[\]{}@=*!#"]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned || 'Unnamed';
+}
+
+function firstDayOfNextMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 1)).toISOString().split('T')[0];
+}
+
+function beancountString(value: string): string {
+  return `"${value.replace(/\s+/g, ' ').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// "(" would start a transaction code and ";" or "|" a comment or note
+function ledgerPayee(payee: string): string {
+  return payee
+    .replace(/\s+/g, ' ')
+    .replace(/;/g, ',')
+    .replace(/\|/g, '/')
+    .replace(/^\(/, '[')
+    .trim();
+}
+
+function posting(account: string, cents: number, commodity: string, assertion?: number): string {
+  const amount = `${formatCents(cents)} ${commodity}`;
+  const line = `    ${account.padEnd(44)}  ${amount.padStart(16)}`;
+  return assertion === undefined ? line : `${line} = ${formatCents(assertion)} ${commodity}`;
+}
+
+interface JournalEntry {
+  tx: TransactionWithDetails;
+  account: string;
+  category: string;
+  cents: number;
+  // Balance after this posting when it is the account's last one in its month
+  assertion?: number;
+}
+
+// Names every account and category up front, keeping them unique when two
+// differ only in characters the format cannot hold
+function accountNames(
+  accounts: Account[],
+  categories: CategoryWithPath[],
+  format: JournalFormat
+) {
+  const taken = new Set<string>();
+  const unique = (name: string, id: number) => {
+    const result = taken.has(name) ? `${name}-${id}` : name;
+    taken.add(result);
+    return result;
+  };
+
+  const accountIds = new Map<number, string>();
+  for (const account of accounts) {
+    const root = LIABILITY_TYPES.includes(account.ofx_account_type ?? '') ? 'Liabilities' : 'Assets';
+    accountIds.set(account.id, unique(`${root}:${journalSegment(account.name, format)}`, account.id));
+  }
+
+  const categoryIds = new Map<number, string>();
+  for (const category of [...categories].sort((a, b) => a.depth - b.depth)) {
+    const parent = category.parent_id === null ? undefined : categoryIds.get(category.parent_id);
+    const root = category.category_type === 'income' ? 'Income' : 'Expenses';
+    const name = `${parent ?? root}:${journalSegment(category.name, format)}`;
+    categoryIds.set(category.id, unique(name, category.id));
+  }
+
+  return { accountIds, categoryIds };
+}
+
+export function createJournal(
+  accounts: Account[],
+  categories: CategoryWithPath[],
+  transactions: TransactionWithDetails[],
+  options: JournalOptions
+): string {
+  const { format, commodity } = options;
+  const { accountIds, categoryIds } = accountNames(accounts, categories, format);
+  const balances = new Map<number, number>();
+  for (const [accountId, balance] of options.openingBalances ?? []) {
+    if (toCents(balance) !== 0) balances.set(accountId, toCents(balance));
+  }
+  const opening = [...balances].map(([accountId, cents]) => ({ accountId, cents }));
+
+  const entries: JournalEntry[] = transactions.map((tx) => {
+    const cents = toCents(tx.amount);
+    const uncategorized = cents >= 0 ? 'Income:Uncategorized' : 'Expenses:Uncategorized';
+    return {
+      tx,
+      account: accountIds.get(tx.account_id) as string,
+      category: (tx.category_id !== null && categoryIds.get(tx.category_id)) || uncategorized,
+      cents,
+    };
+  });
+
+  // Running balances, and the month-end balance of every account per month
+  const monthEnds: { month: string; accountId: number; balance: number }[] = [];
+  const lastInMonth = new Map<string, JournalEntry>();
+  for (const entry of entries) {
+    const balance = (balances.get(entry.tx.account_id) ?? 0) + entry.cents;
+    balances.set(entry.tx.account_id, balance);
+    entry.assertion = balance;
+    const key = `${entry.tx.account_id}|${String(entry.tx.date).substring(0, 7)}`;
+    const previous = lastInMonth.get(key);
+    if (previous) previous.assertion = undefined;
+    lastInMonth.set(key, entry);
+  }
+  for (const [key, entry] of lastInMonth) {
+    const [accountId, month] = key.split('|');
+    monthEnds.push({ month, accountId: Number(accountId), balance: entry.assertion as number });
+  }
+
+  const used = new Set<string>([
+    ...entries.flatMap((e) => [e.account, e.category]),
+    ...opening.map((o) => accountIds.get(o.accountId) as string),
+  ]);
+  if (opening.length > 0) used.add(OPENING_BALANCES);
+  const declared = [...used].sort();
+  const firstDate =
+    options.openingDate && opening.length > 0
+      ? options.openingDate
+      : String(entries[0]?.tx.date ?? new Date().toISOString()).substring(0, 10);
+
+  const lines: string[] = [];
+  if (format === 'beancount') {
+    lines.push(`option "operating_currency" "${commodity}"`, '');
+    lines.push(...declared.map((name) => `${firstDate} open ${name} ${commodity}`), '');
+  } else {
+    lines.push(format === 'hledger' ? `commodity 1000.00 ${commodity}` : `commodity ${commodity}`, '');
+    for (const name of declared) {
+      const type = HLEDGER_TYPES[name.split(':')[0]];
+      lines.push(format === 'hledger' ? `account ${name}  ; type: ${type}` : `account ${name}`);
+    }
+    lines.push('');
+  }
+
+  if (opening.length > 0) {
+    lines.push(format === 'beancount' ? `${firstDate} * "Opening balances"` : `${firstDate} * Opening balances`);
+    for (const { accountId, cents } of opening) {
+      lines.push(posting(accountIds.get(accountId) as string, cents, commodity));
+    }
+    const total = opening.reduce((sum, o) => sum + o.cents, 0);
+    lines.push(posting(OPENING_BALANCES, -total, commodity), '');
+  }
+
+  for (const entry of entries) {
+    const { tx } = entry;
+    const date = String(tx.date).substring(0, 10);
+
+    if (format === 'beancount') {
+      lines.push(`${date} * ${beancountString(tx.payee)} ${beancountString(tx.comment ?? '')}`);
+      if (tx.ofx_fitid) lines.push(`  fitid: ${beancountString(tx.ofx_fitid)}`);
+      if (tx.ofx_memo) lines.push(`  memo: ${beancountString(tx.ofx_memo)}`);
+      if (tx.ofx_refnum) lines.push(`  refnum: ${beancountString(tx.ofx_refnum)}`);
+      lines.push(posting(entry.account, entry.cents, commodity));
+    } else {
+      const code = tx.ofx_refnum ? ` (${tx.ofx_refnum.replace(/[()]/g, '')})` : '';
+      lines.push(`${date} *${code} ${ledgerPayee(tx.payee)}`);
+      for (const comment of (tx.comment ?? '').split(/\r?\n/).filter((line) => line.trim())) {
+        lines.push(`    ; ${comment.trim()}`);
+      }
+      if (tx.ofx_fitid) lines.push(`    ; fitid: ${tx.ofx_fitid.replace(/,/g, ' ')}`);
+      if (tx.ofx_memo) lines.push(`    ; memo: ${tx.ofx_memo.replace(/\s+/g, ' ').replace(/,/g, ' ')}`);
+      lines.push(posting(entry.account, entry.cents, commodity, entry.assertion));
+    }
+    lines.push(posting(entry.category, -entry.cents, commodity), '');
+  }
+
+  // Beancount checks balances at the start of a day, so a month's closing
+  // balance is asserted on the first of the next one
+  if (format === 'beancount') {
+    for (const { month, accountId, balance } of monthEnds.sort((a, b) => a.month.localeCompare(b.month))) {
+      const name = accountIds.get(accountId) as string;
+      lines.push(`${firstDayOfNextMonth(month)} balance ${name.padEnd(44)}  ${formatCents(balance).padStart(12)} ${commodity}`);
+    }
+    if (monthEnds.length > 0) lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,158 @@
+import { Account, TransactionWithDetails } from '@/lib/db/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+
+// OFX 2.2 statements, one per account, for tools that only import OFX.
+// Credit card accounts go in the credit card message set.
+
+export interface OfxExportOptions {
+  currency: string;
+  // Range the statements cover; defaults to the dates of the transactions
+  startDate?: string;
+  endDate?: string;
+  // Balance of each account at the end of the range, keyed by account ID
+  balances?: Map<number, string>;
+  generatedAt?: Date;
+}
+
+const CREDIT_CARD_TYPES = ['CREDITLINE', 'CREDITCARD'];
+const BANK_ACCOUNT_TYPES = ['CHECKING', 'SAVINGS', 'MONEYMRKT', 'CD'];
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function element(name: string, value: string): string {
+  return `<${name}>${escapeXml(value)}</${name}>`;
+}
+
+function ofxDate(date: string): string {
+  return date.substring(0, 10).replace(/-/g, '');
+}
+
+function ofxDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').substring(0, 14);
+}
+
+// Stored FITIDs are kept; hand-entered rows get one derived from their
+// content, counting identical rows so each stays distinct
+function assignFitids(transactions: TransactionWithDetails[]): Map<TransactionWithDetails, string> {
+  const occurrences = new Map<string, number>();
+  const fitids = new Map<TransactionWithDetails, string>();
+  for (const tx of transactions) {
+    if (tx.ofx_fitid) {
+      fitids.set(tx, tx.ofx_fitid);
+      continue;
+    }
+    const key = [tx.account_id, String(tx.date).substring(0, 10), tx.amount, tx.payee].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    fitids.set(tx, createStableFitid('LEDGER', key, occurrence));
+  }
+  return fitids;
+}
+
+function statementTransaction(tx: TransactionWithDetails, fitid: string): string {
+  const amount = parseFloat(tx.amount);
+  const memo = tx.ofx_memo ?? tx.comment ?? '';
+  return [
+    '<STMTTRN>',
+    element('TRNTYPE', amount >= 0 ? 'CREDIT' : 'DEBIT'),
+    element('DTPOSTED', ofxDate(String(tx.date))),
+    element('TRNAMT', amount.toFixed(2)),
+    element('FITID', fitid),
+    tx.ofx_refnum ? element('REFNUM', tx.ofx_refnum) : '',
+    // NAME holds at most 32 characters, MEMO 255
+    element('NAME', tx.payee.substring(0, 32)),
+    memo ? element('MEMO', memo.replace(/\s+/g, ' ').substring(0, 255)) : '',
+    '</STMTTRN>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function statement(
+  account: Account,
+  transactions: TransactionWithDetails[],
+  fitids: Map<TransactionWithDetails, string>,
+  options: OfxExportOptions,
+  index: number
+): string {
+  const dates = transactions.map((tx) => String(tx.date).substring(0, 10));
+  const start = options.startDate ?? dates[0] ?? options.endDate ?? '';
+  const end = options.endDate ?? dates[dates.length - 1] ?? start;
+  const creditCard = CREDIT_CARD_TYPES.includes(account.ofx_account_type ?? '');
+  const accountId = account.ofx_account_id ?? String(account.id);
+  const balance = parseFloat(options.balances?.get(account.id) ?? '0');
+
+  const accountFrom = creditCard
+    ? ['<CCACCTFROM>', element('ACCTID', accountId), '</CCACCTFROM>']
+    : [
+        '<BANKACCTFROM>',
+        element('BANKID', account.ofx_bank_id ?? '000000000'),
+        element('ACCTID', accountId),
+        element(
+          'ACCTTYPE',
+          BANK_ACCOUNT_TYPES.includes(account.ofx_account_type ?? '') ? (account.ofx_account_type as string) : 'CHECKING'
+        ),
+        '</BANKACCTFROM>',
+      ];
+
+  return [
+    creditCard ? '<CCSTMTTRNRS>' : '<STMTTRNRS>',
+    element('TRNUID', String(index + 1)),
+    '<STATUS>',
+    element('CODE', '0'),
+    element('SEVERITY', 'INFO'),
+    '</STATUS>',
+    creditCard ? '<CCSTMTRS>' : '<STMTRS>',
+    element('CURDEF', options.currency),
+    ...accountFrom,
+    '<BANKTRANLIST>',
+    element('DTSTART', ofxDate(start)),
+    element('DTEND', ofxDate(end)),
+    ...transactions.map((tx) => statementTransaction(tx, fitids.get(tx) as string)),
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    element('BALAMT', balance.toFixed(2)),
+    element('DTASOF', ofxDate(end)),
+    '</LEDGERBAL>',
+    creditCard ? '</CCSTMTRS>' : '</STMTRS>',
+    creditCard ? '</CCSTMTTRNRS>' : '</STMTTRNRS>',
+  ].join('\n');
+}
+
+export function createOfx(
+  accounts: Account[],
+  transactions: TransactionWithDetails[],
+  options: OfxExportOptions
+): string {
+  const fitids = assignFitids(transactions);
+  const bank: string[] = [];
+  const creditCard: string[] = [];
+
+  accounts.forEach((account, index) => {
+    const rows = transactions.filter((tx) => tx.account_id === account.id);
+    const target = CREDIT_CARD_TYPES.includes(account.ofx_account_type ?? '') ? creditCard : bank;
+    target.push(statement(account, rows, fitids, options, index));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>',
+    element('CODE', '0'),
+    element('SEVERITY', 'INFO'),
+    '</STATUS>',
+    element('DTSERVER', ofxDateTime(options.generatedAt ?? new Date())),
+    element('LANGUAGE', 'ENG'),
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    ...(bank.length > 0 ? ['<BANKMSGSRSV1>', ...bank, '</BANKMSGSRSV1>'] : []),
+    ...(creditCard.length > 0 ? ['<CREDITCARDMSGSRSV1>', ...creditCard, '</CREDITCARDMSGSRSV1>'] : []),
+    '</OFX>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,185 @@
+import { deflateSync } from 'zlib';
+
+// Just enough PDF to print reports: text in the built-in Helvetica fonts
+// and straight lines, positioned by the caller. Points, origin bottom left.
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: 'left' | 'right'; // right: x is where the text ends
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Glyph widths of ASCII 32-126 in thousandths of the font size, from the
+// Adobe font metrics of the standard fonts
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Windows-1252 characters outside Latin-1, which WinAnsiEncoding also has
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '\u20AC': 0x80,
+  '\u201A': 0x82,
+  '\u201E': 0x84,
+  '\u2026': 0x85,
+  '\u2018': 0x91,
+  '\u2019': 0x92,
+  '\u201C': 0x93,
+  '\u201D': 0x94,
+  '\u2022': 0x95,
+  '\u2013': 0x96,
+  '\u2014': 0x97,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+  if (char === '\u2212') return 0x2d;
+  return WIN_ANSI_EXTRA[char] ?? 0x3f;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    // Accented letters are about as wide as the letter without the accent
+    const base = char.normalize('NFD').charCodeAt(0);
+    total += base >= 32 && base <= 126 ? widths[base - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Cuts text to fit the width, marking the cut with an ellipsis
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.substring(0, end)}...`, size, bold) > maxWidth) end--;
+  return `${text.substring(0, end).trimEnd()}...`;
+}
+
+// Literal string with everything outside printable ASCII as octal escapes,
+// so content streams stay 7-bit
+function pdfString(text: string): string {
+  let result = '(';
+  for (const char of text.replace(/\s+/g, ' ')) {
+    const code = winAnsiCode(char);
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+    else if (code > 0x7e) result += `\\${code.toString(8).padStart(3, '0')}`;
+    else result += String.fromCharCode(code);
+  }
+  return `${result})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pageContent(page: PdfPage): string {
+  const ops: string[] = [];
+  if (page.rules.length > 0) {
+    ops.push('0.5 w 0.6 G');
+    for (const rule of page.rules) {
+      ops.push(`${num(rule.x1)} ${num(rule.y1)} m ${num(rule.x2)} ${num(rule.y2)} l S`);
+    }
+  }
+  for (const item of page.texts) {
+    const x = item.align === 'right' ? item.x - textWidth(item.text, item.size, item.bold) : item.x;
+    ops.push(
+      `BT /${item.bold ? 'F2' : 'F1'} ${num(item.size)} Tf ${num(x)} ${num(item.y)} Td ${pdfString(item.text)} Tj ET`
+    );
+  }
+  return ops.join('\n');
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').substring(0, 14)}Z`;
+}
+
+export function createPdf(pages: PdfPage[], info: { title?: string; created?: Date } = {}): Uint8Array {
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    chunks.push(buffer);
+    length += buffer.length;
+  };
+  const object = (id: number, body: string | Buffer, stream?: Buffer) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    write(body);
+    if (stream) {
+      write('\nstream\n');
+      write(stream);
+      write('\nendstream');
+    }
+    write('\nendobj\n');
+  };
+
+  // A binary comment after the header tells transfer tools not to treat
+  // the file as text
+  write('%PDF-1.4\n%');
+  write(Buffer.from([0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its
+  // content stream for each page
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  object(
+    5,
+    `<< ${info.title ? `/Title ${pdfString(info.title)} ` : ''}/CreationDate (${pdfDate(info.created ?? new Date())}) >>`
+  );
+
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    const content = deflateSync(Buffer.from(pageContent(page), 'latin1'));
+    object(id + 1, `<< /Length ${content.length} /Filter /FlateDecode >>`, content);
+  });
+
+  const xref = length;
+  const count = 6 + pages.length * 2;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
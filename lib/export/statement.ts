@@ -0,0 +1,242 @@
+import { AccountStatement, Statement } from '@/lib/analytics/statement';
+import { CategoryTotal } from '@/lib/analytics/types';
+import { A4, createPdf, fitText, PdfPage, PdfText } from './pdf';
+
+const LEFT = 40;
+const RIGHT = A4.width - 40;
+const TOP = A4.height - 40;
+const BOTTOM = 50;
+const LINE = 13;
+const SIZE = 9;
+
+interface Column {
+  x: number;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const TRANSACTION_COLUMNS: Column[] = [
+  { x: LEFT, width: 55 },
+  { x: LEFT + 58, width: 175 },
+  { x: LEFT + 238, width: 130 },
+  { x: RIGHT - 75, width: 70, align: 'right' },
+  { x: RIGHT, width: 70, align: 'right' },
+];
+
+const SUMMARY_COLUMNS: Column[] = [
+  { x: LEFT, width: 190 },
+  { x: RIGHT - 225, width: 70, align: 'right' },
+  { x: RIGHT - 150, width: 70, align: 'right' },
+  { x: RIGHT - 75, width: 70, align: 'right' },
+  { x: RIGHT, width: 70, align: 'right' },
+];
+
+const CATEGORY_COLUMNS: Column[] = [
+  { x: LEFT, width: 420 },
+  { x: RIGHT, width: 90, align: 'right' },
+];
+
+const amountFormat = new Intl.NumberFormat('en-US', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+function formatAmount(value: string | number): string {
+  return amountFormat.format(typeof value === 'number' ? value : parseFloat(value));
+}
+
+function cents(value: string): number {
+  return Math.round(parseFloat(value) * 100);
+}
+
+// Places text top to bottom, starting a page whenever the next block does
+// not fit; tables repeat their header on the new page
+function createLayout(title: string, subtitle: string) {
+  const pages: PdfPage[] = [];
+  let page: PdfPage;
+  let y = 0;
+  let table: { header: string[]; columns: Column[] } | null = null;
+
+  const writeRow = (cells: string[], columns: Column[], bold = false) => {
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      page.texts.push({
+        x: column.x,
+        y,
+        text: fitText(cell, column.width, SIZE, bold),
+        size: SIZE,
+        bold,
+        align: column.align,
+      });
+    });
+    y -= LINE;
+  };
+
+  const newPage = () => {
+    page = { texts: [], rules: [] };
+    pages.push(page);
+    page.texts.push(
+      { x: LEFT, y: TOP, text: title, size: 14, bold: true },
+      { x: LEFT, y: TOP - 16, text: subtitle, size: 10 }
+    );
+    page.rules.push({ x1: LEFT, y1: TOP - 24, x2: RIGHT, y2: TOP - 24 });
+    y = TOP - 44;
+    if (table) writeRow(table.header, table.columns, true);
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < BOTTOM) newPage();
+  };
+
+  newPage();
+
+  return {
+    pages,
+
+    heading(text: string) {
+      ensure(LINE * 4);
+      y -= 6;
+      page.texts.push({ x: LEFT, y, text, size: 11, bold: true });
+      y -= LINE + 4;
+    },
+
+    startTable(header: string[], columns: Column[]) {
+      ensure(LINE * 3);
+      table = { header, columns };
+      writeRow(header, columns, true);
+      page.rules.push({ x1: LEFT, y1: y + LINE - 3, x2: RIGHT, y2: y + LINE - 3 });
+    },
+
+    row(cells: string[], bold = false) {
+      ensure(LINE);
+      writeRow(cells, table?.columns ?? [], bold);
+    },
+
+    endTable() {
+      table = null;
+      y -= LINE;
+    },
+
+    text(text: string) {
+      ensure(LINE);
+      page.texts.push({ x: LEFT, y, text, size: SIZE });
+      y -= LINE;
+    },
+
+    footers(generated: string) {
+      pages.forEach((p, index) => {
+        const footer: PdfText[] = [
+          { x: LEFT, y: BOTTOM - 24, text: `Generated ${generated}`, size: 8 },
+          { x: RIGHT, y: BOTTOM - 24, text: `Page ${index + 1} of ${pages.length}`, size: 8, align: 'right' },
+        ];
+        p.texts.push(...footer);
+      });
+    },
+  };
+}
+
+type StatementLayout = ReturnType<typeof createLayout>;
+
+function accountSummary(layout: StatementLayout, accounts: AccountStatement[]) {
+  layout.heading('Summary');
+  layout.startTable(['Account', 'Opening', 'Money in', 'Money out', 'Closing'], SUMMARY_COLUMNS);
+
+  const totals = { opening: 0, in: 0, out: 0, closing: 0 };
+  for (const { account, opening, closing, transactions } of accounts) {
+    const amounts = transactions.map((tx) => cents(tx.amount));
+    const moneyIn = amounts.filter((a) => a > 0).reduce((sum, a) => sum + a, 0);
+    const moneyOut = amounts.filter((a) => a < 0).reduce((sum, a) => sum + a, 0);
+    totals.opening += cents(opening);
+    totals.in += moneyIn;
+    totals.out += moneyOut;
+    totals.closing += cents(closing);
+    layout.row([
+      account.name,
+      formatAmount(opening),
+      formatAmount(moneyIn / 100),
+      formatAmount(moneyOut / 100),
+      formatAmount(closing),
+    ]);
+  }
+  if (accounts.length > 1) {
+    layout.row(
+      [
+        'Total',
+        formatAmount(totals.opening / 100),
+        formatAmount(totals.in / 100),
+        formatAmount(totals.out / 100),
+        formatAmount(totals.closing / 100),
+      ],
+      true
+    );
+  }
+  layout.endTable();
+}
+
+function categorySubtotals(layout: StatementLayout, categories: CategoryTotal[]) {
+  layout.heading('By category');
+  if (categories.length === 0) {
+    layout.text('No transactions in this period.');
+    return;
+  }
+
+  layout.startTable(['Category', 'Amount'], CATEGORY_COLUMNS);
+  const groups: { label: string; rows: CategoryTotal[] }[] = [
+    { label: 'Income', rows: categories.filter((c) => c.category_type === 'income') },
+    { label: 'Expenses', rows: categories.filter((c) => c.category_type === 'expense') },
+    { label: 'Uncategorized', rows: categories.filter((c) => c.category_type === null) },
+  ];
+  let net = 0;
+  for (const group of groups.filter((g) => g.rows.length > 0)) {
+    const subtotal = group.rows.reduce((sum, row) => sum + cents(row.amount), 0);
+    net += subtotal;
+    if (group.label !== 'Uncategorized') {
+      for (const row of group.rows) layout.row([row.category_path, formatAmount(row.amount)]);
+    }
+    layout.row([`Total ${group.label.toLowerCase()}`, formatAmount(subtotal / 100)], true);
+  }
+  layout.row(['Net', formatAmount(net / 100)], true);
+  layout.endTable();
+}
+
+function transactionList(layout: StatementLayout, statement: AccountStatement, showName: boolean) {
+  layout.heading(showName ? `Transactions: ${statement.account.name}` : 'Transactions');
+  layout.startTable(['Date', 'Payee', 'Category', 'Amount', 'Balance'], TRANSACTION_COLUMNS);
+  layout.row(['', 'Opening balance', '', '', formatAmount(statement.opening)], true);
+
+  let balance = cents(statement.opening);
+  for (const tx of statement.transactions) {
+    balance += cents(tx.amount);
+    layout.row([
+      String(tx.date).substring(0, 10),
+      tx.payee,
+      tx.category_path ?? 'Uncategorized',
+      formatAmount(tx.amount),
+      formatAmount(balance / 100),
+    ]);
+  }
+
+  layout.row(['', 'Closing balance', '', '', formatAmount(statement.closing)], true);
+  layout.endTable();
+}
+
+export function statementTitle(statement: Statement): string {
+  return statement.consolidated
+    ? 'Consolidated Statement'
+    : `${statement.accounts[0]?.account.name ?? 'Account'} Statement`;
+}
+
+export function createStatementPdf(statement: Statement, generatedAt: Date = new Date()): Uint8Array {
+  const { period } = statement;
+  const title = statementTitle(statement);
+  const layout = createLayout(title, `${period.label} (${period.start} to ${period.end})`);
+
+  accountSummary(layout, statement.accounts);
+  categorySubtotals(layout, statement.categories);
+  for (const account of statement.accounts) {
+    transactionList(layout, account, statement.consolidated);
+  }
+  layout.footers(generatedAt.toISOString().split('T')[0]);
+
+  return createPdf(layout.pages, { title: `${title} - ${period.label}`, created: generatedAt });
+}
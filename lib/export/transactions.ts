@@ -0,0 +1,104 @@
+import { TransactionWithDetails } from '@/lib/db/types';
+import { createXlsx, XlsxColumn } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const COLUMNS: XlsxColumn[] = [
+  { header: 'Date', format: 'date', width: 12 },
+  { header: 'Account', width: 20 },
+  { header: 'Payee', width: 32 },
+  { header: 'Category', width: 32 },
+  { header: 'Amount', format: 'amount', width: 14 },
+  { header: 'Comment', width: 40 },
+  { header: 'OFX Memo', width: 40 },
+  { header: 'FITID', width: 24 },
+];
+
+function exportRow(tx: TransactionWithDetails) {
+  return {
+    date: String(tx.date).substring(0, 10),
+    account: tx.account_name,
+    payee: tx.payee,
+    category: tx.category_path ?? 'Uncategorized',
+    amount: parseFloat(tx.amount),
+    comment: tx.comment ?? '',
+    memo: tx.ofx_memo ?? '',
+    fitid: tx.ofx_fitid ?? '',
+  };
+}
+
+// Spreadsheets run cells starting with these as formulas
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function quote(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function decimalSeparator(locale: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+}
+
+// Numbers and dates follow the locale, and locales with a decimal comma get
+// semicolons between fields, which is what their spreadsheets expect
+export function formatTransactionsCsv(transactions: TransactionWithDetails[], locale: string): string {
+  const delimiter = decimalSeparator(locale) === ',' ? ';' : ',';
+  const number = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  });
+  const date = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: 'UTC',
+  });
+
+  const lines = [COLUMNS.map((column) => column.header).join(delimiter)];
+  for (const tx of transactions) {
+    const row = exportRow(tx);
+    const [year, month, day] = row.date.split('-').map(Number);
+    const fields = [
+      // Bidirectional marks some locales add would end up in the cell
+      date.format(Date.UTC(year, month - 1, day)).replace(/[\u200E\u200F]/g, ''),
+      neutralizeFormula(row.account),
+      neutralizeFormula(row.payee),
+      neutralizeFormula(row.category),
+      number.format(row.amount).replace('\u2212', '-'),
+      neutralizeFormula(row.comment),
+      neutralizeFormula(row.memo),
+      neutralizeFormula(row.fitid),
+    ];
+    lines.push(fields.map((field) => quote(field, delimiter)).join(delimiter));
+  }
+
+  // The BOM makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export function createTransactionsXlsx(
+  transactions: TransactionWithDetails[],
+  sheetName: string
+): Uint8Array {
+  return createXlsx({
+    name: sheetName,
+    columns: COLUMNS,
+    rows: transactions.map((tx) => {
+      const row = exportRow(tx);
+      return [
+        row.date,
+        row.account,
+        row.payee,
+        row.category,
+        row.amount,
+        row.comment,
+        row.memo,
+        row.fitid,
+      ];
+    }),
+  });
+}
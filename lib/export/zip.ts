@@ -0,0 +1,154 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+// Just enough of the ZIP format to package XLSX files and backups: stored
+// or deflated entries, no directories, no ZIP64.
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, which is what ZIP headers store
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(encoder.encode(entry.name));
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(stamp.time, 10);
+    header.writeUInt16LE(stamp.date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    local.push(header, name, compressed);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // version made by
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(8, 10);
+    record.writeUInt16LE(stamp.time, 12);
+    record.writeUInt16LE(stamp.date, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(compressed.length, 20);
+    record.writeUInt32LE(data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, ...central, end]));
+}
+
+// Uploaded archives are small; what they expand to is capped as well
+export const MAX_ZIP_BYTES = 50 * 1024 * 1024;
+
+// Reads archives through the central directory, as written above or by
+// common zip tools. The entries may hold at most maxBytes uncompressed.
+export function readZip(data: Uint8Array, maxBytes = MAX_ZIP_BYTES): ZipEntry[] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end === -1 || end + 22 > buffer.length) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entries: ZipEntry[] = [];
+  let total = 0;
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip archive');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const size = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const local = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    total += uncompressedSize;
+    if (total > maxBytes) {
+      throw new Error(`Archives are limited to ${maxBytes / 1024 / 1024} MB uncompressed`);
+    }
+
+    const start = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    const raw = buffer.subarray(start, start + size);
+    if (method !== 0 && method !== 8) {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+    // An entry inflating past its recorded size is corrupt, not just large
+    let content: Uint8Array;
+    try {
+      content = new Uint8Array(
+        method === 8 ? inflateRawSync(raw, { maxOutputLength: Math.max(uncompressedSize, 1) }) : raw
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Corrupt zip entry ${name}`);
+      }
+      throw error;
+    }
+    if (content.length !== uncompressedSize || crc32(content) !== crc) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+
+    if (!name.endsWith('/')) entries.push({ name, data: content });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
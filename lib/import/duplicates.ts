@@ -0,0 +1,102 @@
+import { tokenize } from '@/lib/suggestions/classifier';
+
+// Banks post card purchases a few days after we type them in
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+
+// Share of payee words two descriptions need in common to be the same purchase
+export const MIN_PAYEE_SIMILARITY = 0.3;
+
+export interface DuplicateCandidate {
+  id: number;
+  date: string;
+  payee: string;
+  amount: string;
+}
+
+export interface ImportedRow {
+  fitid: string;
+  date: string;
+  payee: string | null;
+  memo: string;
+  amount: number;
+}
+
+export interface DuplicateMatch {
+  fitid: string;
+  transaction_id: number;
+  date: string;
+  payee: string;
+  similarity: number;
+  day_difference: number;
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  // "supermerc" on a receipt is the same word as "supermercado"
+  return a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a));
+}
+
+// Dice coefficient over payee words, counting prefixes as matches
+export function payeeSimilarity(a: string, b: string): number {
+  const left = [...new Set(tokenize(a))];
+  const right = [...new Set(tokenize(b))];
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const shared = left.filter((token) => right.some((other) => tokensMatch(token, other))).length;
+  return (2 * shared) / (left.length + right.length);
+}
+
+// Pairs imported rows with manually entered transactions of the same amount
+// a few days apart and with a similar payee. Each manual transaction is
+// claimed by at most one row, closest match first.
+export function findDuplicateMatches(
+  rows: ImportedRow[],
+  candidates: DuplicateCandidate[]
+): DuplicateMatch[] {
+  const pairs: DuplicateMatch[] = [];
+
+  for (const row of rows) {
+    for (const candidate of candidates) {
+      if (toCents(candidate.amount) !== toCents(row.amount)) continue;
+
+      const dayDifference = daysBetween(candidate.date, row.date);
+      if (dayDifference > DUPLICATE_DATE_WINDOW_DAYS) continue;
+
+      const similarity = Math.max(
+        row.payee ? payeeSimilarity(candidate.payee, row.payee) : 0,
+        payeeSimilarity(candidate.payee, row.memo)
+      );
+      if (similarity < MIN_PAYEE_SIMILARITY) continue;
+
+      pairs.push({
+        fitid: row.fitid,
+        transaction_id: candidate.id,
+        date: candidate.date,
+        payee: candidate.payee,
+        similarity,
+        day_difference: dayDifference,
+      });
+    }
+  }
+
+  pairs.sort(
+    (a, b) => b.similarity - a.similarity || a.day_difference - b.day_difference
+  );
+
+  const matchedRows = new Set<string>();
+  const claimed = new Set<number>();
+  return pairs.filter((pair) => {
+    if (matchedRows.has(pair.fitid) || claimed.has(pair.transaction_id)) return false;
+    matchedRows.add(pair.fitid);
+    claimed.add(pair.transaction_id);
+    return true;
+  });
+}
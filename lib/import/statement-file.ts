@@ -0,0 +1,60 @@
+import { isCamtStatement, parseCamtFile } from '@/lib/camt/parser';
+import { isMt940Statement, parseMt940File } from '@/lib/mt940/parser';
+import { decodeStatementFile, EncodingSource, StatementEncoding } from '@/lib/ofx/encoding';
+import { parseOfxStatements } from '@/lib/ofx/parser';
+import { ParsedOfxImport, PayeeRuleDefinition } from '@/lib/ofx/types';
+import { parseQifFile } from '@/lib/qif/parser';
+import { truncateTransactionText, validateTransaction } from './statements';
+
+export interface StatementFileOptions {
+  encoding?: StatementEncoding; // overrides the charset detected from the file
+  payeeRules?: PayeeRuleDefinition[];
+}
+
+export interface ParsedStatementFile {
+  statements: ParsedOfxImport[];
+  encoding: StatementEncoding;
+  encodingSource: EncodingSource;
+  errors: string[]; // rows left out because they failed validation
+}
+
+function isQif(fileName: string, content: string): boolean {
+  return fileName.toLowerCase().endsWith('.qif') || content.trimStart().startsWith('!');
+}
+
+async function parseContent(
+  fileName: string,
+  content: string,
+  options: StatementFileOptions
+): Promise<ParsedOfxImport[]> {
+  if (isQif(fileName, content)) return [parseQifFile(content)];
+  if (isCamtStatement(content)) return parseCamtFile(content);
+  if (isMt940Statement(content)) return parseMt940File(content);
+  return parseOfxStatements(content, { payeeRules: options.payeeRules });
+}
+
+// Parses an uploaded OFX, QIF, camt.053 or MT940 file and drops the rows that could not be
+// imported, reporting why
+export async function parseStatementFile(
+  data: ArrayBuffer | Uint8Array,
+  fileName: string,
+  options: StatementFileOptions = {}
+): Promise<ParsedStatementFile> {
+  const { content, encoding, source } = decodeStatementFile(data, options.encoding);
+
+  const parsed = await parseContent(fileName, content, options);
+
+  const errors: string[] = [];
+  const statements = parsed.map((statement) => ({
+    ...statement,
+    transactions: statement.transactions.map(truncateTransactionText).filter((tx) => {
+      const problem = validateTransaction(tx);
+      if (problem) {
+        errors.push(`Invalid transaction ${tx.fitid || '(no FITID)'}: ${problem}`);
+      }
+      return !problem;
+    }),
+  }));
+
+  return { statements, encoding, encodingSource: source, errors };
+}
@@ -0,0 +1,385 @@
+import { execute, withTransaction, TransactionClient } from '@/lib/db';
+import { getAccountBalance } from '@/lib/db/accounts';
+import { getAllCategoriesWithPaths } from '@/lib/db/categories';
+import { getAllCategoryRules } from '@/lib/db/category-rules';
+import { CategoryRule, CategoryWithPath } from '@/lib/db/types';
+import { OfxAccount, OfxBalance, OfxTransaction } from '@/lib/ofx/types';
+import { matchCategoryHint } from '@/lib/qif/utils';
+import { applyCategoryRules } from '@/lib/rules/category-rules';
+import {
+  MAX_IMPORT_MEMO_LENGTH,
+  MAX_IMPORT_PAYEE_LENGTH,
+  ofxTransactionSchema,
+} from '@/lib/validations/ofx-import';
+
+export interface StatementReconciliation {
+  accountId: number;
+  asOf: string;
+  bankBalance: number;
+  ledgerBalance: number;
+  difference: number; // bank minus ledger; non-zero means the ledger drifted
+}
+
+export interface ImportResult {
+  imported: number;
+  merged: number; // rows attached to matching hand-entered transactions
+  skipped: number;
+  errors: string[];
+  batchIds: number[];
+  reconciliations: StatementReconciliation[];
+}
+
+export interface ImportOptions {
+  fileName?: string;
+  userId?: number;
+  // Abort the whole import on the first invalid transaction or failed
+  // statement instead of importing everything else
+  allOrNothing?: boolean;
+  // Run the whole import, then roll it back: the counts are what a real
+  // import would report, and nothing is written or reconciled
+  dryRun?: boolean;
+}
+
+export interface StatementImport {
+  accountId: number;
+  transactions: OfxTransaction[];
+  ofxAccount?: OfxAccount;
+  ledgerBalance?: OfxBalance | null;
+}
+
+class ImportAbortedError extends Error {}
+
+// Thrown to roll back a dry run once everything has been counted
+class DryRunRollback extends Error {}
+
+// Banks put whole descriptions in the payee and memo fields; overly long
+// ones are cut to what the columns hold rather than dropping the row
+export function truncateTransactionText(tx: OfxTransaction): OfxTransaction {
+  return {
+    ...tx,
+    payee: tx.payee && tx.payee.substring(0, MAX_IMPORT_PAYEE_LENGTH),
+    memo: tx.memo.substring(0, MAX_IMPORT_MEMO_LENGTH),
+    cleanedMemo: tx.cleanedMemo.substring(0, MAX_IMPORT_MEMO_LENGTH),
+  };
+}
+
+// Rows come from uploaded files, so they get the same date and
+// amount bounds as manually entered transactions. Returns the first problem.
+export function validateTransaction(tx: OfxTransaction): string | null {
+  const result = ofxTransactionSchema.safeParse(tx);
+  if (result.success) return null;
+
+  const issue = result.error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// Remembers the statement's bank identifiers on accounts that have none yet,
+// so the next file for the same account is matched automatically
+async function linkAccountIdentifiers(
+  client: TransactionClient,
+  accountId: number,
+  ofxAccount: OfxAccount
+): Promise<void> {
+  if (!ofxAccount.accountId) return;
+
+  await client.query(
+    `UPDATE accounts
+     SET ofx_bank_id = $2, ofx_account_id = $3, ofx_account_type = $4
+     WHERE id = $1 AND ofx_account_id IS NULL`,
+    [accountId, ofxAccount.bankId || null, ofxAccount.accountId, ofxAccount.type || null]
+  );
+}
+
+// Each imported statement is recorded as a batch so it can be rolled back later
+async function createImportBatch(
+  client: TransactionClient,
+  accountId: number,
+  transactions: OfxTransaction[],
+  options: ImportOptions
+): Promise<number> {
+  const dates = transactions.map((tx) => tx.date).sort();
+  const batch = await client.query<{ id: number }>(
+    `INSERT INTO import_batches (account_id, file_name, date_start, date_end, imported_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id`,
+    [
+      accountId,
+      options.fileName || null,
+      dates[0] ?? null,
+      dates[dates.length - 1] ?? null,
+      options.userId ?? null,
+    ]
+  );
+  return batch.rows[0].id;
+}
+
+async function importIntoAccount(
+  client: TransactionClient,
+  statement: StatementImport,
+  categories: CategoryWithPath[],
+  rules: CategoryRule[],
+  options: ImportOptions
+): Promise<{ batchId: number; imported: number; merged: number; skipped: number }> {
+  const { accountId } = statement;
+
+  // A FITID repeated within the file is only imported once
+  const unique = new Map<string, OfxTransaction>();
+  for (const tx of statement.transactions) {
+    if (!unique.has(tx.fitid)) unique.set(tx.fitid, tx);
+  }
+  const candidates = [...unique.values()];
+
+  const existing = await client.query<{ ofx_fitid: string }>(
+    `SELECT ofx_fitid FROM transactions
+     WHERE account_id = $1 AND ofx_fitid = ANY($2::text[])`,
+    [accountId, candidates.map((tx) => tx.fitid)]
+  );
+  const existingFitids = new Set(existing.rows.map((row) => row.ofx_fitid));
+  const toInsert = candidates.filter((tx) => !existingFitids.has(tx.fitid));
+
+  const batchId = await createImportBatch(client, accountId, statement.transactions, options);
+
+  // Rows flagged as duplicates of hand-entered transactions fill in their
+  // bank data instead of being inserted. Merged rows stay out of the batch,
+  // so rolling it back never deletes what was typed in by hand. A target
+  // that already got a FITID meanwhile falls back to a normal insert.
+  const merges = toInsert.filter((tx) => tx.mergeIntoId);
+  const mergedRows = merges.length === 0 ? { rows: [] } : await client.query<{ ofx_fitid: string }>(
+    `UPDATE transactions t
+     SET ofx_fitid = d.fitid, ofx_memo = d.memo, ofx_refnum = d.refnum, updated_at = NOW()
+     FROM unnest($2::int[], $3::text[], $4::text[], $5::text[]) AS d(id, fitid, memo, refnum)
+     WHERE t.id = d.id AND t.account_id = $1 AND t.ofx_fitid IS NULL
+     RETURNING t.ofx_fitid`,
+    [
+      accountId,
+      merges.map((tx) => tx.mergeIntoId),
+      merges.map((tx) => tx.fitid),
+      merges.map((tx) => tx.memo),
+      merges.map((tx) => tx.refnum),
+    ]
+  );
+  const mergedFitids = new Set(mergedRows.rows.map((row) => row.ofx_fitid));
+
+  // A category picked in the preview or carried by the file wins over the
+  // rules; a rule may still rename the payee
+  const rows = toInsert.filter((tx) => !mergedFitids.has(tx.fitid)).map((tx) => {
+    const payee = tx.payee ?? '';
+    const match = tx.skipRules ? null : applyCategoryRules(
+      { account_id: accountId, payee, memo: tx.memo, amount: tx.amount },
+      rules
+    );
+    return {
+      tx,
+      payee: match?.payee ?? payee,
+      categoryId:
+        tx.categoryId ??
+        matchCategoryHint(tx.categoryHint, categories)?.id ??
+        match?.category_id ??
+        null,
+    };
+  });
+
+  // ON CONFLICT covers rows committed by a concurrent import since the SELECT
+  const inserted = rows.length === 0 ? { rowCount: 0 } : await client.query(
+    `INSERT INTO transactions
+     (account_id, date, payee, amount, comment, ofx_fitid, ofx_memo, ofx_refnum, category_id, import_batch_id)
+     SELECT $1, d.date, d.payee, d.amount, d.comment, d.fitid, d.memo, d.refnum, d.category_id, $2
+     FROM unnest($3::date[], $4::text[], $5::numeric[], $6::text[], $7::text[], $8::text[], $9::text[], $10::int[])
+       AS d(date, payee, amount, comment, fitid, memo, refnum, category_id)
+     ON CONFLICT (account_id, ofx_fitid) DO NOTHING`,
+    [
+      accountId,
+      batchId,
+      rows.map(({ tx }) => tx.date),
+      rows.map(({ payee }) => payee),
+      rows.map(({ tx }) => tx.amount.toFixed(2)),
+      rows.map(({ tx }) => (tx.payee ? tx.cleanedMemo : tx.memo)),
+      rows.map(({ tx }) => tx.fitid),
+      rows.map(({ tx }) => tx.memo),
+      rows.map(({ tx }) => tx.refnum),
+      rows.map(({ categoryId }) => categoryId),
+    ]
+  );
+
+  const imported = inserted.rowCount ?? 0;
+  const merged = mergedFitids.size;
+  const skipped = statement.transactions.length - imported - merged;
+
+  await client.query(
+    `UPDATE import_batches SET imported_count = $2, skipped_count = $3 WHERE id = $1`,
+    [batchId, imported, skipped]
+  );
+
+  if (statement.ofxAccount) {
+    await linkAccountIdentifiers(client, accountId, statement.ofxAccount);
+  }
+
+  return { batchId, imported, merged, skipped };
+}
+
+// Compares the bank's statement balance to our ledger at the same date and
+// records it as a checkpoint on the account
+async function reconcileStatement(
+  accountId: number,
+  balance: OfxBalance,
+  batchId: number
+): Promise<StatementReconciliation> {
+  const ledgerBalance = parseFloat(await getAccountBalance(accountId, balance.asOf));
+
+  await execute(
+    `INSERT INTO account_balance_checkpoints
+     (account_id, as_of, bank_balance, ledger_balance, import_batch_id)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (account_id, as_of) DO UPDATE SET
+       bank_balance = EXCLUDED.bank_balance,
+       ledger_balance = EXCLUDED.ledger_balance,
+       import_batch_id = EXCLUDED.import_batch_id,
+       created_at = NOW()`,
+    [accountId, balance.asOf, balance.amount.toFixed(2), ledgerBalance.toFixed(2), batchId]
+  );
+
+  return {
+    accountId,
+    asOf: balance.asOf,
+    bankBalance: balance.amount,
+    ledgerBalance,
+    difference: Math.round((balance.amount - ledgerBalance) * 100) / 100,
+  };
+}
+
+// Category hints (QIF "L" fields) are resolved against our category tree
+async function loadCategoriesForHints(
+  transactions: OfxTransaction[]
+): Promise<CategoryWithPath[]> {
+  return transactions.some((tx) => tx.categoryHint)
+    ? getAllCategoriesWithPaths()
+    : [];
+}
+
+function emptyResult(): ImportResult {
+  return {
+    imported: 0,
+    merged: 0,
+    skipped: 0,
+    errors: [],
+    batchIds: [],
+    reconciliations: [],
+  };
+}
+
+// Leaves out invalid transactions, reporting each one in the result
+function withoutInvalid(statements: StatementImport[], result: ImportResult): StatementImport[] {
+  return statements.map((statement) => ({
+    ...statement,
+    transactions: statement.transactions.filter((tx) => {
+      const problem = validateTransaction(tx);
+      if (problem) {
+        result.errors.push(`Invalid transaction ${tx.fitid || '(no FITID)'}: ${problem}`);
+      }
+      return !problem;
+    }),
+  }));
+}
+
+// Imports statements in a single database transaction. Without allOrNothing,
+// invalid transactions are reported and left out, and a failing statement is
+// rolled back to its savepoint while the others still import.
+export async function importStatements(
+  statements: StatementImport[],
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const result = emptyResult();
+  const valid = withoutInvalid(statements, result);
+
+  if (options.allOrNothing && result.errors.length > 0) {
+    return result;
+  }
+
+  const [categories, rules] = await Promise.all([
+    loadCategoriesForHints(valid.flatMap((statement) => statement.transactions)),
+    getAllCategoryRules(),
+  ]);
+
+  const committed: { statement: StatementImport; batchId: number }[] = [];
+
+  try {
+    await withTransaction(async (client) => {
+      for (const statement of valid) {
+        if (!options.allOrNothing) {
+          await client.query('SAVEPOINT import_statement');
+        }
+
+        try {
+          const outcome = await importIntoAccount(client, statement, categories, rules, options);
+          result.imported += outcome.imported;
+          result.merged += outcome.merged;
+          result.skipped += outcome.skipped;
+          result.batchIds.push(outcome.batchId);
+          committed.push({ statement, batchId: outcome.batchId });
+        } catch (error) {
+          if (options.allOrNothing) {
+            throw new ImportAbortedError(`Failed to import into account ${statement.accountId}: ${error}`);
+          }
+          await client.query('ROLLBACK TO SAVEPOINT import_statement');
+          result.errors.push(`Failed to import into account ${statement.accountId}: ${error}`);
+        }
+      }
+      if (options.dryRun) throw new DryRunRollback();
+    });
+  } catch (error) {
+    if (error instanceof DryRunRollback) {
+      // The batches were rolled back with everything else
+      result.batchIds = [];
+      return result;
+    }
+    result.imported = 0;
+    result.merged = 0;
+    result.skipped = 0;
+    result.batchIds = [];
+    result.errors.push(
+      error instanceof ImportAbortedError ? error.message : `Import failed: ${error}`
+    );
+    return result;
+  }
+
+  for (const { statement, batchId } of committed) {
+    if (!statement.ledgerBalance) continue;
+    try {
+      result.reconciliations.push(
+        await reconcileStatement(statement.accountId, statement.ledgerBalance, batchId)
+      );
+    } catch (error) {
+      result.errors.push(`Failed to reconcile account ${statement.accountId}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+// Imports statements inside a transaction the caller already opened, so the
+// rows commit or roll back together with the caller's own writes. Invalid
+// transactions are reported and left out; any other failure is thrown.
+// Statement balances are not reconciled.
+export async function importStatementsWithClient(
+  client: TransactionClient,
+  statements: StatementImport[],
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const result = emptyResult();
+  const valid = withoutInvalid(statements, result);
+
+  const [categories, rules] = await Promise.all([
+    loadCategoriesForHints(valid.flatMap((statement) => statement.transactions)),
+    getAllCategoryRules(),
+  ]);
+
+  for (const statement of valid) {
+    const outcome = await importIntoAccount(client, statement, categories, rules, options);
+    result.imported += outcome.imported;
+    result.merged += outcome.merged;
+    result.skipped += outcome.skipped;
+    result.batchIds.push(outcome.batchId);
+  }
+
+  return result;
+}
@@ -0,0 +1,108 @@
+import { withTransaction } from '@/lib/db';
+import {
+  importStatementsWithClient,
+  StatementImport,
+  validateTransaction,
+} from '@/lib/import/statements';
+import { OfxTransaction } from '@/lib/ofx/types';
+import { MigrationPlan, MigrationReport } from './types';
+
+// Creates the planned accounts and categories and imports each account's
+// rows as one batch so an account can be rolled back from its import history.
+// Everything runs in one transaction: a failed import leaves no accounts or
+// categories behind, so the migration can simply be run again.
+export async function applyMigration(
+  plan: MigrationPlan,
+  options: { fileName?: string; userId?: number } = {}
+): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    source: plan.source,
+    accountsCreated: [],
+    categoriesCreated: [],
+    imported: 0,
+    skipped: 0,
+    issues: [...plan.issues],
+  };
+
+  const accountIds = new Map<string, number>();
+  const categoryIds = new Map<string, number>();
+
+  await withTransaction(async (client) => {
+    for (const account of plan.accounts) {
+      if (account.existing_id !== null) {
+        accountIds.set(account.name, account.existing_id);
+        continue;
+      }
+      const created = await client.query<{ id: number }>(
+        'INSERT INTO accounts (name) VALUES ($1) RETURNING id',
+        [account.name]
+      );
+      accountIds.set(account.name, created.rows[0].id);
+      report.accountsCreated.push(account.name);
+    }
+
+    // Parents come before their children in the plan
+    for (const category of [...plan.categories].sort((a, b) => a.depth - b.depth)) {
+      if (category.existing_id !== null) {
+        categoryIds.set(category.key, category.existing_id);
+        continue;
+      }
+      const created = await client.query<{ id: number }>(
+        `INSERT INTO categories (name, category_type, parent_id, depth)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [
+          category.name,
+          category.category_type,
+          category.parent_key ? categoryIds.get(category.parent_key) : null,
+          category.depth,
+        ]
+      );
+      categoryIds.set(category.key, created.rows[0].id);
+      report.categoriesCreated.push(category.path);
+    }
+
+    const statements = new Map<string, StatementImport>();
+    for (const planned of plan.transactions) {
+      const tx: OfxTransaction = {
+        fitid: planned.fitid,
+        refnum: planned.refnum,
+        memo: planned.memo,
+        payee: planned.payee,
+        cleanedMemo: planned.comment,
+        date: planned.date,
+        amount: planned.amount,
+        type: planned.amount >= 0 ? 'CREDIT' : 'DEBIT',
+        categoryId: planned.category_key ? categoryIds.get(planned.category_key) ?? null : null,
+        // Transfers have no category; a rule must not give them one
+        skipRules: planned.transfer,
+      };
+
+      // Reported here rather than by the importer so the row can be found
+      // in the source app
+      const problem = validateTransaction(tx);
+      if (problem) {
+        report.issues.push(`${planned.date} "${planned.payee}" in ${planned.account}: ${problem}; skipped`);
+        continue;
+      }
+
+      const accountId = accountIds.get(planned.account) as number;
+      let statement = statements.get(planned.account);
+      if (!statement) {
+        statement = { accountId, transactions: [] };
+        statements.set(planned.account, statement);
+      }
+      statement.transactions.push(tx);
+    }
+
+    const result = await importStatementsWithClient(client, [...statements.values()], {
+      fileName: options.fileName,
+      userId: options.userId,
+    });
+    report.imported = result.imported;
+    report.skipped = result.skipped;
+    report.issues.push(...result.errors);
+  });
+
+  return report;
+}
@@ -0,0 +1,27 @@
+import { decodeStatementFile } from '@/lib/ofx/encoding';
+import { gunzipBook, isGnucashCsv, isGnucashXml, isGzip, parseGnucashCsv, parseGnucashXml } from './gnucash';
+import { isMintExport, parseMintCsv } from './mint';
+import { MigrationData } from './types';
+import { csvHeader } from './utils';
+import { isYnabRegister, parseYnabRegister } from './ynab';
+
+// Recognizes the export by its content: GnuCash books are XML (usually
+// gzipped), the CSV exports by their header row
+export async function parseMigrationFile(data: ArrayBuffer | Uint8Array): Promise<MigrationData> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (isGzip(bytes)) {
+    return parseGnucashXml(gunzipBook(bytes));
+  }
+
+  const { content } = decodeStatementFile(bytes);
+  if (isGnucashXml(content)) return parseGnucashXml(content);
+
+  const header = csvHeader(content);
+  if (isYnabRegister(header)) return parseYnabRegister(content);
+  if (isMintExport(header)) return parseMintCsv(content);
+  if (isGnucashCsv(header)) return parseGnucashCsv(content);
+
+  throw new Error(
+    'Unrecognized file. Expected a YNAB register CSV, a Mint transactions CSV, or a GnuCash book or CSV export.'
+  );
+}
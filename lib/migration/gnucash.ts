@@ -0,0 +1,331 @@
+import { gunzipSync } from 'zlib';
+import { parseStringPromise, processors } from 'xml2js';
+import { MigrationData, MigrationTransaction } from './types';
+import { inferDateOrder, parseCsvRecords, parseMigrationDate, parseMoney } from './utils';
+
+// GnuCash books, either the native XML file (gzipped by default) or the
+// "Export Transactions to CSV" output. GnuCash is double-entry: bank, cash
+// and credit card accounts become ledger accounts, income and expense
+// accounts become categories, and a transaction between two ledger
+// accounts is a transfer imported on both sides.
+
+type AccountKind = 'ledger' | 'income' | 'expense' | 'equity' | 'unsupported';
+
+interface GnucashAccount {
+  name: string;
+  path: string[]; // from the top-level account down
+  kind: AccountKind;
+  type: string;
+}
+
+interface GnucashSplit {
+  id: string;
+  memo: string;
+  amount: number;
+  account: GnucashAccount;
+}
+
+interface GnucashTransaction {
+  id: string;
+  date: string;
+  num: string;
+  description: string;
+  notes: string;
+  splits: GnucashSplit[];
+}
+
+const LEDGER_TYPES = ['BANK', 'CASH', 'CREDIT', 'ASSET', 'LIABILITY', 'RECEIVABLE', 'PAYABLE'];
+
+function accountKind(type: string): AccountKind {
+  if (LEDGER_TYPES.includes(type)) return 'ledger';
+  if (type === 'INCOME') return 'income';
+  if (type === 'EXPENSE') return 'expense';
+  if (type === 'EQUITY') return 'equity';
+  return 'unsupported';
+}
+
+export function isGnucashXml(content: string): boolean {
+  return /<gnc-v2[\s>]/.test(content.substring(0, 2000));
+}
+
+export function isGnucashCsv(header: string[]): boolean {
+  return header.includes('Transaction ID') && header.includes('Full Account Name');
+}
+
+export function isGzip(data: Uint8Array): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+// Uploads are capped compressed; this caps what they may expand to
+export const MAX_BOOK_BYTES = 50 * 1024 * 1024;
+
+export function gunzipBook(data: Uint8Array, maxBytes = MAX_BOOK_BYTES): string {
+  try {
+    return gunzipSync(data, { maxOutputLength: maxBytes }).toString('utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`GnuCash books are limited to ${maxBytes / 1024 / 1024} MB uncompressed`);
+    }
+    throw error;
+  }
+}
+
+// Categories drop the "Expenses"/"Income" top level, which every book has
+function categoryPath(account: GnucashAccount): string[] {
+  return account.path.length > 1 ? account.path.slice(1) : account.path;
+}
+
+function describe(tx: GnucashTransaction): string {
+  return `${tx.date} "${tx.description}"`;
+}
+
+function toMigrationData(
+  transactions: GnucashTransaction[],
+  issues: string[]
+): MigrationData {
+  const rows: MigrationTransaction[] = [];
+  const accounts = new Set<string>();
+
+  for (const tx of transactions) {
+    const splits = tx.splits.filter((split) => split.amount !== 0);
+    const ledger = splits.filter((split) => split.account.kind === 'ledger');
+    if (ledger.length === 0) {
+      if (splits.length > 0) {
+        issues.push(`${describe(tx)} has no bank, cash or credit card account; skipped`);
+      }
+      continue;
+    }
+
+    const base = (split: GnucashSplit, amount: number) => ({
+      key: `${tx.id}:${split.id}`,
+      account: split.account.name,
+      date: tx.date,
+      payee: tx.description,
+      memo: [split.memo, tx.notes].filter(Boolean).join(' - '),
+      amount,
+      refnum: tx.num,
+    });
+
+    for (const split of ledger) {
+      accounts.add(split.account.name);
+      const others = splits.filter((other) => other !== split);
+      const categories = others.filter((other) => ['income', 'expense'].includes(other.account.kind));
+
+      // One bank split against several categories: one row per category,
+      // so nothing is lost for the single-category transactions here
+      if (ledger.length === 1 && categories.length > 1 && categories.length === others.length) {
+        for (const category of categories) {
+          rows.push({
+            ...base(category, -category.amount),
+            account: split.account.name,
+            memo: [category.memo || split.memo, tx.notes].filter(Boolean).join(' - '),
+            category: categoryPath(category.account),
+            category_type: category.account.kind as 'income' | 'expense',
+            transfer: false,
+            transfer_account: null,
+          });
+        }
+        continue;
+      }
+
+      const row: MigrationTransaction = {
+        ...base(split, split.amount),
+        category: null,
+        category_type: null,
+        transfer: false,
+        transfer_account: null,
+      };
+
+      if (others.length === 1 && categories.length === 1) {
+        row.category = categoryPath(categories[0].account);
+        row.category_type = categories[0].account.kind as 'income' | 'expense';
+      } else if (others.length === 1 && others[0].account.kind === 'ledger') {
+        row.transfer = true;
+        row.transfer_account = others[0].account.name;
+      } else if (others.some((other) => other.account.kind === 'unsupported')) {
+        const names = others
+          .filter((other) => other.account.kind === 'unsupported')
+          .map((other) => `${other.account.path.join(':')} (${other.account.type})`);
+        issues.push(`${describe(tx)} in ${split.account.name} moves money to ${names.join(', ')}; imported uncategorized`);
+      } else if (others.length > 1) {
+        issues.push(`${describe(tx)} in ${split.account.name} is split across ${others.length} accounts; imported uncategorized`);
+      }
+      rows.push(row);
+    }
+  }
+
+  return { source: 'gnucash', accounts: [...accounts], transactions: rows, issues };
+}
+
+// Leaf names unless two ledger accounts share one, then the full path
+function nameAccounts(accounts: GnucashAccount[]) {
+  const counts = new Map<string, number>();
+  for (const account of accounts.filter((a) => a.kind === 'ledger')) {
+    const leaf = account.path[account.path.length - 1];
+    counts.set(leaf, (counts.get(leaf) ?? 0) + 1);
+  }
+  for (const account of accounts) {
+    const leaf = account.path[account.path.length - 1];
+    account.name = (counts.get(leaf) ?? 0) > 1 ? account.path.join(':') : leaf;
+  }
+}
+
+// "-4500/100"
+function parseFraction(value: string): number {
+  const [numerator, denominator = '1'] = value.trim().split('/');
+  const amount = Number(numerator) / Number(denominator);
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid GnuCash amount: ${value}`);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+type XmlNode = { [key: string]: unknown };
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+// Elements with attributes (<act:id type="guid">) keep their text under "_";
+// dates are wrapped once more (<trn:date-posted><ts:date>)
+function text(node: unknown, name: string): string {
+  const value = toArray((node as XmlNode | undefined)?.[name])[0];
+  if (typeof value === 'string') return value.trim();
+  if (value && typeof value === 'object') {
+    const inner = (value as XmlNode)._;
+    return typeof inner === 'string' ? inner.trim() : text(value, 'date');
+  }
+  return '';
+}
+
+function slotValue(node: unknown, key: string): string {
+  const slots = toArray((node as XmlNode)?.slots)[0] as XmlNode | undefined;
+  const slot = toArray(slots?.slot).find((s) => text(s, 'key') === key);
+  return slot ? text(slot, 'value') : '';
+}
+
+export async function parseGnucashXml(content: string): Promise<MigrationData> {
+  const document = await parseStringPromise(content.replace(/^\uFEFF/, ''), {
+    tagNameProcessors: [processors.stripPrefix],
+  });
+  const root = document['gnc-v2'] as XmlNode | undefined;
+  if (!root) {
+    throw new Error('Not a GnuCash book');
+  }
+  const book = (toArray(root.book)[0] as XmlNode | undefined) ?? root;
+
+  const raw = toArray(book.account).map((node) => ({
+    id: text(node, 'id'),
+    name: text(node, 'name'),
+    type: text(node, 'type'),
+    parent: text(node, 'parent'),
+  }));
+  const byId = new Map(raw.map((account) => [account.id, account]));
+  const accounts = new Map<string, GnucashAccount>();
+
+  for (const account of raw) {
+    if (account.type === 'ROOT') continue;
+    const path: string[] = [];
+    for (let current = byId.get(account.id); current && current.type !== 'ROOT'; current = byId.get(current.parent)) {
+      path.unshift(current.name);
+    }
+    accounts.set(account.id, { name: account.name, path, kind: accountKind(account.type), type: account.type });
+  }
+  nameAccounts([...accounts.values()]);
+
+  const issues: string[] = [];
+  const transactions: GnucashTransaction[] = [];
+  for (const node of toArray(book.transaction)) {
+    const splitsNode = toArray((node as XmlNode).splits)[0] as XmlNode | undefined;
+    const splits: GnucashSplit[] = [];
+    for (const split of toArray(splitsNode?.split)) {
+      const account = accounts.get(text(split, 'account'));
+      if (!account) continue;
+      splits.push({
+        id: text(split, 'id'),
+        memo: text(split, 'memo'),
+        amount: parseFraction(text(split, 'quantity') || text(split, 'value')),
+        account,
+      });
+    }
+    transactions.push({
+      id: text(node, 'id'),
+      // "2024-01-15 10:59:00 +0000"
+      date: text(node, 'date-posted').substring(0, 10),
+      num: text(node, 'num'),
+      description: text(node, 'description'),
+      notes: slotValue(node, 'notes'),
+      splits,
+    });
+  }
+
+  return toMigrationData(transactions, issues);
+}
+
+// The CSV export has no account types, so they come from the top-level
+// account name of GnuCash's default book layout
+function csvAccountKind(path: string[]): { kind: AccountKind; type: string } {
+  const top = path[0]?.toLowerCase() ?? '';
+  if (/^expenses?$/.test(top)) return { kind: 'expense', type: 'EXPENSE' };
+  if (/^income$/.test(top)) return { kind: 'income', type: 'INCOME' };
+  if (/^equity$/.test(top)) return { kind: 'equity', type: 'EQUITY' };
+  return { kind: 'ledger', type: 'BANK' };
+}
+
+export function parseGnucashCsv(content: string): MigrationData {
+  const records = parseCsvRecords(content);
+  const order = inferDateOrder(records.map((record) => record.Date ?? ''));
+  const accounts = new Map<string, GnucashAccount>();
+  const transactions: GnucashTransaction[] = [];
+  const issues: string[] = [];
+  let current: GnucashTransaction | null = null;
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    // Transaction fields are either repeated on every split line or only
+    // given on a line of their own ahead of the splits
+    const id = record['Transaction ID'];
+    if (id && id !== current?.id) {
+      let date = '';
+      try {
+        date = parseMigrationDate(record.Date ?? '', order);
+      } catch {
+        issues.push(`Row ${line}: invalid date "${record.Date ?? ''}"; transaction skipped`);
+      }
+      current = {
+        id,
+        date,
+        num: record.Number ?? '',
+        description: record.Description ?? '',
+        notes: record.Notes ?? '',
+        splits: [],
+      };
+      if (date) transactions.push(current);
+    }
+
+    const fullName = record['Full Account Name'];
+    if (!fullName || !current) return;
+
+    let account = accounts.get(fullName);
+    if (!account) {
+      const path = fullName.split(':').map((part) => part.trim());
+      account = { name: fullName, path, ...csvAccountKind(path) };
+      accounts.set(fullName, account);
+    }
+
+    const amount = parseMoney(record['Amount Num.'] ?? record['Amount Num'] ?? record['Value Num.'] ?? '');
+    if (isNaN(amount)) {
+      issues.push(`Row ${line}: invalid amount; split skipped`);
+      return;
+    }
+    current.splits.push({
+      id: String(current.splits.length + 1),
+      memo: record.Memo ?? '',
+      amount,
+      account,
+    });
+  });
+
+  nameAccounts([...accounts.values()]);
+  return toMigrationData(transactions, issues);
+}
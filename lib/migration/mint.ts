@@ -0,0 +1,122 @@
+import { CategoryType } from '@/lib/db/types';
+import { MigrationData, MigrationTransaction } from './types';
+import { inferDateOrder, parseCsvRecords, parseMigrationDate, parseMoney } from './utils';
+
+// Mint's transactions.csv. Amounts are unsigned with a debit/credit
+// "Transaction Type"; the category column only names the leaf, so the
+// parent comes from Mint's built-in category tree.
+
+const MINT_CATEGORIES: Record<string, string[]> = {
+  'Auto & Transport': ['Auto Insurance', 'Auto Payment', 'Gas & Fuel', 'Parking', 'Public Transportation', 'Service & Parts'],
+  'Bills & Utilities': ['Home Phone', 'Internet', 'Mobile Phone', 'Television', 'Utilities'],
+  'Business Services': ['Advertising', 'Legal', 'Office Supplies', 'Printing', 'Shipping'],
+  Education: ['Books & Supplies', 'Student Loan', 'Tuition'],
+  Entertainment: ['Amusement', 'Arts', 'Movies & DVDs', 'Music', 'Newspapers & Magazines'],
+  'Fees & Charges': ['ATM Fee', 'Bank Fee', 'Finance Charge', 'Late Fee', 'Service Fee', 'Trade Commissions'],
+  Financial: ['Financial Advisor', 'Life Insurance'],
+  'Food & Dining': ['Alcohol & Bars', 'Coffee Shops', 'Fast Food', 'Groceries', 'Restaurants'],
+  'Gifts & Donations': ['Charity', 'Gift'],
+  'Health & Fitness': ['Dentist', 'Doctor', 'Eyecare', 'Gym', 'Health Insurance', 'Pharmacy', 'Sports'],
+  Home: ['Furnishings', 'Home Improvement', 'Home Insurance', 'Home Services', 'Home Supplies', 'Lawn & Garden', 'Mortgage & Rent'],
+  Income: ['Bonus', 'Interest Income', 'Paycheck', 'Reimbursement', 'Rental Income', 'Returned Purchase'],
+  Kids: ['Allowance', 'Baby Supplies', 'Babysitter & Daycare', 'Child Support', 'Kids Activities', 'Toys'],
+  'Personal Care': ['Hair', 'Laundry', 'Spa & Massage'],
+  Pets: ['Pet Food & Supplies', 'Pet Grooming', 'Veterinary'],
+  Shopping: ['Books', 'Clothing', 'Electronics & Software', 'Hobbies', 'Sporting Goods'],
+  Taxes: ['Federal Tax', 'Local Tax', 'Property Tax', 'Sales Tax', 'State Tax'],
+  Travel: ['Air Travel', 'Hotel', 'Rental Car & Taxi', 'Vacation'],
+  Loans: ['Loan Fees and Charges', 'Loan Insurance', 'Loan Interest', 'Loan Payment', 'Loan Principal'],
+};
+
+const PARENTS = new Map(
+  Object.entries(MINT_CATEGORIES).flatMap(([parent, children]) =>
+    children.map((child) => [child.toLowerCase(), parent] as [string, string])
+  )
+);
+
+// Both sides of a transfer are exported, one row per account, but neither
+// names the other account
+const TRANSFER_CATEGORIES = ['transfer', 'credit card payment', 'transfer for cash spending'];
+const UNCATEGORIZED = ['', 'uncategorized', 'cash & atm', 'check'];
+
+export function isMintExport(header: string[]): boolean {
+  return ['Original Description', 'Transaction Type', 'Account Name'].every((name) =>
+    header.includes(name)
+  );
+}
+
+export function parseMintCsv(content: string): MigrationData {
+  const records = parseCsvRecords(content);
+  const order = inferDateOrder(records.map((record) => record.Date ?? ''));
+  const transactions: MigrationTransaction[] = [];
+  const issues: string[] = [];
+  const accounts = new Set<string>();
+
+  // Custom categories are not in the tree above; they count as income
+  // when every transaction using them is a credit
+  const debitCategories = new Set(
+    records
+      .filter((record) => record['Transaction Type']?.toLowerCase() === 'debit')
+      .map((record) => (record.Category ?? '').toLowerCase())
+  );
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const account = record['Account Name'];
+    if (!account) {
+      issues.push(`Row ${line}: no account; skipped`);
+      return;
+    }
+
+    let date: string;
+    try {
+      date = parseMigrationDate(record.Date ?? '', order);
+    } catch {
+      issues.push(`Row ${line}: invalid date "${record.Date ?? ''}"; skipped`);
+      return;
+    }
+
+    const magnitude = Math.abs(parseMoney(record.Amount ?? ''));
+    if (isNaN(magnitude)) {
+      issues.push(`Row ${line}: invalid amount "${record.Amount ?? ''}"; skipped`);
+      return;
+    }
+    const amount = record['Transaction Type']?.toLowerCase() === 'debit' ? -magnitude : magnitude;
+
+    accounts.add(account);
+    const name = (record.Category ?? '').trim();
+    const lower = name.toLowerCase();
+    const transfer = TRANSFER_CATEGORIES.includes(lower);
+
+    let category: string[] | null = null;
+    let categoryType: CategoryType | null = null;
+    if (!transfer && !UNCATEGORIZED.includes(lower)) {
+      const parent = PARENTS.get(lower);
+      category = parent ? [parent, name] : [name];
+      categoryType =
+        (parent ?? name) === 'Income' || (!parent && !MINT_CATEGORIES[name] && !debitCategories.has(lower))
+          ? 'income'
+          : 'expense';
+    }
+
+    const memo = [record['Original Description'], record.Notes]
+      .filter((part) => part && part !== record.Description)
+      .join(' - ');
+
+    transactions.push({
+      key: [account, date, record.Description ?? '', record['Original Description'] ?? '', amount.toFixed(2)].join('|'),
+      account,
+      date,
+      payee: record.Description ?? '',
+      memo,
+      amount,
+      refnum: '',
+      category,
+      category_type: categoryType,
+      transfer,
+      transfer_account: null,
+    });
+  });
+
+  return { source: 'mint', accounts: [...accounts], transactions, issues };
+}
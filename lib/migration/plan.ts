@@ -0,0 +1,134 @@
+import { Account, CategoryType, CategoryWithPath } from '@/lib/db/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+import {
+  MigrationData,
+  MigrationPlan,
+  PlannedAccount,
+  PlannedCategory,
+  PlannedTransaction,
+} from './types';
+
+export const MAX_CATEGORY_DEPTH = 3;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PAYEE_LENGTH = 200;
+const MAX_MEMO_LENGTH = 500;
+
+function categoryKey(type: CategoryType, path: string[]): string {
+  return `${type}:${path.join(' > ').toLowerCase()}`;
+}
+
+// Works out which accounts and categories the migration needs, matching
+// existing ones by name so a second run reuses what the first created.
+// Nothing is written; the plan is what the preview shows.
+export function planMigration(
+  data: MigrationData,
+  accounts: Pick<Account, 'id' | 'name'>[],
+  categories: Pick<CategoryWithPath, 'id' | 'path' | 'category_type'>[]
+): MigrationPlan {
+  const issues = [...data.issues];
+  const existingAccounts = new Map(accounts.map((a) => [a.name.trim().toLowerCase(), a.id]));
+  const existingCategories = new Map(
+    categories.map((c) => [categoryKey(c.category_type, c.path.split(' > ')), c.id])
+  );
+
+  const plannedAccounts = new Map<string, PlannedAccount>();
+  const plannedCategories = new Map<string, PlannedCategory>();
+  const folded = new Set<string>();
+  const oneSided = new Set<string>();
+  const occurrences = new Map<string, number>();
+  const transactions: PlannedTransaction[] = [];
+
+  const planAccount = (name: string): PlannedAccount => {
+    const key = name.toLowerCase();
+    let account = plannedAccounts.get(key);
+    if (!account) {
+      account = { name, existing_id: existingAccounts.get(key) ?? null, transactions: 0 };
+      plannedAccounts.set(key, account);
+    }
+    return account;
+  };
+
+  // Creates every missing level of the path and returns the leaf's key.
+  // Deeper paths are folded into their third-level ancestor.
+  const planCategory = (path: string[], type: CategoryType): string => {
+    let names = path.map((name) => name.substring(0, MAX_NAME_LENGTH));
+    if (names.length > MAX_CATEGORY_DEPTH) {
+      const original = names.join(' > ');
+      names = names.slice(0, MAX_CATEGORY_DEPTH);
+      if (!folded.has(original)) {
+        folded.add(original);
+        issues.push(
+          `Category "${original}" is deeper than ${MAX_CATEGORY_DEPTH} levels; mapped to "${names.join(' > ')}"`
+        );
+      }
+    }
+
+    let parentKey: string | null = null;
+    for (let depth = 1; depth <= names.length; depth++) {
+      const levels = names.slice(0, depth);
+      const key = categoryKey(type, levels);
+      if (!plannedCategories.has(key)) {
+        plannedCategories.set(key, {
+          key,
+          name: levels[depth - 1],
+          parent_key: parentKey,
+          path: levels.join(' > '),
+          category_type: type,
+          depth,
+          existing_id: existingCategories.get(key) ?? null,
+        });
+      }
+      parentKey = key;
+    }
+    return parentKey as string;
+  };
+
+  const exported = new Set(data.accounts.map((name) => name.toLowerCase()));
+
+  for (const tx of data.transactions) {
+    const account = planAccount(tx.account.substring(0, MAX_NAME_LENGTH));
+    account.transactions++;
+
+    let comment = tx.memo;
+    let categoryKeyForTx: string | null = null;
+    if (tx.transfer) {
+      const other = tx.transfer_account;
+      comment = other ? `Transfer ${tx.amount < 0 ? 'to' : 'from'} ${other}` : 'Transfer';
+      if (tx.memo) comment += ` - ${tx.memo}`;
+      const otherKey = other?.toLowerCase() ?? '';
+      if (other && !exported.has(otherKey) && !existingAccounts.has(otherKey) && !oneSided.has(otherKey)) {
+        oneSided.add(otherKey);
+        issues.push(
+          `Transfers with "${other}" were imported on one side only; that account is not in the export`
+        );
+      }
+    } else if (tx.category && tx.category.length > 0 && tx.category_type) {
+      categoryKeyForTx = planCategory(tx.category, tx.category_type);
+    }
+
+    const occurrence = (occurrences.get(tx.key) ?? 0) + 1;
+    occurrences.set(tx.key, occurrence);
+
+    transactions.push({
+      account: account.name,
+      category_key: categoryKeyForTx,
+      fitid: createStableFitid(data.source.toUpperCase(), tx.key, occurrence),
+      date: tx.date,
+      payee: (tx.payee || comment).substring(0, MAX_PAYEE_LENGTH),
+      memo: tx.memo.substring(0, MAX_MEMO_LENGTH),
+      comment: comment.substring(0, MAX_MEMO_LENGTH),
+      amount: tx.amount,
+      refnum: tx.refnum,
+      transfer: tx.transfer,
+    });
+  }
+
+  return {
+    source: data.source,
+    accounts: [...plannedAccounts.values()],
+    categories: [...plannedCategories.values()],
+    transactions,
+    issues,
+  };
+}
@@ -0,0 +1,78 @@
+import { CategoryType } from '@/lib/db/types';
+
+export type MigrationSource = 'ynab' | 'mint' | 'gnucash';
+
+export const MIGRATION_SOURCE_LABELS: Record<MigrationSource, string> = {
+  ynab: 'YNAB register CSV',
+  mint: 'Mint CSV',
+  gnucash: 'GnuCash',
+};
+
+// One row of the source app, normalized. Transfers carry the name of the
+// other account instead of a category.
+export interface MigrationTransaction {
+  key: string; // identifies the row within the source, for stable FITIDs
+  account: string;
+  date: string; // YYYY-MM-DD
+  payee: string;
+  memo: string;
+  amount: number;
+  refnum: string;
+  category: string[] | null; // path from the top-level category down
+  category_type: CategoryType | null;
+  transfer: boolean;
+  transfer_account: string | null; // null when the source does not say
+}
+
+export interface MigrationData {
+  source: MigrationSource;
+  accounts: string[];
+  transactions: MigrationTransaction[];
+  issues: string[]; // things the parser could not map
+}
+
+export interface PlannedAccount {
+  name: string;
+  existing_id: number | null;
+  transactions: number;
+}
+
+export interface PlannedCategory {
+  key: string;
+  name: string;
+  parent_key: string | null;
+  path: string;
+  category_type: CategoryType;
+  depth: number;
+  existing_id: number | null;
+}
+
+export interface PlannedTransaction {
+  account: string;
+  category_key: string | null;
+  fitid: string;
+  date: string;
+  payee: string;
+  memo: string;
+  comment: string;
+  amount: number;
+  refnum: string;
+  transfer: boolean;
+}
+
+export interface MigrationPlan {
+  source: MigrationSource;
+  accounts: PlannedAccount[];
+  categories: PlannedCategory[];
+  transactions: PlannedTransaction[];
+  issues: string[];
+}
+
+export interface MigrationReport {
+  source: MigrationSource;
+  accountsCreated: string[];
+  categoriesCreated: string[];
+  imported: number;
+  skipped: number;
+  issues: string[];
+}
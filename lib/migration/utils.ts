@@ -0,0 +1,74 @@
+import { parseCsvRows } from '@/lib/csv/parser';
+
+export type DateOrder = 'MDY' | 'DMY';
+
+// Rows keyed by header name, so exports with reordered or extra columns
+// still parse
+export function parseCsvRecords(content: string): Record<string, string>[] {
+  const rows = parseCsvRows(content);
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  const names = header.map((name) => name.trim());
+  return body
+    .filter((row) => row.some((cell) => cell.trim()))
+    .map((row) => Object.fromEntries(names.map((name, i) => [name, (row[i] ?? '').trim()])));
+}
+
+export function csvHeader(content: string): string[] {
+  const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  return (parseCsvRows(firstLine)[0] ?? []).map((name) => name.trim());
+}
+
+// "$1,234.56", "1.234,56 €", "(12.00)" and "-12" all parse; the last
+// separator followed by one or two digits is the decimal one
+export function parseMoney(value: string): number {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|-$/.test(trimmed.replace(/[^\d.,-]/g, ''));
+  const digits = trimmed.replace(/[^\d.,]/g, '');
+  if (!digits) return NaN;
+
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+  const whole = decimal ? digits.slice(0, -decimal[0].length) : digits;
+  const amount = parseFloat(`${whole.replace(/[.,]/g, '')}.${decimal ? decimal[1] : '0'}`);
+  return negative ? -amount : amount;
+}
+
+function dateParts(value: string): string[] {
+  return value.trim().split(/[/.\-\s]/).filter(Boolean);
+}
+
+// Exports follow the locale of the exporting machine; any day above 12
+// gives the order away
+export function inferDateOrder(values: string[]): DateOrder {
+  for (const value of values) {
+    const parts = dateParts(value);
+    if (parts.length < 3 || parts[0].length === 4) continue;
+    if (Number(parts[0]) > 12) return 'DMY';
+    if (Number(parts[1]) > 12) return 'MDY';
+  }
+  return 'MDY';
+}
+
+export function parseMigrationDate(value: string, order: DateOrder): string {
+  const parts = dateParts(value);
+  if (parts.length < 3) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  let [year, month, day] = parts;
+  if (parts[0].length !== 4) {
+    [month, day, year] = order === 'MDY' ? parts : [parts[1], parts[0], parts[2]];
+  }
+  if (year.length === 2) year = `20${year}`;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number(month) > 12 || Number(day) > 31) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+export function splitCategoryPath(value: string, separator: RegExp): string[] {
+  return value.split(separator).map((part) => part.trim()).filter(Boolean);
+}
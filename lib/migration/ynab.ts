@@ -0,0 +1,92 @@
+import { MigrationData, MigrationTransaction } from './types';
+import { inferDateOrder, parseCsvRecords, parseMigrationDate, parseMoney } from './utils';
+
+// YNAB's register export ("Export budget data" > Register.csv). Amounts are
+// split into Outflow and Inflow columns; transfers have a "Transfer : Account"
+// payee and no category.
+
+const TRANSFER_PAYEE = /^Transfer\s*:\s*(.+)$/;
+
+// Money assigned to the budget rather than spent; YNAB files it under an
+// "Inflow" category that has no counterpart here
+const INFLOW_CATEGORY = /^Inflow:\s*(Ready to Assign|To be Budgeted)$/i;
+
+export function isYnabRegister(header: string[]): boolean {
+  return ['Account', 'Outflow', 'Inflow', 'Payee'].every((name) => header.includes(name));
+}
+
+export function parseYnabRegister(content: string): MigrationData {
+  const records = parseCsvRecords(content);
+  const order = inferDateOrder(records.map((record) => record.Date ?? ''));
+  const transactions: MigrationTransaction[] = [];
+  const issues: string[] = [];
+  const accounts = new Set<string>();
+  let readyToAssign = 0;
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const account = record.Account;
+    if (!account) {
+      issues.push(`Row ${line}: no account; skipped`);
+      return;
+    }
+
+    let date: string;
+    try {
+      date = parseMigrationDate(record.Date ?? '', order);
+    } catch {
+      issues.push(`Row ${line}: invalid date "${record.Date ?? ''}"; skipped`);
+      return;
+    }
+
+    const outflow = record.Outflow ? parseMoney(record.Outflow) : 0;
+    const inflow = record.Inflow ? parseMoney(record.Inflow) : 0;
+    if (isNaN(outflow) || isNaN(inflow)) {
+      issues.push(`Row ${line}: invalid amount; skipped`);
+      return;
+    }
+
+    accounts.add(account);
+    const payee = record.Payee ?? '';
+    const transfer = payee.match(TRANSFER_PAYEE);
+    // Older exports only have the combined "Group: Category" column
+    const group = record['Category Group'] ?? '';
+    const name = record.Category ?? '';
+    const combined = record['Category Group/Category'] ?? '';
+
+    let category: string[] | null = null;
+    if (!transfer && combined && INFLOW_CATEGORY.test(combined)) {
+      readyToAssign++;
+    } else if (!transfer && group && name) {
+      category = [group, name];
+    } else if (!transfer && combined) {
+      const separator = combined.indexOf(':');
+      category =
+        separator === -1
+          ? [combined]
+          : [combined.substring(0, separator).trim(), combined.substring(separator + 1).trim()];
+    }
+
+    transactions.push({
+      key: [account, date, payee, record.Memo ?? '', record.Outflow ?? '', record.Inflow ?? ''].join('|'),
+      account,
+      date,
+      payee,
+      memo: record.Memo ?? '',
+      amount: Math.round((inflow - outflow) * 100) / 100,
+      refnum: '',
+      category,
+      category_type: category ? 'expense' : null,
+      transfer: !!transfer,
+      transfer_account: transfer ? transfer[1].trim() : null,
+    });
+  });
+
+  if (readyToAssign > 0) {
+    issues.push(
+      `${readyToAssign} inflow(s) to "Ready to Assign" have no matching category; imported uncategorized`
+    );
+  }
+
+  return { source: 'ynab', accounts: [...accounts], transactions, issues };
+}
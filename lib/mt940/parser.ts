@@ -0,0 +1,236 @@
+import { OfxBalance, OfxTransaction, ParsedOfxImport } from '@/lib/ofx/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+
+// SWIFT MT940 customer statements. A file holds one or more messages, each
+// a list of ":tag:value" fields; :61: lines are transactions and the :86:
+// that follows describes them.
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// :61: value date, optional entry date, (R)C/(R)D mark, optional funds
+// code, amount, transaction type, customer reference, //bank reference and
+// supplementary details on the next line
+const STATEMENT_LINE =
+  /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// Keywords of the Dutch "/NAME/.../REMI/..." :86: layout
+const DESCRIPTION_KEYS = 'NAME|REMI|EREF|TRTP|IBAN|BIC|CSID|MARF';
+const DESCRIPTION_FIELD = new RegExp(
+  `/(${DESCRIPTION_KEYS})/(.*?)(?=/(?:${DESCRIPTION_KEYS})/|$)`,
+  'g'
+);
+
+// :60F:, :62F:, :64: etc.: credit/debit mark, date, currency, amount
+const BALANCE_LINE = /^([CD])(\d{6})([A-Z]{3})(\d+(?:,\d*)?)/;
+
+function parseMt940Date(value: string): string {
+  const year = Number(value.substring(0, 2));
+  return `${year < 80 ? 2000 + year : 1900 + year}-${value.substring(2, 4)}-${value.substring(4, 6)}`;
+}
+
+function parseMt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+// The entry date carries no year; it is taken from the value date, moved
+// across New Year when the two straddle it
+function parseEntryDate(valueDate: string, entryDate: string): string {
+  const [year, month] = valueDate.split('-').map(Number);
+  const entryMonth = Number(entryDate.substring(0, 2));
+  let entryYear = year;
+  if (month === 12 && entryMonth === 1) entryYear++;
+  if (month === 1 && entryMonth === 12) entryYear--;
+  return `${entryYear}-${entryDate.substring(0, 2)}-${entryDate.substring(2, 4)}`;
+}
+
+function parseBalance(value: string | undefined): OfxBalance | null {
+  const match = value?.match(BALANCE_LINE);
+  if (!match) return null;
+  const amount = parseMt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, asOf: parseMt940Date(match[2]) };
+}
+
+function splitFields(message: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const line of message.split(/\r?\n/)) {
+    const tag = line.match(/^:(\d{2}[A-Z]?):/);
+    if (tag) {
+      fields.push({ tag: tag[1], value: line.substring(tag[0].length) });
+    } else if (fields.length > 0 && line.trim() && line.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+interface Description {
+  payee: string;
+  memo: string;
+}
+
+// German banks structure :86: as "GVC?00posting text?20remittance...?32name";
+// Dutch banks as "/NAME/.../REMI/...". Anything else is kept as free text.
+function parseDescription(value: string): Description {
+  const flat = value.replace(/\n/g, '');
+
+  if (/^\d{3}\?/.test(flat)) {
+    const subfields: Record<string, string> = {};
+    for (const part of flat.substring(4).split('?')) {
+      const code = part.substring(0, 2);
+      subfields[code] = (subfields[code] ?? '') + part.substring(2);
+    }
+    const pick = (codes: string[]) =>
+      codes.map((code) => subfields[code]).filter(Boolean).join('');
+    return {
+      payee: pick(['32', '33']).trim(),
+      memo: (
+        pick(['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']) ||
+        subfields['00'] ||
+        ''
+      ).trim(),
+    };
+  }
+
+  if (flat.startsWith('/')) {
+    const values: Record<string, string> = {};
+    let match;
+    while ((match = DESCRIPTION_FIELD.exec(flat)) !== null) {
+      values[match[1]] = match[2].trim();
+    }
+    return {
+      payee: values.NAME ?? '',
+      memo: values.REMI ?? values.TRTP ?? flat,
+    };
+  }
+
+  return { payee: '', memo: value.replace(/\n/g, ' ').trim() };
+}
+
+function reference(value: string | undefined): string {
+  const trimmed = (value ?? '').trim();
+  return trimmed && trimmed !== 'NONREF' ? trimmed : '';
+}
+
+// Occurrences are counted per file, so identical transactions on two pages
+// of the same statement still get distinct FITIDs
+function parseMessage(fields: Mt940Field[], occurrences: Map<string, number>): ParsedOfxImport {
+  const accountField = fields.find((field) => field.tag === '25')?.value.trim() ?? '';
+  // "BLZ/account" for German banks, otherwise an IBAN or account number
+  const [bankId, accountId] = accountField.includes('/')
+    ? accountField.split('/', 2)
+    : ['', accountField];
+
+  const transactions: OfxTransaction[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return;
+
+    const match = field.value.match(STATEMENT_LINE);
+    if (!match) {
+      throw new Error(`Invalid MT940 statement line: ${field.value}`);
+    }
+    const [, valueDate, entryDate, mark, , amountStr, , customerRef, bankRef, supplementary] = match;
+
+    const value = parseMt940Date(valueDate);
+    const date = entryDate ? parseEntryDate(value, entryDate) : value;
+    const magnitude = parseMt940Amount(amountStr);
+    // RC reverses a credit (money out), RD reverses a debit (money in)
+    const amount = mark === 'D' || mark === 'RC' ? -magnitude : magnitude;
+
+    const next = fields[index + 1];
+    const description =
+      next?.tag === '86'
+        ? parseDescription(next.value)
+        : { payee: '', memo: (supplementary ?? '').trim() };
+    const refnum = reference(bankRef) || reference(customerRef);
+
+    const key = [
+      accountField,
+      date,
+      amount.toFixed(2),
+      refnum,
+      description.payee,
+      description.memo,
+    ].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    transactions.push({
+      fitid: createStableFitid('MT940', key, occurrence),
+      refnum,
+      memo: description.memo,
+      payee: description.payee || null,
+      cleanedMemo: description.memo,
+      date,
+      amount,
+      type: amount >= 0 ? 'CREDIT' : 'DEBIT',
+    });
+  });
+
+  const lastValue = (tags: string[]) =>
+    [...fields].reverse().find((field) => tags.includes(field.tag))?.value;
+  const opening = parseBalance(fields.find((field) => ['60F', '60M'].includes(field.tag))?.value);
+  const closing = parseBalance(lastValue(['62F', '62M']));
+  const dates = transactions.map((t) => t.date).sort();
+
+  return {
+    statementType: 'BANK',
+    account: { bankId, accountId, type: 'CHECKING' },
+    dateRange: {
+      start: dates[0] ?? opening?.asOf ?? '',
+      end: closing?.asOf ?? dates[dates.length - 1] ?? '',
+    },
+    transactions,
+    ledgerBalance: closing,
+    availableBalance: parseBalance(lastValue(['64'])),
+  };
+}
+
+export function isMt940Statement(content: string): boolean {
+  return /^:20:/m.test(content) && /^:(60[FM]|61):/m.test(content);
+}
+
+export function parseMt940File(content: string): ParsedOfxImport[] {
+  // SWIFT envelopes wrap the message text in {4: ... -}
+  const body = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\{[1-3]:[^}]*\}/g, '')
+    .replace(/\{4:|-\}/g, '');
+
+  const messages: Mt940Field[][] = [];
+  for (const field of splitFields(body)) {
+    if (field.tag === '20' || messages.length === 0) messages.push([]);
+    messages[messages.length - 1].push(field);
+  }
+
+  const occurrences = new Map<string, number>();
+  const statements = messages
+    .filter((fields) => fields.some((field) => field.tag === '25'))
+    .map((fields) => parseMessage(fields, occurrences));
+  if (statements.length === 0) {
+    throw new Error('No statements found in MT940 file');
+  }
+
+  // Banks split long statements into several messages (:28C: page numbers);
+  // pages of the same account are joined back into one statement
+  const merged = new Map<string, ParsedOfxImport>();
+  for (const statement of statements) {
+    const key = `${statement.account.bankId}/${statement.account.accountId}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, statement);
+      continue;
+    }
+    existing.transactions.push(...statement.transactions);
+    existing.dateRange = {
+      start: [existing.dateRange.start, statement.dateRange.start].filter(Boolean).sort()[0] ?? '',
+      end: [existing.dateRange.end, statement.dateRange.end].filter(Boolean).sort().pop() ?? '',
+    };
+    existing.ledgerBalance = statement.ledgerBalance ?? existing.ledgerBalance;
+    existing.availableBalance = statement.availableBalance ?? existing.availableBalance;
+  }
+  return [...merged.values()];
+}
@@ -0,0 +1,140 @@
+// OFX 1.x files declare their character set in the SGML header
+// (ENCODING:USASCII + CHARSET:1252), OFX 2.x in the XML declaration.
+// Brazilian banks mostly send Windows-1252, so reading the bytes as UTF-8
+// mangles accented payees.
+
+export type StatementEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export const STATEMENT_ENCODINGS: { value: StatementEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export type EncodingSource = 'bom' | 'header' | 'content' | 'manual';
+
+export interface DecodedStatement {
+  content: string;
+  encoding: StatementEncoding;
+  source: EncodingSource;
+}
+
+const CHARSETS: Record<string, StatementEncoding> = {
+  '1252': 'windows-1252',
+  'WINDOWS-1252': 'windows-1252',
+  'CP1252': 'windows-1252',
+  'ISO-8859-1': 'iso-8859-1',
+  '8859-1': 'iso-8859-1',
+  'LATIN1': 'iso-8859-1',
+  'ISO-LATIN-1': 'iso-8859-1',
+  'UTF-8': 'utf-8',
+  'UTF8': 'utf-8',
+  'UTF-16': 'utf-16le',
+  'UTF-16LE': 'utf-16le',
+  'UTF-16BE': 'utf-16be',
+};
+
+// Code points for bytes 0x80-0x9F, where Windows-1252 differs from Latin-1.
+// Browsers decode ISO-8859-1 labels the same way; Node's TextDecoder does
+// not, so single-byte files are decoded here for both.
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x0081, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021,
+  0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x008d, 0x017d, 0x008f,
+  0x0090, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x009d, 0x017e, 0x0178,
+];
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x2000) {
+    const codes = Array.from(bytes.subarray(i, i + 0x2000), (byte) =>
+      byte >= 0x80 && byte < 0xa0 ? WINDOWS_1252_HIGH[byte - 0x80] : byte
+    );
+    result += String.fromCharCode(...codes);
+  }
+  return result;
+}
+
+function decodeBytes(bytes: Uint8Array, encoding: StatementEncoding): string {
+  return encoding === 'windows-1252' || encoding === 'iso-8859-1'
+    ? decodeWindows1252(bytes)
+    : new TextDecoder(encoding).decode(bytes);
+}
+
+// Large enough for the SGML header or XML declaration, both of which are
+// plain ASCII and come before any payee text
+const HEADER_BYTES = 1024;
+
+function detectBom(bytes: Uint8Array): { encoding: StatementEncoding; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+  return null;
+}
+
+function normalizeCharset(value: string): StatementEncoding | null {
+  return CHARSETS[value.trim().toUpperCase()] ?? null;
+}
+
+// Returns the encoding named by the OFX header, or null when the header is
+// missing or leaves it open (CHARSET:NONE)
+export function detectHeaderEncoding(header: string): StatementEncoding | null {
+  const xmlDeclaration = header.match(/<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i);
+  if (xmlDeclaration) return normalizeCharset(xmlDeclaration[1]);
+
+  const encoding = header.match(/^\s*ENCODING:\s*(\S+)/im)?.[1].toUpperCase();
+  const charset = header.match(/^\s*CHARSET:\s*(\S+)/im)?.[1];
+
+  // OFX 1.x uses UNICODE for UTF-8; CHARSET only matters with USASCII
+  if (encoding === 'UTF-8' || encoding === 'UNICODE') return 'utf-8';
+  if (charset) return normalizeCharset(charset);
+  return null;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasNonAscii(bytes: Uint8Array): boolean {
+  return bytes.some((byte) => byte > 0x7f);
+}
+
+export function decodeStatementFile(
+  data: ArrayBuffer | Uint8Array,
+  override?: StatementEncoding
+): DecodedStatement {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const bom = detectBom(bytes);
+  const body = bom ? bytes.subarray(bom.length) : bytes;
+
+  const decode = (encoding: StatementEncoding, source: EncodingSource): DecodedStatement => ({
+    content: decodeBytes(body, encoding),
+    encoding,
+    source,
+  });
+
+  if (override) return decode(override, 'manual');
+  if (bom) return decode(bom.encoding, 'bom');
+
+  const header = decodeWindows1252(bytes.subarray(0, HEADER_BYTES));
+  const declared = detectHeaderEncoding(header);
+  const utf8 = isValidUtf8(bytes);
+
+  if (declared === 'utf-8' && utf8) return decode('utf-8', 'header');
+  // Some banks keep the 1252 header while exporting UTF-8; multi-byte
+  // sequences that decode cleanly are almost never meant as 1252 text
+  if (declared && declared !== 'utf-8' && !(utf8 && hasNonAscii(bytes))) {
+    return decode(declared, 'header');
+  }
+
+  return decode(utf8 ? 'utf-8' : 'windows-1252', 'content');
+}
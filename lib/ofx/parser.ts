@@ -1,6 +1,17 @@
 import { parse as parseOfx } from 'ofx-parser';
-import { ParsedOfxImport, OfxTransaction } from './types';
-import { extractPayeeFromMemo } from './utils';
+import {
+  ParsedOfxImport,
+  OfxBalance,
+  OfxStatementType,
+  OfxTransaction,
+  PayeeRuleDefinition,
+} from './types';
+import { applyPayeeRules } from './payee-rules';
+
+export interface OfxParseOptions {
+  // Ordered memo rules; the built-in CPF/CNPJ extraction is the fallback
+  payeeRules?: PayeeRuleDefinition[];
+}
 
 function parseOfxDate(dateStr: string | Date): string {
   const dateString = dateStr instanceof Date ? dateStr.toISOString() : String(dateStr);
@@ -16,6 +27,14 @@ function parseAmount(amountStr: string | number): number {
   return typeof amountStr === 'number' ? amountStr : parseFloat(amountStr);
 }
 
+function parseBalance(balance: unknown): OfxBalance | null {
+  const bal = balance as Record<string, string | number> | undefined;
+  if (!bal || bal.BALAMT === undefined || !bal.DTASOF) return null;
+
+  const amount = parseAmount(bal.BALAMT);
+  return isNaN(amount) ? null : { amount, asOf: parseOfxDate(String(bal.DTASOF)) };
+}
+
 function getOfxValue(obj: Record<string, unknown>, path: string): unknown {
   const parts = path.split('.');
   let current: unknown = obj;
@@ -29,20 +48,33 @@ function getOfxValue(obj: Record<string, unknown>, path: string): unknown {
   return current;
 }
 
-export async function parseOfxFile(content: string): Promise<ParsedOfxImport> {
-  const ofx = await parseOfx(content);
+// Bank and credit card statements share the transaction list layout but
+// live under different message sets and account aggregates. A message set
+// may hold several statement responses (e.g. checking and savings).
+const STATEMENT_LOCATIONS: {
+  type: OfxStatementType;
+  path: string;
+  statement: string;
+  accountFrom: string;
+}[] = [
+  { type: 'BANK', path: 'BANKMSGSRSV1.STMTTRNRS', statement: 'STMTRS', accountFrom: 'BANKACCTFROM' },
+  { type: 'CREDITCARD', path: 'CREDITCARDMSGSRSV1.CCSTMTTRNRS', statement: 'CCSTMTRS', accountFrom: 'CCACCTFROM' },
+];
 
-  const bankMsgs = getOfxValue(ofx.OFX, 'BANKMSGSRSV1.STMTTRNRS.STMTRS') as Record<string, unknown> | undefined;
-  
-  if (!bankMsgs) {
-    throw new Error('No statement found in OFX file');
-  }
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
 
-  const bankAcctFrom = getOfxValue(bankMsgs, 'BANKACCTFROM') as Record<string, string> | undefined;
-  const stmt = getOfxValue(bankMsgs, 'BANKTRANLIST.STMTTRN') as unknown[];
-  const dateRange = getOfxValue(bankMsgs, 'BANKTRANLIST') as Record<string, string> | undefined;
+function parseStatement(
+  statement: Record<string, unknown>,
+  location: (typeof STATEMENT_LOCATIONS)[number],
+  payeeRules: PayeeRuleDefinition[]
+): ParsedOfxImport {
+  const acctFrom = getOfxValue(statement, location.accountFrom) as Record<string, string> | undefined;
+  const stmt = getOfxValue(statement, 'BANKTRANLIST.STMTTRN') as unknown[] | undefined;
+  const dateRange = getOfxValue(statement, 'BANKTRANLIST') as Record<string, string> | undefined;
 
-  const transactions: OfxTransaction[] = (Array.isArray(stmt) ? stmt : stmt ? [stmt] : []).map(
+  const transactions: OfxTransaction[] = toArray(stmt).map(
     (tx: unknown) => {
       const txObj = tx as Record<string, unknown>;
       const trnType = String(txObj.TRNTYPE || 'DEBIT');
@@ -54,7 +86,11 @@ export async function parseOfxFile(content: string): Promise<ParsedOfxImport> {
       const amount = parseAmount(txObj.TRNAMT as string | number);
       const refnum = String(txObj.REFNUM || cleanFitid);
       const memo = String(txObj.MEMO || '');
-      const { payee: extractedPayee, cleanedMemo } = extractPayeeFromMemo(memo);
+      const { payee: extractedPayee, cleanedMemo } = applyPayeeRules(
+        memo,
+        payeeRules,
+        acctFrom?.BANKID
+      );
 
       return {
         fitid: cleanFitid,
@@ -70,15 +106,54 @@ export async function parseOfxFile(content: string): Promise<ParsedOfxImport> {
   );
 
   return {
+    statementType: location.type,
     account: {
-      bankId: bankAcctFrom?.BANKID || '',
-      accountId: bankAcctFrom?.ACCTID || '',
-      type: bankAcctFrom?.ACCTTYPE || 'CHECKING',
+      bankId: acctFrom?.BANKID || '',
+      accountId: acctFrom?.ACCTID || '',
+      type: acctFrom?.ACCTTYPE || (location.type === 'CREDITCARD' ? 'CREDITLINE' : 'CHECKING'),
     },
     dateRange: {
       start: dateRange?.DTSTART ? parseOfxDate(dateRange.DTSTART) : '',
       end: dateRange?.DTEND ? parseOfxDate(dateRange.DTEND) : '',
     },
     transactions,
+    ledgerBalance: parseBalance(getOfxValue(statement, 'LEDGERBAL')),
+    availableBalance: parseBalance(getOfxValue(statement, 'AVAILBAL')),
   };
-}
\ No newline at end of file
+}
+
+export async function parseOfxStatements(
+  content: string,
+  options: OfxParseOptions = {}
+): Promise<ParsedOfxImport[]> {
+  const ofx = await parseOfx(content);
+  const statements: ParsedOfxImport[] = [];
+
+  for (const location of STATEMENT_LOCATIONS) {
+    const responses = toArray(
+      getOfxValue(ofx.OFX, location.path) as Record<string, unknown> | Record<string, unknown>[] | undefined
+    );
+    for (const response of responses) {
+      const statement = getOfxValue(response, location.statement) as Record<string, unknown> | undefined;
+      if (statement) {
+        statements.push(parseStatement(statement, location, options.payeeRules ?? []));
+      }
+    }
+  }
+
+  if (statements.length === 0) {
+    throw new Error('No statement found in OFX file');
+  }
+
+  return statements;
+}
+
+// Returns the first statement of the file; use parseOfxStatements for files
+// carrying several accounts
+export async function parseOfxFile(
+  content: string,
+  options: OfxParseOptions = {}
+): Promise<ParsedOfxImport> {
+  const [statement] = await parseOfxStatements(content, options);
+  return statement;
+}
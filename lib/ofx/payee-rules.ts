@@ -0,0 +1,72 @@
+import { PayeeRuleDefinition } from './types';
+import { extractPayeeFromMemo, normalizeIdentifier, PayeeExtractionResult } from './utils';
+
+export interface PayeeRuleResult<T extends PayeeRuleDefinition> extends PayeeExtractionResult {
+  rule: T | null; // null when the built-in CPF/CNPJ extraction was used
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function validatePayeePattern(rule: Pick<PayeeRuleDefinition, 'match_type' | 'pattern'>): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is required';
+  if (rule.match_type !== 'regex') return null;
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (error) {
+    return `Invalid regular expression: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+// Returns null when the rule does not match or yields no payee
+export function applyPayeeRule(
+  memo: string,
+  rule: PayeeRuleDefinition
+): PayeeExtractionResult | null {
+  if (rule.match_type === 'prefix') {
+    if (!memo.toUpperCase().startsWith(rule.pattern.toUpperCase())) return null;
+    const payee = collapse(memo.substring(rule.pattern.length));
+    return payee ? { payee, cleanedMemo: collapse(memo.substring(0, rule.pattern.length)) } : null;
+  }
+
+  if (validatePayeePattern(rule)) return null;
+  const match = new RegExp(rule.pattern, 'i').exec(memo);
+  if (!match) return null;
+
+  const rawPayee = match[rule.payee_group] ?? '';
+  const payee = collapse(rawPayee);
+  if (!payee) return null;
+
+  if (rule.memo_group !== null) {
+    return { payee, cleanedMemo: collapse(match[rule.memo_group] ?? '') };
+  }
+
+  // Without a memo group the payee text is taken out of the memo
+  const start = memo.indexOf(rawPayee, match.index);
+  return {
+    payee,
+    cleanedMemo: collapse(memo.substring(0, start) + memo.substring(start + rawPayee.length)),
+  };
+}
+
+// Tries the rules in order (disabled rules and rules for other banks are
+// skipped) and falls back to the built-in CPF/CNPJ extraction
+export function applyPayeeRules<T extends PayeeRuleDefinition & { enabled?: boolean }>(
+  memo: string,
+  rules: T[],
+  bankId?: string
+): PayeeRuleResult<T> {
+  const statementBank = normalizeIdentifier(bankId);
+
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+    if (rule.bank_id && normalizeIdentifier(rule.bank_id) !== statementBank) continue;
+
+    const result = applyPayeeRule(memo, rule);
+    if (result) return { ...result, rule };
+  }
+
+  return { ...extractPayeeFromMemo(memo), rule: null };
+}
@@ -7,6 +7,10 @@ export interface OfxTransaction {
   date: string; // YYYY-MM-DD
   amount: number; // positive = credit, negative = debit
   type: 'CREDIT' | 'DEBIT';
+  categoryHint?: string | null; // source category name, e.g. QIF "L" field
+  categoryId?: number | null; // category picked in the import preview
+  mergeIntoId?: number | null; // hand-entered transaction this row duplicates
+  skipRules?: boolean; // category rules neither rename nor categorize it
 }
 
 export interface OfxAccount {
@@ -20,8 +24,30 @@ export interface OfxDateRange {
   end: string;
 }
 
+export interface OfxBalance {
+  amount: number;
+  asOf: string; // YYYY-MM-DD
+}
+
+export type PayeeRuleMatchType = 'regex' | 'prefix';
+
+// A memo rule as configured in Settings. Regex rules take the payee from a
+// capture group; prefix rules take everything after the prefix.
+export interface PayeeRuleDefinition {
+  bank_id: string | null; // only applies to statements from this bank when set
+  match_type: PayeeRuleMatchType;
+  pattern: string;
+  payee_group: number;
+  memo_group: number | null;
+}
+
+export type OfxStatementType = 'BANK' | 'CREDITCARD';
+
 export interface ParsedOfxImport {
+  statementType: OfxStatementType;
   account: OfxAccount;
   dateRange: OfxDateRange;
   transactions: OfxTransaction[];
+  ledgerBalance?: OfxBalance | null; // LEDGERBAL, the booked balance
+  availableBalance?: OfxBalance | null; // AVAILBAL
 }
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { Account } from '@/lib/db/types';
+import { OfxAccount } from './types';
+
 export interface PayeeExtractionResult {
   payee: string | null;
   cleanedMemo: string;
@@ -44,4 +47,46 @@ export function extractPayeeFromMemo(memo: string): PayeeExtractionResult {
     payee: afterNumber,
     cleanedMemo: beforeNumber,
   };
-}
\ No newline at end of file
+}
+
+// FNV-1a hash, used to derive stable FITIDs for formats which have none.
+// Identical rows on the same day are legitimate (two coffees), so callers
+// pass the occurrence count of the row's key.
+export function createStableFitid(prefix: string, key: string, occurrence: number): string {
+  const value = `${key}|${occurrence}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${prefix}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+type AccountIdentifiers = Pick<Account, 'ofx_bank_id' | 'ofx_account_id'>;
+
+export function normalizeIdentifier(value: string | null | undefined): string {
+  return (value || '').replace(/[^0-9a-z]/gi, '').replace(/^0+/, '').toUpperCase();
+}
+
+// Finds the account linked to a statement's BANKACCTFROM/CCACCTFROM. Banks
+// format account numbers inconsistently ("12345-6" vs "0123456"), so
+// punctuation and leading zeros are ignored.
+export function findMatchingAccount<T extends AccountIdentifiers>(
+  ofxAccount: OfxAccount,
+  accounts: T[]
+): T | null {
+  const accountId = normalizeIdentifier(ofxAccount.accountId);
+  if (!accountId) return null;
+
+  const bankId = normalizeIdentifier(ofxAccount.bankId);
+  const candidates = accounts.filter((account) => {
+    if (normalizeIdentifier(account.ofx_account_id) !== accountId) return false;
+    const accountBankId = normalizeIdentifier(account.ofx_bank_id);
+    return !bankId || !accountBankId || accountBankId === bankId;
+  });
+
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  // Prefer the account whose bank id was recorded explicitly
+  return candidates.find((account) => normalizeIdentifier(account.ofx_bank_id) === bankId) ?? null;
+}
@@ -0,0 +1,190 @@
+import { ParsedOfxImport, OfxTransaction } from '@/lib/ofx/types';
+import { createStableFitid } from '@/lib/ofx/utils';
+
+export type QifDateOrder = 'MDY' | 'DMY';
+
+export interface QifParseOptions {
+  // Quicken writes dates in the locale of the exporting machine. When not
+  // given, the order is inferred from the file (any day > 12 gives it away).
+  dateOrder?: QifDateOrder;
+}
+
+type QifRecord = Record<string, string>;
+
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+const ACCOUNT_TYPES: Record<string, string> = {
+  bank: 'CHECKING',
+  cash: 'CASH',
+  ccard: 'CREDITLINE',
+  'oth a': 'OTHER',
+  'oth l': 'OTHER',
+};
+
+function splitDateParts(dateStr: string): string[] {
+  return dateStr
+    .replace(/'/g, '/')
+    .replace(/\s+/g, '')
+    .split(/[/.-]/)
+    .filter(Boolean);
+}
+
+function inferDateOrder(records: QifRecord[]): QifDateOrder {
+  for (const record of records) {
+    const parts = splitDateParts(record.D || '');
+    if (parts.length !== 3 || parts[0].length === 4) continue;
+    if (Number(parts[0]) > 12) return 'DMY';
+    if (Number(parts[1]) > 12) return 'MDY';
+  }
+  return 'MDY';
+}
+
+function parseQifDate(dateStr: string, order: QifDateOrder): string {
+  const parts = splitDateParts(dateStr);
+  if (parts.length !== 3) {
+    throw new Error(`Invalid QIF date format: ${dateStr}`);
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (parts[0].length === 4) {
+    [year, month, day] = parts.map(Number);
+  } else if (order === 'DMY') {
+    [day, month, year] = parts.map(Number);
+  } else {
+    [month, day, year] = parts.map(Number);
+  }
+
+  if (parts[0].length !== 4 && parts[2].length <= 2) {
+    // Two-digit years: Quicken's "'" separator and the usual pivot both
+    // place 00-49 in the 2000s
+    year += year < 50 ? 2000 : 1900;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid QIF date format: ${dateStr}`);
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseQifAmount(amountStr: string): number {
+  let text = amountStr.replace(/\s+/g, '');
+  // "1.234,56" uses a comma as decimal separator
+  if (text.lastIndexOf(',') > text.lastIndexOf('.')) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) {
+    throw new Error(`Invalid QIF amount: ${amountStr}`);
+  }
+  return amount;
+}
+
+function parseCategoryHint(category: string | undefined): string | null {
+  if (!category) return null;
+  // "[Savings]" is a transfer to another account, not a category
+  if (category.startsWith('[')) return null;
+  // "Food:Groceries/Vacation" carries a class after the slash
+  const name = category.split('/')[0].trim();
+  return name || null;
+}
+
+export function parseQifFile(content: string, options: QifParseOptions = {}): ParsedOfxImport {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const records: QifRecord[] = [];
+  let section: string | null = null;
+  let accountName = '';
+  let accountType = '';
+  let current: QifRecord = {};
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      if (header.startsWith('!type:')) {
+        section = header.substring(6).trim();
+        if (TRANSACTION_TYPES.includes(section) && !accountType) {
+          accountType = section;
+        }
+      } else if (header === '!account') {
+        section = 'account';
+      }
+      // !Option and !Clear lines only toggle Quicken settings
+      current = {};
+      continue;
+    }
+
+    if (line === '^') {
+      if (section === 'account') {
+        accountName = current.N || accountName;
+        if (current.T) accountType = current.T.toLowerCase();
+      } else if (section && TRANSACTION_TYPES.includes(section) && current.D) {
+        records.push(current);
+      }
+      current = {};
+      continue;
+    }
+
+    const code = line[0];
+    const value = line.substring(1).trim();
+    // Split lines (S/E/$) repeat; only the first category of a split is kept
+    if (!(code in current)) {
+      current[code] = value;
+    }
+  }
+
+  if (!accountType && records.length === 0) {
+    throw new Error('No transactions found in QIF file');
+  }
+
+  const dateOrder = options.dateOrder ?? inferDateOrder(records);
+  const occurrences = new Map<string, number>();
+
+  const transactions: OfxTransaction[] = records.map((record) => {
+    const date = parseQifDate(record.D, dateOrder);
+    const amount = parseQifAmount(record.T ?? record.U ?? '0');
+    const payee = record.P || '';
+    const memo = record.M || '';
+    const checkNumber = record.N || '';
+
+    const key = [date, amount.toFixed(2), payee, memo, checkNumber].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return {
+      fitid: createStableFitid('QIF', key, occurrence),
+      refnum: checkNumber,
+      memo,
+      payee: payee || null,
+      cleanedMemo: memo,
+      date,
+      amount,
+      type: amount >= 0 ? 'CREDIT' : 'DEBIT',
+      categoryHint: parseCategoryHint(record.L ?? record.S),
+    };
+  });
+
+  const dates = transactions.map((t) => t.date).sort();
+
+  return {
+    statementType: accountType === 'ccard' ? 'CREDITCARD' : 'BANK',
+    account: {
+      bankId: '',
+      accountId: accountName,
+      type: ACCOUNT_TYPES[accountType] || 'CHECKING',
+    },
+    dateRange: {
+      start: dates[0] ?? '',
+      end: dates[dates.length - 1] ?? '',
+    },
+    transactions,
+  };
+}
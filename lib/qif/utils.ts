@@ -0,0 +1,37 @@
+import { CategoryWithPath } from '@/lib/db/types';
+
+function normalizePath(path: string): string[] {
+  return path
+    .split(/\s*(?::|>)\s*/)
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Maps a QIF-style category name ("Food:Groceries") onto our category tree
+// ("Food > Groceries"). Falls back to a unique suffix or leaf-name match so
+// "Groceries" still lands on "Expenses > Food > Groceries".
+export function matchCategoryHint(
+  hint: string | null | undefined,
+  categories: CategoryWithPath[]
+): CategoryWithPath | null {
+  if (!hint) return null;
+
+  const wanted = normalizePath(hint);
+  if (wanted.length === 0) return null;
+
+  const wantedPath = wanted.join(' > ');
+  const paths = categories.map((category) => ({
+    category,
+    path: normalizePath(category.path).join(' > '),
+  }));
+
+  const exact = paths.find((p) => p.path === wantedPath);
+  if (exact) return exact.category;
+
+  const suffixMatches = paths.filter((p) => p.path.endsWith(` > ${wantedPath}`));
+  if (suffixMatches.length === 1) return suffixMatches[0].category;
+
+  const leaf = wanted[wanted.length - 1];
+  const leafMatches = categories.filter((c) => c.name.trim().toLowerCase() === leaf);
+  return leafMatches.length === 1 ? leafMatches[0] : null;
+}
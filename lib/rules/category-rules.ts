@@ -0,0 +1,121 @@
+import { CategoryRuleDefinition, PayeeMatchType, RuleTarget } from './types';
+
+export interface CategoryRuleMatch<T extends CategoryRuleDefinition> {
+  rule: T;
+  category_id: number;
+  payee: string;
+}
+
+export function validatePayeeCondition(
+  matchType: PayeeMatchType | null,
+  pattern: string | null
+): string | null {
+  if (!matchType) return null;
+  if (!pattern) return 'Payee pattern is required';
+  if (matchType !== 'regex') return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return `Invalid regular expression: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+function matchesPayee(rule: CategoryRuleDefinition, target: RuleTarget): boolean {
+  if (!rule.payee_match_type || !rule.payee_pattern) return true;
+
+  const text = (target.payee || target.memo || '').trim();
+  const pattern = rule.payee_pattern.trim();
+
+  switch (rule.payee_match_type) {
+    case 'equals':
+      return text.toLowerCase() === pattern.toLowerCase();
+    case 'contains':
+      return text.toLowerCase().includes(pattern.toLowerCase());
+    case 'regex':
+      if (validatePayeeCondition('regex', rule.payee_pattern)) return false;
+      return new RegExp(rule.payee_pattern, 'i').test(text);
+  }
+}
+
+export function matchesCategoryRule(rule: CategoryRuleDefinition, target: RuleTarget): boolean {
+  if (rule.account_id !== null && rule.account_id !== target.account_id) return false;
+  if (rule.amount_min !== null && target.amount < parseFloat(rule.amount_min)) return false;
+  if (rule.amount_max !== null && target.amount > parseFloat(rule.amount_max)) return false;
+  return matchesPayee(rule, target);
+}
+
+// First enabled matching rule wins, like the payee rules
+export function applyCategoryRules<T extends CategoryRuleDefinition & { enabled?: boolean }>(
+  target: RuleTarget,
+  rules: T[]
+): CategoryRuleMatch<T> | null {
+  const rule = rules.find(
+    (candidate) => candidate.enabled !== false && matchesCategoryRule(candidate, target)
+  );
+  if (!rule) return null;
+
+  return {
+    rule,
+    category_id: rule.category_id,
+    payee: rule.rename_payee || target.payee,
+  };
+}
+
+export interface CategoryRuleChange {
+  transaction_id: number;
+  account_id: number;
+  date: string;
+  amount: string;
+  payee: string;
+  new_payee: string;
+  category_id: number | null;
+  new_category_id: number;
+  rule_name: string;
+}
+
+interface RuleCandidate {
+  id: number;
+  account_id: number;
+  date: string;
+  amount: string;
+  payee: string;
+  comment: string | null;
+  ofx_memo: string | null;
+  category_id: number | null;
+}
+
+// What re-running the rules would change; untouched transactions are left out
+export function computeCategoryRuleChanges<
+  T extends CategoryRuleDefinition & { enabled?: boolean; name: string },
+>(transactions: RuleCandidate[], rules: T[]): CategoryRuleChange[] {
+  const changes: CategoryRuleChange[] = [];
+
+  for (const tx of transactions) {
+    const match = applyCategoryRules(
+      {
+        account_id: tx.account_id,
+        payee: tx.payee,
+        memo: tx.ofx_memo || tx.comment,
+        amount: parseFloat(tx.amount),
+      },
+      rules
+    );
+    if (!match) continue;
+    if (match.category_id === tx.category_id && match.payee === tx.payee) continue;
+
+    changes.push({
+      transaction_id: tx.id,
+      account_id: tx.account_id,
+      date: tx.date,
+      amount: tx.amount,
+      payee: tx.payee,
+      new_payee: match.payee,
+      category_id: tx.category_id,
+      new_category_id: match.category_id,
+      rule_name: match.rule.name,
+    });
+  }
+
+  return changes;
+}
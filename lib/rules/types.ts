@@ -0,0 +1,19 @@
+export type PayeeMatchType = 'contains' | 'equals' | 'regex';
+
+// Conditions left null match anything; a rule needs at least one condition
+export interface CategoryRuleDefinition {
+  payee_match_type: PayeeMatchType | null;
+  payee_pattern: string | null;
+  amount_min: string | null;
+  amount_max: string | null;
+  account_id: number | null;
+  category_id: number;
+  rename_payee: string | null;
+}
+
+export interface RuleTarget {
+  account_id: number;
+  payee: string;
+  memo?: string | null; // matched instead of the payee when there is none
+  amount: number;
+}
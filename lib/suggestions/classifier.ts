@@ -0,0 +1,91 @@
+// Multinomial naive Bayes over payee/memo words. Small enough to train on
+// every request from the categorized history, so nothing leaves the server.
+
+export interface CategoryExample {
+  text: string;
+  category_id: number;
+}
+
+export interface CategoryModel {
+  documents: number;
+  vocabularySize: number;
+  classes: {
+    category_id: number;
+    documents: number;
+    tokens: number;
+    counts: Record<string, number>;
+  }[];
+}
+
+export interface CategorySuggestion {
+  category_id: number;
+  confidence: number; // 0..1 posterior of the winning category
+}
+
+// Below this the top category is little better than a guess
+export const MIN_CONFIDENCE = 0.4;
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    // Long digit runs are document numbers (CPF/CNPJ, card, boleto), not words
+    .filter((token) => token.length >= 2 && !/^\d{5,}$/.test(token));
+}
+
+export function trainCategoryModel(examples: CategoryExample[]): CategoryModel {
+  const classes = new Map<number, CategoryModel['classes'][number]>();
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    const tokens = tokenize(example.text);
+    if (tokens.length === 0) continue;
+
+    let entry = classes.get(example.category_id);
+    if (!entry) {
+      entry = { category_id: example.category_id, documents: 0, tokens: 0, counts: {} };
+      classes.set(example.category_id, entry);
+    }
+    entry.documents++;
+    for (const token of tokens) {
+      entry.counts[token] = (entry.counts[token] ?? 0) + 1;
+      entry.tokens++;
+      vocabulary.add(token);
+    }
+  }
+
+  const list = [...classes.values()];
+  return {
+    documents: list.reduce((sum, entry) => sum + entry.documents, 0),
+    vocabularySize: vocabulary.size,
+    classes: list,
+  };
+}
+
+export function suggestCategory(
+  model: CategoryModel,
+  text: string,
+  minConfidence: number = MIN_CONFIDENCE
+): CategorySuggestion | null {
+  const tokens = tokenize(text).filter((token) =>
+    model.classes.some((entry) => token in entry.counts)
+  );
+  if (tokens.length === 0 || model.classes.length === 0) return null;
+
+  const scores = model.classes.map((entry) => {
+    let score = Math.log(entry.documents / model.documents);
+    for (const token of tokens) {
+      // Laplace smoothing keeps unseen word/category pairs from zeroing out
+      score += Math.log(((entry.counts[token] ?? 0) + 1) / (entry.tokens + model.vocabularySize));
+    }
+    return { category_id: entry.category_id, score };
+  });
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+  const confidence = 1 / total;
+
+  return confidence >= minConfidence ? { category_id: best.category_id, confidence } : null;
+}
@@ -2,6 +2,9 @@ import { z } from 'zod';
 
 export const accountSchema = z.object({
   name: z.string().min(1, 'Account name is required').max(100),
+  ofx_bank_id: z.string().max(50).nullable().optional(),
+  ofx_account_id: z.string().max(100).nullable().optional(),
+  ofx_account_type: z.string().max(20).nullable().optional(),
 });
 
 export type AccountInput = z.infer<typeof accountSchema>;
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+export const BACKUP_FORMAT = 'ledger-backup';
+export const BACKUP_VERSION = 1;
+export const MAX_BACKUP_FILE_BYTES = 20 * 1024 * 1024;
+
+const id = z.number().int().positive();
+const decimal = z.string().regex(/^-?\d+(\.\d+)?$/, 'Invalid amount');
+const timestamp = z.string().nullable();
+
+// IDs in a backup are the ones of the database it came from; they only link
+// rows to each other and are remapped on restore
+export const ledgerBackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exported_at: z.string(),
+  accounts: z.array(
+    z.object({
+      id,
+      name: z.string().min(1).max(100),
+      ofx_bank_id: z.string().max(50).nullable(),
+      ofx_account_id: z.string().max(100).nullable(),
+      ofx_account_type: z.string().max(20).nullable(),
+      created_at: timestamp,
+    })
+  ),
+  categories: z.array(
+    z.object({
+      id,
+      name: z.string().min(1).max(100),
+      parent_id: id.nullable(),
+      category_type: z.enum(['income', 'expense']),
+      depth: z.number().int().min(1).max(3),
+      created_at: timestamp,
+    })
+  ),
+  transactions: z.array(
+    z.object({
+      account_id: id,
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date'),
+      payee: z.string().max(200),
+      category_id: id.nullable(),
+      amount: decimal,
+      comment: z.string().nullable(),
+      ofx_fitid: z.string().max(255).nullable(),
+      ofx_memo: z.string().max(500).nullable(),
+      ofx_refnum: z.string().max(255).nullable(),
+      created_at: timestamp,
+      updated_at: timestamp,
+    })
+  ),
+  payee_rules: z.array(
+    z.object({
+      name: z.string().min(1).max(100),
+      bank_id: z.string().max(50).nullable(),
+      match_type: z.enum(['regex', 'prefix']),
+      pattern: z.string().min(1),
+      payee_group: z.number().int(),
+      memo_group: z.number().int().nullable(),
+      position: z.number().int(),
+      enabled: z.boolean(),
+    })
+  ).default([]),
+  category_rules: z.array(
+    z.object({
+      name: z.string().min(1).max(100),
+      payee_match_type: z.enum(['contains', 'equals', 'regex']).nullable(),
+      payee_pattern: z.string().nullable(),
+      amount_min: decimal.nullable(),
+      amount_max: decimal.nullable(),
+      account_id: id.nullable(),
+      category_id: id,
+      rename_payee: z.string().max(200).nullable(),
+      position: z.number().int(),
+      enabled: z.boolean(),
+    })
+  ).default([]),
+  csv_import_profiles: z.array(
+    z.object({
+      name: z.string().min(1).max(100),
+      delimiter: z.string().length(1),
+      has_header: z.boolean(),
+      date_column: z.number().int(),
+      date_format: z.string().max(20),
+      amount_column: z.number().int().nullable(),
+      debit_column: z.number().int().nullable(),
+      credit_column: z.number().int().nullable(),
+      payee_column: z.number().int().nullable(),
+      memo_column: z.number().int().nullable(),
+      decimal_separator: z.string().length(1),
+    })
+  ).default([]),
+  // Queries are list URLs; their account and category IDs are remapped too
+  saved_searches: z.array(
+    z.object({
+      name: z.string().min(1).max(100),
+      query: z.string().max(2000),
+      pinned: z.boolean(),
+    })
+  ).default([]),
+});
+
+export type LedgerBackup = z.infer<typeof ledgerBackupSchema>;
+
+export const restoreModeSchema = z.enum(['empty', 'merge']);
+
+export type RestoreMode = z.infer<typeof restoreModeSchema>;
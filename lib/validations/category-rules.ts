@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { validatePayeeCondition } from '@/lib/rules/category-rules';
+
+const amount = z.string()
+  .regex(/^-?\d+(\.\d{1,2})?$/, 'Invalid amount format')
+  .nullable();
+
+export const categoryRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100),
+  payee_match_type: z.enum(['contains', 'equals', 'regex']).nullable(),
+  payee_pattern: z.string().nullable(),
+  amount_min: amount,
+  amount_max: amount,
+  account_id: z.coerce.number().int().positive().nullable(),
+  category_id: z.coerce.number({ error: 'Category is required' }).int().positive('Category is required'),
+  rename_payee: z.string().max(200).nullable(),
+  enabled: z.boolean(),
+}).superRefine((data, ctx) => {
+  const problem = validatePayeeCondition(data.payee_match_type, data.payee_pattern);
+  if (problem) {
+    ctx.addIssue({ code: 'custom', message: problem, path: ['payee_pattern'] });
+  }
+  if (!data.payee_match_type && data.amount_min === null && data.amount_max === null && data.account_id === null) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Add at least one condition (payee, amount or account)',
+      path: ['payee_match_type'],
+    });
+  }
+  if (
+    data.amount_min !== null &&
+    data.amount_max !== null &&
+    parseFloat(data.amount_min) > parseFloat(data.amount_max)
+  ) {
+    ctx.addIssue({ code: 'custom', message: 'Minimum exceeds maximum', path: ['amount_min'] });
+  }
+});
+
+export type CategoryRuleInput = z.infer<typeof categoryRuleSchema>;
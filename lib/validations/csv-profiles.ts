@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+const columnIndex = z.coerce.number().int().min(0).nullable();
+
+const csvMappingFields = z.object({
+  delimiter: z.string().length(1, 'Delimiter must be a single character'),
+  has_header: z.boolean(),
+  date_column: z.coerce.number().int().min(0, 'Date column is required'),
+  date_format: z.enum(
+    ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY', 'YYYYMMDD'],
+    'Date format is required'
+  ),
+  amount_column: columnIndex,
+  debit_column: columnIndex,
+  credit_column: columnIndex,
+  payee_column: columnIndex,
+  memo_column: columnIndex,
+  decimal_separator: z.enum(['.', ','], 'Decimal separator is required'),
+});
+
+const hasAmountColumn = (data: z.infer<typeof csvMappingFields>) =>
+  data.amount_column !== null || data.debit_column !== null || data.credit_column !== null;
+
+const amountColumnError = {
+  message: 'Select an amount column or debit/credit columns',
+  path: ['amount_column'],
+};
+
+// The column mapping sent with a CSV upload
+export const csvMappingSchema = csvMappingFields.refine(hasAmountColumn, amountColumnError);
+
+export const csvProfileSchema = csvMappingFields
+  .extend({
+    name: z.string().min(1, 'Profile name is required').max(100),
+  })
+  .refine(hasAmountColumn, amountColumnError);
+
+export type CsvProfileInput = z.infer<typeof csvProfileSchema>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { transactionListSchema } from './transactions';
+
+export const EXPORT_LOCALES = [
+  { value: 'en-US', label: 'English (US) - 1,234.56 and MM/DD/YYYY' },
+  { value: 'en-GB', label: 'English (UK) - 1,234.56 and DD/MM/YYYY' },
+  { value: 'pt-BR', label: 'Português (Brasil) - 1.234,56 and DD/MM/YYYY' },
+  { value: 'de-DE', label: 'Deutsch - 1.234,56 and DD.MM.YYYY' },
+  { value: 'fr-FR', label: 'Français - 1 234,56 and DD/MM/YYYY' },
+  { value: 'sv-SE', label: 'ISO - YYYY-MM-DD' },
+];
+
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export const EXPORT_FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'ledger', label: 'Ledger (.ledger)' },
+  { value: 'hledger', label: 'hledger (.journal)' },
+  { value: 'beancount', label: 'Beancount (.beancount)' },
+  { value: 'ofx', label: 'OFX (.ofx)' },
+] as const;
+
+export const JOURNAL_FORMATS = ['ledger', 'hledger', 'beancount'];
+
+// Query string of the export route: the filters of a transaction list, so a
+// filtered view exports what it shows, plus the file options
+export const transactionExportSchema = transactionListSchema
+  .safeExtend({
+    format: z.enum(['csv', 'xlsx', 'ledger', 'hledger', 'beancount', 'ofx']).default('csv'),
+    locale: z.string().max(35).refine(isSupportedLocale, 'Unsupported locale').default('en-US'),
+    // Journals and OFX only; the currency amounts are in
+    commodity: z
+      .string()
+      .regex(/^[A-Z]{3}$/, 'Currency must be a three-letter code like USD')
+      .optional(),
+  })
+  // Balance assertions only hold when every category is in the journal
+  .refine((value) => !JOURNAL_FORMATS.includes(value.format) || value.categoryId === undefined, {
+    message: 'Journals include every category',
+    path: ['categoryId'],
+  })
+  // ...and every transaction in the date range
+  .refine(
+    (value) =>
+      !JOURNAL_FORMATS.includes(value.format)
+      || [value.payee, value.minAmount, value.maxAmount, value.search].every((v) => !v),
+    {
+      message: 'Journals include every transaction in the date range',
+      path: ['format'],
+    }
+  );
+
+export type TransactionExportInput = z.infer<typeof transactionExportSchema>;
+
+// Query string of the statement route; without an account the report
+// consolidates every account
+export const statementExportSchema = z.object({
+  period: z
+    .string()
+    .regex(/^\d{4}(-(0[1-9]|1[0-2]))?$/, 'Period must be a year (YYYY) or a month (YYYY-MM)'),
+  accountId: z.coerce.number().int().positive('Invalid account').optional(),
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { MAX_TRANSACTION_AMOUNT, transactionDateSchema } from './transactions';
+
+export const MAX_STATEMENT_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_PAYEE_LENGTH = 200;
+export const MAX_IMPORT_MEMO_LENGTH = 500;
+
+export const ofxTransactionSchema = z.object({
+  fitid: z.string().min(1, 'Missing FITID').max(255),
+  refnum: z.string().max(255),
+  memo: z.string().max(MAX_IMPORT_MEMO_LENGTH),
+  payee: z.string().max(MAX_IMPORT_PAYEE_LENGTH).nullable(),
+  cleanedMemo: z.string().max(MAX_IMPORT_MEMO_LENGTH),
+  date: transactionDateSchema,
+  amount: z.number('Invalid amount')
+    .min(-MAX_TRANSACTION_AMOUNT, 'Amount must be between -1,000,000.00 and 1,000,000.00')
+    .max(MAX_TRANSACTION_AMOUNT, 'Amount must be between -1,000,000.00 and 1,000,000.00'),
+  type: z.enum(['CREDIT', 'DEBIT']),
+  categoryHint: z.string().max(200).nullable().optional(),
+  categoryId: z.number().int().positive('Invalid category').nullable().optional(),
+  mergeIntoId: z.number().int().positive('Invalid transaction').nullable().optional(),
+  skipRules: z.boolean().optional(),
+});
+
+// What the preview sends back: which rows of which statement in the
+// uploaded file go into which account, the categories picked for them and
+// the hand-entered transactions they should be merged into
+export const statementSelectionSchema = z.array(
+  z.object({
+    statementIndex: z.number().int().min(0),
+    accountId: z.number().int().positive('Account is required'),
+    fitids: z.array(z.string()),
+    categoryIds: z.record(z.string(), z.number().int().positive()).default({}),
+    mergeInto: z.record(z.string(), z.number().int().positive()).default({}),
+  })
+);
+
+export type StatementSelection = z.infer<typeof statementSelectionSchema>[number];
+
+// The rows of an uploaded CSV file picked in the preview
+export const csvSelectionSchema = z.object({
+  accountId: z.number().int().positive('Account is required'),
+  fitids: z.array(z.string()),
+});
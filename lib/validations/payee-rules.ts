@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { validatePayeePattern } from '@/lib/ofx/payee-rules';
+
+export const payeeRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100),
+  bank_id: z.string().max(50).nullable(),
+  match_type: z.enum(['regex', 'prefix'], 'Match type is required'),
+  pattern: z.string().min(1, 'Pattern is required'),
+  payee_group: z.coerce.number().int().min(0),
+  memo_group: z.coerce.number().int().min(0).nullable(),
+  enabled: z.boolean(),
+}).superRefine((data, ctx) => {
+  const problem = validatePayeePattern(data);
+  if (problem) {
+    ctx.addIssue({ code: 'custom', message: problem, path: ['pattern'] });
+  }
+});
+
+export type PayeeRuleInput = z.infer<typeof payeeRuleSchema>;
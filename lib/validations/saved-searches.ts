@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { transactionPageSchema } from './transactions';
+
+// Saved queries keep the filters, sort and page size but always start
+// from the top of the list
+export function normalizeSavedSearchQuery(query: string): string | null {
+  const params = new URLSearchParams(query.replace(/^\?/, ''));
+  params.delete('after');
+  for (const [key, value] of [...params.entries()]) {
+    if (value === '') params.delete(key);
+  }
+  return transactionPageSchema.safeParse(Object.fromEntries(params.entries())).success
+    ? params.toString()
+    : null;
+}
+
+export const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  query: z
+    .string()
+    .max(2000)
+    .transform((query, ctx) => {
+      const normalized = normalizeSavedSearchQuery(query);
+      if (normalized === null) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid search' });
+        return z.NEVER;
+      }
+      return normalized;
+    }),
+  pinned: z.boolean(),
+});
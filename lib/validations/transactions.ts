@@ -1,27 +1,33 @@
 import { z } from 'zod';
+import { TransactionFilters, TransactionSort } from '@/lib/db/types';
+
+// Amount bounds shared by manual entry and statement imports
+export const MAX_TRANSACTION_AMOUNT = 1000000;
+
+export const transactionDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+  .refine(
+    (dateStr) => {
+      // Parse as UTC to avoid timezone issues
+      const [year, month, day] = dateStr.split('-').map(Number);
+      const date = Date.UTC(year, month - 1, day);
+
+      const now = new Date();
+      const todayUTC = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+      const minDateUTC = Date.UTC(now.getFullYear() - 10, 0, 1);
+
+      return !isNaN(date)
+        && date >= minDateUTC
+        && date <= todayUTC;
+    },
+    {
+      message: 'Date must be within last 10 years and not in the future'
+    }
+  );
 
 export const transactionSchema = z.object({
   account_id: z.coerce.number().positive('Account is required'),
-  date: z.string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
-    .refine(
-      (dateStr) => {
-        // Parse as UTC to avoid timezone issues
-        const [year, month, day] = dateStr.split('-').map(Number);
-        const date = Date.UTC(year, month - 1, day);
-
-        const now = new Date();
-        const todayUTC = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
-        const minDateUTC = Date.UTC(now.getFullYear() - 10, 0, 1);
-
-        return !isNaN(date)
-          && date >= minDateUTC
-          && date <= todayUTC;
-      },
-      {
-        message: 'Date must be within last 10 years and not in the future'
-      }
-    ),
+  date: transactionDateSchema,
   payee: z.string().min(1, 'Payee is required').max(200),
   category_id: z.coerce.number().nullable().optional(),
   amount: z.string()
@@ -30,8 +36,8 @@ export const transactionSchema = z.object({
       (amountStr) => {
         const amount = parseFloat(amountStr);
         return !isNaN(amount)
-          && amount >= -1000000
-          && amount <= 1000000;
+          && amount >= -MAX_TRANSACTION_AMOUNT
+          && amount <= MAX_TRANSACTION_AMOUNT;
       },
       {
         message: 'Amount must be between -1,000,000.00 and 1,000,000.00'
@@ -41,3 +47,84 @@ export const transactionSchema = z.object({
 });
 
 export type TransactionInput = z.infer<typeof transactionSchema>;
+
+export const TRANSACTION_PAGE_SIZES = [25, 50, 100, 200];
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 50;
+
+export const TRANSACTION_SORT_COLUMNS = ['date', 'payee', 'account', 'amount'] as const;
+
+const filterDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  .optional();
+
+const filterAmountSchema = z.string()
+  .regex(/^-?\d+(\.\d{1,2})?$/, 'Invalid amount format')
+  .optional();
+
+// Filters and sort of a transaction list, as carried in the URL. "none"
+// picks uncategorized transactions.
+export const transactionListSchema = z.object({
+  accountId: z.coerce.number().int().positive('Invalid account').optional(),
+  categoryId: z
+    .union([z.literal('none'), z.coerce.number().int().positive('Invalid category')])
+    .optional(),
+  startDate: filterDateSchema,
+  endDate: filterDateSchema,
+  payee: z.string().trim().max(200).optional(),
+  minAmount: filterAmountSchema,
+  maxAmount: filterAmountSchema,
+  search: z.string().trim().max(200).optional(),
+  sort: z.enum(TRANSACTION_SORT_COLUMNS).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+})
+  .refine((value) => !value.startDate || !value.endDate || value.startDate <= value.endDate, {
+    message: 'Start date must be before end date',
+    path: ['endDate'],
+  })
+  .refine(
+    (value) =>
+      value.minAmount === undefined
+      || value.maxAmount === undefined
+      || parseFloat(value.minAmount) <= parseFloat(value.maxAmount),
+    {
+      message: 'Minimum amount must not exceed the maximum',
+      path: ['maxAmount'],
+    }
+  );
+
+// Cursors carry the payee or account name of the last row shown. At worst
+// each of its 200 characters is escaped to six bytes of JSON, and base64
+// adds a third on top.
+const MAX_CURSOR_LENGTH = 2000;
+
+// A page of the list; `after` is the cursor of the last row before the page
+export const transactionPageSchema = transactionListSchema.safeExtend({
+  size: z.coerce.number()
+    .refine((size) => TRANSACTION_PAGE_SIZES.includes(size), 'Invalid page size')
+    .default(DEFAULT_TRANSACTION_PAGE_SIZE),
+  after: z.string().max(MAX_CURSOR_LENGTH).optional(),
+});
+
+export type TransactionPageQuery = z.input<typeof transactionPageSchema>;
+
+// The filters and sort of a parsed page query, without its page state
+export type TransactionListQuery = z.infer<typeof transactionListSchema>;
+
+export function transactionFiltersFromQuery(query: TransactionListQuery): TransactionFilters {
+  return {
+    accountId: query.accountId,
+    categoryId: query.categoryId === 'none' ? null : query.categoryId,
+    startDate: query.startDate,
+    endDate: query.endDate,
+    payee: query.payee || undefined,
+    minAmount: query.minAmount,
+    maxAmount: query.maxAmount,
+    search: query.search || undefined,
+  };
+}
+
+// Dates sort newest first unless asked otherwise, everything else A-Z
+export function transactionSortFromQuery(query: TransactionListQuery): TransactionSort {
+  const column = query.sort ?? 'date';
+  return { column, direction: query.order ?? (column === 'date' ? 'desc' : 'asc') };
+}
@@ -1,6 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  experimental: {
+    serverActions: {
+      // Statement uploads are capped at 5 MB (MAX_STATEMENT_FILE_BYTES),
+      // ledger backups at 20 MB (MAX_BACKUP_FILE_BYTES)
+      bodySizeLimit: '21mb',
+    },
+  },
   async headers() {
     return [
       {
@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+import { readFile, writeFile } from 'fs/promises';
+
+import { backupFileName, BackupEncoding, createBackup, encodeBackup } from '@/lib/backup/export';
+import { BackupError, decodeBackup, restoreBackup } from '@/lib/backup/restore';
+import { RestoreMode } from '@/lib/validations/backup';
+
+dotenv.config({ path: '.env.local' });
+
+function usage(): never {
+  console.error('Usage: npm run script:backup -- export [--zip] [--output <file>]');
+  console.error('       npm run script:backup -- restore <file> [--merge]');
+  console.error('');
+  console.error('Options:');
+  console.error('  --zip            Write a zipped archive instead of plain JSON');
+  console.error('  --output <file>  Where the backup goes (default: ledger-backup-<date>.json|zip)');
+  console.error('  --merge          Merge into the existing ledger; without it the ledger must have no transactions');
+  console.error('');
+  console.error('Example: npm run script:backup -- export --zip');
+  console.error('Example: npm run script:backup -- restore ledger-backup-2024-06-30.zip --merge');
+  process.exit(1);
+}
+
+async function runExport(args: string[]) {
+  let encoding: BackupEncoding = 'json';
+  let output: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--zip') encoding = 'zip';
+    else if (args[i] === '--output' && args[i + 1] !== undefined) output = args[++i];
+    else usage();
+  }
+
+  const backup = await createBackup();
+  const file = output ?? backupFileName(encoding);
+  await writeFile(file, encodeBackup(backup, encoding));
+
+  console.log(`Wrote ${file}`);
+  console.log(
+    `  ${backup.accounts.length} accounts, ${backup.categories.length} categories, ` +
+      `${backup.transactions.length} transactions`
+  );
+}
+
+async function runRestore(args: string[]) {
+  let mode: RestoreMode = 'empty';
+  const files: string[] = [];
+
+  for (const arg of args) {
+    if (arg === '--merge') mode = 'merge';
+    else if (arg.startsWith('--')) usage();
+    else files.push(arg);
+  }
+  if (files.length !== 1) usage();
+
+  const backup = decodeBackup(new Uint8Array(await readFile(files[0])));
+  console.log(`Restoring backup from ${backup.exported_at} (${mode === 'merge' ? 'merge' : 'empty ledger'})`);
+
+  const report = await restoreBackup(backup, mode);
+  console.log(`  Accounts:       ${report.accounts.created} created, ${report.accounts.matched} matched`);
+  console.log(`  Categories:     ${report.categories.created} created, ${report.categories.matched} matched`);
+  console.log(`  Transactions:   ${report.transactions.imported} imported, ${report.transactions.skipped} skipped`);
+  console.log(`  Payee rules:    ${report.payeeRules.created} created, ${report.payeeRules.skipped} skipped`);
+  console.log(`  Category rules: ${report.categoryRules.created} created, ${report.categoryRules.skipped} skipped`);
+  console.log(`  CSV profiles:   ${report.csvProfiles.created} created, ${report.csvProfiles.skipped} skipped`);
+  console.log(`  Saved searches: ${report.savedSearches.created} created, ${report.savedSearches.skipped} skipped`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'export') await runExport(args);
+  else if (command === 'restore') await runRestore(args);
+  else usage();
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  if (error instanceof BackupError) console.error(error.message);
+  else console.error('Error running backup:', error);
+  process.exit(1);
+});
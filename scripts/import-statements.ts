@@ -0,0 +1,296 @@
+import dotenv from 'dotenv';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, rename, copyFile, stat, unlink } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+
+import { queryMany, queryOne } from '@/lib/db';
+import { getAllAccounts } from '@/lib/db/accounts';
+import { getAllPayeeRules } from '@/lib/db/payee-rules';
+import { parseStatementFile } from '@/lib/import/statement-file';
+import { importStatements, StatementImport } from '@/lib/import/statements';
+import { findMatchingAccount } from '@/lib/ofx/utils';
+
+dotenv.config({ path: '.env.local' });
+
+const STATEMENT_EXTENSIONS = ['.ofx', '.qfx', '.qif', '.xml', '.sta', '.mt940', '.940'];
+
+interface CliOptions {
+  files: string[];
+  account?: string;
+  dryRun: boolean;
+  allOrNothing: boolean;
+  watch?: string;
+  archive?: string;
+  interval: number;
+}
+
+interface FileSummary {
+  file: string;
+  imported: number;
+  merged: number;
+  skipped: number;
+  errors: string[];
+}
+
+function usage(): never {
+  console.error('Usage: npm run script:import-statements -- [options] <file>...');
+  console.error('       npm run script:import-statements -- --watch <inbox> [--archive <dir>] [options]');
+  console.error('');
+  console.error('Options:');
+  console.error('  --account <name-or-id>  Import into this account instead of matching by bank identifiers');
+  console.error('  --dry-run               Show what would be imported without writing anything');
+  console.error('  --all-or-nothing        Abort a file on its first invalid transaction');
+  console.error('  --watch <inbox>         Keep importing new files dropped into <inbox>');
+  console.error('  --archive <dir>         Where processed files go (default: <inbox>/archive)');
+  console.error('  --interval <seconds>    How often the inbox is checked (default: 5)');
+  console.error('');
+  console.error('Example: npm run script:import-statements -- --account "Checking Account" extrato.ofx');
+  console.error('Example: npm run script:import-statements -- --watch ~/Downloads/statements --dry-run');
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { files: [], dryRun: false, allOrNothing: false, interval: 5 };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) usage();
+      return next;
+    };
+
+    if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--all-or-nothing') options.allOrNothing = true;
+    else if (arg === '--account') options.account = value();
+    else if (arg === '--watch') options.watch = value();
+    else if (arg === '--archive') options.archive = value();
+    else if (arg === '--interval') options.interval = Number(value());
+    else if (arg.startsWith('--')) usage();
+    else options.files.push(arg);
+  }
+
+  if (!options.watch && options.files.length === 0) usage();
+  if (!Number.isFinite(options.interval) || options.interval <= 0) usage();
+  return options;
+}
+
+async function getAccountId(identifier: string): Promise<number | null> {
+  const isNumeric = /^\d+$/.test(identifier);
+
+  if (isNumeric) {
+    const account = await queryOne<{ id: number }>(
+      'SELECT id FROM accounts WHERE id = $1',
+      [parseInt(identifier, 10)]
+    );
+    return account?.id ?? null;
+  }
+
+  // Exact name match, ignoring case only; never guess between accounts
+  const accounts = await queryMany<{ id: number }>(
+    'SELECT id FROM accounts WHERE LOWER(name) = LOWER($1)',
+    [identifier]
+  );
+  if (accounts.length > 1) {
+    throw new Error(`More than one account is named ${identifier}; pass the account ID instead`);
+  }
+  return accounts[0]?.id ?? null;
+}
+
+async function importFile(
+  path: string,
+  options: CliOptions,
+  accountId: number | null
+): Promise<FileSummary> {
+  const file = basename(path);
+  const summary: FileSummary = { file, imported: 0, merged: 0, skipped: 0, errors: [] };
+
+  const [payeeRules, accounts] = await Promise.all([getAllPayeeRules(), getAllAccounts()]);
+  const parsed = await parseStatementFile(await readFile(path), file, { payeeRules });
+  summary.errors.push(...parsed.errors);
+
+  const statements: StatementImport[] = [];
+  for (const statement of parsed.statements) {
+    const target = accountId ?? findMatchingAccount(statement.account, accounts)?.id ?? null;
+    if (target === null) {
+      summary.errors.push(
+        `No account matches ${statement.account.bankId || '?'}/${statement.account.accountId || '?'}; ` +
+          'link it in the app or pass --account'
+      );
+      continue;
+    }
+    statements.push({
+      accountId: target,
+      transactions: statement.transactions,
+      ofxAccount: statement.account,
+      ledgerBalance: statement.ledgerBalance,
+    });
+  }
+
+  // A dry run goes through the real import and rolls it back, so it counts
+  // exactly what an import would do
+  const result = await importStatements(statements, {
+    fileName: file,
+    allOrNothing: options.allOrNothing,
+    dryRun: options.dryRun,
+  });
+
+  summary.imported = result.imported;
+  summary.merged = result.merged;
+  summary.skipped = result.skipped;
+  summary.errors.push(...result.errors);
+  for (const reconciliation of result.reconciliations.filter((r) => r.difference !== 0)) {
+    summary.errors.push(
+      `Balance mismatch on ${reconciliation.asOf}: bank ${reconciliation.bankBalance.toFixed(2)}, ` +
+        `ledger ${reconciliation.ledgerBalance.toFixed(2)}`
+    );
+  }
+  return summary;
+}
+
+function printSummary(summary: FileSummary, dryRun: boolean) {
+  const verb = dryRun ? 'would import' : 'imported';
+  const mark = summary.errors.length > 0 ? '!' : '✓';
+  console.log(
+    `${mark} ${summary.file}: ${verb} ${summary.imported}, skipped ${summary.skipped} duplicates` +
+      (summary.merged > 0 ? `, merged ${summary.merged}` : '')
+  );
+  for (const error of summary.errors) {
+    console.log(`    ${error}`);
+  }
+}
+
+function printTotals(summaries: FileSummary[], dryRun: boolean) {
+  const total = (key: 'imported' | 'skipped' | 'merged') =>
+    summaries.reduce((sum, summary) => sum + summary[key], 0);
+  const failed = summaries.filter((summary) => summary.errors.length > 0).length;
+
+  console.log(
+    `\n${summaries.length} file(s): ${dryRun ? 'would import' : 'imported'} ${total('imported')}, ` +
+      `skipped ${total('skipped')}, merged ${total('merged')}, ${failed} with problems`
+  );
+}
+
+// Falls back to copying when the archive is on another filesystem
+async function moveFile(path: string, directory: string): Promise<void> {
+  await mkdir(directory, { recursive: true });
+  let target = join(directory, basename(path));
+  if (existsSync(target)) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    target = join(directory, `${stamp}-${basename(path)}`);
+  }
+
+  try {
+    await rename(path, target);
+  } catch {
+    await copyFile(path, target);
+    await unlink(path);
+  }
+}
+
+async function runOnce(options: CliOptions, accountId: number | null) {
+  const summaries: FileSummary[] = [];
+
+  for (const path of options.files) {
+    try {
+      summaries.push(await importFile(resolve(path), options, accountId));
+    } catch (error) {
+      summaries.push({ file: basename(path), imported: 0, merged: 0, skipped: 0, errors: [`${error}`] });
+    }
+    printSummary(summaries[summaries.length - 1], options.dryRun);
+  }
+
+  printTotals(summaries, options.dryRun);
+  process.exit(summaries.some((summary) => summary.errors.length > 0) ? 1 : 0);
+}
+
+async function watchInbox(options: CliOptions, accountId: number | null) {
+  const inbox = resolve(options.watch as string);
+  const archive = resolve(options.archive ?? join(inbox, 'archive'));
+  const summaries: FileSummary[] = [];
+  // Sizes from the previous scan; a file is only picked up once its size
+  // stops changing, so downloads still in progress are left alone
+  const sizes = new Map<string, number>();
+  // Dry runs leave files in the inbox, so remember what was already shown
+  const seen = new Set<string>();
+  let scanning = false;
+
+  await mkdir(inbox, { recursive: true });
+  console.log(`Watching ${inbox} (archive: ${archive})${options.dryRun ? ' [dry run]' : ''}`);
+  console.log('Press Ctrl+C to stop.\n');
+
+  const scan = async () => {
+    if (scanning) return;
+    scanning = true;
+
+    try {
+      const entries = await readdir(inbox, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isFile() || !STATEMENT_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+          continue;
+        }
+
+        const path = join(inbox, entry.name);
+        const { size } = await stat(path);
+        if (seen.has(`${entry.name}:${size}`) || sizes.get(entry.name) !== size) {
+          sizes.set(entry.name, size);
+          continue;
+        }
+        sizes.delete(entry.name);
+
+        let summary: FileSummary;
+        try {
+          summary = await importFile(path, options, accountId);
+        } catch (error) {
+          summary = { file: entry.name, imported: 0, merged: 0, skipped: 0, errors: [`${error}`] };
+        }
+        summaries.push(summary);
+        printSummary(summary, options.dryRun);
+
+        if (options.dryRun) {
+          seen.add(`${entry.name}:${size}`);
+        } else {
+          // Files that could not be imported at all are kept apart for a look
+          const failed = summary.errors.length > 0 && summary.imported + summary.skipped === 0;
+          await moveFile(path, failed ? join(archive, 'failed') : archive);
+        }
+      }
+    } catch (error) {
+      console.error('Error scanning inbox:', error);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  const timer = setInterval(scan, options.interval * 1000);
+  await scan();
+
+  process.on('SIGINT', () => {
+    clearInterval(timer);
+    printTotals(summaries, options.dryRun);
+    process.exit(0);
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  let accountId: number | null = null;
+  if (options.account) {
+    accountId = await getAccountId(options.account);
+    if (!accountId) {
+      throw new Error(`Account not found: ${options.account}`);
+    }
+  }
+
+  if (options.watch) {
+    await watchInbox(options, accountId);
+  } else {
+    await runOnce(options, accountId);
+  }
+}
+
+main().catch((error) => {
+  console.error('Error importing statements:', error);
+  process.exit(1);
+});